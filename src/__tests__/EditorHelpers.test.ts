@@ -1,4 +1,10 @@
-import { getLatestRecordingIndex, getLatestSessionId } from '../renderer/components/Editor/Editor';
+import {
+  getEditRange,
+  getInitialScreenshotIndex,
+  getLatestRecordingIndex,
+  getLatestSessionId,
+  getRangeEditBounds,
+} from '../renderer/components/Editor/Editor';
 
 describe('Editor latest selection helpers', () => {
   it('returns null when there are no sessions', () => {
@@ -53,3 +59,79 @@ describe('Editor latest selection helpers', () => {
     expect(getLatestRecordingIndex([])).toBe(0);
   });
 });
+
+describe('Editor initial frame', () => {
+  const screenshots = [
+    { id: '10', time: 0 },
+    { id: '11', time: 5 },
+    { id: '12', time: 20 },
+  ];
+
+  it('opens on the focused recording', () => {
+    expect(
+      getInitialScreenshotIndex(screenshots, { recordingId: 11 }, false),
+    ).toBe(1);
+  });
+
+  it('opens on the first frame at or after the focused time', () => {
+    expect(getInitialScreenshotIndex(screenshots, { time: 6 }, false)).toBe(2);
+    expect(getInitialScreenshotIndex(screenshots, { time: 99 }, true)).toBe(2);
+  });
+
+  it('waits for more pages until the target or the latest frame is known', () => {
+    expect(getInitialScreenshotIndex(screenshots, undefined, false)).toBeNull();
+    expect(
+      getInitialScreenshotIndex(screenshots, { recordingId: 99 }, false),
+    ).toBeNull();
+    expect(
+      getInitialScreenshotIndex(screenshots, { time: 99 }, false),
+    ).toBeNull();
+    expect(getInitialScreenshotIndex(screenshots, undefined, true)).toBe(2);
+    expect(getInitialScreenshotIndex([], undefined, true)).toBe(0);
+  });
+});
+
+describe('Editor range edits', () => {
+  const screenshots = [{ id: '10' }, { id: '11' }, { id: '12' }, { id: '13' }];
+
+  it('uses the selected span, else the current frame', () => {
+    expect(getEditRange([2, 1], 0)).toEqual({ start: 1, end: 2 });
+    expect(getEditRange([], 3)).toEqual({ start: 3, end: 3 });
+  });
+
+  it('trims up to or from the edges of the range', () => {
+    const range = { start: 1, end: 2 };
+    expect(getRangeEditBounds('trimBefore', screenshots, range)).toEqual({
+      fromRecordingId: null,
+      toRecordingId: 10,
+      frameCount: 1,
+    });
+    expect(getRangeEditBounds('trimAfter', screenshots, range)).toEqual({
+      fromRecordingId: 13,
+      toRecordingId: null,
+      frameCount: 1,
+    });
+    expect(getRangeEditBounds('deleteRange', screenshots, range)).toEqual({
+      fromRecordingId: 11,
+      toRecordingId: 12,
+      frameCount: 2,
+    });
+  });
+
+  it('splits at the start of the range', () => {
+    expect(
+      getRangeEditBounds('split', screenshots, { start: 1, end: 1 }),
+    ).toEqual({ fromRecordingId: 11, toRecordingId: null, frameCount: 3 });
+  });
+
+  it('refuses edits that change nothing or leave no frames', () => {
+    const whole = { start: 0, end: 3 };
+    expect(getRangeEditBounds('trimBefore', screenshots, whole)).toBeNull();
+    expect(getRangeEditBounds('trimAfter', screenshots, whole)).toBeNull();
+    expect(getRangeEditBounds('deleteRange', screenshots, whole)).toBeNull();
+    expect(getRangeEditBounds('split', screenshots, whole)).toBeNull();
+    expect(
+      getRangeEditBounds('deleteRange', [], { start: 0, end: 0 }),
+    ).toBeNull();
+  });
+});
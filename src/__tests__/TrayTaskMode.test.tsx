@@ -1,5 +1,11 @@
 import '@testing-library/jest-dom';
-import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import {
+  act,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from '@testing-library/react';
 import Tray from '../renderer/components/Tray';
 import { useTheme } from '../renderer/contexts/ThemeContext';
 
@@ -52,15 +58,10 @@ describe('Tray task mode session typing', () => {
           return Promise.resolve(args[0] === 42 ? mockTask : null);
         case 'create-session':
           return Promise.resolve(777);
-        case 'capture-window':
-          return Promise.resolve({
-            windowName: 'Desktop',
-            timestamp: '2026-02-06T00:00:00.000Z',
-            thumbnail: 'thumb',
-            screenshot: 'shot',
-          });
-        case 'save-recording':
-          return Promise.resolve(9001);
+        case 'start-recording':
+          return Promise.resolve(true);
+        case 'get-capture-status':
+          return Promise.resolve({ state: 'idle', sessionId: null });
         case 'get-current-duration':
           return Promise.resolve(0);
         case 'get-sessions':
@@ -88,7 +89,7 @@ describe('Tray task mode session typing', () => {
     };
   });
 
-  it('creates and saves recordings as tasked when launched from task mode', async () => {
+  it('creates a tasked session and hands capture to the main process', async () => {
     render(<Tray />);
 
     await waitFor(() => {
@@ -102,11 +103,53 @@ describe('Tray task mode session typing', () => {
       expect(invokeMock).toHaveBeenCalledWith('create-session', 'tasked', 42);
     });
 
+    await waitFor(() => {
+      expect(invokeMock).toHaveBeenCalledWith('start-recording', 777, {
+        id: 'screen:0:0',
+        type: 'screen',
+      });
+    });
+    expect(invokeMock).not.toHaveBeenCalledWith(
+      'save-recording',
+      expect.anything(),
+    );
+    expect(
+      await screen.findByRole('button', { name: 'Stop Recording' }),
+    ).toBeInTheDocument();
+  });
+
+  it('stays idle when the main process refuses to start', async () => {
+    const defaultInvoke = invokeMock.getMockImplementation()!;
+    invokeMock.mockImplementation((channel: string, ...args: unknown[]) =>
+      channel === 'start-recording'
+        ? Promise.resolve(false)
+        : defaultInvoke(channel, ...args),
+    );
+    render(<Tray />);
+
+    await waitFor(() => {
+      expect(invokeMock).toHaveBeenCalledWith('get-active-task-id');
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Recording' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Start Recording' }));
+
     await waitFor(() => {
       expect(invokeMock).toHaveBeenCalledWith(
-        'save-recording',
-        expect.objectContaining({ type: 'tasked' }),
+        'start-recording',
+        777,
+        expect.anything(),
       );
     });
+    // Let the refused start settle before checking nothing changed.
+    await act(async () => {
+      await Promise.resolve();
+    });
+    expect(
+      screen.getByRole('button', { name: 'Start Recording' }),
+    ).toBeInTheDocument();
+    expect(
+      screen.queryByRole('button', { name: 'Stop Recording' }),
+    ).not.toBeInTheDocument();
   });
 });
@@ -0,0 +1,71 @@
+import {
+  DEFAULT_AUTO_PAUSE_SETTINGS,
+  isAutoPauseEnabled,
+  isIdle,
+  normalizeAutoPauseSettings,
+} from '../main/autoPause';
+
+describe('normalizeAutoPauseSettings', () => {
+  it('falls back to the defaults for missing or malformed settings', () => {
+    expect(normalizeAutoPauseSettings(null)).toEqual(
+      DEFAULT_AUTO_PAUSE_SETTINGS,
+    );
+    expect(
+      normalizeAutoPauseSettings({
+        pauseOnLock: 'no',
+        idleThresholdMinutes: 'x',
+      }),
+    ).toEqual(DEFAULT_AUTO_PAUSE_SETTINGS);
+  });
+
+  it('keeps explicit choices and clamps the idle threshold', () => {
+    expect(
+      normalizeAutoPauseSettings({
+        pauseOnLock: false,
+        pauseOnSuspend: true,
+        pauseWhenIdle: false,
+        idleThresholdMinutes: 500,
+      }),
+    ).toEqual({
+      pauseOnLock: false,
+      pauseOnSuspend: true,
+      pauseWhenIdle: false,
+      idleThresholdMinutes: 120,
+    });
+    expect(
+      normalizeAutoPauseSettings({ idleThresholdMinutes: 0 })
+        .idleThresholdMinutes,
+    ).toBe(1);
+  });
+});
+
+describe('isAutoPauseEnabled', () => {
+  it('maps each reason to its setting', () => {
+    const settings = {
+      ...DEFAULT_AUTO_PAUSE_SETTINGS,
+      pauseOnLock: false,
+    };
+
+    expect(isAutoPauseEnabled(settings, 'screen_locked')).toBe(false);
+    expect(isAutoPauseEnabled(settings, 'system_suspended')).toBe(true);
+    expect(isAutoPauseEnabled(settings, 'idle')).toBe(true);
+  });
+});
+
+describe('isIdle', () => {
+  it('counts the user as idle once the threshold passes', () => {
+    const settings = {
+      ...DEFAULT_AUTO_PAUSE_SETTINGS,
+      idleThresholdMinutes: 5,
+    };
+
+    expect(isIdle(settings, 299)).toBe(false);
+    expect(isIdle(settings, 300)).toBe(true);
+  });
+
+  it('never reports idle when idle pauses are off', () => {
+    expect(
+      isIdle({ ...DEFAULT_AUTO_PAUSE_SETTINGS, pauseWhenIdle: false }, 10_000),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  CAPTURE_RATE_CONFIG,
+  CaptureRateConfig,
+  CaptureScheduler,
+  DEFAULT_CAPTURE_RATE_SETTINGS,
+  getCaptureIntervalMs,
+  getCaptureRateConfig,
+  normalizeCaptureRateSettings,
+} from '../main/captureScheduler';
+
+const config: CaptureRateConfig = {
+  minIntervalMs: 1000,
+  maxIntervalMs: 8000,
+  idleStepMs: 10000,
+};
+
+describe('getCaptureIntervalMs', () => {
+  it('uses the minimum interval while active', () => {
+    expect(getCaptureIntervalMs(config, 0)).toBe(1000);
+    expect(getCaptureIntervalMs(config, 9999)).toBe(1000);
+  });
+
+  it('doubles per idle step and caps at the maximum', () => {
+    expect(getCaptureIntervalMs(config, 10000)).toBe(2000);
+    expect(getCaptureIntervalMs(config, 25000)).toBe(4000);
+    expect(getCaptureIntervalMs(config, 10 * 60 * 1000)).toBe(8000);
+  });
+});
+
+describe('normalizeCaptureRateSettings', () => {
+  it('defaults to the built-in rates', () => {
+    expect(normalizeCaptureRateSettings(undefined)).toEqual(
+      DEFAULT_CAPTURE_RATE_SETTINGS,
+    );
+    expect(
+      getCaptureRateConfig(DEFAULT_CAPTURE_RATE_SETTINGS, 'tasked'),
+    ).toEqual(CAPTURE_RATE_CONFIG.tasked);
+  });
+
+  it('clamps intervals and keeps the maximum at or above the minimum', () => {
+    expect(
+      normalizeCaptureRateSettings({
+        passive: { minIntervalSeconds: 0, maxIntervalSeconds: 'x' },
+        tasked: { minIntervalSeconds: 20, maxIntervalSeconds: 5 },
+      }),
+    ).toEqual({
+      passive: { minIntervalSeconds: 0.25, maxIntervalSeconds: 8 },
+      tasked: { minIntervalSeconds: 20, maxIntervalSeconds: 20 },
+    });
+  });
+
+  it('applies the saved limits to the scheduler config', () => {
+    const settings = normalizeCaptureRateSettings({
+      passive: { minIntervalSeconds: 2, maxIntervalSeconds: 30 },
+    });
+    expect(getCaptureRateConfig(settings, 'passive')).toEqual({
+      ...CAPTURE_RATE_CONFIG.passive,
+      minIntervalMs: 2000,
+      maxIntervalMs: 30000,
+    });
+  });
+});
+
+describe('CaptureScheduler', () => {
+  let now = 0;
+  const clock = () => now;
+  const advance = (ms: number) => {
+    now += ms;
+    jest.advanceTimersByTime(ms);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    now = 0;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('captures at the minimum interval while the user is active', () => {
+    const onCapture = jest.fn();
+    const scheduler = new CaptureScheduler(onCapture, clock);
+    scheduler.start('passive', config);
+
+    for (let i = 0; i < 5; i += 1) {
+      advance(1000);
+      scheduler.noteActivity();
+    }
+    expect(onCapture).toHaveBeenCalledTimes(5);
+    scheduler.stop();
+  });
+
+  it('backs off when idle and speeds up again on activity', () => {
+    const onCapture = jest.fn();
+    const scheduler = new CaptureScheduler(onCapture, clock);
+    scheduler.start('passive', config);
+
+    advance(60 * 1000);
+    // 10 captures at 1s, then progressively slower: far fewer than 60.
+    expect(onCapture.mock.calls.length).toBeLessThan(25);
+    expect(scheduler.getCurrentIntervalMs()).toBe(8000);
+
+    const before = onCapture.mock.calls.length;
+    scheduler.noteActivity();
+    advance(1000);
+    expect(onCapture.mock.calls.length).toBe(before + 1);
+    scheduler.stop();
+  });
+
+  it('stops capturing once stopped', () => {
+    const onCapture = jest.fn();
+    const scheduler = new CaptureScheduler(onCapture, clock);
+    scheduler.start('tasked', config);
+    scheduler.stop();
+
+    advance(10000);
+    expect(onCapture).not.toHaveBeenCalled();
+    expect(scheduler.isRunning()).toBe(false);
+  });
+});
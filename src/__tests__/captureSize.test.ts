@@ -0,0 +1,90 @@
+import {
+  DEFAULT_CAPTURE_SIZE,
+  DisplayGeometry,
+  getCaptureSize,
+  getNativeDisplaySize,
+  selectCaptureDisplays,
+} from '../main/captureSize';
+
+const laptop: DisplayGeometry = {
+  id: 1,
+  size: { width: 1512, height: 982 },
+  scaleFactor: 2,
+};
+const monitor: DisplayGeometry = {
+  id: 2,
+  size: { width: 3840, height: 2160 },
+  scaleFactor: 1,
+};
+
+describe('getNativeDisplaySize', () => {
+  it('scales DIPs to physical pixels', () => {
+    expect(getNativeDisplaySize(laptop)).toEqual({ width: 3024, height: 1964 });
+    expect(
+      getNativeDisplaySize({
+        ...laptop,
+        size: { width: 1280, height: 800 },
+        scaleFactor: 1.25,
+      }),
+    ).toEqual({ width: 1600, height: 1000 });
+  });
+
+  it('treats a missing scale factor as 1x', () => {
+    expect(getNativeDisplaySize({ ...monitor, scaleFactor: 0 })).toEqual(
+      monitor.size,
+    );
+  });
+});
+
+describe('getCaptureSize', () => {
+  it("captures a screen at its own display's native size", () => {
+    expect(getCaptureSize('screen', [monitor, laptop], '1')).toEqual({
+      width: 3024,
+      height: 1964,
+    });
+  });
+
+  it('falls back to the largest display for windows and unknown screens', () => {
+    expect(getCaptureSize('window', [laptop, monitor], '1')).toEqual(
+      monitor.size,
+    );
+    expect(getCaptureSize('screen', [laptop, monitor], null)).toEqual(
+      monitor.size,
+    );
+    expect(getCaptureSize('screen', [laptop, monitor], '99')).toEqual(
+      monitor.size,
+    );
+  });
+
+  it('uses the default size when no displays are reported', () => {
+    expect(getCaptureSize('screen', [], null)).toEqual(DEFAULT_CAPTURE_SIZE);
+  });
+});
+
+describe('selectCaptureDisplays', () => {
+  const left = { id: 3, bounds: { x: -1920, y: 0 } };
+  const middle = { id: 1, bounds: { x: 0, y: 0 } };
+  const right = { id: 2, bounds: { x: 1512, y: 0 } };
+
+  it('records every display, left to right, when none are chosen', () => {
+    expect(selectCaptureDisplays([middle, right, left], [])).toEqual([
+      left,
+      middle,
+      right,
+    ]);
+  });
+
+  it('records only the chosen displays', () => {
+    expect(selectCaptureDisplays([middle, right, left], ['2', '3'])).toEqual([
+      left,
+      right,
+    ]);
+  });
+
+  it('falls back to every display once the chosen ones are unplugged', () => {
+    expect(selectCaptureDisplays([right, middle], ['7'])).toEqual([
+      middle,
+      right,
+    ]);
+  });
+});
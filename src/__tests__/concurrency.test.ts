@@ -0,0 +1,59 @@
+import runWithConcurrency from '../main/concurrency';
+
+const deferred = () => {
+  let release: () => void = () => {};
+  const promise = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  return { promise, resolve: release };
+};
+
+const flush = () =>
+  new Promise((resolve) => {
+    setTimeout(resolve, 0);
+  });
+
+describe('runWithConcurrency', () => {
+  it('keeps results in input order', async () => {
+    const results = await runWithConcurrency([30, 10, 20], 3, async (ms) => {
+      await new Promise((resolve) => {
+        setTimeout(resolve, ms);
+      });
+      return ms * 2;
+    });
+    expect(results).toEqual([60, 20, 40]);
+  });
+
+  it('never runs more than the limit at once', async () => {
+    let active = 0;
+    let peak = 0;
+    await runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await flush();
+      active -= 1;
+    });
+    expect(peak).toBe(3);
+  });
+
+  it('stops starting new items after a failure', async () => {
+    const started: number[] = [];
+    const gate = deferred();
+
+    const run = runWithConcurrency([0, 1, 2, 3], 2, async (item) => {
+      started.push(item);
+      if (item === 0) throw new Error('boom');
+      await gate.promise;
+      return item;
+    });
+
+    await flush();
+    gate.resolve();
+    await expect(run).rejects.toThrow('boom');
+    expect(started).toEqual([0, 1]);
+  });
+
+  it('handles empty input', async () => {
+    await expect(runWithConcurrency([], 4, async () => 1)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  normalizeClicks,
+  normalizeCursorPoint,
+  readFrameCursor,
+  toCursorButton,
+} from '../main/cursorPosition';
+
+const SECOND_DISPLAY = { x: 1920, y: 0, width: 2560, height: 1440 };
+
+describe('normalizeCursorPoint', () => {
+  it('measures the point from the bounds origin', () => {
+    expect(normalizeCursorPoint({ x: 3200, y: 360 }, SECOND_DISPLAY)).toEqual({
+      x: 0.5,
+      y: 0.25,
+    });
+  });
+
+  it('rounds to four decimals', () => {
+    expect(
+      normalizeCursorPoint({ x: 1, y: 2 }, { x: 0, y: 0, width: 3, height: 3 }),
+    ).toEqual({ x: 0.3333, y: 0.6667 });
+  });
+
+  it('returns null for points outside the bounds', () => {
+    expect(normalizeCursorPoint({ x: 100, y: 100 }, SECOND_DISPLAY)).toBeNull();
+    expect(normalizeCursorPoint({ x: 2000, y: -1 }, SECOND_DISPLAY)).toBeNull();
+  });
+
+  it('returns null for empty bounds', () => {
+    expect(
+      normalizeCursorPoint({ x: 0, y: 0 }, { x: 0, y: 0, width: 0, height: 0 }),
+    ).toBeNull();
+  });
+});
+
+describe('normalizeClicks', () => {
+  it('keeps only clicks inside the bounds', () => {
+    const timestamp = '2026-03-01T10:00:00.000Z';
+
+    expect(
+      normalizeClicks(
+        [
+          { x: 1920, y: 1440, button: 'left', timestamp },
+          { x: 10, y: 10, button: 'right', timestamp },
+        ],
+        SECOND_DISPLAY,
+      ),
+    ).toEqual([{ x: 0, y: 1, button: 'left', timestamp }]);
+  });
+});
+
+describe('toCursorButton', () => {
+  it('names the standard buttons', () => {
+    expect([1, 2, 3, 4, undefined].map(toCursorButton)).toEqual([
+      'left',
+      'right',
+      'middle',
+      'other',
+      'other',
+    ]);
+  });
+});
+
+describe('readFrameCursor', () => {
+  it('reads the stored position and clicks', () => {
+    const clicks = [
+      { x: 0.1, y: 0.2, button: 'left', timestamp: '2026-03-01T10:00:00.000Z' },
+    ];
+
+    expect(
+      readFrameCursor({
+        cursor_x: 0.5,
+        cursor_y: 0.25,
+        cursor_clicks: JSON.stringify(clicks),
+      }),
+    ).toEqual({ cursor: { x: 0.5, y: 0.25 }, clicks });
+  });
+
+  it('treats missing or malformed columns as no cursor', () => {
+    expect(readFrameCursor({ cursor_x: null, cursor_clicks: '{' })).toEqual({
+      cursor: null,
+      clicks: [],
+    });
+  });
+});
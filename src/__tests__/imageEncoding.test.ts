@@ -0,0 +1,65 @@
+import {
+  DEFAULT_IMAGE_ENCODING_SETTINGS,
+  getImageFormat,
+  getImageFormatFromDataUrl,
+  getImageFormatFromMimeType,
+  normalizeImageEncodingSettings,
+} from '../main/imageEncoding';
+
+describe('normalizeImageEncodingSettings', () => {
+  it('falls back to PNG for missing or unknown settings', () => {
+    expect(normalizeImageEncodingSettings(null)).toEqual(
+      DEFAULT_IMAGE_ENCODING_SETTINGS,
+    );
+    expect(normalizeImageEncodingSettings({ format: 'gif' }).format).toBe(
+      'png',
+    );
+  });
+
+  it('only allows lossless WebP, and clamps quality', () => {
+    expect(
+      normalizeImageEncodingSettings({
+        format: 'webp',
+        lossless: true,
+        quality: 140,
+      }),
+    ).toEqual({ format: 'webp', lossless: true, quality: 100 });
+    expect(
+      normalizeImageEncodingSettings({
+        format: 'jpeg',
+        lossless: true,
+        quality: 0,
+      }),
+    ).toEqual({ format: 'jpeg', lossless: false, quality: 1 });
+    expect(normalizeImageEncodingSettings({ format: 'png' }).lossless).toBe(
+      true,
+    );
+  });
+});
+
+describe('getImageFormat', () => {
+  it('prefers the format recorded on the row', () => {
+    expect(getImageFormat('webp', '/tmp/screenshot_001.png')).toBe('webp');
+  });
+
+  it('falls back to the file extension, then PNG', () => {
+    expect(getImageFormat(null, '/tmp/screenshot_001.JPG')).toBe('jpeg');
+    expect(getImageFormat(undefined, '/tmp/screenshot_001.webp')).toBe('webp');
+    expect(getImageFormat(null, '/tmp/screenshot_001')).toBe('png');
+    expect(getImageFormat(null)).toBe('png');
+  });
+});
+
+describe('image MIME types', () => {
+  it('maps content types and data URLs to formats', () => {
+    expect(getImageFormatFromMimeType('image/webp')).toBe('webp');
+    expect(getImageFormatFromMimeType('image/jpeg; charset=binary')).toBe(
+      'jpeg',
+    );
+    expect(getImageFormatFromMimeType('application/octet-stream')).toBeNull();
+    expect(getImageFormatFromDataUrl('data:image/webp;base64,AAAA')).toBe(
+      'webp',
+    );
+    expect(getImageFormatFromDataUrl('not a data url')).toBeNull();
+  });
+});
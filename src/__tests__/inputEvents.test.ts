@@ -0,0 +1,48 @@
+import {
+  describeInputEventCounts,
+  toTimelineInputEvents,
+} from '../shared/inputEvents';
+
+const START = Date.parse('2026-03-01T10:00:00.000Z');
+
+const at = (offsetMs: number) => new Date(START + offsetMs).toISOString();
+
+describe('toTimelineInputEvents', () => {
+  it('measures events from the first frame', () => {
+    expect(
+      toTimelineInputEvents(
+        [
+          { type: 'click', timestamp: at(1500) },
+          { type: 'key', timestamp: at(12_250) },
+        ],
+        START,
+      ),
+    ).toEqual([
+      { time: 1.5, type: 'click' },
+      { time: 12.25, type: 'key' },
+    ]);
+  });
+
+  it('drops events from before the first frame', () => {
+    expect(
+      toTimelineInputEvents([{ type: 'scroll', timestamp: at(-1) }], START),
+    ).toEqual([]);
+  });
+
+  it('returns nothing without a first frame', () => {
+    expect(
+      toTimelineInputEvents([{ type: 'click', timestamp: at(0) }], null),
+    ).toEqual([]);
+  });
+});
+
+describe('describeInputEventCounts', () => {
+  it('lists the non-zero counts', () => {
+    expect(describeInputEventCounts({ click: 1, scroll: 0, key: 14 })).toBe(
+      '1 click, 14 keys',
+    );
+    expect(describeInputEventCounts({ click: 2, scroll: 1, key: 0 })).toBe(
+      '2 clicks, 1 scroll',
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  categorizeKey,
+  DEFAULT_INPUT_RECORDING_SETTINGS,
+  normalizeInputRecordingSettings,
+  toInputEventRow,
+} from '../main/inputRecording';
+
+const TIMESTAMP = '2026-03-01T10:00:00.000Z';
+const ENABLED = { ...DEFAULT_INPUT_RECORDING_SETTINGS, enabled: true };
+
+describe('normalizeInputRecordingSettings', () => {
+  it('is off by default', () => {
+    expect(normalizeInputRecordingSettings(undefined)).toEqual(
+      DEFAULT_INPUT_RECORDING_SETTINGS,
+    );
+    expect(DEFAULT_INPUT_RECORDING_SETTINGS.enabled).toBe(false);
+    expect(DEFAULT_INPUT_RECORDING_SETTINGS.maskTextInput).toBe(true);
+    expect(DEFAULT_INPUT_RECORDING_SETTINGS.captureFrameClicks).toBe(false);
+  });
+
+  it('keeps valid values and replaces malformed ones', () => {
+    expect(
+      normalizeInputRecordingSettings({
+        enabled: true,
+        recordKeys: false,
+        maskTextInput: 'no',
+      }),
+    ).toEqual({
+      ...DEFAULT_INPUT_RECORDING_SETTINGS,
+      enabled: true,
+      recordKeys: false,
+    });
+  });
+});
+
+describe('categorizeKey', () => {
+  it('masks typed characters', () => {
+    expect(categorizeKey('A', [], true)).toEqual({
+      category: 'text',
+      keyName: null,
+    });
+    expect(categorizeKey('Slash', ['shift'], true)).toEqual({
+      category: 'text',
+      keyName: null,
+    });
+  });
+
+  it('names typed characters when masking is off', () => {
+    expect(categorizeKey('A', [], false)).toEqual({
+      category: 'text',
+      keyName: 'A',
+    });
+  });
+
+  it('names keys that do not type text', () => {
+    expect(categorizeKey('Enter', [], true)).toEqual({
+      category: 'enter',
+      keyName: 'Enter',
+    });
+    expect(categorizeKey('Backspace', [], true)?.category).toBe('editing');
+    expect(categorizeKey('ArrowUp', [], true)?.category).toBe('navigation');
+    expect(categorizeKey('F5', [], true)?.category).toBe('function');
+  });
+
+  it('treats Ctrl and Cmd combinations as shortcuts', () => {
+    expect(categorizeKey('C', ['ctrl'], true)).toEqual({
+      category: 'shortcut',
+      keyName: 'C',
+    });
+    expect(categorizeKey('V', ['meta', 'shift'], true)?.category).toBe(
+      'shortcut',
+    );
+  });
+
+  it('keeps AltGr and Option characters masked', () => {
+    expect(categorizeKey('Q', ['ctrl', 'alt'], true)).toEqual({
+      category: 'text',
+      keyName: null,
+    });
+    expect(categorizeKey('E', ['alt'], true)?.keyName).toBeNull();
+  });
+
+  it('skips modifiers on their own', () => {
+    expect(categorizeKey('Shift', ['shift'], true)).toBeNull();
+    expect(categorizeKey('MetaRight', ['meta'], true)).toBeNull();
+  });
+});
+
+describe('toInputEventRow', () => {
+  it('records clicks and scrolls with their position', () => {
+    expect(
+      toInputEventRow(
+        7,
+        { type: 'click', x: 10, y: 20, button: 'left', timestamp: TIMESTAMP },
+        ENABLED,
+      ),
+    ).toMatchObject({
+      session_id: 7,
+      type: 'click',
+      x: 10,
+      y: 20,
+      button: 'left',
+      key_category: null,
+    });
+
+    expect(
+      toInputEventRow(
+        7,
+        { type: 'scroll', x: 1, y: 2, dx: 0, dy: 3, timestamp: TIMESTAMP },
+        ENABLED,
+      ),
+    ).toMatchObject({ type: 'scroll', scroll_dx: 0, scroll_dy: 3 });
+  });
+
+  it('records key categories and modifiers', () => {
+    expect(
+      toInputEventRow(
+        7,
+        { type: 'key', key: 'S', modifiers: ['ctrl'], timestamp: TIMESTAMP },
+        ENABLED,
+      ),
+    ).toMatchObject({
+      type: 'key',
+      key_category: 'shortcut',
+      key_name: 'S',
+      modifiers: 'ctrl',
+      x: null,
+    });
+  });
+
+  it('leaves out input types that are turned off', () => {
+    const settings = {
+      ...ENABLED,
+      recordClicks: false,
+      recordScrolls: false,
+      recordKeys: false,
+    };
+
+    expect(
+      toInputEventRow(
+        7,
+        { type: 'click', x: 0, y: 0, button: 'left', timestamp: TIMESTAMP },
+        settings,
+      ),
+    ).toBeNull();
+    expect(
+      toInputEventRow(
+        7,
+        { type: 'key', key: 'Enter', modifiers: [], timestamp: TIMESTAMP },
+        settings,
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  detectLinuxSession,
+  getLinuxBackendOrder,
+  getLinuxDetectionHint,
+  parseGdbusString,
+  parseGnomeWindows,
+  parseKdotoolGeometry,
+} from '../main/linuxWindowDetection';
+
+describe('detectLinuxSession', () => {
+  it('reads the session type and desktop', () => {
+    expect(
+      detectLinuxSession({
+        XDG_SESSION_TYPE: 'wayland',
+        XDG_CURRENT_DESKTOP: 'ubuntu:GNOME',
+      }),
+    ).toEqual({ type: 'wayland', desktop: 'gnome' });
+    expect(
+      detectLinuxSession({
+        XDG_SESSION_TYPE: 'x11',
+        XDG_CURRENT_DESKTOP: 'KDE',
+      }),
+    ).toEqual({ type: 'x11', desktop: 'kde' });
+  });
+
+  it('falls back to the display variables', () => {
+    expect(detectLinuxSession({ WAYLAND_DISPLAY: 'wayland-0' }).type).toBe(
+      'wayland',
+    );
+    expect(detectLinuxSession({ DISPLAY: ':0' }).type).toBe('x11');
+    expect(detectLinuxSession({})).toEqual({
+      type: 'unknown',
+      desktop: 'other',
+    });
+  });
+});
+
+describe('getLinuxBackendOrder', () => {
+  it('uses X11 tools only under X11', () => {
+    expect(getLinuxBackendOrder({ type: 'x11', desktop: 'gnome' })).toEqual([
+      'xdotool',
+      'wmctrl',
+    ]);
+  });
+
+  it('skips X11 tools under Wayland and tries the desktop first', () => {
+    expect(getLinuxBackendOrder({ type: 'wayland', desktop: 'gnome' })).toEqual(
+      ['gnome-shell', 'kwin'],
+    );
+    expect(getLinuxBackendOrder({ type: 'wayland', desktop: 'kde' })).toEqual([
+      'kwin',
+      'gnome-shell',
+    ]);
+  });
+
+  it('tries everything when the session type is unknown', () => {
+    expect(getLinuxBackendOrder({ type: 'unknown', desktop: 'other' })).toEqual(
+      ['xdotool', 'wmctrl', 'gnome-shell', 'kwin'],
+    );
+  });
+});
+
+describe('parseGdbusString', () => {
+  it('reads and unescapes the first string', () => {
+    expect(parseGdbusString('(\'[{"title": "it\\\'s"}]\',)\n')).toBe(
+      '[{"title": "it\'s"}]',
+    );
+    expect(parseGdbusString("(true, '{}')")).toBe('{}');
+  });
+
+  it('returns null when there is no string', () => {
+    expect(parseGdbusString('(uint32 3,)')).toBeNull();
+  });
+});
+
+describe('parseGnomeWindows', () => {
+  it('picks the focused window from a list', () => {
+    const json = JSON.stringify([
+      { id: 1, focus: false, title: 'Other', pid: 10 },
+      {
+        id: 2,
+        focus: true,
+        title: 'Editor',
+        pid: 20,
+        wm_class: 'code',
+        x: 0,
+        y: 30,
+        width: 800,
+        height: 600,
+      },
+    ]);
+    expect(parseGnomeWindows(json)).toEqual({
+      id: '2',
+      title: 'Editor',
+      pid: 20,
+      wmClass: 'code',
+      bounds: { x: 0, y: 30, width: 800, height: 600 },
+    });
+  });
+
+  it('reads a single window and leaves out what is missing', () => {
+    expect(parseGnomeWindows('{"title":"Terminal","pid":0}')).toEqual({
+      id: null,
+      title: 'Terminal',
+      pid: null,
+      wmClass: null,
+      bounds: undefined,
+    });
+  });
+
+  it('returns null without a focused window or valid JSON', () => {
+    expect(parseGnomeWindows('[{"id":1,"focus":false}]')).toBeNull();
+    expect(parseGnomeWindows('')).toBeNull();
+  });
+});
+
+describe('parseKdotoolGeometry', () => {
+  it('reads position and size', () => {
+    expect(
+      parseKdotoolGeometry(
+        'Window {abc}\n  Position: -10,20\n  Geometry: 1280x720\n',
+      ),
+    ).toEqual({ x: -10, y: 20, width: 1280, height: 720 });
+  });
+
+  it('returns undefined for incomplete output', () => {
+    expect(parseKdotoolGeometry('Position: 0,0')).toBeUndefined();
+  });
+});
+
+describe('getLinuxDetectionHint', () => {
+  it('points at what the desktop needs', () => {
+    expect(getLinuxDetectionHint({ type: 'x11', desktop: 'other' })).toMatch(
+      /xdotool/,
+    );
+    expect(
+      getLinuxDetectionHint({ type: 'wayland', desktop: 'gnome' }),
+    ).toMatch(/Window Calls/);
+    expect(getLinuxDetectionHint({ type: 'wayland', desktop: 'kde' })).toMatch(
+      /kdotool/,
+    );
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  computeDifferenceHash,
+  hammingDistance,
+  isNearDuplicate,
+} from '../main/perceptualHash';
+
+// Build an RGBA bitmap from a per-pixel brightness function.
+const makeBitmap = (
+  width: number,
+  height: number,
+  brightness: (x: number, y: number) => number,
+) => {
+  const bitmap = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const value = brightness(x, y);
+      const offset = (y * width + x) * 4;
+      bitmap.set([value, value, value, 255], offset);
+    }
+  }
+  return bitmap;
+};
+
+const gradient = (x: number) => 255 - x * 4;
+const stripes = (x: number, y: number) => ((x + y) % 16 < 8 ? 255 : 0);
+
+describe('perceptual hash', () => {
+  it('produces a 64-bit hex hash', () => {
+    const hash = computeDifferenceHash(makeBitmap(64, 48, gradient), 64, 48);
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('gives identical images identical hashes', () => {
+    const a = computeDifferenceHash(makeBitmap(64, 48, gradient), 64, 48);
+    const b = computeDifferenceHash(makeBitmap(64, 48, gradient), 64, 48);
+    expect(a).toBe(b);
+    expect(isNearDuplicate(a, b)).toBe(true);
+  });
+
+  it('treats a tiny local change as a near-duplicate', () => {
+    const base = computeDifferenceHash(makeBitmap(64, 48, gradient), 64, 48);
+    const withCaret = computeDifferenceHash(
+      makeBitmap(64, 48, (x, y) => (x === 30 && y === 20 ? 0 : gradient(x))),
+      64,
+      48,
+    );
+    expect(isNearDuplicate(base, withCaret)).toBe(true);
+  });
+
+  it('separates visibly different screens', () => {
+    const a = computeDifferenceHash(makeBitmap(64, 48, gradient), 64, 48);
+    const b = computeDifferenceHash(makeBitmap(64, 48, stripes), 64, 48);
+    expect(isNearDuplicate(a, b)).toBe(false);
+  });
+
+  it('counts differing bits', () => {
+    expect(hammingDistance('00', '00')).toBe(0);
+    expect(hammingDistance('0f', '00')).toBe(4);
+    expect(hammingDistance('ff', '00')).toBe(8);
+  });
+
+  it('never matches missing hashes', () => {
+    expect(isNearDuplicate(null, 'ffffffffffffffff')).toBe(false);
+  });
+
+  it('rejects bitmaps smaller than their stated size', () => {
+    expect(() => computeDifferenceHash(new Uint8Array(4), 2, 2)).toThrow();
+  });
+});
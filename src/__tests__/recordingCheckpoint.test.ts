@@ -0,0 +1,68 @@
+import {
+  getCheckpointDurationSeconds,
+  RecordingCheckpoint,
+  reconstructRecordingDuration,
+} from '../main/recordingCheckpoint';
+
+const START = Date.parse('2026-03-01T10:00:00.000Z');
+
+const checkpoint = (
+  changes: Partial<RecordingCheckpoint> = {},
+): RecordingCheckpoint => ({
+  sessionId: 1,
+  source: { id: 'screen:1:0', type: 'screen' },
+  startedAt: START,
+  pausedAt: null,
+  totalPausedMs: 0,
+  updatedAt: START + 60_000,
+  ...changes,
+});
+
+describe('getCheckpointDurationSeconds', () => {
+  it('excludes time spent paused', () => {
+    expect(
+      getCheckpointDurationSeconds(
+        checkpoint({ totalPausedMs: 20_000 }),
+        START + 90_000,
+      ),
+    ).toBe(70);
+  });
+
+  it('stops counting while paused', () => {
+    expect(
+      getCheckpointDurationSeconds(
+        checkpoint({ pausedAt: START + 30_000 }),
+        START + 90_000,
+      ),
+    ).toBe(30);
+  });
+});
+
+describe('reconstructRecordingDuration', () => {
+  it('ends at the last heartbeat when no later frame was saved', () => {
+    expect(reconstructRecordingDuration(checkpoint(), null)).toBe(60);
+    expect(reconstructRecordingDuration(checkpoint(), START + 45_000)).toBe(60);
+  });
+
+  it('ends at a frame saved after the last heartbeat', () => {
+    expect(reconstructRecordingDuration(checkpoint(), START + 72_000)).toBe(72);
+  });
+
+  it('ignores frames and heartbeats after a pause', () => {
+    expect(
+      reconstructRecordingDuration(
+        checkpoint({ pausedAt: START + 40_000, totalPausedMs: 5_000 }),
+        START + 39_000,
+      ),
+    ).toBe(35);
+  });
+
+  it('never goes negative', () => {
+    expect(
+      reconstructRecordingDuration(
+        checkpoint({ updatedAt: START - 1000 }),
+        null,
+      ),
+    ).toBe(0);
+  });
+});
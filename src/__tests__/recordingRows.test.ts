@@ -0,0 +1,48 @@
+import { buildRemoteRecordingRow } from '../main/recordingRows';
+
+const recording = {
+  timestamp: '2024-01-01 10:00:00',
+  window_name: 'Editor',
+  window_id: 'window:1',
+  type: 'passive' as const,
+};
+
+describe('remote recording rows', () => {
+  it('leaves out redactions for frames that were not redacted', () => {
+    const row = buildRemoteRecordingRow(recording, 'user', 7, 'https://cdn/1');
+
+    expect(row).toEqual({
+      user_id: 'user',
+      session_id: 7,
+      timestamp: '2024-01-01 10:00:00',
+      window_name: 'Editor',
+      window_id: 'window:1',
+      thumbnail_url: 'https://cdn/1',
+      screenshot_url: 'https://cdn/1',
+      type: 'passive',
+      label: null,
+    });
+    expect('redactions' in row).toBe(false);
+    expect(
+      'redactions' in
+        buildRemoteRecordingRow(
+          { ...recording, redactions: '[]' },
+          'user',
+          7,
+          'https://cdn/1',
+        ),
+    ).toBe(false);
+  });
+
+  it('lists what was covered up on redacted frames', () => {
+    const row = buildRemoteRecordingRow(
+      { ...recording, label: 'Login', redactions: '["email","region"]' },
+      'user',
+      7,
+      'https://cdn/1',
+    );
+
+    expect(row.label).toBe('Login');
+    expect(row.redactions).toEqual(['email', 'region']);
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  applyRedactions,
+  DEFAULT_REDACTION_SETTINGS,
+  findSensitiveText,
+  isLikelyCardNumber,
+  normalizeRedactionSettings,
+  OcrWord,
+  parseTesseractTsv,
+  regionsToBoxes,
+} from '../main/redaction';
+
+const word = (text: string, left: number, line = '1:1:1:1'): OcrWord => ({
+  text,
+  left,
+  top: 10,
+  width: 40,
+  height: 12,
+  line,
+});
+
+describe('findSensitiveText', () => {
+  const detectAll = { detectEmails: true, detectCardNumbers: true };
+
+  it('boxes card numbers split across several words', () => {
+    const words = [
+      word('Card:', 0),
+      word('4111', 50),
+      word('1111', 100),
+      word('1111', 150),
+      word('1111', 200),
+    ];
+
+    expect(findSensitiveText(words, detectAll)).toEqual([
+      { kind: 'card_number', x: 46, y: 6, width: 198, height: 20 },
+    ]);
+  });
+
+  it('ignores digit runs that fail the Luhn check', () => {
+    const words = [word('1234567890123456', 0)];
+
+    expect(findSensitiveText(words, detectAll)).toEqual([]);
+    expect(isLikelyCardNumber('1234567890123456')).toBe(false);
+    expect(isLikelyCardNumber('4111-1111-1111-1111')).toBe(true);
+  });
+
+  it('boxes only the word holding an email address', () => {
+    const words = [
+      word('Reply', 0),
+      word('to', 50),
+      word('jane.doe@example.com', 100),
+    ];
+
+    expect(findSensitiveText(words, detectAll)).toEqual([
+      { kind: 'email', x: 96, y: 6, width: 48, height: 20 },
+    ]);
+    expect(
+      findSensitiveText(words, {
+        detectEmails: false,
+        detectCardNumbers: true,
+      }),
+    ).toEqual([]);
+  });
+
+  it('does not join words from different lines', () => {
+    const words = [
+      word('4111 1111', 0, '1:1:1:1'),
+      word('1111 1111', 0, '1:1:1:2'),
+    ];
+
+    expect(findSensitiveText(words, detectAll)).toEqual([]);
+  });
+});
+
+describe('parseTesseractTsv', () => {
+  it('keeps word rows and skips structural ones', () => {
+    const tsv = [
+      'level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext',
+      '4\t1\t1\t1\t1\t0\t10\t20\t300\t15\t-1\t',
+      '5\t1\t1\t1\t1\t1\t10\t20\t60\t15\t96.1\thello',
+      '5\t1\t1\t1\t1\t2\t80\t20\t40\t15\t91.3\t ',
+    ].join('\n');
+
+    expect(parseTesseractTsv(tsv)).toEqual([
+      {
+        text: 'hello',
+        left: 10,
+        top: 20,
+        width: 60,
+        height: 15,
+        line: '1:1:1:1',
+      },
+    ]);
+  });
+});
+
+describe('applyRedactions', () => {
+  const frame = (width: number, height: number) => {
+    const bitmap = new Uint8Array(width * height * 4);
+    for (let i = 0; i < bitmap.length; i += 1) bitmap[i] = (i * 7) % 256;
+    return bitmap;
+  };
+
+  it('blacks out boxes clipped to the frame', () => {
+    const bitmap = frame(4, 4);
+    applyRedactions(
+      bitmap,
+      4,
+      4,
+      [{ kind: 'region', x: 2, y: 2, width: 10, height: 10 }],
+      'black',
+    );
+
+    const pixel = (x: number, y: number) =>
+      Array.from(bitmap.slice((y * 4 + x) * 4, (y * 4 + x) * 4 + 4));
+    expect(pixel(3, 3)).toEqual([0, 0, 0, 255]);
+    expect(pixel(2, 2)).toEqual([0, 0, 0, 255]);
+    expect(pixel(1, 1)).toEqual(Array.from(frame(4, 4).slice(20, 24)));
+  });
+
+  it('replaces blurred boxes with their average colour', () => {
+    const bitmap = new Uint8Array([
+      0, 0, 0, 255, 100, 100, 100, 255, 50, 50, 50, 255, 150, 150, 150, 255,
+    ]);
+    applyRedactions(
+      bitmap,
+      2,
+      2,
+      [{ kind: 'email', x: 0, y: 0, width: 2, height: 2 }],
+      'blur',
+    );
+
+    expect(Array.from(bitmap)).toEqual([
+      75, 75, 75, 255, 75, 75, 75, 255, 75, 75, 75, 255, 75, 75, 75, 255,
+    ]);
+  });
+});
+
+describe('normalizeRedactionSettings', () => {
+  it('falls back to defaults and clamps regions into the frame', () => {
+    expect(normalizeRedactionSettings(null)).toEqual(
+      DEFAULT_REDACTION_SETTINGS,
+    );
+
+    const settings = normalizeRedactionSettings({
+      enabled: true,
+      style: 'sparkles',
+      regions: [
+        { name: 'Dock', x: 0.5, y: 0.9, width: 0.8, height: 0.5 },
+        { x: 0.2, y: 0.2, width: 0, height: 0.1 },
+      ],
+      detectEmails: false,
+    });
+
+    expect(settings).toEqual({
+      enabled: true,
+      style: 'blur',
+      regions: [
+        {
+          id: 'region-1',
+          name: 'Dock',
+          x: 0.5,
+          y: 0.9,
+          width: 0.5,
+          height: expect.closeTo(0.1),
+        },
+      ],
+      detectEmails: false,
+      detectCardNumbers: true,
+    });
+  });
+
+  it('converts regions to pixel boxes', () => {
+    expect(
+      regionsToBoxes(
+        [{ id: 'r', name: '', x: 0.75, y: 0, width: 0.25, height: 0.2 }],
+        1920,
+        1080,
+      ),
+    ).toEqual([{ kind: 'region', x: 1440, y: 0, width: 480, height: 216 }]);
+  });
+});
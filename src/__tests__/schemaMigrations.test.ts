@@ -0,0 +1,53 @@
+import {
+  DatabaseTooNewError,
+  getPendingMigrations,
+  LATEST_SCHEMA_VERSION,
+  SCHEMA_MIGRATIONS,
+  SchemaMigration,
+} from '../main/schemaMigrations';
+
+const noop = () => {};
+
+const migrations: SchemaMigration[] = [
+  { version: 1, name: 'one', up: noop },
+  { version: 2, name: 'two', up: noop },
+  { version: 3, name: 'three', up: noop },
+];
+
+describe('schema migration planning', () => {
+  it('returns every migration for a fresh database', () => {
+    expect(getPendingMigrations(migrations, 0).map((m) => m.version)).toEqual([
+      1, 2, 3,
+    ]);
+  });
+
+  it('returns only migrations newer than the current version', () => {
+    expect(getPendingMigrations(migrations, 2).map((m) => m.name)).toEqual([
+      'three',
+    ]);
+    expect(getPendingMigrations(migrations, 3)).toEqual([]);
+  });
+
+  it('refuses to open a database newer than the app', () => {
+    expect(() => getPendingMigrations(migrations, 4)).toThrow(
+      DatabaseTooNewError,
+    );
+  });
+
+  it('rejects gaps or out-of-order versions', () => {
+    expect(() =>
+      getPendingMigrations(
+        [
+          { version: 1, name: 'one', up: noop },
+          { version: 3, name: 'three', up: noop },
+        ],
+        0,
+      ),
+    ).toThrow('expected 2');
+  });
+
+  it('keeps the shipped migration list contiguous', () => {
+    expect(() => getPendingMigrations(SCHEMA_MIGRATIONS, 0)).not.toThrow();
+    expect(LATEST_SCHEMA_VERSION).toBe(SCHEMA_MIGRATIONS.length);
+  });
+});
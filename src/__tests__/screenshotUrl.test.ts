@@ -0,0 +1,42 @@
+import {
+  decodeDataUrl,
+  getScreenshotUrl,
+  getThumbnailUrl,
+  parseScreenshotUrl,
+} from '../main/screenshotUrl';
+
+describe('screenshot URLs', () => {
+  it('round-trips screenshot and thumbnail URLs', () => {
+    expect(parseScreenshotUrl(getScreenshotUrl(42))).toEqual({
+      kind: 'screenshot',
+      recordingId: 42,
+    });
+    expect(parseScreenshotUrl(getThumbnailUrl(7))).toEqual({
+      kind: 'thumbnail',
+      recordingId: 7,
+    });
+  });
+
+  it('rejects other schemes, hosts and malformed ids', () => {
+    expect(parseScreenshotUrl('file:///screenshot/1')).toBeNull();
+    expect(parseScreenshotUrl('relic://session/1')).toBeNull();
+    expect(parseScreenshotUrl('relic://screenshot/0')).toBeNull();
+    expect(parseScreenshotUrl('relic://screenshot/1.5')).toBeNull();
+    expect(parseScreenshotUrl('not a url')).toBeNull();
+  });
+});
+
+describe('decodeDataUrl', () => {
+  it('decodes base64 data URLs', () => {
+    const decoded = decodeDataUrl('data:image/png;base64,aGVsbG8=');
+    expect(decoded?.mimeType).toBe('image/png');
+    expect(decoded?.data.toString()).toBe('hello');
+  });
+
+  it('returns null for empty or non-data values', () => {
+    expect(decodeDataUrl('')).toBeNull();
+    expect(decodeDataUrl(null)).toBeNull();
+    expect(decodeDataUrl('data:image/png;base64,')).toBeNull();
+    expect(decodeDataUrl('relic://screenshot/1')).toBeNull();
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  DEFAULT_SENSITIVE_RULES,
+  evaluateSensitiveRules,
+  normalizeSensitiveRules,
+  SensitiveRule,
+  validateSensitiveRule,
+} from '../main/sensitiveRules';
+
+const rule = (overrides: Partial<SensitiveRule>): SensitiveRule => ({
+  id: 'rule',
+  enabled: true,
+  list: 'deny',
+  field: 'any',
+  match: 'contains',
+  pattern: '',
+  action: 'pause',
+  ...overrides,
+});
+
+describe('evaluateSensitiveRules', () => {
+  it('keeps the previous keyword behaviour by default', () => {
+    expect(
+      evaluateSensitiveRules(DEFAULT_SENSITIVE_RULES, {
+        title: 'HSBC UK - Online Banking',
+        processName: 'Safari',
+      })?.action,
+    ).toBe('pause');
+    expect(
+      evaluateSensitiveRules(DEFAULT_SENSITIVE_RULES, {
+        title: 'Google Account',
+        processName: 'Chrome',
+      }),
+    ).toBeNull();
+  });
+
+  it('lets allow rules exempt windows that a deny rule matches', () => {
+    const rules = [
+      rule({ id: 'transfer', pattern: 'transfer' }),
+      rule({
+        id: 'internal',
+        list: 'allow',
+        field: 'process',
+        match: 'exact',
+        pattern: 'DataTransferTool',
+      }),
+    ];
+
+    expect(
+      evaluateSensitiveRules(rules, {
+        title: 'Transfer queue',
+        processName: 'datatransfertool',
+      }),
+    ).toBeNull();
+    expect(
+      evaluateSensitiveRules(rules, {
+        title: 'Bank transfer',
+        processName: 'Safari',
+      })?.rule.id,
+    ).toBe('transfer');
+  });
+
+  it('matches exact process names without substring hits', () => {
+    const rules = [
+      rule({ field: 'process', match: 'exact', pattern: 'keepass' }),
+    ];
+
+    expect(
+      evaluateSensitiveRules(rules, { title: '', processName: 'KeePass' }),
+    ).not.toBeNull();
+    expect(
+      evaluateSensitiveRules(rules, { title: '', processName: 'KeePassXC' }),
+    ).toBeNull();
+  });
+
+  it('supports regex rules and ignores invalid patterns', () => {
+    const rules = [
+      rule({
+        id: 'ticket',
+        field: 'title',
+        match: 'regex',
+        pattern: 'HR-\\d+',
+      }),
+      rule({ id: 'broken', match: 'regex', pattern: '(' }),
+    ];
+
+    expect(
+      evaluateSensitiveRules(rules, { title: 'HR-1234 salary review' })?.rule
+        .id,
+    ).toBe('ticket');
+    expect(evaluateSensitiveRules(rules, { title: 'HR-team' })).toBeNull();
+  });
+
+  it('picks the most severe action when several deny rules match', () => {
+    const rules = [
+      rule({ id: 'skip', pattern: 'wiki', action: 'skip' }),
+      rule({ id: 'blur', pattern: 'payroll', action: 'blur' }),
+    ];
+
+    expect(
+      evaluateSensitiveRules(rules, { title: 'Payroll - Wiki' })?.action,
+    ).toBe('blur');
+  });
+
+  it('ignores disabled rules', () => {
+    expect(
+      evaluateSensitiveRules([rule({ pattern: 'bank', enabled: false })], {
+        title: 'Bank',
+      }),
+    ).toBeNull();
+  });
+
+  it('matches browser URLs with rules on any field', () => {
+    const window = {
+      title: 'Dashboard',
+      processName: 'Google Chrome',
+      url: 'https://secure.examplebank.com/dashboard',
+    };
+
+    expect(
+      evaluateSensitiveRules([rule({ pattern: 'examplebank' })], window)
+        ?.action,
+    ).toBe('pause');
+    expect(
+      evaluateSensitiveRules(
+        [rule({ pattern: 'examplebank', field: 'title' })],
+        window,
+      ),
+    ).toBeNull();
+  });
+});
+
+describe('validateSensitiveRule', () => {
+  it('rejects empty patterns and invalid regexes', () => {
+    expect(validateSensitiveRule(rule({ pattern: '  ' }))).not.toBeNull();
+    expect(
+      validateSensitiveRule(rule({ match: 'regex', pattern: '[' })),
+    ).not.toBeNull();
+    expect(validateSensitiveRule(rule({ pattern: 'bank' }))).toBeNull();
+  });
+});
+
+describe('normalizeSensitiveRules', () => {
+  it('fills in defaults and drops malformed entries', () => {
+    const rules = normalizeSensitiveRules([
+      { pattern: 'bank', action: 'explode' },
+      { id: 'x' },
+      null,
+    ]);
+
+    expect(rules).toEqual([
+      {
+        id: 'rule-1',
+        enabled: true,
+        list: 'deny',
+        field: 'any',
+        match: 'contains',
+        pattern: 'bank',
+        action: 'pause',
+      },
+    ]);
+    expect(normalizeSensitiveRules('nope')).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  buildPauseSegments,
+  SessionEvent,
+  toTimelinePauses,
+} from '../shared/sessionEvents';
+
+const START = Date.parse('2026-03-01T10:00:00.000Z');
+
+const event = (
+  type: SessionEvent['type'],
+  offsetSeconds: number,
+  reason: SessionEvent['reason'] = null,
+): SessionEvent => ({
+  session_id: 1,
+  type,
+  reason,
+  created_at: new Date(START + offsetSeconds * 1000).toISOString(),
+});
+
+describe('buildPauseSegments', () => {
+  it('pairs each pause with the event that ended it', () => {
+    const segments = buildPauseSegments([
+      event('start', 0),
+      event('pause', 60, 'manual'),
+      event('resume', 660),
+      event('pause', 700, 'sensitive_content'),
+      event('stop', 730),
+    ]);
+
+    expect(segments).toEqual([
+      {
+        startedAt: event('pause', 60).created_at,
+        endedAt: event('resume', 660).created_at,
+        durationSeconds: 600,
+        reason: 'manual',
+      },
+      {
+        startedAt: event('pause', 700).created_at,
+        endedAt: event('stop', 730).created_at,
+        durationSeconds: 30,
+        reason: 'sensitive_content',
+      },
+    ]);
+  });
+
+  it('keeps the first reason when pausing while already paused', () => {
+    const segments = buildPauseSegments([
+      event('pause', 10, 'sensitive_content'),
+      event('pause', 20, 'manual'),
+      event('resume', 40),
+    ]);
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({
+      durationSeconds: 30,
+      reason: 'sensitive_content',
+    });
+  });
+
+  it('sorts events by time before pairing them', () => {
+    const segments = buildPauseSegments([
+      event('resume', 90, 'recovered'),
+      event('pause', 30, 'interrupted'),
+    ]);
+
+    expect(segments).toEqual([
+      expect.objectContaining({ durationSeconds: 60, reason: 'interrupted' }),
+    ]);
+  });
+
+  it('leaves a pause that was never resumed open', () => {
+    expect(buildPauseSegments([event('pause', 30, 'manual')])).toEqual([
+      {
+        startedAt: event('pause', 30).created_at,
+        endedAt: null,
+        durationSeconds: null,
+        reason: 'manual',
+      },
+    ]);
+  });
+});
+
+describe('toTimelinePauses', () => {
+  it('measures pauses from the first frame', () => {
+    const segments = buildPauseSegments([
+      event('pause', 60, 'manual'),
+      event('resume', 120),
+    ]);
+
+    expect(toTimelinePauses(segments, START + 10_000)).toEqual([
+      { start: 50, end: 110, durationSeconds: 60, reason: 'manual' },
+    ]);
+  });
+
+  it('drops pauses that ended before the first frame', () => {
+    const segments = buildPauseSegments([
+      event('pause', 0, 'manual'),
+      event('resume', 5),
+    ]);
+
+    expect(toTimelinePauses(segments, START + 10_000)).toEqual([]);
+  });
+
+  it('returns nothing without a first frame', () => {
+    const segments = buildPauseSegments([event('pause', 0, 'manual')]);
+
+    expect(toTimelinePauses(segments, null)).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  clipComment,
+  getRecordedSeconds,
+  getRemovedStretch,
+  isCommentWithin,
+  toTimelineSeconds,
+} from '../main/sessionRange';
+
+const comment = (startTime: number, endTime: number) => ({
+  id: 1,
+  comment: 'note',
+  start_time: startTime,
+  end_time: endTime,
+});
+
+describe('toTimelineSeconds', () => {
+  it('measures whole seconds from the first frame', () => {
+    expect(
+      toTimelineSeconds('2026-03-01T10:01:05.900Z', '2026-03-01T10:00:00.000Z'),
+    ).toBe(65);
+  });
+
+  it('falls back to zero for unreadable timestamps', () => {
+    expect(toTimelineSeconds('nope', '2026-03-01T10:00:00.000Z')).toBe(0);
+  });
+});
+
+describe('clipComment', () => {
+  it('keeps the overlapping part, measured from the start of the range', () => {
+    expect(clipComment(comment(5, 30), 10, 20)).toEqual(comment(0, 10));
+    expect(clipComment(comment(12, 15), 10, Infinity)).toEqual(comment(2, 5));
+  });
+
+  it('drops comments outside the range', () => {
+    expect(clipComment(comment(20, 25), 0, 20)).toBeNull();
+    expect(clipComment(comment(0, 5), 10, Infinity)).toBeNull();
+  });
+
+  it('drops comments that end where the range starts', () => {
+    expect(clipComment(comment(5, 10), 10, Infinity)).toBeNull();
+    expect(clipComment(comment(10, 10), 10, Infinity)).toEqual(comment(0, 0));
+  });
+});
+
+describe('isCommentWithin', () => {
+  it('is true only for comments entirely inside the range', () => {
+    expect(isCommentWithin(comment(10, 20), 10, 20)).toBe(true);
+    expect(isCommentWithin(comment(5, 20), 10, 20)).toBe(false);
+    expect(isCommentWithin(comment(10, 25), 10, 20)).toBe(false);
+  });
+});
+
+describe('getRecordedSeconds', () => {
+  const from = '2026-03-01T10:00:00.000Z';
+  const to = '2026-03-01T10:10:00.000Z';
+
+  it('subtracts the paused part of the stretch', () => {
+    expect(
+      getRecordedSeconds(from, to, [
+        {
+          startedAt: '2026-03-01T09:59:00.000Z',
+          endedAt: '2026-03-01T10:01:00.000Z',
+          durationSeconds: 120,
+          reason: 'manual',
+        },
+        {
+          startedAt: '2026-03-01T10:05:00.000Z',
+          endedAt: '2026-03-01T10:06:00.000Z',
+          durationSeconds: 60,
+          reason: 'idle',
+        },
+      ]),
+    ).toBe(480);
+  });
+
+  it('runs a pause that never ended to the end of the stretch', () => {
+    expect(
+      getRecordedSeconds(from, to, [
+        {
+          startedAt: '2026-03-01T10:08:00.000Z',
+          endedAt: null,
+          durationSeconds: null,
+          reason: 'interrupted',
+        },
+      ]),
+    ).toBe(480);
+  });
+
+  it('is zero for an empty or reversed stretch', () => {
+    expect(getRecordedSeconds(to, from, [])).toBe(0);
+  });
+});
+
+describe('getRemovedStretch', () => {
+  const frames = [
+    { timestamp: '2026-03-01T10:00:00.000Z' },
+    { timestamp: '2026-03-01T10:01:00.000Z' },
+    { timestamp: '2026-03-01T10:02:00.000Z' },
+    { timestamp: '2026-03-01T10:03:00.000Z' },
+  ];
+  const removedSeconds = (fromIndex: number, toIndex: number) => {
+    const { from, to } = getRemovedStretch(
+      frames[fromIndex - 1] ?? null,
+      frames[fromIndex],
+      frames[toIndex],
+      frames[toIndex + 1] ?? null,
+    );
+    return getRecordedSeconds(from, to, []);
+  };
+
+  it('runs a head or middle range up to the next kept frame', () => {
+    expect(removedSeconds(0, 1)).toBe(120);
+    expect(removedSeconds(1, 1)).toBe(60);
+  });
+
+  it('runs a tail range back to the last kept frame', () => {
+    expect(removedSeconds(2, 3)).toBe(120);
+  });
+});
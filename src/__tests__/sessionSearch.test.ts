@@ -0,0 +1,101 @@
+import {
+  buildFtsQuery,
+  groupSearchMatches,
+  SearchMatchRow,
+} from '../main/sessionSearch';
+
+const recordingRow = (
+  sessionId: number,
+  recordingId: number,
+  windowName: string,
+  label: string | null = null,
+): SearchMatchRow => ({
+  kind: 'recording',
+  session_id: sessionId,
+  session_created_at: `2026-03-0${sessionId}T10:00:00.000Z`,
+  approval_state: 'draft',
+  recording_id: recordingId,
+  comment_id: null,
+  timestamp: `2026-03-0${sessionId}T10:00:${String(recordingId).padStart(2, '0')}.000Z`,
+  start_time: null,
+  window_name: windowName,
+  label,
+  comment: null,
+});
+
+const commentRow = (
+  sessionId: number,
+  commentId: number,
+  comment: string,
+): SearchMatchRow => ({
+  kind: 'comment',
+  session_id: sessionId,
+  session_created_at: `2026-03-0${sessionId}T10:00:00.000Z`,
+  approval_state: 'submitted',
+  recording_id: null,
+  comment_id: commentId,
+  timestamp: null,
+  start_time: 42,
+  window_name: null,
+  label: null,
+  comment,
+});
+
+describe('buildFtsQuery', () => {
+  it('requires every word and prefix-matches each one', () => {
+    expect(buildFtsQuery('  fig   design ')).toBe('"fig"* "design"*');
+  });
+
+  it('neutralises FTS5 syntax in user input', () => {
+    expect(buildFtsQuery('"NEAR(a b)" OR -c')).toBe(
+      '"NEAR(a"* "b)"* "OR"* "-c"*',
+    );
+  });
+
+  it('returns null for blank input', () => {
+    expect(buildFtsQuery('')).toBeNull();
+    expect(buildFtsQuery(' "" ')).toBeNull();
+  });
+});
+
+describe('groupSearchMatches', () => {
+  it('groups rows by session in rank order', () => {
+    const results = groupSearchMatches([
+      recordingRow(2, 5, 'Figma - Logo'),
+      commentRow(1, 3, 'moved the figma frames'),
+      recordingRow(2, 9, 'Slack', 'Figma handoff'),
+    ]);
+
+    expect(results.map((result) => result.sessionId)).toEqual([2, 1]);
+    expect(results[0].matches.map((match) => match.recordingId)).toEqual([
+      5, 9,
+    ]);
+    expect(results[1]).toMatchObject({
+      approvalState: 'submitted',
+      matches: [{ kind: 'comment', commentId: 3, startTime: 42 }],
+    });
+  });
+
+  it('keeps only the first frame of a repeated window', () => {
+    const results = groupSearchMatches([
+      recordingRow(1, 1, 'Figma - Logo'),
+      recordingRow(1, 2, 'Figma - Logo'),
+      recordingRow(1, 3, 'Figma - Logo', 'export'),
+    ]);
+
+    expect(results[0].matches.map((match) => match.recordingId)).toEqual([
+      1, 3,
+    ]);
+  });
+
+  it('caps sessions and matches per session', () => {
+    const rows = [1, 2, 3].flatMap((sessionId) =>
+      [1, 2, 3].map((n) => recordingRow(sessionId, n, `Window ${n}`)),
+    );
+
+    const results = groupSearchMatches(rows, 2, 2);
+
+    expect(results.map((result) => result.sessionId)).toEqual([1, 2]);
+    expect(results.every((result) => result.matches.length === 2)).toBe(true);
+  });
+});
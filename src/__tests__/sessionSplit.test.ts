@@ -0,0 +1,96 @@
+import {
+  DEFAULT_SESSION_SPLIT_SETTINGS,
+  getSessionSplitReason,
+  normalizeSessionSplitSettings,
+  SessionSplitSettings,
+  SessionSplitState,
+} from '../main/sessionSplit';
+
+// Local time, so the day boundary is the machine's own midnight.
+const MORNING = new Date(2026, 2, 1, 9, 0, 0).getTime();
+
+const settings = (
+  changes: Partial<SessionSplitSettings> = {},
+): SessionSplitSettings => ({
+  splitOnInactivity: true,
+  inactivityMinutes: 30,
+  splitAtMidnight: true,
+  splitOnMaxDuration: true,
+  maxDurationMinutes: 120,
+  ...changes,
+});
+
+const state = (
+  changes: Partial<SessionSplitState> = {},
+): SessionSplitState => ({
+  sessionStartedAt: MORNING,
+  recordedSeconds: 600,
+  endedIdleSeconds: 0,
+  now: MORNING + 600_000,
+  ...changes,
+});
+
+describe('normalizeSessionSplitSettings', () => {
+  it('falls back to the defaults for missing or malformed settings', () => {
+    expect(normalizeSessionSplitSettings(undefined)).toEqual(
+      DEFAULT_SESSION_SPLIT_SETTINGS,
+    );
+    expect(
+      normalizeSessionSplitSettings({
+        splitAtMidnight: 1,
+        inactivityMinutes: 'x',
+      }),
+    ).toEqual(DEFAULT_SESSION_SPLIT_SETTINGS);
+  });
+
+  it('clamps minutes to between five minutes and a day', () => {
+    const normalized = normalizeSessionSplitSettings({
+      inactivityMinutes: 1,
+      maxDurationMinutes: 10_000,
+    });
+
+    expect(normalized.inactivityMinutes).toBe(5);
+    expect(normalized.maxDurationMinutes).toBe(24 * 60);
+  });
+});
+
+describe('getSessionSplitReason', () => {
+  it('keeps recording into the same session by default', () => {
+    expect(getSessionSplitReason(settings(), state())).toBeNull();
+  });
+
+  it('splits once the user returns from a long stretch away', () => {
+    expect(
+      getSessionSplitReason(settings(), state({ endedIdleSeconds: 1799 })),
+    ).toBeNull();
+    expect(
+      getSessionSplitReason(settings(), state({ endedIdleSeconds: 1800 })),
+    ).toBe('inactivity');
+  });
+
+  it('splits when the recording crosses midnight', () => {
+    const nextMorning = new Date(2026, 2, 2, 0, 0, 5).getTime();
+
+    expect(getSessionSplitReason(settings(), state({ now: nextMorning }))).toBe(
+      'day_boundary',
+    );
+    expect(
+      getSessionSplitReason(
+        settings({ splitAtMidnight: false }),
+        state({ now: nextMorning }),
+      ),
+    ).toBeNull();
+  });
+
+  it('splits at the maximum recorded duration', () => {
+    expect(
+      getSessionSplitReason(settings(), state({ recordedSeconds: 7200 })),
+    ).toBe('max_duration');
+    expect(
+      getSessionSplitReason(
+        settings({ splitOnMaxDuration: false }),
+        state({ recordedSeconds: 7200 }),
+      ),
+    ).toBeNull();
+  });
+});
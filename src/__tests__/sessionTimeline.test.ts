@@ -31,4 +31,18 @@ describe('sessionTimeline helpers', () => {
     expect(timeline.map((entry) => entry.time)).toEqual([0, 1, 2]);
     expect(getLatestTimelineTimeSeconds(recordings)).toBe(2);
   });
+
+  it('measures later pages from the session origin', () => {
+    const page = [
+      { id: 4, timestamp: '2026-02-06T10:01:00.000Z' },
+      { id: 5, timestamp: 'not-a-date' },
+    ];
+
+    const timeline = buildTimestampTimeline(page, {
+      firstTimestamp: Date.parse('2026-02-06T10:00:00.000Z'),
+      startIndex: 500,
+    });
+
+    expect(timeline.map((entry) => entry.time)).toEqual([60, 501]);
+  });
 });
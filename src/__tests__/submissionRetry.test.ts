@@ -0,0 +1,74 @@
+import {
+  getNextDrainDelayMs,
+  getSubmissionRetryDelayMs,
+  getWaitingAttemptTimes,
+  SUBMISSION_RETRY_BASE_DELAY_MS,
+  SUBMISSION_RETRY_MAX_DELAY_MS,
+} from '../main/submissionRetry';
+
+describe('submission retry backoff', () => {
+  it('doubles the delay after each failure', () => {
+    expect(getSubmissionRetryDelayMs(1)).toBe(SUBMISSION_RETRY_BASE_DELAY_MS);
+    expect(getSubmissionRetryDelayMs(2)).toBe(
+      SUBMISSION_RETRY_BASE_DELAY_MS * 2,
+    );
+    expect(getSubmissionRetryDelayMs(4)).toBe(
+      SUBMISSION_RETRY_BASE_DELAY_MS * 8,
+    );
+  });
+
+  it('caps the delay', () => {
+    expect(getSubmissionRetryDelayMs(50)).toBe(SUBMISSION_RETRY_MAX_DELAY_MS);
+  });
+
+  it('sleeps until the earliest queued attempt', () => {
+    const now = Date.parse('2024-01-01T00:00:00.000Z');
+    expect(
+      getNextDrainDelayMs(
+        ['2024-01-01T00:01:00.000Z', '2024-01-01T00:00:30.000Z'],
+        now,
+      ),
+    ).toBe(30 * 1000);
+  });
+
+  it('drains overdue attempts immediately and idles when empty', () => {
+    const now = Date.parse('2024-01-01T00:00:00.000Z');
+    expect(getNextDrainDelayMs(['2023-12-31T23:59:00.000Z'], now)).toBe(0);
+    expect(getNextDrainDelayMs([], now)).toBeNull();
+  });
+
+  it('does not wake for a session that is already uploading', () => {
+    const now = Date.parse('2024-01-01T00:00:00.000Z');
+    const entries = [
+      // Claimed by a manual submit, so still queued and past due.
+      {
+        user_id: 'user-1',
+        session_id: 1,
+        next_attempt_at: '2023-12-31T23:59:00.000Z',
+      },
+      {
+        user_id: 'user-1',
+        session_id: 2,
+        next_attempt_at: '2024-01-01T00:00:30.000Z',
+      },
+      {
+        user_id: 'user-2',
+        session_id: 3,
+        next_attempt_at: '2023-12-31T23:58:00.000Z',
+      },
+    ];
+
+    expect(
+      getNextDrainDelayMs(
+        getWaitingAttemptTimes(entries, 'user-1', new Set([1])),
+        now,
+      ),
+    ).toBe(30 * 1000);
+    expect(
+      getNextDrainDelayMs(
+        getWaitingAttemptTimes(entries.slice(0, 1), 'user-1', new Set([1])),
+        now,
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  findFirstIndexAtOrAfter,
+  findLastIndexAtOrBefore,
+  getAnchoredScrollLeft,
+  getVisibleTimelineRange,
+} from '../renderer/components/Editor/timelineWindow';
+
+describe('getVisibleTimelineRange', () => {
+  it('covers the viewport plus overscan on each side', () => {
+    expect(getVisibleTimelineRange(1000, 500, 100, 10000, 2)).toEqual({
+      start: 8,
+      end: 17,
+    });
+  });
+
+  it('clamps to the ends of the timeline', () => {
+    expect(getVisibleTimelineRange(0, 500, 100, 3, 10)).toEqual({
+      start: 0,
+      end: 3,
+    });
+    expect(getVisibleTimelineRange(-50, 100, 10, 100, 0)).toEqual({
+      start: 0,
+      end: 10,
+    });
+  });
+
+  it('renders nothing for an empty timeline', () => {
+    expect(getVisibleTimelineRange(0, 500, 100, 0)).toEqual({
+      start: 0,
+      end: 0,
+    });
+    expect(getVisibleTimelineRange(0, 500, 0, 10)).toEqual({
+      start: 0,
+      end: 0,
+    });
+  });
+});
+
+describe('timeline binary search', () => {
+  const times = [0, 5, 5, 10, 20];
+  const getTime = (index: number) => times[index];
+
+  it('finds the first index at or after a time', () => {
+    expect(findFirstIndexAtOrAfter(times.length, getTime, 5)).toBe(1);
+    expect(findFirstIndexAtOrAfter(times.length, getTime, 6)).toBe(3);
+    expect(findFirstIndexAtOrAfter(times.length, getTime, -1)).toBe(0);
+    expect(findFirstIndexAtOrAfter(times.length, getTime, 21)).toBe(5);
+  });
+
+  it('finds the last index at or before a time', () => {
+    expect(findLastIndexAtOrBefore(times.length, getTime, 5)).toBe(2);
+    expect(findLastIndexAtOrBefore(times.length, getTime, 19)).toBe(3);
+    expect(findLastIndexAtOrBefore(times.length, getTime, 25)).toBe(4);
+    expect(findLastIndexAtOrBefore(times.length, getTime, -1)).toBe(-1);
+  });
+});
+
+describe('getAnchoredScrollLeft', () => {
+  it('keeps the frame under the anchor in place when zooming', () => {
+    // Frame 15 sits 100px into the viewport at 20px per frame.
+    expect(getAnchoredScrollLeft(200, 100, 20, 40)).toBe(500);
+    expect(getAnchoredScrollLeft(500, 100, 40, 20)).toBe(200);
+  });
+
+  it('never scrolls before the start', () => {
+    expect(getAnchoredScrollLeft(0, 300, 40, 10)).toBe(0);
+    expect(getAnchoredScrollLeft(120, 0, 0, 10)).toBe(120);
+  });
+});
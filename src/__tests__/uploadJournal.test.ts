@@ -0,0 +1,67 @@
+import {
+  buildScreenshotStoragePath,
+  isStorageConflictError,
+  JournalUploadEntry,
+  planJournalUploads,
+} from '../main/uploadJournal';
+
+const entry = (
+  recordingId: number,
+  status: JournalUploadEntry['status'],
+): JournalUploadEntry => ({
+  recording_id: recordingId,
+  storage_path: buildScreenshotStoragePath('user', 7, recordingId),
+  status,
+  url: status === 'uploaded' ? `https://cdn/${recordingId}.png` : null,
+});
+
+describe('upload journal planning', () => {
+  it('uploads everything when there is no journal', () => {
+    const plan = planJournalUploads([1, 2, 3], []);
+    expect(plan.toUpload).toEqual([1, 2, 3]);
+    expect(plan.alreadyUploaded.size).toBe(0);
+    expect(plan.orphaned).toEqual([]);
+  });
+
+  it('resumes after the last uploaded screenshot', () => {
+    const plan = planJournalUploads(
+      [1, 2, 3],
+      [entry(1, 'uploaded'), entry(2, 'pending')],
+    );
+    expect(plan.toUpload).toEqual([2, 3]);
+    expect(plan.alreadyUploaded.get(1)).toBe('https://cdn/1.png');
+  });
+
+  it('reports entries for recordings deleted since the last attempt', () => {
+    const plan = planJournalUploads(
+      [2],
+      [entry(1, 'uploaded'), entry(2, 'uploaded'), entry(3, 'pending')],
+    );
+    expect(plan.toUpload).toEqual([]);
+    expect(plan.orphaned.map((e) => e.recording_id)).toEqual([1, 3]);
+  });
+
+  it('builds storage paths under the user and remote session', () => {
+    expect(buildScreenshotStoragePath('abc', 42, 9)).toBe(
+      'abc/42/screenshot_9.png',
+    );
+  });
+
+  it('names uploads after the format the screenshot was saved in', () => {
+    expect(buildScreenshotStoragePath('abc', 42, 9, 'webp')).toBe(
+      'abc/42/screenshot_9.webp',
+    );
+    expect(buildScreenshotStoragePath('abc', 42, 9, 'jpeg')).toBe(
+      'abc/42/screenshot_9.jpg',
+    );
+  });
+
+  it('recognises storage conflicts for objects that already exist', () => {
+    expect(isStorageConflictError({ statusCode: '409' })).toBe(true);
+    expect(
+      isStorageConflictError({ message: 'The resource already exists' }),
+    ).toBe(true);
+    expect(isStorageConflictError({ statusCode: '500' })).toBe(false);
+    expect(isStorageConflictError(null)).toBe(false);
+  });
+});
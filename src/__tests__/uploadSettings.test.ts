@@ -0,0 +1,26 @@
+import {
+  DEFAULT_UPLOAD_SETTINGS,
+  MAX_UPLOAD_CONCURRENCY,
+  normalizeUploadSettings,
+} from '../main/uploadSettings';
+
+describe('normalizeUploadSettings', () => {
+  it('falls back to the defaults', () => {
+    expect(normalizeUploadSettings(undefined)).toEqual(DEFAULT_UPLOAD_SETTINGS);
+    expect(normalizeUploadSettings({ uploadConcurrency: 'many' })).toEqual(
+      DEFAULT_UPLOAD_SETTINGS,
+    );
+  });
+
+  it('rounds and clamps the concurrency', () => {
+    expect(normalizeUploadSettings({ uploadConcurrency: 2.6 })).toEqual({
+      uploadConcurrency: 3,
+    });
+    expect(normalizeUploadSettings({ uploadConcurrency: 0 })).toEqual({
+      uploadConcurrency: 1,
+    });
+    expect(normalizeUploadSettings({ uploadConcurrency: 100 })).toEqual({
+      uploadConcurrency: MAX_UPLOAD_CONCURRENCY,
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  getBrowserUrlScript,
+  isWindowInFrame,
+  parseWmClass,
+  parseXdotoolGeometry,
+  readFrameWindow,
+  sanitizeUrl,
+} from '../main/windowMetadata';
+
+describe('sanitizeUrl', () => {
+  it('drops the query string, fragment and credentials', () => {
+    expect(
+      sanitizeUrl('https://user:pw@mail.example.com/inbox?q=secret#msg-1\n'),
+    ).toBe('https://mail.example.com/inbox');
+  });
+
+  it('returns null for empty or unparseable values', () => {
+    expect(sanitizeUrl('')).toBeNull();
+    expect(sanitizeUrl('missing value')).toBeNull();
+    expect(sanitizeUrl('not a url')).toBeNull();
+  });
+});
+
+describe('getBrowserUrlScript', () => {
+  it('asks Safari for its front document', () => {
+    expect(getBrowserUrlScript('com.apple.Safari')).toContain(
+      'URL of front document',
+    );
+  });
+
+  it('asks Chromium browsers for the active tab', () => {
+    expect(getBrowserUrlScript('com.brave.Browser')).toBe(
+      'tell application id "com.brave.Browser" to get URL of active tab of front window',
+    );
+  });
+
+  it('skips apps that are not known browsers', () => {
+    expect(getBrowserUrlScript('com.apple.finder')).toBeNull();
+    expect(getBrowserUrlScript(undefined)).toBeNull();
+  });
+});
+
+describe('parseXdotoolGeometry', () => {
+  it('reads the shell-style output', () => {
+    expect(
+      parseXdotoolGeometry(
+        'WINDOW=6291463\nX=80\nY=40\nWIDTH=1280\nHEIGHT=720\nSCREEN=0\n',
+      ),
+    ).toEqual({ x: 80, y: 40, width: 1280, height: 720 });
+  });
+
+  it('returns undefined for incomplete output', () => {
+    expect(parseXdotoolGeometry('WINDOW=1\nX=0\n')).toBeUndefined();
+  });
+});
+
+describe('parseWmClass', () => {
+  it('takes the class name', () => {
+    expect(parseWmClass('WM_CLASS(STRING) = "Navigator", "firefox"\n')).toBe(
+      'firefox',
+    );
+    expect(parseWmClass('WM_CLASS:  not found.')).toBeUndefined();
+  });
+});
+
+describe('isWindowInFrame', () => {
+  const display = { x: 1920, y: 0, width: 1920, height: 1080 };
+
+  it('matches window frames by title', () => {
+    const frame = { type: 'window' as const, name: 'Docs', bounds: null };
+
+    expect(isWindowInFrame({ title: 'Docs' }, frame)).toBe(true);
+    expect(isWindowInFrame({ title: 'Mail' }, frame)).toBe(false);
+  });
+
+  it('matches screen frames by where the window is centred', () => {
+    const frame = {
+      type: 'screen' as const,
+      name: 'Screen 2',
+      bounds: display,
+    };
+
+    expect(
+      isWindowInFrame(
+        { title: 'Docs', bounds: { x: 1800, y: 0, width: 800, height: 600 } },
+        frame,
+      ),
+    ).toBe(true);
+    expect(
+      isWindowInFrame(
+        { title: 'Docs', bounds: { x: 0, y: 0, width: 800, height: 600 } },
+        frame,
+      ),
+    ).toBe(false);
+  });
+
+  it('assumes a screen frame shows the window when bounds are unknown', () => {
+    expect(
+      isWindowInFrame(
+        { title: 'Docs' },
+        { type: 'screen', name: 'Screen 1', bounds: display },
+      ),
+    ).toBe(true);
+  });
+});
+
+describe('readFrameWindow', () => {
+  it('parses the stored bounds', () => {
+    expect(
+      readFrameWindow({
+        process_name: 'firefox',
+        window_bounds: '{"x":0,"y":0,"width":800,"height":600}',
+        app_id: 'firefox',
+      }),
+    ).toEqual({
+      process_name: 'firefox',
+      window_bounds: { x: 0, y: 0, width: 800, height: 600 },
+      executable_path: null,
+      app_id: 'firefox',
+      url: null,
+    });
+  });
+
+  it('leaves out malformed bounds', () => {
+    expect(readFrameWindow({ window_bounds: '{' }).window_bounds).toBeNull();
+  });
+});
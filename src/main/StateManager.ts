@@ -1,25 +1,60 @@
 import { dbHelpers } from './db';
+import {
+  getCheckpointDurationSeconds,
+  RecordingCheckpoint,
+} from './recordingCheckpoint';
+import type {
+  SessionEventReason,
+  SessionEventType,
+} from '../shared/sessionEvents';
+
+// How often the active recording is checkpointed and its duration saved.
+const CHECKPOINT_INTERVAL_MS = 15 * 1000;
 
 class StateManager {
   private activeSessionId: number | null = null;
 
+  private source: RecordingCheckpoint['source'] = null;
+
   private startTime: number | null = null;
 
   private pausedTime: number | null = null;
 
   private totalPausedDuration: number = 0;
 
-  setActiveSession(sessionId: number) {
-    this.activeSessionId = sessionId;
-    this.startTime = Date.now();
-    this.pausedTime = null;
-    this.totalPausedDuration = 0;
+  private checkpointTimer: ReturnType<typeof setInterval> | null = null;
+
+  setActiveSession(
+    sessionId: number,
+    source: RecordingCheckpoint['source'] = null,
+  ) {
+    this.beginSession(sessionId, source, Date.now());
+    this.recordEvent('start');
+  }
+
+  /**
+   * Pick a recovered session back up, counting on from its recorded duration.
+   * The time between `interruptedAt` and now is logged as a pause.
+   */
+  restoreActiveSession(
+    sessionId: number,
+    durationSeconds: number,
+    source: RecordingCheckpoint['source'],
+    interruptedAt: number,
+  ) {
+    this.beginSession(sessionId, source, Date.now() - durationSeconds * 1000);
+    this.recordEvent('pause', 'interrupted', interruptedAt);
+    this.recordEvent('resume', 'recovered');
   }
 
   getActiveSessionId() {
     return this.activeSessionId;
   }
 
+  getActiveSource() {
+    return this.source;
+  }
+
   getCurrentDuration(): number {
     if (!this.startTime) return 0;
 
@@ -31,28 +66,42 @@ class StateManager {
     );
   }
 
-  pauseActiveSession() {
+  pauseActiveSession(reason: SessionEventReason = 'manual') {
     if (!this.pausedTime) {
       this.pausedTime = Date.now();
+      this.recordEvent('pause', reason);
+      this.checkpoint();
     }
   }
 
-  resumeActiveSession() {
+  resumeActiveSession(reason: SessionEventReason | null = null) {
     if (this.pausedTime) {
       this.totalPausedDuration += Date.now() - this.pausedTime;
       this.pausedTime = null;
+      this.recordEvent('resume', reason);
+      this.checkpoint();
     }
   }
 
-  stopActiveSession() {
+  stopActiveSession(reason: SessionEventReason | null = null) {
     const sessionId = this.activeSessionId;
     const finalDuration = this.getCurrentDuration();
 
+    this.recordEvent('stop', reason);
+
+    this.stopCheckpointing();
     this.activeSessionId = null;
+    this.source = null;
     this.startTime = null;
     this.pausedTime = null;
     this.totalPausedDuration = 0;
 
+    if (sessionId !== null) {
+      dbHelpers.clearRecordingCheckpoint().catch((error) => {
+        console.error('Failed to clear recording checkpoint:', error);
+      });
+    }
+
     return { sessionId, finalDuration };
   }
 
@@ -68,6 +117,75 @@ class StateManager {
       }
     }
   }
+
+  private beginSession(
+    sessionId: number,
+    source: RecordingCheckpoint['source'],
+    startTime: number,
+  ) {
+    this.activeSessionId = sessionId;
+    this.source = source;
+    this.startTime = startTime;
+    this.pausedTime = null;
+    this.totalPausedDuration = 0;
+    this.startCheckpointing();
+  }
+
+  private recordEvent(
+    type: SessionEventType,
+    reason: SessionEventReason | null = null,
+    at: number = Date.now(),
+  ) {
+    const sessionId = this.activeSessionId;
+    if (sessionId === null) return;
+
+    dbHelpers
+      .addSessionEvent(sessionId, type, reason, new Date(at).toISOString())
+      .catch((error) => {
+        console.error(`Failed to record session ${type} event:`, error);
+      });
+  }
+
+  private startCheckpointing() {
+    this.stopCheckpointing();
+    this.checkpoint();
+    this.checkpointTimer = setInterval(() => {
+      this.checkpoint();
+    }, CHECKPOINT_INTERVAL_MS);
+  }
+
+  private stopCheckpointing() {
+    if (this.checkpointTimer) {
+      clearInterval(this.checkpointTimer);
+      this.checkpointTimer = null;
+    }
+  }
+
+  // Save enough to rebuild the session's duration if the app dies before it stops.
+  private checkpoint() {
+    const sessionId = this.activeSessionId;
+    if (sessionId === null || this.startTime === null) return;
+
+    const now = Date.now();
+    const checkpoint: RecordingCheckpoint = {
+      sessionId,
+      source: this.source,
+      startedAt: this.startTime,
+      pausedAt: this.pausedTime,
+      totalPausedMs: this.totalPausedDuration,
+      updatedAt: now,
+    };
+
+    Promise.all([
+      dbHelpers.saveRecordingCheckpoint(checkpoint),
+      dbHelpers.updateDuration(
+        sessionId,
+        getCheckpointDurationSeconds(checkpoint, now),
+      ),
+    ]).catch((error) => {
+      console.error('Failed to checkpoint recording state:', error);
+    });
+  }
 }
 
 const stateManager = new StateManager();
@@ -0,0 +1,83 @@
+/** System states that pause recording on their own and resume it when they end. */
+export type AutoPauseReason = 'screen_locked' | 'system_suspended' | 'idle';
+
+export interface AutoPauseSettings {
+  pauseOnLock: boolean;
+  pauseOnSuspend: boolean;
+  pauseWhenIdle: boolean;
+  /** Minutes without keyboard or mouse input before an idle pause. */
+  idleThresholdMinutes: number;
+}
+
+export const MIN_IDLE_THRESHOLD_MINUTES = 1;
+export const MAX_IDLE_THRESHOLD_MINUTES = 120;
+
+export const DEFAULT_AUTO_PAUSE_SETTINGS: AutoPauseSettings = {
+  pauseOnLock: true,
+  pauseOnSuspend: true,
+  pauseWhenIdle: true,
+  idleThresholdMinutes: 5,
+};
+
+const readBoolean = (value: unknown, fallback: boolean): boolean =>
+  typeof value === 'boolean' ? value : fallback;
+
+/**
+ * Coerce settings read from disk or sent from the renderer, filling in
+ * defaults for anything missing or malformed.
+ */
+export function normalizeAutoPauseSettings(raw: unknown): AutoPauseSettings {
+  if (!raw || typeof raw !== 'object') {
+    return { ...DEFAULT_AUTO_PAUSE_SETTINGS };
+  }
+  const value = raw as Record<string, unknown>;
+  const idleThresholdMinutes = Number(value.idleThresholdMinutes);
+
+  return {
+    pauseOnLock: readBoolean(
+      value.pauseOnLock,
+      DEFAULT_AUTO_PAUSE_SETTINGS.pauseOnLock,
+    ),
+    pauseOnSuspend: readBoolean(
+      value.pauseOnSuspend,
+      DEFAULT_AUTO_PAUSE_SETTINGS.pauseOnSuspend,
+    ),
+    pauseWhenIdle: readBoolean(
+      value.pauseWhenIdle,
+      DEFAULT_AUTO_PAUSE_SETTINGS.pauseWhenIdle,
+    ),
+    idleThresholdMinutes: Number.isFinite(idleThresholdMinutes)
+      ? Math.min(
+          MAX_IDLE_THRESHOLD_MINUTES,
+          Math.max(
+            MIN_IDLE_THRESHOLD_MINUTES,
+            Math.round(idleThresholdMinutes),
+          ),
+        )
+      : DEFAULT_AUTO_PAUSE_SETTINGS.idleThresholdMinutes,
+  };
+}
+
+export function isAutoPauseEnabled(
+  settings: AutoPauseSettings,
+  reason: AutoPauseReason,
+): boolean {
+  switch (reason) {
+    case 'screen_locked':
+      return settings.pauseOnLock;
+    case 'system_suspended':
+      return settings.pauseOnSuspend;
+    default:
+      return settings.pauseWhenIdle;
+  }
+}
+
+/** Whether the user has been away long enough, in seconds, to count as idle. */
+export function isIdle(
+  settings: AutoPauseSettings,
+  idleSeconds: number,
+): boolean {
+  return (
+    settings.pauseWhenIdle && idleSeconds >= settings.idleThresholdMinutes * 60
+  );
+}
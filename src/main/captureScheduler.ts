@@ -0,0 +1,197 @@
+export type CaptureMode = 'passive' | 'tasked';
+
+export interface CaptureRateConfig {
+  /** Interval while the user is active (window switches, cursor movement). */
+  minIntervalMs: number;
+  /** Ceiling the interval backs off to during long idle stretches. */
+  maxIntervalMs: number;
+  /** Each full step of inactivity doubles the interval. */
+  idleStepMs: number;
+}
+
+// Defaults per mode; the min and max can be changed in Settings. Tasked
+// sessions follow a specific workflow, so they sample faster and back off less
+// than passive sessions.
+export const CAPTURE_RATE_CONFIG: Record<CaptureMode, CaptureRateConfig> = {
+  passive: { minIntervalMs: 1000, maxIntervalMs: 8000, idleStepMs: 10000 },
+  tasked: { minIntervalMs: 500, maxIntervalMs: 3000, idleStepMs: 15000 },
+};
+
+/** User-adjustable capture rate for one session mode. */
+export interface CaptureRateLimits {
+  /** Seconds between frames while the user is active. */
+  minIntervalSeconds: number;
+  /** Seconds between frames once the user has been idle for a while. */
+  maxIntervalSeconds: number;
+}
+
+export type CaptureRateSettings = Record<CaptureMode, CaptureRateLimits>;
+
+export const MIN_CAPTURE_INTERVAL_SECONDS = 0.25;
+export const MAX_CAPTURE_INTERVAL_SECONDS = 300;
+
+const toLimits = (config: CaptureRateConfig): CaptureRateLimits => ({
+  minIntervalSeconds: config.minIntervalMs / 1000,
+  maxIntervalSeconds: config.maxIntervalMs / 1000,
+});
+
+export const DEFAULT_CAPTURE_RATE_SETTINGS: CaptureRateSettings = {
+  passive: toLimits(CAPTURE_RATE_CONFIG.passive),
+  tasked: toLimits(CAPTURE_RATE_CONFIG.tasked),
+};
+
+const readSeconds = (value: unknown, fallback: number): number => {
+  const seconds = Number(value);
+  if (value === null || value === '' || !Number.isFinite(seconds)) {
+    return fallback;
+  }
+  const clamped = Math.min(
+    MAX_CAPTURE_INTERVAL_SECONDS,
+    Math.max(MIN_CAPTURE_INTERVAL_SECONDS, seconds),
+  );
+  return Math.round(clamped * 100) / 100;
+};
+
+function normalizeLimits(
+  raw: unknown,
+  defaults: CaptureRateLimits,
+): CaptureRateLimits {
+  const value =
+    raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const minIntervalSeconds = readSeconds(
+    value.minIntervalSeconds,
+    defaults.minIntervalSeconds,
+  );
+  return {
+    minIntervalSeconds,
+    // Backing off can't make captures more frequent than while active.
+    maxIntervalSeconds: Math.max(
+      minIntervalSeconds,
+      readSeconds(value.maxIntervalSeconds, defaults.maxIntervalSeconds),
+    ),
+  };
+}
+
+/**
+ * Coerce settings read from disk or sent from the renderer, filling in
+ * defaults for anything missing or malformed.
+ */
+export function normalizeCaptureRateSettings(
+  raw: unknown,
+): CaptureRateSettings {
+  const value =
+    raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  return {
+    passive: normalizeLimits(
+      value.passive,
+      DEFAULT_CAPTURE_RATE_SETTINGS.passive,
+    ),
+    tasked: normalizeLimits(value.tasked, DEFAULT_CAPTURE_RATE_SETTINGS.tasked),
+  };
+}
+
+/** The scheduler config for a mode, with the user's min and max applied. */
+export function getCaptureRateConfig(
+  settings: CaptureRateSettings,
+  mode: CaptureMode,
+): CaptureRateConfig {
+  return {
+    ...CAPTURE_RATE_CONFIG[mode],
+    minIntervalMs: settings[mode].minIntervalSeconds * 1000,
+    maxIntervalMs: settings[mode].maxIntervalSeconds * 1000,
+  };
+}
+
+/**
+ * Capture interval after `idleMs` without activity:
+ * min, then doubling every `idleStepMs` up to max.
+ */
+export function getCaptureIntervalMs(
+  config: CaptureRateConfig,
+  idleMs: number,
+): number {
+  const steps = Math.max(0, Math.floor(idleMs / config.idleStepMs));
+  return Math.min(config.minIntervalMs * 2 ** steps, config.maxIntervalMs);
+}
+
+/**
+ * Decides when the next frame should be captured. Activity pulls the next
+ * capture in to the minimum interval; inactivity lets it drift out to the maximum.
+ */
+export class CaptureScheduler {
+  private readonly onCapture: () => void;
+
+  private readonly now: () => number;
+
+  private config: CaptureRateConfig | null = null;
+
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  private lastCaptureAt = 0;
+
+  private lastActivityAt = 0;
+
+  constructor(onCapture: () => void, now: () => number = Date.now) {
+    this.onCapture = onCapture;
+    this.now = now;
+  }
+
+  /**
+   * Start scheduling. The caller is expected to have just captured a frame,
+   * so the first tick comes one minimum interval later.
+   */
+  start(
+    mode: CaptureMode,
+    config: CaptureRateConfig = CAPTURE_RATE_CONFIG[mode],
+  ) {
+    this.config = config;
+    this.lastCaptureAt = this.now();
+    this.lastActivityAt = this.lastCaptureAt;
+    this.scheduleNext();
+  }
+
+  stop() {
+    this.config = null;
+    this.clearTimer();
+  }
+
+  isRunning(): boolean {
+    return this.config !== null;
+  }
+
+  /** Record user activity; may bring the next capture forward. */
+  noteActivity() {
+    if (!this.config) return;
+    this.lastActivityAt = this.now();
+    this.scheduleNext();
+  }
+
+  getCurrentIntervalMs(): number | null {
+    if (!this.config) return null;
+    return getCaptureIntervalMs(this.config, this.now() - this.lastActivityAt);
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNext() {
+    this.clearTimer();
+    const interval = this.getCurrentIntervalMs();
+    if (interval === null) return;
+
+    const delay = Math.max(0, this.lastCaptureAt + interval - this.now());
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private tick() {
+    this.timer = null;
+    if (!this.config) return;
+    this.lastCaptureAt = this.now();
+    this.onCapture();
+    this.scheduleNext();
+  }
+}
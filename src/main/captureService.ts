@@ -0,0 +1,538 @@
+import {
+  desktopCapturer,
+  DesktopCapturerSource,
+  nativeImage,
+  NativeImage,
+  screen,
+} from 'electron';
+import { dbHelpers } from './db';
+import * as fileStorage from './fileStorage';
+import { isNearDuplicate } from './perceptualHash';
+import {
+  CaptureMode,
+  CaptureRateConfig,
+  CaptureScheduler,
+} from './captureScheduler';
+import { getCaptureSize, selectCaptureDisplays } from './captureSize';
+import type { SensitiveAction } from './sensitiveRules';
+import { recognizeText } from './ocr';
+import type { ImageEncodingSettings } from './imageEncoding';
+import { encodeImage } from './imageEncoder';
+import {
+  normalizeClicks,
+  normalizeCursorPoint,
+  ScreenBounds,
+  ScreenClick,
+  ScreenPoint,
+} from './cursorPosition';
+import { onGlobalInput } from './inputHook';
+import type { WindowInfo } from './windowUtils';
+import { isWindowInFrame } from './windowMetadata';
+import {
+  applyRedactions,
+  findSensitiveText,
+  RedactionKind,
+  RedactionSettings,
+  regionsToBoxes,
+  wantsTextDetection,
+} from './redaction';
+
+export interface CaptureSource {
+  id: string;
+  type: 'window' | 'screen';
+  /**
+   * Set to record several displays together as one grouped frame per tick,
+   * instead of the single screen `id`. Empty records every display.
+   */
+  displayIds?: string[];
+}
+
+export interface CaptureStatus {
+  state: 'idle' | 'recording' | 'paused';
+  sessionId: number | null;
+  source: CaptureSource | null;
+  lastCaptureAt: string | null;
+  /** How long the last saved frame took to grab from desktopCapturer. */
+  lastCaptureLatencyMs: number | null;
+}
+
+export interface SavedRecording {
+  sessionId: number;
+  recordingId: number;
+  windowName: string;
+  timestamp: string;
+  captureLatencyMs: number;
+}
+
+interface CaptureServiceOptions {
+  onRecordingSaved: (recording: SavedRecording) => void;
+  onStatusChanged: (status: CaptureStatus) => void;
+  /**
+   * Sensitive-content action for the frame about to be saved. Window captures
+   * pass the captured window's title so it's checked even when not focused.
+   */
+  getSensitiveAction: (
+    capturedWindowTitle: string | null,
+  ) => Promise<SensitiveAction | null>;
+  /** The focused window, whose app and page are stored with each frame. */
+  getActiveWindow: () => Promise<WindowInfo | null>;
+  /** Whether clicks are stored with each frame; the input hook is off if not. */
+  shouldCaptureClicks: () => boolean;
+  getRedactionSettings: () => RedactionSettings;
+  /** A frame was dropped because OCR couldn't check it for sensitive text. */
+  onTextRedactionUnavailable: () => void;
+  getImageEncodingSettings: () => ImageEncodingSettings;
+  getCaptureRateConfig: (mode: CaptureMode) => CaptureRateConfig;
+}
+
+/** What was on screen besides the image when a tick's frames were grabbed. */
+interface FrameContext {
+  cursor: ScreenPoint;
+  /** Clicks since the previous tick. */
+  clicks: ScreenClick[];
+  activeWindow: WindowInfo | null;
+}
+
+// Blurred frames are shrunk to this fraction and scaled back up.
+const BLUR_SCALE = 1 / 32;
+
+function findCaptureSource(
+  sources: DesktopCapturerSource[],
+  target: CaptureSource,
+): DesktopCapturerSource | undefined {
+  const exact = sources.find((s) => s.id === target.id);
+  if (exact || target.type !== 'screen') return exact;
+
+  // Screen source ids aren't stable across display changes; fall back to the
+  // display id, then to any screen.
+  const displayId = target.id.replace('screen:', '').split(':')[0];
+  return (
+    sources.find(
+      (s) =>
+        s.id.startsWith('screen:') &&
+        (s.display_id?.toString() === target.id ||
+          s.display_id?.toString() === displayId),
+    ) ?? sources.find((s) => s.id.startsWith('screen:'))
+  );
+}
+
+/**
+ * Grab every display of a multi-display source, left to right. One request
+ * covers them all, sized for the largest display so none comes back
+ * downscaled.
+ */
+async function grabDisplays(
+  displayIds: string[],
+): Promise<DesktopCapturerSource[]> {
+  const displays = screen.getAllDisplays();
+  const sources = await desktopCapturer.getSources({
+    types: ['screen'],
+    thumbnailSize: getCaptureSize('screen', displays, null),
+    fetchWindowIcons: false,
+  });
+  return selectCaptureDisplays(displays, displayIds).flatMap((display) => {
+    const captured = sources.find(
+      (s) => s.display_id === display.id.toString(),
+    );
+    return captured ? [captured] : [];
+  });
+}
+
+/**
+ * Screen area a captured frame shows, for placing the cursor on it. A window
+ * frame's bounds are known only while it's the focused window.
+ */
+function getFrameBounds(
+  source: CaptureSource,
+  captured: DesktopCapturerSource,
+  activeWindow: WindowInfo | null,
+): ScreenBounds | null {
+  if (source.type === 'window') {
+    return activeWindow?.title === captured.name
+      ? (activeWindow.bounds ?? null)
+      : null;
+  }
+  const displays = screen.getAllDisplays();
+  // Some Linux setups leave display_id empty; with one display it's that one.
+  const display =
+    displays.find((d) => d.id.toString() === captured.display_id) ??
+    (displays.length === 1 ? displays[0] : undefined);
+  return display?.bounds ?? null;
+}
+
+function blurImage(image: NativeImage): NativeImage {
+  const { width, height } = image.getSize();
+  return image
+    .resize({
+      width: Math.max(1, Math.round(width * BLUR_SCALE)),
+      height: Math.max(1, Math.round(height * BLUR_SCALE)),
+      quality: 'good',
+    })
+    .resize({ width, height, quality: 'good' });
+}
+
+/**
+ * Black out or pixelate the configured regions and any emails or card numbers
+ * OCR finds. Returns the kinds of content that were covered, or null when
+ * text detection is on but OCR couldn't check the frame.
+ */
+async function redactImage(
+  image: NativeImage,
+  settings: RedactionSettings,
+): Promise<{ image: NativeImage; redactions: RedactionKind[] } | null> {
+  if (!settings.enabled) return { image, redactions: [] };
+
+  const { width, height } = image.getSize();
+  const boxes = regionsToBoxes(settings.regions, width, height);
+  if (wantsTextDetection(settings)) {
+    const words = await recognizeText(image.toPNG());
+    if (!words) return null;
+    boxes.push(...findSensitiveText(words, settings));
+  }
+  if (boxes.length === 0) return { image, redactions: [] };
+
+  const bitmap = image.toBitmap();
+  applyRedactions(bitmap, width, height, boxes, settings.style);
+  return {
+    image: nativeImage.createFromBitmap(bitmap, { width, height }),
+    redactions: Array.from(new Set(boxes.map((box) => box.kind))),
+  };
+}
+
+/**
+ * Owns the recording loop in the main process: decides when to capture,
+ * grabs the frame, writes it to disk and records it in the database. The
+ * Tray only sends start/pause/stop commands and listens for status updates,
+ * so recording carries on if its window reloads.
+ */
+export default class CaptureService {
+  private readonly options: CaptureServiceOptions;
+
+  private readonly scheduler: CaptureScheduler;
+
+  private sessionId: number | null = null;
+
+  private source: CaptureSource | null = null;
+
+  private mode: CaptureMode = 'passive';
+
+  private paused = false;
+
+  private captureInFlight = false;
+
+  private lastCaptureAt: string | null = null;
+
+  private lastCaptureLatencyMs: number | null = null;
+
+  // Display the current screen source was last seen on, so frames after the
+  // first are requested at that display's native size.
+  private sourceDisplayId: string | null = null;
+
+  // Clicks since the last frame was grabbed.
+  private pendingClicks: ScreenClick[] = [];
+
+  private removeClickListener: (() => void) | null = null;
+
+  constructor(options: CaptureServiceOptions) {
+    this.options = options;
+    this.scheduler = new CaptureScheduler(() => {
+      this.captureNow();
+    });
+  }
+
+  getStatus(): CaptureStatus {
+    let state: CaptureStatus['state'] = 'idle';
+    if (this.sessionId !== null) {
+      state = this.paused ? 'paused' : 'recording';
+    }
+    return {
+      state,
+      sessionId: this.sessionId,
+      source: this.source,
+      lastCaptureAt: this.lastCaptureAt,
+      lastCaptureLatencyMs: this.lastCaptureLatencyMs,
+    };
+  }
+
+  start(sessionId: number, source: CaptureSource, mode: CaptureMode) {
+    this.sessionId = sessionId;
+    this.source = source;
+    this.mode = mode;
+    this.paused = false;
+    this.lastCaptureAt = null;
+    this.lastCaptureLatencyMs = null;
+    this.sourceDisplayId = null;
+    this.pendingClicks = [];
+    this.applyClickSetting();
+    this.beginCapturing();
+  }
+
+  /** Start or stop listening for clicks to match the current settings. */
+  applyClickSetting() {
+    const shouldListen =
+      this.sessionId !== null && this.options.shouldCaptureClicks();
+
+    if (shouldListen && !this.removeClickListener) {
+      this.removeClickListener = onGlobalInput((event) => {
+        if (event.type === 'click' && !this.paused) {
+          this.pendingClicks.push(event);
+        }
+      });
+    } else if (!shouldListen && this.removeClickListener) {
+      this.removeClickListener();
+      this.removeClickListener = null;
+      this.pendingClicks = [];
+    }
+  }
+
+  pause() {
+    if (this.sessionId === null || this.paused) return;
+    this.paused = true;
+    this.scheduler.stop();
+    this.emitStatus();
+  }
+
+  resume() {
+    if (this.sessionId === null || !this.paused) return;
+    this.paused = false;
+    this.pendingClicks = [];
+    this.beginCapturing();
+  }
+
+  stop() {
+    this.scheduler.stop();
+    this.removeClickListener?.();
+    this.removeClickListener = null;
+    this.pendingClicks = [];
+    if (this.sessionId === null) return;
+    this.sessionId = null;
+    this.source = null;
+    this.paused = false;
+    this.emitStatus();
+  }
+
+  /** Forward user activity to the scheduler so captures speed back up. */
+  noteActivity() {
+    this.scheduler.noteActivity();
+  }
+
+  /** Pick up changed capture rate settings without waiting for a restart. */
+  applyCaptureRate() {
+    if (!this.scheduler.isRunning()) return;
+    this.scheduler.start(
+      this.mode,
+      this.options.getCaptureRateConfig(this.mode),
+    );
+  }
+
+  private beginCapturing() {
+    // Capture straight away; the scheduler paces the frames after this one.
+    this.scheduler.start(
+      this.mode,
+      this.options.getCaptureRateConfig(this.mode),
+    );
+    this.emitStatus();
+    this.captureNow();
+  }
+
+  private emitStatus() {
+    this.options.onStatusChanged(this.getStatus());
+  }
+
+  /**
+   * Grab the selected source at its native resolution. desktopCapturer can't
+   * fetch a single source by id, so only sources of the same type are
+   * enumerated, and without app icons.
+   */
+  private async grabSource(
+    source: CaptureSource,
+  ): Promise<DesktopCapturerSource | undefined> {
+    const sources = await desktopCapturer.getSources({
+      types: [source.type],
+      thumbnailSize: getCaptureSize(
+        source.type,
+        screen.getAllDisplays(),
+        this.sourceDisplayId,
+      ),
+      fetchWindowIcons: false,
+    });
+    const captured = findCaptureSource(sources, source);
+    if (captured?.display_id) this.sourceDisplayId = captured.display_id;
+    return captured;
+  }
+
+  private async captureNow() {
+    const { sessionId, source } = this;
+    // Skip the tick if the previous frame is still being written.
+    if (sessionId === null || !source || this.paused) return;
+    if (this.captureInFlight) return;
+
+    this.captureInFlight = true;
+    try {
+      const captureStartedAt = Date.now();
+      const frames = source.displayIds
+        ? await grabDisplays(source.displayIds)
+        : [await this.grabSource(source)].filter(
+            (captured): captured is DesktopCapturerSource => !!captured,
+          );
+      const captureLatencyMs = Date.now() - captureStartedAt;
+      const cursor = screen.getCursorScreenPoint();
+      const clicks = this.pendingClicks;
+      this.pendingClicks = [];
+      if (frames.length === 0) return;
+
+      const sensitiveAction = await this.options.getSensitiveAction(
+        source.type === 'window' ? frames[0].name : null,
+      );
+      // Pausing is handled by the caller; either way this frame isn't kept.
+      if (sensitiveAction === 'pause' || sensitiveAction === 'skip') return;
+
+      const context: FrameContext = {
+        cursor,
+        clicks,
+        activeWindow: await this.options.getActiveWindow(),
+      };
+
+      // Every display in a grouped frame shares its timestamp, and the rest
+      // point at the first one saved through `capture_group`.
+      const timestamp = new Date().toISOString();
+      const primaryId = await frames.reduce<Promise<number | null>>(
+        async (previous, frame) => {
+          const groupId = await previous;
+          const recordingId = await this.saveFrame(
+            sessionId,
+            source,
+            frame,
+            sensitiveAction,
+            timestamp,
+            groupId,
+            context,
+          );
+          return groupId ?? recordingId;
+        },
+        Promise.resolve(null),
+      );
+      if (primaryId === null) return;
+
+      this.lastCaptureAt = timestamp;
+      this.lastCaptureLatencyMs = captureLatencyMs;
+      this.options.onRecordingSaved({
+        sessionId,
+        recordingId: primaryId,
+        windowName: frames[0].name,
+        timestamp,
+        captureLatencyMs,
+      });
+    } catch (error) {
+      console.error('[CAPTURE] Error:', error);
+    } finally {
+      this.captureInFlight = false;
+    }
+  }
+
+  /** Redact, encode and store one captured image. Returns its recording id. */
+  private async saveFrame(
+    sessionId: number,
+    source: CaptureSource,
+    captured: DesktopCapturerSource,
+    sensitiveAction: SensitiveAction | null,
+    timestamp: string,
+    captureGroup: number | null,
+    context: FrameContext,
+  ): Promise<number | null> {
+    const size = captured.thumbnail.getSize();
+    if (!size || size.width === 0 || size.height === 0) return null;
+
+    const redacted =
+      sensitiveAction === 'blur'
+        ? {
+            image: blurImage(captured.thumbnail),
+            redactions: ['sensitive_window'] as RedactionKind[],
+          }
+        : await redactImage(
+            captured.thumbnail,
+            this.options.getRedactionSettings(),
+          );
+    // Saving a frame nobody checked could leak the text it was meant to hide.
+    if (!redacted) {
+      this.options.onTextRedactionUnavailable();
+      return null;
+    }
+    const { image, redactions } = redacted;
+
+    const encoded = await encodeImage(
+      image,
+      this.options.getImageEncodingSettings(),
+    );
+
+    // Recording may have stopped or moved on while the frame was processed.
+    if (this.sessionId !== sessionId || this.paused) return null;
+
+    const displayId = captured.display_id || null;
+    const bounds = getFrameBounds(source, captured, context.activeWindow);
+    const cursor = bounds ? normalizeCursorPoint(context.cursor, bounds) : null;
+    const clicks = bounds ? normalizeClicks(context.clicks, bounds) : [];
+    // Blurred frames don't say which app or page they hide.
+    const shownWindow =
+      sensitiveAction === null &&
+      context.activeWindow &&
+      isWindowInFrame(context.activeWindow, {
+        type: source.type,
+        name: captured.name,
+        bounds,
+      })
+        ? context.activeWindow
+        : null;
+
+    // Mark frames that look the same as the start of the current run on the
+    // same display so the Editor can collapse idle stretches before they're
+    // uploaded.
+    const perceptualHash = fileStorage.computeScreenshotHash(image);
+    const previous = await dbHelpers.getLatestDistinctRecording(
+      sessionId,
+      displayId,
+    );
+    const duplicateOf =
+      previous?.id && isNearDuplicate(perceptualHash, previous.perceptual_hash)
+        ? previous.id
+        : null;
+
+    // Insert DB row first to get a stable recording ID, then write the screenshot
+    // and its thumbnail to disk.
+    const recordingId = await dbHelpers.createRecording({
+      session_id: sessionId,
+      timestamp,
+      window_name: captured.name,
+      window_id: source.displayIds ? captured.id : source.id,
+      thumbnail: '',
+      screenshot: '',
+      type: this.mode,
+      perceptual_hash: perceptualHash,
+      duplicate_of: duplicateOf,
+      redactions: redactions.length > 0 ? JSON.stringify(redactions) : null,
+      image_format: encoded.format,
+      display_id: displayId,
+      capture_group: captureGroup,
+      cursor_x: cursor?.x ?? null,
+      cursor_y: cursor?.y ?? null,
+      cursor_clicks: clicks.length > 0 ? JSON.stringify(clicks) : null,
+      process_name: shownWindow?.processName ?? null,
+      window_bounds: shownWindow?.bounds
+        ? JSON.stringify(shownWindow.bounds)
+        : null,
+      executable_path: shownWindow?.executablePath ?? null,
+      app_id: shownWindow?.appId ?? null,
+      url: shownWindow?.url ?? null,
+    });
+
+    const screenshotPath = fileStorage.saveScreenshot(
+      sessionId,
+      recordingId,
+      encoded.data,
+      encoded.format,
+    );
+    fileStorage.saveThumbnail(screenshotPath, image);
+    await dbHelpers.updateRecordingScreenshotPath(recordingId, screenshotPath);
+    return recordingId;
+  }
+}
@@ -0,0 +1,68 @@
+export interface CaptureSize {
+  width: number;
+  height: number;
+}
+
+/** The parts of Electron's `Display` needed to size a capture. */
+export interface DisplayGeometry {
+  id: number;
+  size: CaptureSize; // In DIPs
+  scaleFactor: number;
+}
+
+// Used when no display information is available.
+export const DEFAULT_CAPTURE_SIZE: CaptureSize = { width: 1920, height: 1080 };
+
+/** A display's size in physical pixels, e.g. 3840x2160 for a 4K panel at 2x. */
+export function getNativeDisplaySize(display: DisplayGeometry): CaptureSize {
+  const scale = display.scaleFactor > 0 ? display.scaleFactor : 1;
+  return {
+    width: Math.round(display.size.width * scale),
+    height: Math.round(display.size.height * scale),
+  };
+}
+
+/**
+ * Thumbnail size to request from desktopCapturer so the frame comes back at
+ * full resolution. A screen is captured at its own display's native size; a
+ * window can sit on any display, so it gets the largest one.
+ */
+export function getCaptureSize(
+  sourceType: 'window' | 'screen',
+  displays: DisplayGeometry[],
+  displayId: string | null,
+): CaptureSize {
+  if (displays.length === 0) return DEFAULT_CAPTURE_SIZE;
+
+  if (sourceType === 'screen' && displayId !== null) {
+    const display = displays.find((d) => d.id.toString() === displayId);
+    if (display) return getNativeDisplaySize(display);
+  }
+
+  return displays
+    .map(getNativeDisplaySize)
+    .reduce((largest, size) =>
+      size.width * size.height > largest.width * largest.height
+        ? size
+        : largest,
+    );
+}
+
+/**
+ * Displays recorded together in multi-display mode, left to right. An empty
+ * selection, or one whose displays have all been unplugged, records every
+ * display.
+ */
+export function selectCaptureDisplays<
+  T extends { id: number; bounds: { x: number; y: number } },
+>(displays: T[], displayIds: string[]): T[] {
+  const selected = displays.filter((display) =>
+    displayIds.includes(display.id.toString()),
+  );
+  return (selected.length > 0 ? selected : displays)
+    .slice()
+    .sort(
+      (left, right) =>
+        left.bounds.x - right.bounds.x || left.bounds.y - right.bounds.y,
+    );
+}
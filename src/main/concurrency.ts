@@ -0,0 +1,38 @@
+/**
+ * Run `worker` over `items` with at most `concurrency` calls in flight.
+ * Results keep the order of `items`. After the first failure no new items are
+ * started; the returned promise rejects with that error once in-flight calls settle.
+ */
+export default async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const limit = Math.max(
+    1,
+    Math.min(Math.floor(concurrency) || 1, items.length),
+  );
+  let nextIndex = 0;
+  let failure: { error: unknown } | null = null;
+
+  // Each lane takes the next unstarted item until none are left.
+  const runLane = async (): Promise<void> => {
+    if (failure || nextIndex >= items.length) return;
+    const index = nextIndex;
+    nextIndex += 1;
+    try {
+      results[index] = await worker(items[index], index);
+    } catch (error) {
+      failure = failure ?? { error };
+    }
+    await runLane();
+  };
+
+  await Promise.all(Array.from({ length: limit }, runLane));
+
+  if (failure) {
+    throw (failure as { error: unknown }).error;
+  }
+  return results;
+}
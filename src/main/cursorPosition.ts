@@ -0,0 +1,102 @@
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+export interface ScreenBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type CursorButton = 'left' | 'right' | 'middle' | 'other';
+
+/** A mouse press somewhere on screen, in screen coordinates. */
+export interface ScreenClick extends ScreenPoint {
+  button: CursorButton;
+  timestamp: string;
+}
+
+/**
+ * A mouse press on a saved frame. `x` and `y` are fractions of the frame's
+ * width and height, so they hold at any image size.
+ */
+export type CursorClick = ScreenClick;
+
+// Four decimals is well under a pixel on an 8K display.
+const roundFraction = (value: number): number =>
+  Math.round(value * 10000) / 10000;
+
+/**
+ * Where `point` falls inside `bounds`, as fractions of its width and height.
+ * Null when the point is outside, e.g. the cursor is on another display.
+ */
+export function normalizeCursorPoint(
+  point: ScreenPoint,
+  bounds: ScreenBounds,
+): ScreenPoint | null {
+  if (bounds.width <= 0 || bounds.height <= 0) return null;
+
+  const x = (point.x - bounds.x) / bounds.width;
+  const y = (point.y - bounds.y) / bounds.height;
+  if (x < 0 || x > 1 || y < 0 || y > 1) return null;
+
+  return { x: roundFraction(x), y: roundFraction(y) };
+}
+
+/** The clicks that landed inside `bounds`, normalized to it. */
+export function normalizeClicks(
+  clicks: ScreenClick[],
+  bounds: ScreenBounds,
+): CursorClick[] {
+  return clicks.flatMap((click) => {
+    const point = normalizeCursorPoint(click, bounds);
+    return point
+      ? [{ ...point, button: click.button, timestamp: click.timestamp }]
+      : [];
+  });
+}
+
+/** Map an input hook button number (1 left, 2 right, 3 middle) to a name. */
+export function toCursorButton(button: unknown): CursorButton {
+  switch (button) {
+    case 1:
+      return 'left';
+    case 2:
+      return 'right';
+    case 3:
+      return 'middle';
+    default:
+      return 'other';
+  }
+}
+
+export interface FrameCursor {
+  cursor: ScreenPoint | null;
+  clicks: CursorClick[];
+}
+
+/** Read the cursor columns stored on a recording row. */
+export function readFrameCursor(row: {
+  cursor_x?: number | null;
+  cursor_y?: number | null;
+  cursor_clicks?: string | null;
+}): FrameCursor {
+  const cursor =
+    typeof row.cursor_x === 'number' && typeof row.cursor_y === 'number'
+      ? { x: row.cursor_x, y: row.cursor_y }
+      : null;
+
+  let clicks: CursorClick[] = [];
+  if (row.cursor_clicks) {
+    try {
+      const parsed = JSON.parse(row.cursor_clicks);
+      if (Array.isArray(parsed)) clicks = parsed;
+    } catch (error) {
+      // A malformed list just means no clicks are shown.
+    }
+  }
+
+  return { cursor, clicks };
+}
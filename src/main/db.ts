@@ -1,6 +1,30 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import { app } from 'electron';
+import { runSchemaMigrations } from './schemaMigrations';
+import {
+  buildFtsQuery,
+  groupSearchMatches,
+  MAX_MATCHES_PER_SESSION,
+  SearchMatchRow,
+  SessionSearchResult,
+} from './sessionSearch';
+import type { RecordingCheckpoint } from './recordingCheckpoint';
+import {
+  buildPauseSegments,
+  PauseSegment,
+  SessionEvent,
+  SessionEventReason,
+  SessionEventType,
+} from '../shared/sessionEvents';
+import type { InputEvent } from '../shared/inputEvents';
+import {
+  clipComment,
+  getRecordedSeconds,
+  getRemovedStretch,
+  isCommentWithin,
+  toTimelineSeconds,
+} from './sessionRange';
 
 // Define types
 export interface Session {
@@ -37,8 +61,36 @@ interface Recording {
   screenshot_path?: string;
   type: 'passive' | 'tasked';
   label?: string;
+  perceptual_hash?: string | null;
+  duplicate_of?: number | null;
+  redactions?: string | null;
+  image_format?: string | null;
+  display_id?: string | null;
+  // Multi-display frames: the id of the frame saved first for the same tick.
+  capture_group?: number | null;
+  // Pointer position as fractions of the frame; null when it wasn't on it.
+  cursor_x?: number | null;
+  cursor_y?: number | null;
+  // JSON list of the clicks on the frame since the previous one.
+  cursor_clicks?: string | null;
+  // The focused window the frame shows, if it shows one.
+  process_name?: string | null;
+  window_bounds?: string | null; // JSON {x, y, width, height}
+  executable_path?: string | null;
+  app_id?: string | null;
+  url?: string | null;
+  // 1 when the thumbnail backfill couldn't decode any image for the frame.
+  thumbnail_failed?: number;
 }
 
+// A saved recording without its inline image columns.
+export type RecordingSummary = Omit<
+  Recording,
+  'id' | 'screenshot' | 'thumbnail'
+> & {
+  id: number;
+};
+
 export interface TimeRangeComment {
   id?: number;
   session_id: number;
@@ -48,6 +100,38 @@ export interface TimeRangeComment {
   created_at: string;
 }
 
+export type SubmissionStage = 'uploading' | 'finalizing' | 'points_awarded';
+
+// One row per local session with a submission in flight, so a crash or network
+// drop can resume against the same remote session instead of creating another.
+export interface SubmissionJournal {
+  session_id: number;
+  user_id: string;
+  remote_session_id: number | null;
+  stage: SubmissionStage;
+  started_at: string;
+  updated_at: string;
+}
+
+export interface SubmissionUpload {
+  session_id: number;
+  recording_id: number;
+  storage_path: string;
+  status: 'pending' | 'uploaded';
+  url: string | null;
+  updated_at: string;
+}
+
+// A session waiting for the background worker to (re)try its submission.
+export interface SubmissionQueueEntry {
+  session_id: number;
+  user_id: string;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  enqueued_at: string;
+}
+
 type PreparedStatements = {
   createRecording: ReturnType<Database['prepare']>;
   updateDuration: ReturnType<Database['prepare']>;
@@ -63,67 +147,22 @@ type PreparedStatements = {
 let db: Database | null = null;
 let preparedStatements: PreparedStatements | null = null;
 
+// Upper bound on matches read per search, after collapsing repeated frames.
+const SEARCH_ROW_LIMIT = 500;
+
 function getDb(): Database {
   if (db) return db;
 
   db = new Database(path.join(app.getPath('userData'), 'sessions.sqlite'));
 
-  // Create tables
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS sessions (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      created_at TEXT NOT NULL,
-      duration INTEGER NOT NULL DEFAULT 0,
-      approval_state TEXT NOT NULL DEFAULT 'draft',
-      session_status TEXT NOT NULL,
-      task_id INTEGER,
-      reward_id INTEGER,
-      CONSTRAINT valid_approval_state CHECK (approval_state IN ('draft', 'submitted', 'approved', 'rejected')),
-      CONSTRAINT valid_session_status CHECK (session_status IN ('passive', 'tasked'))
-    );
-  `);
-
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS recordings (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      session_id INTEGER NOT NULL,
-      timestamp TEXT NOT NULL,
-      window_name TEXT NOT NULL,
-      window_id TEXT NOT NULL,
-      thumbnail TEXT NOT NULL,
-      screenshot TEXT NOT NULL,
-      type TEXT NOT NULL,
-      label TEXT,
-      FOREIGN KEY (session_id) REFERENCES sessions(id),
-      CONSTRAINT valid_type CHECK (type IN ('passive', 'tasked'))
-    );
-  `);
-
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS comments (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      session_id INTEGER NOT NULL,
-      start_time INTEGER NOT NULL,
-      end_time INTEGER NOT NULL,
-      comment TEXT NOT NULL,
-      created_at TEXT NOT NULL,
-      FOREIGN KEY (session_id) REFERENCES sessions(id)
-    );
-  `);
-
-  // Migration: Add screenshot_path column if it doesn't exist
+  // Bring the schema up to date before preparing any statements against it.
+  // If the database is newer than this build, close it and let the caller surface the error.
   try {
-    const rows = db.prepare('PRAGMA table_info(recordings)').all() as any[];
-    const hasScreenshotPath = rows.some((row: any) => row.name === 'screenshot_path');
-
-    if (!hasScreenshotPath) {
-      db.exec('ALTER TABLE recordings ADD COLUMN screenshot_path TEXT');
-      console.log('Added screenshot_path column to recordings table');
-    } else {
-      console.log('screenshot_path column already exists');
-    }
+    runSchemaMigrations(db);
   } catch (err) {
-    console.error('Error checking for screenshot_path column:', err);
+    db.close();
+    db = null;
+    throw err;
   }
 
   // Prepare frequently used statements
@@ -131,8 +170,11 @@ function getDb(): Database {
     createRecording: db.prepare(`
       INSERT INTO recordings (
         session_id, timestamp, window_name, window_id,
-        thumbnail, screenshot, screenshot_path, type, label
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        thumbnail, screenshot, screenshot_path, type, label,
+        perceptual_hash, duplicate_of, redactions, image_format,
+        display_id, capture_group, cursor_x, cursor_y, cursor_clicks,
+        process_name, window_bounds, executable_path, app_id, url
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `),
 
     updateDuration: db.prepare(`
@@ -178,11 +220,113 @@ function getDb(): Database {
   return db;
 }
 
+/**
+ * Open the database and apply pending schema migrations.
+ * Called once at startup so a too-new database is caught before any window loads.
+ */
+export function initializeDatabase(): void {
+  getDb();
+}
+
 function getStatements(): PreparedStatements {
   getDb(); // Ensure DB is initialized
   return preparedStatements!;
 }
 
+type TimelineFrame = { id: number; timestamp: string };
+
+// The frames the Editor shows for a session, one per tick, in timeline order.
+function getTimelineFrames(
+  database: Database,
+  sessionId: number,
+): TimelineFrame[] {
+  return database
+    .prepare(
+      `
+      SELECT id, timestamp FROM recordings
+      WHERE session_id = ? AND capture_group IS NULL
+      ORDER BY timestamp ASC, id ASC
+    `,
+    )
+    .all(sessionId) as TimelineFrame[];
+}
+
+function findFrameIndex(frames: TimelineFrame[], recordingId: number): number {
+  const index = frames.findIndex((frame) => frame.id === recordingId);
+  if (index < 0) {
+    throw new Error(`Recording ${recordingId} is not in this session`);
+  }
+  return index;
+}
+
+function getSessionPauses(
+  database: Database,
+  sessionId: number,
+): PauseSegment[] {
+  const events = database
+    .prepare(
+      'SELECT * FROM session_events WHERE session_id = ? ORDER BY created_at ASC, id ASC',
+    )
+    .all(sessionId) as SessionEvent[];
+  return buildPauseSegments(events);
+}
+
+// Frames whose run started on a frame that was deleted or left in another session
+// get a new run start: the next frame in the run, as when deleting a single frame.
+function promoteOrphanedDuplicates(
+  database: Database,
+  sessionId: number,
+): void {
+  const orphanedRuns = database
+    .prepare(
+      `
+      SELECT DISTINCT duplicate_of FROM recordings AS frame
+      WHERE session_id = ? AND duplicate_of IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM recordings AS head
+          WHERE head.id = frame.duplicate_of AND head.session_id = frame.session_id
+        )
+    `,
+    )
+    .all(sessionId) as Array<{ duplicate_of: number }>;
+
+  orphanedRuns.forEach(({ duplicate_of: runStart }) => {
+    const successor = database
+      .prepare(
+        `
+        SELECT id FROM recordings
+        WHERE session_id = ? AND duplicate_of = ?
+        ORDER BY timestamp ASC, id ASC
+        LIMIT 1
+      `,
+      )
+      .get(sessionId, runStart) as { id: number };
+    database
+      .prepare('UPDATE recordings SET duplicate_of = NULL WHERE id = ?')
+      .run(successor.id);
+    database
+      .prepare(
+        'UPDATE recordings SET duplicate_of = ? WHERE session_id = ? AND duplicate_of = ?',
+      )
+      .run(successor.id, sessionId, runStart);
+  });
+}
+
+// Write back a comment after its session was trimmed, deleting it if nothing of it is left.
+function saveClippedComment(
+  database: Database,
+  commentId: number,
+  clipped: TimeRangeComment | null,
+): void {
+  if (clipped) {
+    database
+      .prepare('UPDATE comments SET start_time = ?, end_time = ? WHERE id = ?')
+      .run(clipped.start_time, clipped.end_time, commentId);
+  } else {
+    database.prepare('DELETE FROM comments WHERE id = ?').run(commentId);
+  }
+}
+
 export const dbHelpers = {
   createSession: (
     sessionStatus: 'passive' | 'tasked',
@@ -252,6 +396,89 @@ export const dbHelpers = {
     });
   },
 
+  // Sessions whose window names, frame labels or comments match the query, best match first.
+  searchSessions: (query: string): Promise<SessionSearchResult[]> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const ftsQuery = buildFtsQuery(query);
+        if (!ftsQuery) {
+          resolve([]);
+          return;
+        }
+
+        // Frames of the same window and label collapse to their first one, and
+        // each session is capped, so one long session can't use up the limit.
+        const rows = getDb()
+          .prepare(
+            `
+            WITH matches AS (
+              SELECT
+                'recording' AS kind,
+                r.session_id,
+                s.created_at AS session_created_at,
+                s.approval_state,
+                MIN(r.id) AS recording_id,
+                NULL AS comment_id,
+                MIN(r.timestamp) AS timestamp,
+                NULL AS start_time,
+                r.window_name,
+                r.label,
+                NULL AS comment,
+                MIN(recordings_fts.rank) AS rank
+              FROM recordings_fts
+              JOIN recordings r ON r.id = recordings_fts.rowid
+              JOIN sessions s ON s.id = r.session_id
+              WHERE recordings_fts MATCH ?
+              GROUP BY r.session_id, r.window_name, r.label
+              UNION ALL
+              SELECT
+                'comment' AS kind,
+                c.session_id,
+                s.created_at AS session_created_at,
+                s.approval_state,
+                NULL AS recording_id,
+                c.id AS comment_id,
+                NULL AS timestamp,
+                c.start_time,
+                NULL AS window_name,
+                NULL AS label,
+                c.comment,
+                comments_fts.rank AS rank
+              FROM comments_fts
+              JOIN comments c ON c.id = comments_fts.rowid
+              JOIN sessions s ON s.id = c.session_id
+              WHERE comments_fts MATCH ?
+            ),
+            ranked AS (
+              SELECT
+                *,
+                ROW_NUMBER() OVER (
+                  PARTITION BY session_id ORDER BY rank, timestamp
+                ) AS session_rank
+              FROM matches
+            )
+            SELECT
+              kind, session_id, session_created_at, approval_state, recording_id, comment_id,
+              timestamp, start_time, window_name, label, comment
+            FROM ranked
+            WHERE session_rank <= ?
+            ORDER BY rank, timestamp
+            LIMIT ?
+          `,
+          )
+          .all(
+            ftsQuery,
+            ftsQuery,
+            MAX_MATCHES_PER_SESSION,
+            SEARCH_ROW_LIMIT,
+          ) as SearchMatchRow[];
+        resolve(groupSearchMatches(rows));
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
   getSession: (sessionId: number): Promise<Session | null> => {
     return new Promise((resolve, reject) => {
       try {
@@ -309,8 +536,22 @@ export const dbHelpers = {
     screenshot_path?: string;
     type: 'passive' | 'tasked';
     label?: string;
+    perceptual_hash?: string | null;
+    duplicate_of?: number | null;
+    redactions?: string | null;
+    image_format?: string | null;
+    display_id?: string | null;
+    capture_group?: number | null;
+    cursor_x?: number | null;
+    cursor_y?: number | null;
+    cursor_clicks?: string | null;
+    process_name?: string | null;
+    window_bounds?: string | null;
+    executable_path?: string | null;
+    app_id?: string | null;
+    url?: string | null;
   }) => {
-    return new Promise((resolve, reject) => {
+    return new Promise<number>((resolve, reject) => {
       try {
         const info = getStatements().createRecording.run(
           recording.session_id,
@@ -322,6 +563,20 @@ export const dbHelpers = {
           recording.screenshot_path || null,
           recording.type,
           recording.label || null,
+          recording.perceptual_hash || null,
+          recording.duplicate_of ?? null,
+          recording.redactions ?? null,
+          recording.image_format ?? null,
+          recording.display_id ?? null,
+          recording.capture_group ?? null,
+          recording.cursor_x ?? null,
+          recording.cursor_y ?? null,
+          recording.cursor_clicks ?? null,
+          recording.process_name ?? null,
+          recording.window_bounds ?? null,
+          recording.executable_path ?? null,
+          recording.app_id ?? null,
+          recording.url ?? null,
         );
         resolve(info.lastInsertRowid as number);
       } catch (err) {
@@ -346,12 +601,222 @@ export const dbHelpers = {
     });
   },
 
+  // Everything but the inline image columns, which can hold whole base64 frames on old rows.
+  // Pass a page to read a slice of a long session; a limit of -1 reads to the end.
+  // Multi-display frames are read through their group's first frame.
+  getSessionRecordingSummaries: (
+    sessionId: number,
+    page: { offset: number; limit: number } = { offset: 0, limit: -1 },
+  ): Promise<RecordingSummary[]> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const rows = getDb()
+          .prepare(
+            `
+            SELECT
+              id, session_id, timestamp, window_name, window_id,
+              screenshot_path, type, label, perceptual_hash, duplicate_of, redactions,
+              image_format, display_id, capture_group, cursor_x, cursor_y, cursor_clicks,
+              process_name, window_bounds, executable_path, app_id, url
+            FROM recordings
+            WHERE session_id = ? AND capture_group IS NULL
+            ORDER BY timestamp ASC, id ASC
+            LIMIT ? OFFSET ?
+          `,
+          )
+          .all(sessionId, page.limit, page.offset);
+        resolve(rows as RecordingSummary[]);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  // The other displays' frames for each given group-starting frame, in capture order.
+  getCaptureGroupFrames: (
+    recordingIds: number[],
+  ): Promise<RecordingSummary[]> => {
+    return new Promise((resolve, reject) => {
+      try {
+        if (recordingIds.length === 0) {
+          resolve([]);
+          return;
+        }
+        const rows = getDb()
+          .prepare(
+            `
+            SELECT
+              id, session_id, timestamp, window_name, window_id,
+              screenshot_path, type, label, perceptual_hash, duplicate_of, redactions,
+              image_format, display_id, capture_group, cursor_x, cursor_y, cursor_clicks,
+              process_name, window_bounds, executable_path, app_id, url
+            FROM recordings
+            WHERE capture_group IN (${recordingIds.map(() => '?').join(', ')})
+            ORDER BY id ASC
+          `,
+          )
+          .all(...recordingIds);
+        resolve(rows as RecordingSummary[]);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  countSessionRecordings: (sessionId: number): Promise<number> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const row = getDb()
+          .prepare(
+            `
+            SELECT COUNT(*) AS count FROM recordings
+            WHERE session_id = ? AND capture_group IS NULL
+          `,
+          )
+          .get(sessionId) as { count: number };
+        resolve(row.count);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  // File-based recordings older than `beforeId`, newest first, for the thumbnail backfill.
+  getThumbnailBackfillPage: (
+    beforeId: number,
+    limit: number,
+  ): Promise<
+    Array<{ id: number; screenshot_path: string; has_inline_thumbnail: number }>
+  > => {
+    return new Promise((resolve, reject) => {
+      try {
+        const rows = getDb()
+          .prepare(
+            `
+            SELECT id, screenshot_path, COALESCE(LENGTH(thumbnail), 0) > 0 AS has_inline_thumbnail
+            FROM recordings
+            WHERE id < ? AND screenshot_path IS NOT NULL AND screenshot_path != ''
+            ORDER BY id DESC
+            LIMIT ?
+          `,
+          )
+          .all(beforeId, limit);
+        resolve(
+          rows as Array<{
+            id: number;
+            screenshot_path: string;
+            has_inline_thumbnail: number;
+          }>,
+        );
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  getBackgroundTask: (
+    name: string,
+  ): Promise<{ completed: boolean; beforeId: number | null } | null> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const row = getDb()
+          .prepare(
+            'SELECT completed, before_id FROM background_tasks WHERE name = ?',
+          )
+          .get(name) as
+          | { completed: number; before_id: number | null }
+          | undefined;
+        resolve(
+          row
+            ? { completed: row.completed === 1, beforeId: row.before_id }
+            : null,
+        );
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  saveBackgroundTask: (
+    name: string,
+    completed: boolean,
+    beforeId: number | null,
+  ): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      try {
+        getDb()
+          .prepare(
+            `INSERT INTO background_tasks (name, completed, before_id)
+             VALUES (?, ?, ?)
+             ON CONFLICT (name) DO UPDATE SET
+               completed = excluded.completed,
+               before_id = excluded.before_id`,
+          )
+          .run(name, completed ? 1 : 0, beforeId);
+        resolve();
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  markThumbnailsFailed: (recordingIds: number[]): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      try {
+        if (recordingIds.length === 0) {
+          resolve();
+          return;
+        }
+        const placeholders = recordingIds.map(() => '?').join(', ');
+        getDb()
+          .prepare(
+            `UPDATE recordings SET thumbnail_failed = 1 WHERE id IN (${placeholders})`,
+          )
+          .run(...recordingIds);
+        resolve();
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  // The most recent frame that starts a run, i.e. the one new captures are compared against.
+  getLatestDistinctRecording: (
+    sessionId: number,
+    displayId: string | null = null,
+  ): Promise<Pick<Recording, 'id' | 'perceptual_hash'> | null> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const row = getDb()
+          .prepare(
+            `
+            SELECT id, perceptual_hash FROM recordings
+            WHERE session_id = ? AND duplicate_of IS NULL AND display_id IS ?
+            ORDER BY timestamp DESC, id DESC
+            LIMIT 1
+          `,
+          )
+          .get(sessionId, displayId);
+        resolve(row || null);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
   deleteSession: (sessionId: number): Promise<void> => {
     return new Promise((resolve, reject) => {
       try {
         const deleteRecStmt = getDb().prepare('DELETE FROM recordings WHERE session_id = ?');
         deleteRecStmt.run(sessionId);
 
+        getDb()
+          .prepare('DELETE FROM session_events WHERE session_id = ?')
+          .run(sessionId);
+        getDb()
+          .prepare('DELETE FROM input_events WHERE session_id = ?')
+          .run(sessionId);
+
         const deleteSessionStmt = getDb().prepare('DELETE FROM sessions WHERE id = ?');
         deleteSessionStmt.run(sessionId);
 
@@ -362,14 +827,58 @@ export const dbHelpers = {
     });
   },
 
+  // Deleting a multi-display frame deletes the other displays' frames from the same tick.
   deleteRecording: (sessionId: number, recordingId: number): Promise<void> => {
     return new Promise((resolve, reject) => {
       try {
-        const stmt = getDb().prepare(`
-          DELETE FROM recordings
-          WHERE session_id = ? AND id = ?
-        `);
-        stmt.run(sessionId, recordingId);
+        const database = getDb();
+        database.transaction(() => {
+          const groupIds = (
+            database
+              .prepare(
+                'SELECT id FROM recordings WHERE session_id = ? AND capture_group = ?',
+              )
+              .all(sessionId, recordingId) as Array<{ id: number }>
+          ).map((row) => row.id);
+
+          [recordingId, ...groupIds].forEach((id) => {
+            database
+              .prepare(
+                `
+                DELETE FROM recordings
+                WHERE session_id = ? AND id = ?
+              `,
+              )
+              .run(sessionId, id);
+
+            // If this frame started a run of duplicates, the next frame in the run takes over.
+            const successor = database
+              .prepare(
+                `
+                SELECT id FROM recordings
+                WHERE session_id = ? AND duplicate_of = ?
+                ORDER BY timestamp ASC, id ASC
+                LIMIT 1
+              `,
+              )
+              .get(sessionId, id) as { id: number } | undefined;
+            if (successor) {
+              database
+                .prepare(
+                  'UPDATE recordings SET duplicate_of = NULL WHERE id = ?',
+                )
+                .run(successor.id);
+              database
+                .prepare(
+                  `
+                  UPDATE recordings SET duplicate_of = ?
+                  WHERE session_id = ? AND duplicate_of = ?
+                `,
+                )
+                .run(successor.id, sessionId, id);
+            }
+          });
+        })();
         resolve();
       } catch (err) {
         reject(err);
@@ -377,6 +886,291 @@ export const dbHelpers = {
     });
   },
 
+  // Delete the frames from one to another, inclusive; a null end runs to that end of
+  // the session. Comments, input and the session's duration are trimmed to match.
+  // Returns the deleted frames' screenshot paths so their files can be removed.
+  deleteRecordingRange: (
+    sessionId: number,
+    fromRecordingId: number | null,
+    toRecordingId: number | null,
+  ): Promise<string[]> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const database = getDb();
+        const screenshotPaths = database.transaction(() => {
+          const frames = getTimelineFrames(database, sessionId);
+          const fromIndex =
+            fromRecordingId === null
+              ? 0
+              : findFrameIndex(frames, fromRecordingId);
+          const toIndex =
+            toRecordingId === null
+              ? frames.length - 1
+              : findFrameIndex(frames, toRecordingId);
+          if (fromIndex > toIndex) {
+            throw new Error('The range ends before it starts');
+          }
+          if (fromIndex === 0 && toIndex === frames.length - 1) {
+            throw new Error(
+              'Cannot delete every frame; delete the session instead',
+            );
+          }
+
+          const first = frames[fromIndex];
+          const last = frames[toIndex];
+          const previous = fromIndex > 0 ? frames[fromIndex - 1] : null;
+          const next = toIndex < frames.length - 1 ? frames[toIndex + 1] : null;
+          const inRange = `
+            session_id = ? AND capture_group IS NULL
+            AND (timestamp, id) >= (?, ?) AND (timestamp, id) <= (?, ?)
+          `;
+          const rangeParams = [
+            sessionId,
+            first.timestamp,
+            first.id,
+            last.timestamp,
+            last.id,
+          ];
+
+          const paths = (
+            database
+              .prepare(
+                `
+                SELECT screenshot_path FROM recordings
+                WHERE (${inRange})
+                  OR capture_group IN (SELECT id FROM recordings WHERE ${inRange})
+              `,
+              )
+              .all(...rangeParams, ...rangeParams) as Array<{
+              screenshot_path: string | null;
+            }>
+          ).flatMap((row) =>
+            row.screenshot_path ? [row.screenshot_path] : [],
+          );
+          database
+            .prepare(
+              `
+              DELETE FROM recordings
+              WHERE capture_group IN (SELECT id FROM recordings WHERE ${inRange})
+            `,
+            )
+            .run(...rangeParams);
+          database
+            .prepare(`DELETE FROM recordings WHERE ${inRange}`)
+            .run(...rangeParams);
+          promoteOrphanedDuplicates(database, sessionId);
+
+          // Input belongs to the frame it led to, so it goes with that frame.
+          const inputConditions = ['session_id = ?'];
+          const inputParams: Array<number | string> = [sessionId];
+          if (previous) {
+            inputConditions.push('timestamp > ?');
+            inputParams.push(previous.timestamp);
+          }
+          if (next) {
+            inputConditions.push('timestamp <= ?');
+            inputParams.push(last.timestamp);
+          }
+          database
+            .prepare(
+              `DELETE FROM input_events WHERE ${inputConditions.join(' AND ')}`,
+            )
+            .run(...inputParams);
+
+          // Comments are timed from the first frame, so trimming the head moves them all.
+          const firstTimestamp = frames[0].timestamp;
+          const rangeStart = toTimelineSeconds(first.timestamp, firstTimestamp);
+          const rangeEnd = next
+            ? toTimelineSeconds(next.timestamp, firstTimestamp)
+            : Number.POSITIVE_INFINITY;
+          const comments = database
+            .prepare('SELECT * FROM comments WHERE session_id = ?')
+            .all(sessionId) as TimeRangeComment[];
+          comments.forEach((comment) => {
+            if (!previous) {
+              saveClippedComment(
+                database,
+                comment.id!,
+                clipComment(comment, rangeEnd, Number.POSITIVE_INFINITY),
+              );
+            } else if (!next) {
+              saveClippedComment(
+                database,
+                comment.id!,
+                clipComment(comment, 0, rangeStart),
+              );
+            } else if (isCommentWithin(comment, rangeStart, rangeEnd)) {
+              saveClippedComment(database, comment.id!, null);
+            }
+          });
+
+          const session = database
+            .prepare('SELECT duration FROM sessions WHERE id = ?')
+            .get(sessionId) as { duration: number | null } | undefined;
+          const removed = getRemovedStretch(previous, first, last, next);
+          const removedSeconds = getRecordedSeconds(
+            removed.from,
+            removed.to,
+            getSessionPauses(database, sessionId),
+          );
+          database
+            .prepare('UPDATE sessions SET duration = ? WHERE id = ?')
+            .run(
+              Math.max(0, (session?.duration ?? 0) - removedSeconds),
+              sessionId,
+            );
+
+          return paths;
+        })();
+        resolve(screenshotPaths);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  // Move the frames from `recordingId` on into a new session, along with the input,
+  // pauses and comments that go with them. A comment spanning the split is kept in both.
+  // Returns the new session and the moved frames, whose files still sit in the old folder.
+  splitSession: (
+    sessionId: number,
+    recordingId: number,
+  ): Promise<{
+    sessionId: number;
+    movedRecordings: Array<{ id: number; screenshot_path: string | null }>;
+  }> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const database = getDb();
+        const result = database.transaction(() => {
+          const session = database
+            .prepare('SELECT * FROM sessions WHERE id = ?')
+            .get(sessionId) as Session | undefined;
+          if (!session) {
+            throw new Error(`Session ${sessionId} not found`);
+          }
+
+          const frames = getTimelineFrames(database, sessionId);
+          const splitIndex = findFrameIndex(frames, recordingId);
+          if (splitIndex === 0) {
+            throw new Error('Cannot split a session at its first frame');
+          }
+          const splitFrame = frames[splitIndex];
+          const previous = frames[splitIndex - 1];
+
+          const duration = session.duration || 0;
+          const movedSeconds = Math.min(
+            duration,
+            getRecordedSeconds(
+              previous.timestamp,
+              frames[frames.length - 1].timestamp,
+              getSessionPauses(database, sessionId),
+            ),
+          );
+          const newSessionId = Number(
+            database
+              .prepare(
+                `
+                INSERT INTO sessions (created_at, duration, session_status, task_id)
+                VALUES (?, ?, ?, ?)
+              `,
+              )
+              .run(
+                splitFrame.timestamp,
+                movedSeconds,
+                session.session_status,
+                session.task_id,
+              ).lastInsertRowid,
+          );
+          database
+            .prepare('UPDATE sessions SET duration = ? WHERE id = ?')
+            .run(duration - movedSeconds, sessionId);
+
+          const fromSplit = `
+            session_id = ? AND capture_group IS NULL AND (timestamp, id) >= (?, ?)
+          `;
+          const splitParams = [sessionId, splitFrame.timestamp, splitFrame.id];
+          const movedRecordings = database
+            .prepare(
+              `
+              SELECT id, screenshot_path FROM recordings
+              WHERE (${fromSplit})
+                OR capture_group IN (SELECT id FROM recordings WHERE ${fromSplit})
+            `,
+            )
+            .all(...splitParams, ...splitParams) as Array<{
+            id: number;
+            screenshot_path: string | null;
+          }>;
+          database
+            .prepare(
+              `
+              UPDATE recordings SET session_id = ?
+              WHERE capture_group IN (SELECT id FROM recordings WHERE ${fromSplit})
+            `,
+            )
+            .run(newSessionId, ...splitParams);
+          database
+            .prepare(`UPDATE recordings SET session_id = ? WHERE ${fromSplit}`)
+            .run(newSessionId, ...splitParams);
+          promoteOrphanedDuplicates(database, newSessionId);
+
+          // Anything after the last frame left behind led up to the new session's first frame.
+          database
+            .prepare(
+              'UPDATE input_events SET session_id = ? WHERE session_id = ? AND timestamp > ?',
+            )
+            .run(newSessionId, sessionId, previous.timestamp);
+          database
+            .prepare(
+              'UPDATE session_events SET session_id = ? WHERE session_id = ? AND created_at > ?',
+            )
+            .run(newSessionId, sessionId, previous.timestamp);
+          const addEvent = database.prepare(`
+            INSERT INTO session_events (session_id, type, reason, created_at)
+            VALUES (?, ?, ?, ?)
+          `);
+          addEvent.run(sessionId, 'stop', 'session_split', previous.timestamp);
+          addEvent.run(newSessionId, 'start', null, previous.timestamp);
+
+          const splitTime = toTimelineSeconds(
+            splitFrame.timestamp,
+            frames[0].timestamp,
+          );
+          const comments = database
+            .prepare('SELECT * FROM comments WHERE session_id = ?')
+            .all(sessionId) as TimeRangeComment[];
+          comments.forEach((comment) => {
+            saveClippedComment(
+              database,
+              comment.id!,
+              clipComment(comment, 0, splitTime),
+            );
+            const moved = clipComment(
+              comment,
+              splitTime,
+              Number.POSITIVE_INFINITY,
+            );
+            if (moved) {
+              getStatements().createComment.run(
+                newSessionId,
+                moved.start_time,
+                moved.end_time,
+                moved.comment,
+                moved.created_at,
+              );
+            }
+          });
+
+          return { sessionId: newSessionId, movedRecordings };
+        })();
+        resolve(result);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
   updateRecordingLabel: (recordingId: number, label: string): Promise<void> => {
     return new Promise((resolve, reject) => {
       try {
@@ -488,6 +1282,484 @@ export const dbHelpers = {
     });
   },
 
+  getSubmissionJournal: (
+    sessionId: number,
+  ): Promise<SubmissionJournal | null> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const row = getDb()
+          .prepare('SELECT * FROM submission_journal WHERE session_id = ?')
+          .get(sessionId);
+        resolve((row as SubmissionJournal | undefined) || null);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  startSubmissionJournal: (
+    sessionId: number,
+    userId: string,
+    remoteSessionId: number,
+  ): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const now = new Date().toISOString();
+        getDb()
+          .prepare(
+            `
+            INSERT INTO submission_journal (
+              session_id, user_id, remote_session_id, stage, started_at, updated_at
+            ) VALUES (?, ?, ?, 'uploading', ?, ?)
+            ON CONFLICT(session_id) DO UPDATE SET
+              user_id = excluded.user_id,
+              remote_session_id = excluded.remote_session_id,
+              stage = 'uploading',
+              updated_at = excluded.updated_at
+          `,
+          )
+          .run(sessionId, userId, remoteSessionId, now, now);
+        resolve();
+      } catch (err) {
+        console.error('Failed to start submission journal:', err);
+        reject(err);
+      }
+    });
+  },
+
+  updateSubmissionStage: (
+    sessionId: number,
+    stage: SubmissionStage,
+  ): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      try {
+        getDb()
+          .prepare(
+            `
+            UPDATE submission_journal
+            SET stage = ?, updated_at = ?
+            WHERE session_id = ?
+          `,
+          )
+          .run(stage, new Date().toISOString(), sessionId);
+        resolve();
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  getSubmissionUploads: (sessionId: number): Promise<SubmissionUpload[]> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const rows = getDb()
+          .prepare(
+            `
+            SELECT * FROM submission_uploads
+            WHERE session_id = ?
+            ORDER BY recording_id ASC
+          `,
+          )
+          .all(sessionId);
+        resolve(rows as SubmissionUpload[]);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  addPendingUploads: (
+    sessionId: number,
+    uploads: Array<{ recording_id: number; storage_path: string }>,
+  ): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const database = getDb();
+        const stmt = database.prepare(`
+          INSERT OR IGNORE INTO submission_uploads (
+            session_id, recording_id, storage_path, status, url, updated_at
+          ) VALUES (?, ?, ?, 'pending', NULL, ?)
+        `);
+        const now = new Date().toISOString();
+        database.transaction(() => {
+          uploads.forEach((upload) => {
+            stmt.run(sessionId, upload.recording_id, upload.storage_path, now);
+          });
+        })();
+        resolve();
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  markUploadComplete: (
+    sessionId: number,
+    recordingId: number,
+    url: string,
+  ): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      try {
+        getDb()
+          .prepare(
+            `
+            UPDATE submission_uploads
+            SET status = 'uploaded', url = ?, updated_at = ?
+            WHERE session_id = ? AND recording_id = ?
+          `,
+          )
+          .run(url, new Date().toISOString(), sessionId, recordingId);
+        resolve();
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  removeSubmissionUploads: (
+    sessionId: number,
+    recordingIds: number[],
+  ): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const database = getDb();
+        const stmt = database.prepare(`
+          DELETE FROM submission_uploads
+          WHERE session_id = ? AND recording_id = ?
+        `);
+        database.transaction(() => {
+          recordingIds.forEach((recordingId) =>
+            stmt.run(sessionId, recordingId),
+          );
+        })();
+        resolve();
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  clearSubmissionJournal: (sessionId: number): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const database = getDb();
+        database.transaction(() => {
+          database
+            .prepare('DELETE FROM submission_uploads WHERE session_id = ?')
+            .run(sessionId);
+          database
+            .prepare('DELETE FROM submission_journal WHERE session_id = ?')
+            .run(sessionId);
+        })();
+        resolve();
+      } catch (err) {
+        console.error('Failed to clear submission journal:', err);
+        reject(err);
+      }
+    });
+  },
+
+  // Mark the session submitted and drop its journal in one step, so a crash in
+  // between can never leave a submitted session that would be resubmitted.
+  completeSubmission: (sessionId: number): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const database = getDb();
+        database.transaction(() => {
+          database
+            .prepare('UPDATE sessions SET approval_state = ? WHERE id = ?')
+            .run('submitted', sessionId);
+          database
+            .prepare('DELETE FROM submission_uploads WHERE session_id = ?')
+            .run(sessionId);
+          database
+            .prepare('DELETE FROM submission_journal WHERE session_id = ?')
+            .run(sessionId);
+        })();
+        resolve();
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  enqueueSubmission: (sessionId: number, userId: string): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const now = new Date().toISOString();
+        getDb()
+          .prepare(
+            `
+            INSERT INTO submission_queue (
+              session_id, user_id, attempts, next_attempt_at, last_error, enqueued_at
+            ) VALUES (?, ?, 0, ?, NULL, ?)
+            ON CONFLICT(session_id) DO UPDATE SET
+              user_id = excluded.user_id,
+              next_attempt_at = excluded.next_attempt_at
+          `,
+          )
+          .run(sessionId, userId, now, now);
+        resolve();
+      } catch (err) {
+        console.error('Failed to enqueue submission:', err);
+        reject(err);
+      }
+    });
+  },
+
+  getSubmissionQueue: (): Promise<SubmissionQueueEntry[]> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const rows = getDb()
+          .prepare(
+            `
+            SELECT * FROM submission_queue
+            ORDER BY next_attempt_at ASC, enqueued_at ASC
+          `,
+          )
+          .all();
+        resolve(rows as SubmissionQueueEntry[]);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  recordSubmissionFailure: (
+    sessionId: number,
+    attempts: number,
+    nextAttemptAt: string,
+    error: string | null,
+  ): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      try {
+        getDb()
+          .prepare(
+            `
+            UPDATE submission_queue
+            SET attempts = ?, next_attempt_at = ?, last_error = ?
+            WHERE session_id = ?
+          `,
+          )
+          .run(attempts, nextAttemptAt, error, sessionId);
+        resolve();
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  dequeueSubmission: (sessionId: number): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      try {
+        getDb()
+          .prepare('DELETE FROM submission_queue WHERE session_id = ?')
+          .run(sessionId);
+        resolve();
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  addSessionEvent: (
+    sessionId: number,
+    type: SessionEventType,
+    reason: SessionEventReason | null = null,
+    createdAt: string = new Date().toISOString(),
+  ): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      try {
+        getDb()
+          .prepare(
+            `
+            INSERT INTO session_events (session_id, type, reason, created_at)
+            VALUES (?, ?, ?, ?)
+          `,
+          )
+          .run(sessionId, type, reason, createdAt);
+        resolve();
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  getSessionEvents: (sessionId: number): Promise<SessionEvent[]> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const rows = getDb()
+          .prepare(
+            `
+            SELECT * FROM session_events
+            WHERE session_id = ?
+            ORDER BY created_at ASC, id ASC
+          `,
+          )
+          .all(sessionId);
+        resolve(rows as SessionEvent[]);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  addInputEvents: (events: InputEvent[]): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const database = getDb();
+        const stmt = database.prepare(`
+          INSERT INTO input_events (
+            session_id, type, timestamp, x, y, button, scroll_dx, scroll_dy,
+            key_category, key_name, modifiers
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+        database.transaction(() => {
+          events.forEach((event) => {
+            stmt.run(
+              event.session_id,
+              event.type,
+              event.timestamp,
+              event.x,
+              event.y,
+              event.button,
+              event.scroll_dx,
+              event.scroll_dy,
+              event.key_category,
+              event.key_name,
+              event.modifiers,
+            );
+          });
+        })();
+        resolve();
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  getSessionInputEvents: (sessionId: number): Promise<InputEvent[]> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const rows = getDb()
+          .prepare(
+            `
+            SELECT * FROM input_events
+            WHERE session_id = ?
+            ORDER BY timestamp ASC, id ASC
+          `,
+          )
+          .all(sessionId);
+        resolve(rows as InputEvent[]);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  // There's only ever one active recording, so the checkpoint is a single row.
+  saveRecordingCheckpoint: (checkpoint: RecordingCheckpoint): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      try {
+        getDb()
+          .prepare(
+            `
+            INSERT INTO recording_checkpoint (
+              id, session_id, source, started_at, paused_at, total_paused_ms, updated_at
+            ) VALUES (1, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(id) DO UPDATE SET
+              session_id = excluded.session_id,
+              source = excluded.source,
+              started_at = excluded.started_at,
+              paused_at = excluded.paused_at,
+              total_paused_ms = excluded.total_paused_ms,
+              updated_at = excluded.updated_at
+          `,
+          )
+          .run(
+            checkpoint.sessionId,
+            checkpoint.source ? JSON.stringify(checkpoint.source) : null,
+            new Date(checkpoint.startedAt).toISOString(),
+            checkpoint.pausedAt === null
+              ? null
+              : new Date(checkpoint.pausedAt).toISOString(),
+            checkpoint.totalPausedMs,
+            new Date(checkpoint.updatedAt).toISOString(),
+          );
+        resolve();
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  getRecordingCheckpoint: (): Promise<RecordingCheckpoint | null> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const row = getDb()
+          .prepare('SELECT * FROM recording_checkpoint WHERE id = 1')
+          .get() as
+          | {
+              session_id: number;
+              source: string | null;
+              started_at: string;
+              paused_at: string | null;
+              total_paused_ms: number;
+              updated_at: string;
+            }
+          | undefined;
+        if (!row) {
+          resolve(null);
+          return;
+        }
+
+        let source: RecordingCheckpoint['source'] = null;
+        try {
+          source = row.source ? JSON.parse(row.source) : null;
+        } catch (error) {
+          console.error('Ignoring unreadable checkpoint source:', error);
+        }
+
+        resolve({
+          sessionId: row.session_id,
+          source,
+          startedAt: Date.parse(row.started_at),
+          pausedAt: row.paused_at ? Date.parse(row.paused_at) : null,
+          totalPausedMs: row.total_paused_ms,
+          updatedAt: Date.parse(row.updated_at),
+        });
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  clearRecordingCheckpoint: (): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      try {
+        getDb().prepare('DELETE FROM recording_checkpoint').run();
+        resolve();
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  getLatestRecordingTimestamp: (sessionId: number): Promise<string | null> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const row = getDb()
+          .prepare(
+            'SELECT MAX(timestamp) AS timestamp FROM recordings WHERE session_id = ?',
+          )
+          .get(sessionId) as { timestamp: string | null };
+        resolve(row.timestamp);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
   upsertSession: (session: Session): Promise<void> => {
     return new Promise((resolve, reject) => {
       try {
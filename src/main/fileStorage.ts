@@ -1,6 +1,16 @@
-import { app, nativeImage } from 'electron';
+import { app, nativeImage, NativeImage } from 'electron';
 import * as fs from 'fs';
 import * as path from 'path';
+import { computeDifferenceHash } from './perceptualHash';
+import {
+  getImageExtension,
+  getImageFormat,
+  getImageMimeType,
+  ImageFormat,
+} from './imageEncoding';
+import { buildPauseSegments, SessionEvent } from '../shared/sessionEvents';
+import { readFrameCursor } from './cursorPosition';
+import { readFrameWindow } from './windowMetadata';
 
 // Screenshot LRU cache for performance
 const SCREENSHOT_CACHE_MAX = 50;
@@ -9,8 +19,8 @@ const screenshotCache = new Map<
   { data: string; mtimeMs: number; lastAccess: number }
 >();
 
-const THUMBNAIL_CACHE_MAX = 200;
-const thumbnailCache = new Map<string, { data: string; mtimeMs: number }>();
+export const THUMBNAIL_WIDTH = 300;
+const THUMBNAIL_JPEG_QUALITY = 80;
 
 function trimScreenshotCache() {
   while (screenshotCache.size > SCREENSHOT_CACHE_MAX) {
@@ -20,14 +30,6 @@ function trimScreenshotCache() {
   }
 }
 
-function trimThumbnailCache() {
-  while (thumbnailCache.size > THUMBNAIL_CACHE_MAX) {
-    const oldestKey = thumbnailCache.keys().next().value as string | undefined;
-    if (!oldestKey) return;
-    thumbnailCache.delete(oldestKey);
-  }
-}
-
 // Get the recordings directory path
 export function getRecordingsDir(): string {
   return path.join(app.getPath('userData'), 'recordings');
@@ -64,17 +66,19 @@ function base64ToBuffer(base64String: string): Buffer {
   return Buffer.from(base64Data, 'base64');
 }
 
-// Save screenshot as PNG file
+// Save screenshot file, from encoded bytes or a base64 data URL.
+// The extension follows the format so readers can tell how it was encoded.
 export function saveScreenshot(
   sessionId: number,
   recordingId: number,
-  base64Image: string
+  image: Buffer | string,
+  format: ImageFormat = 'png',
 ): string {
   const sessionFolder = createSessionFolder(sessionId);
-  const filename = `screenshot_${String(recordingId).padStart(3, '0')}.png`;
+  const filename = `screenshot_${String(recordingId).padStart(3, '0')}.${getImageExtension(format)}`;
   const filePath = path.join(sessionFolder, filename);
 
-  const imageBuffer = base64ToBuffer(base64Image);
+  const imageBuffer = typeof image === 'string' ? base64ToBuffer(image) : image;
   fs.writeFileSync(filePath, imageBuffer);
 
   return filePath;
@@ -102,7 +106,8 @@ export function readScreenshot(filePath: string): string | null {
     // Read from disk and cache
     const imageBuffer = fs.readFileSync(filePath);
     const base64 = imageBuffer.toString('base64');
-    const dataUrl = `data:image/png;base64,${base64}`;
+    const mimeType = getImageMimeType(getImageFormat(null, filePath));
+    const dataUrl = `data:${mimeType};base64,${base64}`;
 
     screenshotCache.set(filePath, {
       data: dataUrl,
@@ -118,40 +123,69 @@ export function readScreenshot(filePath: string): string | null {
   }
 }
 
-export function readThumbnail(filePath: string, width = 300): string | null {
-  try {
-    if (!fs.existsSync(filePath)) {
-      return null;
-    }
+// Thumbnails sit next to their screenshot as JPEG, which nativeImage can always
+// decode, so they can be served straight from disk.
+export function getThumbnailPath(screenshotPath: string): string {
+  const name = path
+    .basename(screenshotPath, path.extname(screenshotPath))
+    .replace(/^screenshot_/, '');
+  return path.join(path.dirname(screenshotPath), `thumbnail_${name}.jpg`);
+}
 
-    const stats = fs.statSync(filePath);
-    const cacheKey = `${filePath}::w${width}`;
-    const cached = thumbnailCache.get(cacheKey);
+export function resizeToThumbnail(image: NativeImage): NativeImage {
+  const { width, height } = image.getSize();
+  return image.resize({
+    width: THUMBNAIL_WIDTH,
+    height: Math.max(1, Math.round((height / width) * THUMBNAIL_WIDTH)),
+  });
+}
 
-    if (cached && cached.mtimeMs === stats.mtimeMs) {
-      // Refresh LRU order
-      thumbnailCache.delete(cacheKey);
-      thumbnailCache.set(cacheKey, cached);
-      return cached.data;
+// Write the thumbnail for a screenshot that was just saved
+export function saveThumbnail(
+  screenshotPath: string,
+  image: NativeImage,
+): string {
+  const thumbnailPath = getThumbnailPath(screenshotPath);
+  fs.writeFileSync(
+    thumbnailPath,
+    new Uint8Array(resizeToThumbnail(image).toJPEG(THUMBNAIL_JPEG_QUALITY)),
+  );
+  return thumbnailPath;
+}
+
+/**
+ * Path of the screenshot's thumbnail on disk, generating it first if it's
+ * missing. Frames saved before thumbnails were persisted are decoded once here;
+ * WebP frames, which nativeImage can't decode, use `fallbackDataUrl` (the
+ * thumbnail stored with the recording) instead. Returns null if neither works.
+ */
+export function ensureThumbnail(
+  screenshotPath: string,
+  fallbackDataUrl?: string | null,
+): string | null {
+  try {
+    const thumbnailPath = getThumbnailPath(screenshotPath);
+    if (fs.existsSync(thumbnailPath)) {
+      return thumbnailPath;
     }
 
-    const imageBuffer = fs.readFileSync(filePath);
-    const image = nativeImage.createFromBuffer(imageBuffer);
-    const size = image.getSize();
-    if (!size || size.width === 0 || size.height === 0) {
+    let image: NativeImage | null = null;
+    if (
+      fs.existsSync(screenshotPath) &&
+      getImageFormat(null, screenshotPath) !== 'webp'
+    ) {
+      image = nativeImage.createFromPath(screenshotPath);
+    }
+    if ((!image || image.isEmpty()) && fallbackDataUrl) {
+      image = nativeImage.createFromDataURL(fallbackDataUrl);
+    }
+    if (!image || image.isEmpty()) {
       return null;
     }
 
-    const height = Math.max(1, Math.round((size.height / size.width) * width));
-    const thumbnail = image.resize({ width, height });
-    const dataUrl = thumbnail.toDataURL();
-
-    thumbnailCache.set(cacheKey, { data: dataUrl, mtimeMs: stats.mtimeMs });
-    trimThumbnailCache();
-
-    return dataUrl;
+    return saveThumbnail(screenshotPath, image);
   } catch (error) {
-    console.error('Error reading thumbnail:', error);
+    console.error('Error generating thumbnail:', error);
     return null;
   }
 }
@@ -168,16 +202,56 @@ export function readScreenshotBuffer(filePath: string): Buffer | null {
   }
 }
 
+// Perceptual hash of a screenshot, used to spot near-identical frames.
+// The image is shrunk first so hashing cost doesn't grow with capture resolution.
+export function computeScreenshotHash(
+  screenshot: NativeImage | string,
+): string | null {
+  try {
+    const image =
+      typeof screenshot === 'string'
+        ? nativeImage.createFromBuffer(base64ToBuffer(screenshot))
+        : screenshot;
+    if (image.isEmpty()) {
+      return null;
+    }
+
+    const small = image.resize({ width: 72, height: 64, quality: 'good' });
+    const { width, height } = small.getSize();
+    return computeDifferenceHash(small.toBitmap(), width, height);
+  } catch (error) {
+    console.error('Error hashing screenshot:', error);
+    return null;
+  }
+}
+
 export function deleteScreenshotFile(filePath: string): void {
   try {
     screenshotCache.delete(filePath);
-    thumbnailCache.delete(`${filePath}::w300`);
     fs.rmSync(filePath, { force: true });
+    fs.rmSync(getThumbnailPath(filePath), { force: true });
   } catch (error) {
     console.error('Error deleting screenshot file:', error);
   }
 }
 
+// Move a screenshot and its thumbnail into another session's folder, returning the new path
+export function moveScreenshotFile(
+  filePath: string,
+  sessionId: number,
+): string {
+  const sessionFolder = createSessionFolder(sessionId);
+  const movedPath = path.join(sessionFolder, path.basename(filePath));
+  const thumbnailPath = getThumbnailPath(filePath);
+
+  screenshotCache.delete(filePath);
+  fs.renameSync(filePath, movedPath);
+  if (fs.existsSync(thumbnailPath)) {
+    fs.renameSync(thumbnailPath, getThumbnailPath(movedPath));
+  }
+  return movedPath;
+}
+
 // Delete session folder and all contents
 export function deleteSessionFolder(sessionId: number): void {
   const sessionFolder = getSessionFolder(sessionId);
@@ -228,7 +302,7 @@ export function generateMetadataFile(
   sessionId: number,
   session: any,
   recordings: any[],
-  comments: any[]
+  comments: any[],
 ): void {
   const sessionFolder = getSessionFolder(sessionId);
   const metadataPath = path.join(sessionFolder, 'metadata.txt');
@@ -286,7 +360,8 @@ export function saveSessionInfo(
   sessionId: number,
   session: any,
   recordings: any[],
-  comments: any[]
+  comments: any[],
+  events: SessionEvent[] = [],
 ): void {
   const sessionFolder = getSessionFolder(sessionId);
   const infoPath = path.join(sessionFolder, 'session_info.json');
@@ -309,6 +384,11 @@ export function saveSessionInfo(
       screenshot_file: path.basename(r.screenshot_path || r.screenshot || ''),
       type: r.type,
       label: r.label || null,
+      redactions: r.redactions ? JSON.parse(r.redactions) : null,
+      display_id: r.display_id ?? null,
+      capture_group: r.capture_group ?? null,
+      ...readFrameCursor(r),
+      ...readFrameWindow(r),
     })),
     comments: comments.map((c) => ({
       id: c.id,
@@ -317,11 +397,24 @@ export function saveSessionInfo(
       comment: c.comment,
       created_at: c.created_at,
     })),
+    events: events.map((e) => ({
+      type: e.type,
+      reason: e.reason,
+      created_at: e.created_at,
+    })),
+    pauses: buildPauseSegments(events),
   };
 
   fs.writeFileSync(infoPath, JSON.stringify(sessionInfo, null, 2), 'utf-8');
 }
 
+// Write JSON through a temp file so a crash mid-write can't leave a truncated file
+export function writeJsonFileAtomic(filePath: string, data: unknown): void {
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+  fs.renameSync(tempPath, filePath);
+}
+
 // Load session info from JSON
 export function loadSessionInfo(sessionId: number): any | null {
   const sessionFolder = getSessionFolder(sessionId);
@@ -345,16 +438,18 @@ export async function updateSessionMetadata(
   sessionId: number,
   getSession: (id: number) => Promise<any>,
   getRecordings: (id: number) => Promise<any[]>,
-  getComments: (id: number) => Promise<any[]>
+  getComments: (id: number) => Promise<any[]>,
+  getEvents?: (id: number) => Promise<SessionEvent[]>,
 ): Promise<void> {
   try {
     const session = await getSession(sessionId);
     const recordings = await getRecordings(sessionId);
     const comments = await getComments(sessionId);
+    const events = getEvents ? await getEvents(sessionId) : [];
 
     if (session) {
       generateMetadataFile(sessionId, session, recordings, comments);
-      saveSessionInfo(sessionId, session, recordings, comments);
+      saveSessionInfo(sessionId, session, recordings, comments, events);
     }
   } catch (error) {
     console.error('Error updating session metadata:', error);
@@ -377,9 +472,9 @@ export function getStorageStats(): {
     };
   }
 
-  const sessions = fs.readdirSync(recordingsDir).filter((name) =>
-    name.startsWith('session_')
-  );
+  const sessions = fs
+    .readdirSync(recordingsDir)
+    .filter((name) => name.startsWith('session_'));
 
   let totalSize = 0;
   sessions.forEach((sessionFolder) => {
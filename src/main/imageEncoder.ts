@@ -0,0 +1,73 @@
+import { NativeImage } from 'electron';
+import { ImageEncodingSettings, ImageFormat } from './imageEncoding';
+import LocalCli from './localCli';
+
+const cwebp = new LocalCli({
+  command: 'cwebp',
+  versionArgs: ['-version'],
+  timeoutMs: 15000,
+  tempDirPrefix: 'relic-encode-',
+  missingMessage:
+    'cwebp not found on PATH; saving PNG/JPEG instead of WebP until restart',
+  failureMessage: 'WebP encoding failed:',
+});
+
+export interface EncodedImage {
+  data: Buffer;
+  format: ImageFormat;
+}
+
+/** Whether WebP can be written, i.e. the `cwebp` CLI runs. Checked once. */
+export async function isWebpAvailable(): Promise<boolean> {
+  return cwebp.isAvailable();
+}
+
+/**
+ * Encode a WebP with the locally installed `cwebp` CLI, since Electron's
+ * nativeImage can only write PNG and JPEG. Resolves to null when cwebp isn't
+ * available or fails.
+ */
+async function encodeWebp(
+  image: NativeImage,
+  settings: ImageEncodingSettings,
+): Promise<Buffer | null> {
+  const qualityArgs = settings.lossless
+    ? ['-lossless', '-z', '6']
+    : ['-q', String(settings.quality)];
+  const result = await cwebp.run(
+    image.toPNG(),
+    { input: 'png', output: 'webp' },
+    (inputPath, outputPath) => [
+      '-quiet',
+      ...qualityArgs,
+      inputPath,
+      '-o',
+      outputPath,
+    ],
+  );
+  return result?.output ?? null;
+}
+
+/**
+ * Encode a frame for saving. If WebP can't be produced, lossless settings fall
+ * back to PNG and lossy ones to JPEG at the same quality, so the returned
+ * format is what was actually written.
+ */
+export async function encodeImage(
+  image: NativeImage,
+  settings: ImageEncodingSettings,
+): Promise<EncodedImage> {
+  if (settings.format === 'webp') {
+    const webp = await encodeWebp(image, settings);
+    if (webp) return { data: webp, format: 'webp' };
+  }
+
+  if (
+    settings.format === 'jpeg' ||
+    (settings.format === 'webp' && !settings.lossless)
+  ) {
+    return { data: image.toJPEG(settings.quality), format: 'jpeg' };
+  }
+
+  return { data: image.toPNG(), format: 'png' };
+}
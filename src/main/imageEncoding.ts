@@ -0,0 +1,109 @@
+export type ImageFormat = 'png' | 'webp' | 'jpeg';
+
+export interface ImageEncodingSettings {
+  format: ImageFormat;
+  /** WebP only: encode without loss. PNG is always lossless, JPEG never is. */
+  lossless: boolean;
+  /** 1-100, used for lossy WebP and JPEG. */
+  quality: number;
+}
+
+export const IMAGE_QUALITY_PRESETS = {
+  high: 90,
+  balanced: 75,
+  small: 55,
+} as const;
+
+// PNG keeps frames byte-for-byte what older builds wrote.
+export const DEFAULT_IMAGE_ENCODING_SETTINGS: ImageEncodingSettings = {
+  format: 'png',
+  lossless: true,
+  quality: IMAGE_QUALITY_PRESETS.balanced,
+};
+
+const IMAGE_FORMATS: Record<
+  ImageFormat,
+  { extension: string; mimeType: string }
+> = {
+  png: { extension: 'png', mimeType: 'image/png' },
+  webp: { extension: 'webp', mimeType: 'image/webp' },
+  jpeg: { extension: 'jpg', mimeType: 'image/jpeg' },
+};
+
+const FORMATS_BY_EXTENSION: Record<string, ImageFormat> = {
+  png: 'png',
+  webp: 'webp',
+  jpg: 'jpeg',
+  jpeg: 'jpeg',
+};
+
+export function isImageFormat(value: unknown): value is ImageFormat {
+  return (
+    typeof value === 'string' &&
+    Object.prototype.hasOwnProperty.call(IMAGE_FORMATS, value)
+  );
+}
+
+/**
+ * Coerce settings read from disk or sent from the renderer, filling in
+ * defaults for anything missing or malformed.
+ */
+export function normalizeImageEncodingSettings(
+  raw: unknown,
+): ImageEncodingSettings {
+  if (!raw || typeof raw !== 'object') {
+    return { ...DEFAULT_IMAGE_ENCODING_SETTINGS };
+  }
+  const value = raw as Record<string, unknown>;
+
+  const format = isImageFormat(value.format)
+    ? value.format
+    : DEFAULT_IMAGE_ENCODING_SETTINGS.format;
+  const quality = Number(value.quality);
+
+  return {
+    format,
+    lossless:
+      format === 'png' || (format === 'webp' && value.lossless === true),
+    quality: Number.isFinite(quality)
+      ? Math.min(100, Math.max(1, Math.round(quality)))
+      : DEFAULT_IMAGE_ENCODING_SETTINGS.quality,
+  };
+}
+
+export function getImageExtension(format: ImageFormat): string {
+  return IMAGE_FORMATS[format].extension;
+}
+
+export function getImageMimeType(format: ImageFormat): string {
+  return IMAGE_FORMATS[format].mimeType;
+}
+
+/**
+ * Format of a saved screenshot. Rows written before the format was recorded
+ * have no value and are always PNG; otherwise the file extension decides.
+ */
+export function getImageFormat(
+  recordedFormat: string | null | undefined,
+  filePath?: string | null,
+): ImageFormat {
+  if (isImageFormat(recordedFormat)) return recordedFormat;
+
+  const extension = /\.([a-z0-9]+)$/i.exec(filePath ?? '')?.[1];
+  return FORMATS_BY_EXTENSION[extension?.toLowerCase() ?? ''] ?? 'png';
+}
+
+/** Format named by an image MIME type, e.g. from a download's Content-Type. */
+export function getImageFormatFromMimeType(
+  mimeType: string | null | undefined,
+): ImageFormat | null {
+  const normalized = (mimeType ?? '').split(';')[0].trim().toLowerCase();
+  const match = (Object.keys(IMAGE_FORMATS) as ImageFormat[]).find(
+    (format) => IMAGE_FORMATS[format].mimeType === normalized,
+  );
+  return match ?? null;
+}
+
+export function getImageFormatFromDataUrl(dataUrl: string): ImageFormat | null {
+  return getImageFormatFromMimeType(/^data:([^;,]+)/.exec(dataUrl)?.[1]);
+}
@@ -0,0 +1,93 @@
+import { dbHelpers } from './db';
+import { GlobalInputEvent, onGlobalInput } from './inputHook';
+import { InputRecordingSettings, toInputEventRow } from './inputRecording';
+import type { InputEvent } from '../shared/inputEvents';
+
+interface InputEventRecorderOptions {
+  getSettings: () => InputRecordingSettings;
+  /** Whether the focused window matches a sensitive-content rule. */
+  isSensitiveWindowActive: () => boolean;
+}
+
+// Rows are written in batches rather than one insert per key press.
+const FLUSH_INTERVAL_MS = 2000;
+// Wheel notches this close together are logged as one scroll.
+const SCROLL_MERGE_MS = 500;
+
+/**
+ * Logs clicks, scrolls and key presses into `input_events` while a session
+ * is recording, if the user opted in. Input in sensitive windows is dropped
+ * before it reaches the log.
+ */
+export default class InputEventRecorder {
+  private readonly options: InputEventRecorderOptions;
+
+  private sessionId: number | null = null;
+
+  private pending: InputEvent[] = [];
+
+  private removeInputListener: (() => void) | null = null;
+
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: InputEventRecorderOptions) {
+    this.options = options;
+  }
+
+  /** Record into this session, or stop recording with null (e.g. while paused). */
+  setActiveSession(sessionId: number | null) {
+    this.sessionId = sessionId;
+    this.applySettings();
+  }
+
+  /** Start or stop listening to match the current settings. */
+  applySettings() {
+    const shouldListen =
+      this.sessionId !== null && this.options.getSettings().enabled;
+
+    if (shouldListen && !this.removeInputListener) {
+      this.removeInputListener = onGlobalInput((event) => {
+        this.handleInput(event);
+      });
+      this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    } else if (!shouldListen && this.removeInputListener) {
+      this.removeInputListener();
+      this.removeInputListener = null;
+      if (this.flushTimer) clearInterval(this.flushTimer);
+      this.flushTimer = null;
+      this.flush();
+    }
+  }
+
+  private handleInput(event: GlobalInputEvent) {
+    const { sessionId } = this;
+    if (sessionId === null || this.options.isSensitiveWindowActive()) return;
+
+    const row = toInputEventRow(sessionId, event, this.options.getSettings());
+    if (!row) return;
+
+    const previous = this.pending[this.pending.length - 1];
+    if (
+      row.type === 'scroll' &&
+      previous?.type === 'scroll' &&
+      previous.session_id === sessionId &&
+      Date.parse(row.timestamp) - Date.parse(previous.timestamp) <=
+        SCROLL_MERGE_MS
+    ) {
+      previous.scroll_dx = (previous.scroll_dx ?? 0) + (row.scroll_dx ?? 0);
+      previous.scroll_dy = (previous.scroll_dy ?? 0) + (row.scroll_dy ?? 0);
+      return;
+    }
+
+    this.pending.push(row);
+  }
+
+  private flush() {
+    if (this.pending.length === 0) return;
+    const batch = this.pending;
+    this.pending = [];
+    dbHelpers.addInputEvents(batch).catch((error) => {
+      console.error('Failed to save input events:', error);
+    });
+  }
+}
@@ -0,0 +1,131 @@
+import { screen } from 'electron';
+import {
+  uIOhook,
+  UiohookKey,
+  UiohookKeyboardEvent,
+  UiohookMouseEvent,
+  UiohookWheelEvent,
+  WheelDirection,
+} from 'uiohook-napi';
+import { ScreenClick, ScreenPoint, toCursorButton } from './cursorPosition';
+
+export type KeyModifier = 'ctrl' | 'alt' | 'shift' | 'meta';
+
+/** Mouse and keyboard input from anywhere on screen, in DIP coordinates. */
+export type GlobalInputEvent =
+  | ({ type: 'click' } & ScreenClick)
+  | {
+      type: 'scroll';
+      x: number;
+      y: number;
+      /** Wheel notches, positive scrolling down or right. */
+      dx: number;
+      dy: number;
+      timestamp: string;
+    }
+  | {
+      type: 'key';
+      /** Name from the hook's key table, e.g. `A`, `Enter`, `ArrowUp`. */
+      key: string;
+      modifiers: KeyModifier[];
+      timestamp: string;
+    };
+
+export type InputListener = (event: GlobalInputEvent) => void;
+
+const KEY_NAMES = new Map<number, string>(
+  Object.entries(UiohookKey).map(([name, keycode]) => [keycode, name]),
+);
+
+const inputListeners = new Set<InputListener>();
+let running = false;
+// Set once the hook fails to start (no accessibility permission on macOS, no
+// X server under Wayland), so we stop trying.
+let unavailable = false;
+
+function emit(event: GlobalInputEvent) {
+  inputListeners.forEach((listener) => listener(event));
+}
+
+// The hook reports physical pixels on Windows; everything else in the app
+// works in the DIP coordinates `screen` uses.
+function toScreenPoint(x: number, y: number): ScreenPoint {
+  return process.platform === 'win32'
+    ? screen.screenToDipPoint({ x, y })
+    : { x, y };
+}
+
+function getModifiers(event: UiohookKeyboardEvent): KeyModifier[] {
+  const modifiers: KeyModifier[] = [];
+  if (event.ctrlKey) modifiers.push('ctrl');
+  if (event.altKey) modifiers.push('alt');
+  if (event.shiftKey) modifiers.push('shift');
+  if (event.metaKey) modifiers.push('meta');
+  return modifiers;
+}
+
+function handleMouseDown(event: UiohookMouseEvent) {
+  emit({
+    type: 'click',
+    ...toScreenPoint(event.x, event.y),
+    button: toCursorButton(event.button),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function handleWheel(event: UiohookWheelEvent) {
+  const horizontal = event.direction === WheelDirection.HORIZONTAL;
+  emit({
+    type: 'scroll',
+    ...toScreenPoint(event.x, event.y),
+    dx: horizontal ? event.rotation : 0,
+    dy: horizontal ? 0 : event.rotation,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function handleKeyDown(event: UiohookKeyboardEvent) {
+  emit({
+    type: 'key',
+    key: KEY_NAMES.get(event.keycode) ?? `Key${event.keycode}`,
+    modifiers: getModifiers(event),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function detachHandlers() {
+  uIOhook.removeListener('mousedown', handleMouseDown);
+  uIOhook.removeListener('wheel', handleWheel);
+  uIOhook.removeListener('keydown', handleKeyDown);
+}
+
+/**
+ * Listen for mouse and keyboard input anywhere on screen. The system-wide
+ * hook runs only while someone is listening, and listeners should drop what
+ * they don't need straight away. Returns a function that removes the listener.
+ */
+export function onGlobalInput(listener: InputListener): () => void {
+  inputListeners.add(listener);
+  if (!running && !unavailable) {
+    try {
+      uIOhook.on('mousedown', handleMouseDown);
+      uIOhook.on('wheel', handleWheel);
+      uIOhook.on('keydown', handleKeyDown);
+      uIOhook.start();
+      running = true;
+    } catch (error) {
+      unavailable = true;
+      detachHandlers();
+      console.warn('Input hook unavailable; input will not be recorded', error);
+    }
+  }
+
+  return () => {
+    inputListeners.delete(listener);
+    if (running && inputListeners.size === 0) {
+      detachHandlers();
+      uIOhook.stop();
+      running = false;
+    }
+  };
+}
@@ -0,0 +1,180 @@
+import type { InputEvent, KeyCategory } from '../shared/inputEvents';
+import type { GlobalInputEvent } from './inputHook';
+
+/**
+ * The global input hook only runs while `enabled` or `captureFrameClicks` is
+ * on, and both start off.
+ */
+export interface InputRecordingSettings {
+  /** Log input events between frames. Off until the user opts in. */
+  enabled: boolean;
+  recordClicks: boolean;
+  recordScrolls: boolean;
+  recordKeys: boolean;
+  /** Log typed characters as `text` without saying which key it was. */
+  maskTextInput: boolean;
+  /** Store clicks with each frame for the Editor overlay, separately from the log. */
+  captureFrameClicks: boolean;
+}
+
+export const DEFAULT_INPUT_RECORDING_SETTINGS: InputRecordingSettings = {
+  enabled: false,
+  recordClicks: true,
+  recordScrolls: true,
+  recordKeys: true,
+  maskTextInput: true,
+  captureFrameClicks: false,
+};
+
+const readBoolean = (value: unknown, fallback: boolean): boolean =>
+  typeof value === 'boolean' ? value : fallback;
+
+/**
+ * Coerce settings read from disk or sent from the renderer, filling in
+ * defaults for anything missing or malformed.
+ */
+export function normalizeInputRecordingSettings(
+  raw: unknown,
+): InputRecordingSettings {
+  if (!raw || typeof raw !== 'object') {
+    return { ...DEFAULT_INPUT_RECORDING_SETTINGS };
+  }
+  const value = raw as Record<string, unknown>;
+  const defaults = DEFAULT_INPUT_RECORDING_SETTINGS;
+
+  return {
+    enabled: readBoolean(value.enabled, defaults.enabled),
+    recordClicks: readBoolean(value.recordClicks, defaults.recordClicks),
+    recordScrolls: readBoolean(value.recordScrolls, defaults.recordScrolls),
+    recordKeys: readBoolean(value.recordKeys, defaults.recordKeys),
+    maskTextInput: readBoolean(value.maskTextInput, defaults.maskTextInput),
+    captureFrameClicks: readBoolean(
+      value.captureFrameClicks,
+      defaults.captureFrameClicks,
+    ),
+  };
+}
+
+const MODIFIER_KEYS = new Set([
+  'Ctrl',
+  'CtrlRight',
+  'Alt',
+  'AltRight',
+  'Shift',
+  'ShiftRight',
+  'Meta',
+  'MetaRight',
+]);
+
+const NAVIGATION_KEYS = new Set([
+  'ArrowLeft',
+  'ArrowUp',
+  'ArrowRight',
+  'ArrowDown',
+  'Home',
+  'End',
+  'PageUp',
+  'PageDown',
+]);
+
+const EDITING_KEYS = new Set(['Backspace', 'Delete', 'Insert']);
+
+// Single characters plus the named keys that type one.
+const TEXT_KEY =
+  /^([A-Z0-9]|Numpad[0-9]|Space|Semicolon|Equal|Comma|Minus|Period|Slash|Backquote|BracketLeft|Backslash|BracketRight|Quote|NumpadMultiply|NumpadAdd|NumpadSubtract|NumpadDecimal|NumpadDivide)$/;
+
+const FUNCTION_KEY = /^F([1-9]|1[0-9]|2[0-4])$/;
+
+function getUnmodifiedCategory(key: string): KeyCategory {
+  if (TEXT_KEY.test(key)) return 'text';
+  if (key === 'Enter' || key === 'NumpadEnter') return 'enter';
+  if (key === 'Tab') return 'tab';
+  if (key === 'Escape') return 'escape';
+  if (EDITING_KEYS.has(key)) return 'editing';
+  if (NAVIGATION_KEYS.has(key) || key.startsWith('NumpadArrow')) {
+    return 'navigation';
+  }
+  if (FUNCTION_KEY.test(key)) return 'function';
+  return 'other';
+}
+
+/**
+ * Sort a key press into a category for the input log, and decide whether its
+ * name is kept. Returns null for modifier keys on their own, which only
+ * matter as part of a shortcut.
+ */
+export function categorizeKey(
+  key: string,
+  modifiers: string[],
+  maskTextInput: boolean,
+): { category: KeyCategory; keyName: string | null } | null {
+  if (MODIFIER_KEYS.has(key)) return null;
+
+  // Shift, Option on macOS and AltGr (Ctrl+Alt on Windows) change which
+  // character is typed, so only Ctrl or Cmd make a key a shortcut.
+  const hasCtrl = modifiers.includes('ctrl');
+  const isShortcut =
+    modifiers.includes('meta') || (hasCtrl && !modifiers.includes('alt'));
+  if (isShortcut) return { category: 'shortcut', keyName: key };
+
+  const category = getUnmodifiedCategory(key);
+  return {
+    category,
+    keyName: category === 'text' && maskTextInput ? null : key,
+  };
+}
+
+/**
+ * Turn input from the hook into a row for the input log, or null if the
+ * settings say to leave it out.
+ */
+export function toInputEventRow(
+  sessionId: number,
+  event: GlobalInputEvent,
+  settings: InputRecordingSettings,
+): InputEvent | null {
+  const row: InputEvent = {
+    session_id: sessionId,
+    type: event.type,
+    timestamp: event.timestamp,
+    x: null,
+    y: null,
+    button: null,
+    scroll_dx: null,
+    scroll_dy: null,
+    key_category: null,
+    key_name: null,
+    modifiers: null,
+  };
+
+  switch (event.type) {
+    case 'click':
+      if (!settings.recordClicks) return null;
+      return { ...row, x: event.x, y: event.y, button: event.button };
+    case 'scroll':
+      if (!settings.recordScrolls) return null;
+      return {
+        ...row,
+        x: event.x,
+        y: event.y,
+        scroll_dx: event.dx,
+        scroll_dy: event.dy,
+      };
+    default: {
+      if (!settings.recordKeys) return null;
+      const key = categorizeKey(
+        event.key,
+        event.modifiers,
+        settings.maskTextInput,
+      );
+      if (!key) return null;
+      return {
+        ...row,
+        key_category: key.category,
+        key_name: key.keyName,
+        modifiers:
+          event.modifiers.length > 0 ? event.modifiers.join('+') : null,
+      };
+    }
+  }
+}
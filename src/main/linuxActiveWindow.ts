@@ -0,0 +1,284 @@
+import { exec, execFile } from 'child_process';
+import { promisify } from 'util';
+import {
+  detectLinuxSession,
+  getLinuxBackendOrder,
+  getLinuxDetectionHint,
+  LinuxFocusedWindow,
+  LinuxWindowBackendName,
+  parseGdbusString,
+  parseGnomeWindows,
+  parseKdotoolGeometry,
+  WindowDetectionStatus,
+} from './linuxWindowDetection';
+import { parseWmClass, parseXdotoolGeometry } from './windowMetadata';
+import type { WindowInfo } from './windowUtils';
+
+const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+const GNOME_WINDOWS_PATH = '/org/gnome/Shell/Extensions/Windows';
+const GNOME_WINDOWS_INTERFACE = 'org.gnome.Shell.Extensions.Windows';
+
+// Only works when GNOME Shell runs in unsafe mode, but costs nothing to try.
+const GNOME_EVAL_SCRIPT = `(() => {
+  const w = global.display.focus_window;
+  if (!w) return '';
+  const r = w.get_frame_rect();
+  return JSON.stringify({ title: w.get_title(), pid: w.get_pid(),
+    wm_class: w.get_wm_class(), x: r.x, y: r.y, width: r.width, height: r.height });
+})()`;
+
+async function getProcessName(pid: number | string): Promise<string> {
+  const { stdout } = await execAsync(`ps -p ${pid} -o comm=`);
+  return stdout.trim();
+}
+
+async function getExecutablePath(pid: number): Promise<string | undefined> {
+  try {
+    const { stdout } = await execFileAsync('readlink', [
+      '-f',
+      `/proc/${pid}/exe`,
+    ]);
+    return stdout.trim() || undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// A window's executable and WM_CLASS don't change, so they're only looked up
+// again once the active window does, not on every poll.
+let lastXdotoolDetails: {
+  key: string;
+  executablePath: string | undefined;
+  appId: string | undefined;
+} | null = null;
+
+async function getXdotoolDetails(windowId: string, pid: number) {
+  const key = `${windowId}\u0000${pid}`;
+  if (lastXdotoolDetails?.key === key) return lastXdotoolDetails;
+
+  const [executablePath, wmClass] = await Promise.all([
+    getExecutablePath(pid),
+    execAsync(`xprop -id ${windowId} WM_CLASS`).catch(() => null),
+  ]);
+  lastXdotoolDetails = {
+    key,
+    executablePath,
+    appId: wmClass ? parseWmClass(wmClass.stdout) : undefined,
+  };
+  return lastXdotoolDetails;
+}
+
+async function getXdotoolWindow(): Promise<WindowInfo> {
+  const { stdout: windowId } = await execAsync('xdotool getactivewindow');
+  const { stdout: windowInfo } = await execAsync(
+    `xdotool getwindowname ${windowId}`,
+  );
+  const { stdout: pid } = await execAsync(`xdotool getwindowpid ${windowId}`);
+  const processName = await getProcessName(pid);
+  // Extra details are best effort; a window without them is still usable.
+  const [geometry, { executablePath, appId }] = await Promise.all([
+    execAsync(`xdotool getwindowgeometry --shell ${windowId}`).catch(
+      () => null,
+    ),
+    getXdotoolDetails(windowId.trim(), parseInt(pid.trim(), 10)),
+  ]);
+
+  return {
+    title: windowInfo.trim(),
+    processName,
+    pid: parseInt(pid.trim(), 10),
+    bounds: geometry ? parseXdotoolGeometry(geometry.stdout) : undefined,
+    executablePath,
+    appId,
+  };
+}
+
+async function getWmctrlWindow(): Promise<WindowInfo> {
+  const { stdout } = await execAsync('wmctrl -l -p');
+  const activeWindow = stdout.split('\n').find((line) => line.includes('* '));
+  if (!activeWindow) throw new Error('wmctrl reported no active window');
+
+  // Columns: window id, desktop, pid, machine, then the title with its spaces.
+  const match = activeWindow.match(/^\S+\s+\S+\s+(\d+)\s+\S+\s+(.*)$/);
+  if (!match) throw new Error('Unexpected wmctrl output');
+  const [, pid, title] = match;
+  return {
+    title: title.trim(),
+    processName: await getProcessName(pid),
+    pid: parseInt(pid, 10),
+  };
+}
+
+async function callGnomeShell(method: string, args: string[] = []) {
+  const { stdout } = await execFileAsync('gdbus', [
+    'call',
+    '--session',
+    '--dest',
+    'org.gnome.Shell',
+    '--object-path',
+    GNOME_WINDOWS_PATH,
+    '--method',
+    `${GNOME_WINDOWS_INTERFACE}.${method}`,
+    ...args,
+  ]);
+  return parseGdbusString(stdout);
+}
+
+/** Ask the "Window Calls" extension, falling back to `Eval` in unsafe mode. */
+async function getGnomeFocusedWindow(): Promise<LinuxFocusedWindow> {
+  try {
+    const focused = parseGnomeWindows((await callGnomeShell('List')) ?? '');
+    if (!focused) throw new Error('GNOME Shell reported no focused window');
+    if (focused.title === null && focused.id !== null) {
+      focused.title = await callGnomeShell('GetTitle', [focused.id]);
+    }
+    return focused;
+  } catch (error) {
+    const { stdout } = await execFileAsync('gdbus', [
+      'call',
+      '--session',
+      '--dest',
+      'org.gnome.Shell',
+      '--object-path',
+      '/org/gnome/Shell',
+      '--method',
+      'org.gnome.Shell.Eval',
+      GNOME_EVAL_SCRIPT,
+    ]);
+    // `(false, '')` when Eval is disabled.
+    const focused = stdout.startsWith('(true')
+      ? parseGnomeWindows(parseGdbusString(stdout) ?? '')
+      : null;
+    if (!focused) throw error;
+    return focused;
+  }
+}
+
+async function getGnomeShellWindow(): Promise<WindowInfo> {
+  const focused = await getGnomeFocusedWindow();
+  if (focused.title === null) {
+    throw new Error('GNOME Shell did not report a window title');
+  }
+
+  const { pid } = focused;
+  const [processName, executablePath] = pid
+    ? await Promise.all([
+        getProcessName(pid).catch(() => ''),
+        getExecutablePath(pid),
+      ])
+    : ['', undefined];
+
+  return {
+    title: focused.title,
+    processName: processName || focused.wmClass || 'Unknown',
+    pid: pid ?? undefined,
+    bounds: focused.bounds,
+    executablePath,
+    appId: focused.wmClass ?? undefined,
+  };
+}
+
+async function kdotool(args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('kdotool', args);
+  return stdout.trim();
+}
+
+async function getKwinWindow(): Promise<WindowInfo> {
+  const windowId = await kdotool(['getactivewindow']);
+  if (!windowId) throw new Error('KWin reported no active window');
+
+  const [title, pidText, wmClass, geometry] = await Promise.all([
+    kdotool(['getwindowname', windowId]),
+    kdotool(['getwindowpid', windowId]).catch(() => ''),
+    kdotool(['getwindowclassname', windowId]).catch(() => ''),
+    kdotool(['getwindowgeometry', windowId]).catch(() => ''),
+  ]);
+  const pid = parseInt(pidText, 10) || undefined;
+  const [processName, executablePath] = pid
+    ? await Promise.all([
+        getProcessName(pid).catch(() => ''),
+        getExecutablePath(pid),
+      ])
+    : ['', undefined];
+
+  return {
+    title,
+    processName: processName || wmClass || 'Unknown',
+    pid,
+    bounds: parseKdotoolGeometry(geometry),
+    executablePath,
+    appId: wmClass || undefined,
+  };
+}
+
+const BACKENDS: Record<LinuxWindowBackendName, () => Promise<WindowInfo>> = {
+  xdotool: getXdotoolWindow,
+  wmctrl: getWmctrlWindow,
+  'gnome-shell': getGnomeShellWindow,
+  kwin: getKwinWindow,
+};
+
+const session = detectLinuxSession(process.env);
+const backendOrder = getLinuxBackendOrder(session);
+// With no working backend, every poll would spawn each backend's processes
+// again, so the next probe waits this long.
+const UNAVAILABLE_RETRY_MS = 30 * 1000;
+// The backend that answered last is tried first next time, so a working
+// setup doesn't pay for the ones that fail.
+let preferredBackend: LinuxWindowBackendName | null = null;
+let status: WindowDetectionStatus | null = null;
+let unavailableUntil = 0;
+
+export async function getLinuxActiveWindow(): Promise<WindowInfo> {
+  if (Date.now() < unavailableUntil) {
+    return { title: 'Unknown', processName: 'Unknown' };
+  }
+
+  const order = preferredBackend
+    ? [
+        preferredBackend,
+        ...backendOrder.filter((name) => name !== preferredBackend),
+      ]
+    : backendOrder;
+
+  // Tried one at a time, stopping at the first that answers.
+  let lastError: unknown = null;
+  const found = await order.reduce<
+    Promise<{ name: LinuxWindowBackendName; info: WindowInfo } | null>
+  >(async (previous, name) => {
+    const result = await previous;
+    if (result) return result;
+    try {
+      return { name, info: await BACKENDS[name]() };
+    } catch (error) {
+      lastError = error;
+      return null;
+    }
+  }, Promise.resolve(null));
+
+  if (found) {
+    preferredBackend = found.name;
+    status = { available: true, backend: found.name, hint: null };
+    return found.info;
+  }
+
+  // Only log when detection stops working, not on every poll.
+  if (status?.available !== false) {
+    console.error('Error getting Linux active window:', lastError);
+  }
+  preferredBackend = null;
+  unavailableUntil = Date.now() + UNAVAILABLE_RETRY_MS;
+  status = {
+    available: false,
+    backend: null,
+    hint: getLinuxDetectionHint(session),
+  };
+  return { title: 'Unknown', processName: 'Unknown' };
+}
+
+/** Null until the first lookup has been made. */
+export function getLinuxDetectionStatus(): WindowDetectionStatus | null {
+  return status;
+}
@@ -0,0 +1,151 @@
+import { parseBounds, WindowBounds } from './windowMetadata';
+
+export type LinuxSessionType = 'x11' | 'wayland' | 'unknown';
+export type LinuxDesktop = 'gnome' | 'kde' | 'other';
+
+/**
+ * Ways to ask which window is focused. `xdotool` and `wmctrl` only see X11
+ * windows. `gnome-shell` talks to GNOME Shell over D-Bus and `kwin` uses the
+ * `kdotool` CLI, which drives KWin's D-Bus scripting interface.
+ */
+export type LinuxWindowBackendName =
+  | 'xdotool'
+  | 'wmctrl'
+  | 'gnome-shell'
+  | 'kwin';
+
+export interface LinuxSession {
+  type: LinuxSessionType;
+  desktop: LinuxDesktop;
+}
+
+export function detectLinuxSession(
+  env: Record<string, string | undefined>,
+): LinuxSession {
+  const sessionType = env.XDG_SESSION_TYPE?.toLowerCase();
+  let type: LinuxSessionType = 'unknown';
+  if (sessionType === 'wayland' || env.WAYLAND_DISPLAY) {
+    type = 'wayland';
+  } else if (sessionType === 'x11' || env.DISPLAY) {
+    type = 'x11';
+  }
+
+  // e.g. "ubuntu:GNOME" or "KDE".
+  const desktops = (env.XDG_CURRENT_DESKTOP ?? env.DESKTOP_SESSION ?? '')
+    .toLowerCase()
+    .split(':');
+  let desktop: LinuxDesktop = 'other';
+  if (desktops.some((name) => name.includes('gnome'))) {
+    desktop = 'gnome';
+  } else if (
+    desktops.some((name) => name.includes('kde') || name.includes('plasma'))
+  ) {
+    desktop = 'kde';
+  }
+
+  return { type, desktop };
+}
+
+/**
+ * Backends to try, most likely first. X11 tools are left out under Wayland,
+ * where they only see XWayland windows and would report the wrong one.
+ */
+export function getLinuxBackendOrder(
+  session: LinuxSession,
+): LinuxWindowBackendName[] {
+  if (session.type === 'x11') return ['xdotool', 'wmctrl'];
+
+  let compositors: LinuxWindowBackendName[] = ['gnome-shell', 'kwin'];
+  if (session.desktop === 'kde') compositors = ['kwin', 'gnome-shell'];
+  if (session.type === 'wayland') return compositors;
+  return ['xdotool', 'wmctrl', ...compositors];
+}
+
+/**
+ * Read the first string from `gdbus call` output, e.g. `('[1, 2]',)` gives
+ * `[1, 2]`. Null if the output has no string.
+ */
+export function parseGdbusString(stdout: string): string | null {
+  const match = stdout.match(/'((?:[^'\\]|\\.)*)'/);
+  if (!match) return null;
+  return match[1].replace(/\\(.)/g, '$1');
+}
+
+export interface LinuxFocusedWindow {
+  id: string | null;
+  title: string | null;
+  pid: number | null;
+  wmClass: string | null;
+  bounds: WindowBounds | undefined;
+}
+
+function readFocusedWindow(value: Record<string, unknown>): LinuxFocusedWindow {
+  const pid = Number(value.pid);
+  return {
+    id: value.id === undefined || value.id === null ? null : String(value.id),
+    title: typeof value.title === 'string' ? value.title : null,
+    pid: Number.isInteger(pid) && pid > 0 ? pid : null,
+    wmClass: typeof value.wm_class === 'string' ? value.wm_class : null,
+    bounds: parseBounds([
+      value.x as number,
+      value.y as number,
+      value.width as number,
+      value.height as number,
+    ]),
+  };
+}
+
+/**
+ * Pick the focused window from the JSON a GNOME Shell extension or `Eval`
+ * returned: either a list of windows with a `focus` flag, or one window.
+ */
+export function parseGnomeWindows(json: string): LinuxFocusedWindow | null {
+  try {
+    const parsed = JSON.parse(json);
+    if (Array.isArray(parsed)) {
+      const focused = parsed.find(
+        (window) => window && typeof window === 'object' && window.focus,
+      );
+      return focused ? readFocusedWindow(focused) : null;
+    }
+    return parsed && typeof parsed === 'object'
+      ? readFocusedWindow(parsed)
+      : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Read `kdotool getwindowgeometry` output, e.g.
+ * `Window {id}\n  Position: 10,20\n  Geometry: 800x600`.
+ */
+export function parseKdotoolGeometry(stdout: string): WindowBounds | undefined {
+  const position = stdout.match(/Position:\s*(-?[\d.]+),(-?[\d.]+)/);
+  const size = stdout.match(/Geometry:\s*([\d.]+)x([\d.]+)/);
+  if (!position || !size) return undefined;
+  return parseBounds([position[1], position[2], size[1], size[2]]);
+}
+
+/** Whether the focused window can be looked up, and how. */
+export interface WindowDetectionStatus {
+  available: boolean;
+  /** Backend that answered last, if any. */
+  backend: string | null;
+  /** What to install or enable when detection is unavailable. */
+  hint: string | null;
+}
+
+/** What a user can do to get window detection working in this session. */
+export function getLinuxDetectionHint(session: LinuxSession): string {
+  if (session.type !== 'wayland') {
+    return 'Install xdotool or wmctrl to detect the active window.';
+  }
+  if (session.desktop === 'gnome') {
+    return 'On GNOME under Wayland, install the "Window Calls" GNOME Shell extension to detect the active window.';
+  }
+  if (session.desktop === 'kde') {
+    return 'On KDE Plasma under Wayland, install kdotool to detect the active window.';
+  }
+  return 'This Wayland desktop has no supported way to detect the active window. GNOME (with the "Window Calls" extension) and KDE Plasma (with kdotool) are supported.';
+}
@@ -0,0 +1,139 @@
+import { execFile, ExecFileException } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// Same as execFile's own default.
+const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024;
+
+interface LocalCliOptions {
+  /** Executable looked up on PATH. */
+  command: string;
+  /** Arguments that make it print its version, used to check it's installed. */
+  versionArgs: string[];
+  timeoutMs: number;
+  maxOutputBytes?: number;
+  /** Prefix for the private directory its input and output files go in. */
+  tempDirPrefix: string;
+  /** Logged once when the command turns out not to be installed. */
+  missingMessage: string;
+  /** Logged with the error when a run fails for any other reason. */
+  failureMessage: string;
+}
+
+interface LocalCliFiles {
+  /** Extension of the file `input` is written to, e.g. `png`. */
+  input: string;
+  /** Extension of the file the command writes, if it writes one. */
+  output?: string;
+}
+
+export interface LocalCliResult {
+  stdout: string;
+  /** The output file's contents, when `files.output` was given. */
+  output: Buffer | null;
+}
+
+/**
+ * A command-line tool run on temporary files, like `tesseract` or `cwebp`.
+ * The files are frames that may not be redacted yet, so they live in a
+ * directory only this user can read. Once the command turns out not to be
+ * installed it isn't tried again until restart.
+ */
+export default class LocalCli {
+  private options: LocalCliOptions;
+
+  private missing = false;
+
+  private checked = false;
+
+  private runCount = 0;
+
+  private tempDir: string | null = null;
+
+  constructor(options: LocalCliOptions) {
+    this.options = options;
+  }
+
+  /** Whether the command can be run. Checked once per launch. */
+  async isAvailable(): Promise<boolean> {
+    if (this.missing) return false;
+    if (this.checked) return true;
+
+    try {
+      await execFileAsync(this.options.command, this.options.versionArgs, {
+        timeout: this.options.timeoutMs,
+      });
+      this.checked = true;
+      return true;
+    } catch (error) {
+      this.noteError(error);
+      return false;
+    }
+  }
+
+  /**
+   * Write `input` to a temp file and run the command with the arguments
+   * `buildArgs` makes from the input and output paths. Resolves to null when
+   * the command isn't installed or fails; the temp files are always removed.
+   */
+  async run(
+    input: Buffer,
+    files: LocalCliFiles,
+    buildArgs: (inputPath: string, outputPath: string) => string[],
+  ): Promise<LocalCliResult | null> {
+    if (this.missing) return null;
+
+    this.runCount += 1;
+    let inputPath: string | null = null;
+    let outputPath: string | null = null;
+
+    try {
+      const basePath = path.join(this.getTempDir(), `frame-${this.runCount}`);
+      inputPath = `${basePath}.${files.input}`;
+      outputPath = `${basePath}.${files.output ?? 'out'}`;
+      fs.writeFileSync(inputPath, new Uint8Array(input), { mode: 0o600 });
+      const { stdout } = await execFileAsync(
+        this.options.command,
+        buildArgs(inputPath, outputPath),
+        {
+          timeout: this.options.timeoutMs,
+          maxBuffer: this.options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES,
+        },
+      );
+      this.checked = true;
+      return {
+        stdout,
+        output: files.output ? fs.readFileSync(outputPath) : null,
+      };
+    } catch (error) {
+      this.noteError(error);
+      return null;
+    } finally {
+      if (inputPath) fs.rmSync(inputPath, { force: true });
+      if (outputPath) fs.rmSync(outputPath, { force: true });
+    }
+  }
+
+  private getTempDir(): string {
+    if (!this.tempDir || !fs.existsSync(this.tempDir)) {
+      this.tempDir = fs.mkdtempSync(
+        path.join(os.tmpdir(), this.options.tempDirPrefix),
+      );
+      fs.chmodSync(this.tempDir, 0o700);
+    }
+    return this.tempDir;
+  }
+
+  private noteError(error: unknown) {
+    if ((error as ExecFileException).code === 'ENOENT') {
+      this.missing = true;
+      console.warn(this.options.missingMessage);
+    } else {
+      console.error(this.options.failureMessage, error);
+    }
+  }
+}
@@ -20,14 +20,27 @@ import {
   dialog,
   Notification,
   nativeTheme,
+  powerMonitor,
 } from 'electron';
 import { autoUpdater } from 'electron-updater';
 import log from 'electron-log';
 import MenuBuilder from './menu';
 import { resolveHtmlPath } from './util';
 import { getCurrentDisplay } from './displayUtils';
-import { getCurrentWindow } from './windowUtils';
-import { dbHelpers, TimeRangeComment } from './db';
+import { getCurrentWindow, getWindowDetectionStatus } from './windowUtils';
+import { isOcrAvailable } from './ocr';
+import { isWebpAvailable } from './imageEncoder';
+import {
+  DEFAULT_IMAGE_ENCODING_SETTINGS,
+  normalizeImageEncodingSettings,
+} from './imageEncoding';
+import {
+  dbHelpers,
+  initializeDatabase,
+  RecordingSummary,
+  TimeRangeComment,
+} from './db';
+import { DatabaseTooNewError } from './schemaMigrations';
 import stateManager from './StateManager';
 import {
   getCurrentUser,
@@ -41,38 +54,124 @@ import {
   updateUserProfile,
 } from './auth';
 import {
-  submitSessionToSupabase,
   createProgressCallback,
+  abortSubmission,
+  SubmissionOptions,
 } from './submissionService';
 import { syncAllSessionsToLocal } from './syncService';
+import {
+  CaptureMode,
+  DEFAULT_CAPTURE_RATE_SETTINGS,
+  getCaptureRateConfig,
+  normalizeCaptureRateSettings,
+} from './captureScheduler';
+import CaptureService, { CaptureSource } from './captureService';
+import { getNativeDisplaySize } from './captureSize';
+import {
+  drainSubmissionQueue,
+  getSubmissionQueueState,
+  withdrawSubmission,
+  startSubmissionQueue,
+  stopSubmissionQueue,
+  submitOrEnqueue,
+} from './submissionQueue';
+import {
+  DEFAULT_SENSITIVE_RULES,
+  evaluateSensitiveRules,
+  normalizeSensitiveRules,
+  SensitiveAction,
+  SensitiveWindow,
+  validateSensitiveRule,
+} from './sensitiveRules';
+import createSettingsStore from './settingsStore';
+import {
+  DEFAULT_REDACTION_SETTINGS,
+  normalizeRedactionSettings,
+} from './redaction';
+import {
+  DEFAULT_UPLOAD_SETTINGS,
+  normalizeUploadSettings,
+} from './uploadSettings';
 import * as fileStorage from './fileStorage';
 import * as migration from './migration';
 import { supabase } from './supabase';
-
-// Add this at the top with other constants
-const SENSITIVE_KEYWORDS = [
-  'hsbc',
-  'bank',
-  'banking',
-  'chase',
-  'wellsfargo',
-  'barclays',
-  'santander',
-  'lloyds',
-  'halifax',
-  'natwest',
-  'citibank',
-  'creditcard',
-  // 'account' removed - too common (e.g., "Google Account", "GitHub - Account Settings")
-  'payment',
-  'transfer',
-  'xvideos',
-  'pornhub',
-  'xhamster',
-  'porn',
-  'sex',
-  'spankbang',
-];
+import {
+  registerScreenshotProtocol,
+  registerScreenshotScheme,
+} from './screenshotProtocol';
+import { getScreenshotUrl, getThumbnailUrl } from './screenshotUrl';
+import backfillThumbnails from './thumbnailBackfill';
+import {
+  getCheckpointLastSeenAt,
+  reconstructRecordingDuration,
+} from './recordingCheckpoint';
+import { parseComparableTimestamp } from '../shared/sessionTimeline';
+import {
+  buildPauseSegments,
+  SessionEventReason,
+} from '../shared/sessionEvents';
+import {
+  AutoPauseReason,
+  DEFAULT_AUTO_PAUSE_SETTINGS,
+  isAutoPauseEnabled,
+  isIdle,
+  normalizeAutoPauseSettings,
+} from './autoPause';
+import {
+  DEFAULT_SESSION_SPLIT_SETTINGS,
+  getSessionSplitReason,
+  normalizeSessionSplitSettings,
+  SessionSplitReason,
+} from './sessionSplit';
+import { formatDurationHms } from '../shared/timeFormatting';
+import { readFrameCursor } from './cursorPosition';
+import InputEventRecorder from './inputEventRecorder';
+import {
+  DEFAULT_INPUT_RECORDING_SETTINGS,
+  normalizeInputRecordingSettings,
+} from './inputRecording';
+
+// What the Settings page edits, each kept as a JSON file in userData.
+const sensitiveRuleSettings = createSettingsStore(
+  'sensitive-rules.json',
+  DEFAULT_SENSITIVE_RULES,
+  normalizeSensitiveRules,
+);
+const redactionSettings = createSettingsStore(
+  'redaction-settings.json',
+  DEFAULT_REDACTION_SETTINGS,
+  normalizeRedactionSettings,
+);
+const imageEncodingSettings = createSettingsStore(
+  'image-encoding-settings.json',
+  DEFAULT_IMAGE_ENCODING_SETTINGS,
+  normalizeImageEncodingSettings,
+);
+const autoPauseSettings = createSettingsStore(
+  'auto-pause-settings.json',
+  DEFAULT_AUTO_PAUSE_SETTINGS,
+  normalizeAutoPauseSettings,
+);
+const sessionSplitSettings = createSettingsStore(
+  'session-split-settings.json',
+  DEFAULT_SESSION_SPLIT_SETTINGS,
+  normalizeSessionSplitSettings,
+);
+const inputRecordingSettings = createSettingsStore(
+  'input-recording-settings.json',
+  DEFAULT_INPUT_RECORDING_SETTINGS,
+  normalizeInputRecordingSettings,
+);
+const uploadSettings = createSettingsStore(
+  'upload-settings.json',
+  DEFAULT_UPLOAD_SETTINGS,
+  normalizeUploadSettings,
+);
+const captureRateSettings = createSettingsStore(
+  'capture-rate-settings.json',
+  DEFAULT_CAPTURE_RATE_SETTINGS,
+  normalizeCaptureRateSettings,
+);
 
 const isBrokenPipeError = (error: unknown): error is NodeJS.ErrnoException => {
   return (
@@ -231,11 +330,27 @@ const attachUiScaling = (win: BrowserWindow) => {
 let isRecording = false;
 let isPaused = false;
 let lastSensitiveNotification = 0;
+let windowDetectionWarningShown = false;
+let lastOcrWarning = 0;
 const NOTIFICATION_THROTTLE = 5000; // 5 seconds between notifications
+const OCR_WARNING_THROTTLE = 60000;
 
 let cursorMonitorInterval: NodeJS.Timeout | null = null;
 let cursorMonitorInFlight = false;
 const CURSOR_MONITOR_INTERVAL_MS = 100;
+let lastActivitySignature: string | null = null;
+
+// Set while a lock, sleep or idle pause is holding recording; only the end
+// of that same state resumes it, so manual and sensitive pauses stay put.
+let autoPausedFor: AutoPauseReason | null = null;
+let idleMonitorInterval: ReturnType<typeof setInterval> | null = null;
+const IDLE_MONITOR_INTERVAL_MS = 5000;
+// System idle time at the last check; a drop means the user came back.
+let lastSystemIdleSeconds = 0;
+
+// When recording into the current session began, for splitting at midnight.
+let activeSessionStartedAt: number | null = null;
+let sessionSplitInFlight = false;
 
 function sendToRecordingWindows(channel: string, ...args: unknown[]) {
   const mainWebContents = getSafeWebContents(mainWindow);
@@ -277,6 +392,138 @@ function sendToAllWindows(channel: string, ...args: unknown[]) {
   });
 }
 
+// Updated by the cursor monitor so typing in a sensitive window isn't logged.
+let foregroundWindowSensitive = false;
+
+const inputEventRecorder = new InputEventRecorder({
+  getSettings: inputRecordingSettings.get,
+  isSensitiveWindowActive: () => foregroundWindowSensitive,
+});
+
+// Frames are dropped rather than saved unchecked, so say why they're missing.
+function warnOcrUnavailable() {
+  const now = Date.now();
+  if (now - lastOcrWarning < OCR_WARNING_THROTTLE) return;
+  lastOcrWarning = now;
+
+  new Notification({
+    title: 'Frames Not Saved',
+    body: 'Text redaction is on but tesseract is unavailable, so frames are skipped. Install tesseract or turn off email and card number detection.',
+  }).show();
+}
+
+const METADATA_UPDATE_DEBOUNCE_MS = 1500;
+const metadataUpdateTimers = new Map<number, NodeJS.Timeout>();
+
+async function updateSessionMetadataNow(sessionId: number) {
+  try {
+    await fileStorage.updateSessionMetadata(
+      sessionId,
+      dbHelpers.getSession,
+      dbHelpers.getSessionRecordings,
+      dbHelpers.getSessionComments,
+      dbHelpers.getSessionEvents,
+    );
+  } catch (error) {
+    console.error('Failed to update session metadata:', error);
+  }
+}
+
+function scheduleSessionMetadataUpdate(sessionId: number) {
+  const existingTimer = metadataUpdateTimers.get(sessionId);
+  if (existingTimer) {
+    clearTimeout(existingTimer);
+  }
+
+  const timer = setTimeout(() => {
+    metadataUpdateTimers.delete(sessionId);
+    void updateSessionMetadataNow(sessionId);
+  }, METADATA_UPDATE_DEBOUNCE_MS);
+
+  metadataUpdateTimers.set(sessionId, timer);
+}
+
+async function flushSessionMetadataUpdate(sessionId: number) {
+  const existingTimer = metadataUpdateTimers.get(sessionId);
+  if (existingTimer) {
+    clearTimeout(existingTimer);
+    metadataUpdateTimers.delete(sessionId);
+  }
+  await updateSessionMetadataNow(sessionId);
+}
+
+function getSensitiveAction(
+  windowInfo: SensitiveWindow | null | undefined,
+): SensitiveAction | null {
+  return (
+    evaluateSensitiveRules(sensitiveRuleSettings.get(), windowInfo)?.action ??
+    null
+  );
+}
+
+// Records in the main process so capture doesn't depend on the Tray window.
+const captureService = new CaptureService({
+  onRecordingSaved: ({ sessionId, recordingId, captureLatencyMs }) => {
+    scheduleSessionMetadataUpdate(sessionId);
+    sendToAllWindows('new-recording', {
+      sessionId,
+      recordingId,
+      captureLatencyMs,
+    });
+  },
+  onStatusChanged: (status) => {
+    sendToRecordingWindows('capture-status', status);
+    inputEventRecorder.setActiveSession(
+      status.state === 'recording' ? status.sessionId : null,
+    );
+  },
+  getSensitiveAction: async (capturedWindowTitle) => {
+    const foreground = getSensitiveAction(await getCurrentWindow());
+    if (foreground || !capturedWindowTitle) return foreground;
+    return getSensitiveAction({ title: capturedWindowTitle });
+  },
+  getActiveWindow: getCurrentWindow,
+  shouldCaptureClicks: () => inputRecordingSettings.get().captureFrameClicks,
+  getRedactionSettings: redactionSettings.get,
+  onTextRedactionUnavailable: warnOcrUnavailable,
+  getImageEncodingSettings: imageEncodingSettings.get,
+  getCaptureRateConfig: (mode) =>
+    getCaptureRateConfig(captureRateSettings.get(), mode),
+});
+
+/**
+ * Refuse to delete frames from, trim or split a session that is recording,
+ * uploading or already submitted. A queued submission is withdrawn so the
+ * edited session has to be submitted again.
+ */
+async function prepareRangeEdit(sessionId: number, editing: string) {
+  if (stateManager.getActiveSessionId() === sessionId) {
+    throw new Error(`Stop recording before ${editing} this session`);
+  }
+  const session = await dbHelpers.getSession(sessionId);
+  if (!session) throw new Error('Session not found');
+  if (session.approval_state !== 'draft') {
+    throw new Error("Submitted sessions can't be changed");
+  }
+  if (!(await withdrawSubmission(sessionId))) {
+    throw new Error("This session is being uploaded and can't be changed");
+  }
+}
+
+function getSubmissionOptions(): SubmissionOptions {
+  return { uploadConcurrency: uploadSettings.get().uploadConcurrency };
+}
+
+async function getCaptureMode(sessionId: number): Promise<CaptureMode> {
+  try {
+    const session = await dbHelpers.getSession(sessionId);
+    return session?.session_status === 'tasked' ? 'tasked' : 'passive';
+  } catch (error) {
+    console.error('Failed to look up session mode for capture rate:', error);
+    return 'passive';
+  }
+}
+
 function showSensitiveContentNotification() {
   const now = Date.now();
   if (now - lastSensitiveNotification <= NOTIFICATION_THROTTLE) return;
@@ -290,6 +537,55 @@ function showSensitiveContentNotification() {
   lastSensitiveNotification = now;
 }
 
+// Sensitive-content rules match on the active window, so say once per run
+// when we can't tell what that is rather than recording unprotected quietly.
+async function warnIfWindowDetectionUnavailable() {
+  if (windowDetectionWarningShown) return;
+  const status = await getWindowDetectionStatus();
+  if (status.available) return;
+
+  new Notification({
+    title: 'Active Window Detection Unavailable',
+    body: `Sensitive content rules can't be applied while recording. ${
+      status.hint ?? ''
+    }`.trim(),
+  }).show();
+  windowDetectionWarningShown = true;
+}
+
+function pauseRecording(reason: SessionEventReason): boolean {
+  if (!isRecording || isPaused) return false;
+  isPaused = true;
+  stateManager.pauseActiveSession(reason);
+  captureService.pause();
+  sendToRecordingWindows('recording-paused');
+  return true;
+}
+
+function resumeRecording(reason: SessionEventReason | null = null): boolean {
+  if (!isRecording || !isPaused) return false;
+  isPaused = false;
+  autoPausedFor = null;
+  stateManager.resumeActiveSession(reason);
+  captureService.resume();
+  sendToRecordingWindows('recording-resumed');
+  return true;
+}
+
+function autoPauseRecording(reason: AutoPauseReason) {
+  if (!isAutoPauseEnabled(autoPauseSettings.get(), reason)) return;
+  if (!pauseRecording(reason)) return;
+  autoPausedFor = reason;
+  console.log(`Recording auto-paused: ${reason}`);
+}
+
+function autoResumeRecording(reason: AutoPauseReason) {
+  if (autoPausedFor !== reason) return;
+  if (resumeRecording(reason)) {
+    console.log(`Recording auto-resumed: ${reason} ended`);
+  }
+}
+
 function ensureCursorMonitorStarted() {
   if (cursorMonitorInterval) return;
 
@@ -302,12 +598,24 @@ function ensureCursorMonitorStarted() {
       const cursorPosition = screen.getCursorScreenPoint();
       const cursorDisplay = screen.getDisplayNearestPoint(cursorPosition);
       const windowInfo = await getCurrentWindow();
+      const sensitiveAction = getSensitiveAction(windowInfo);
+      foregroundWindowSensitive = sensitiveAction !== null;
 
-      if (isSensitiveWindow(windowInfo)) {
+      if (sensitiveAction === 'pause') {
         showSensitiveContentNotification();
-        isPaused = true;
-        stateManager.pauseActiveSession();
-        sendToRecordingWindows('recording-paused');
+        pauseRecording('sensitive_content');
+      }
+
+      // Cursor movement or a window switch counts as activity for the capture rate.
+      const activitySignature = [
+        cursorPosition.x,
+        cursorPosition.y,
+        windowInfo?.pid,
+        windowInfo?.title,
+      ].join('|');
+      if (!isPaused && activitySignature !== lastActivitySignature) {
+        lastActivitySignature = activitySignature;
+        captureService.noteActivity();
       }
 
       sendToRecordingWindows('cursor-moved', {
@@ -330,68 +638,150 @@ function stopCursorMonitor() {
   cursorMonitorInterval = null;
 }
 
-const METADATA_UPDATE_DEBOUNCE_MS = 1500;
-const metadataUpdateTimers = new Map<number, NodeJS.Timeout>();
+/**
+ * Close the session being recorded and carry on capturing the same source
+ * into a new one, so a recording left running all day becomes sessions that
+ * are easier to review and upload.
+ */
+async function splitActiveSession(reason: SessionSplitReason) {
+  const previousSessionId = stateManager.getActiveSessionId();
+  const source = stateManager.getActiveSource();
+  if (sessionSplitInFlight || previousSessionId === null || !source) return;
 
-async function updateSessionMetadataNow(sessionId: number) {
+  sessionSplitInFlight = true;
   try {
-    await fileStorage.updateSessionMetadata(
-      sessionId,
-      dbHelpers.getSession,
-      dbHelpers.getSessionRecordings,
-      dbHelpers.getSessionComments,
+    const previous = await dbHelpers.getSession(previousSessionId);
+    const sessionId = await dbHelpers.createSession(
+      previous?.session_status ?? 'passive',
+      previous?.task_id ?? null,
+    );
+    const mode = await getCaptureMode(sessionId);
+    if (
+      !isRecording ||
+      stateManager.getActiveSessionId() !== previousSessionId
+    ) {
+      // Recording stopped while the new session was being created.
+      await dbHelpers.deleteSession(sessionId);
+      return;
+    }
+
+    const { finalDuration } = stateManager.stopActiveSession('session_split');
+    stateManager.setActiveSession(sessionId, source);
+    activeSessionStartedAt = Date.now();
+    captureService.start(sessionId, source, mode);
+    sendToRecordingWindows('start-recording', sessionId);
+    console.log(
+      `Split session ${previousSessionId} into ${sessionId}: ${reason}`,
     );
+
+    await dbHelpers.updateDuration(previousSessionId, finalDuration);
+    await flushSessionMetadataUpdate(previousSessionId);
   } catch (error) {
-    console.error('Failed to update session metadata:', error);
+    console.error('Failed to split session:', error);
+  } finally {
+    sessionSplitInFlight = false;
   }
 }
 
-function scheduleSessionMetadataUpdate(sessionId: number) {
-  const existingTimer = metadataUpdateTimers.get(sessionId);
-  if (existingTimer) {
-    clearTimeout(existingTimer);
-  }
+function checkSessionSplit(idleSeconds: number) {
+  // Idle time only drops when input arrives, ending the stretch before it.
+  const endedIdleSeconds =
+    idleSeconds < lastSystemIdleSeconds ? lastSystemIdleSeconds : 0;
+  lastSystemIdleSeconds = idleSeconds;
 
-  const timer = setTimeout(() => {
-    metadataUpdateTimers.delete(sessionId);
-    void updateSessionMetadataNow(sessionId);
-  }, METADATA_UPDATE_DEBOUNCE_MS);
+  if (!isRecording || isPaused || activeSessionStartedAt === null) return;
 
-  metadataUpdateTimers.set(sessionId, timer);
+  const reason = getSessionSplitReason(sessionSplitSettings.get(), {
+    sessionStartedAt: activeSessionStartedAt,
+    recordedSeconds: stateManager.getCurrentDuration(),
+    endedIdleSeconds,
+    now: Date.now(),
+  });
+  if (reason) {
+    splitActiveSession(reason);
+  }
 }
 
-async function flushSessionMetadataUpdate(sessionId: number) {
-  const existingTimer = metadataUpdateTimers.get(sessionId);
-  if (existingTimer) {
-    clearTimeout(existingTimer);
-    metadataUpdateTimers.delete(sessionId);
-  }
-  await updateSessionMetadataNow(sessionId);
+/**
+ * Pause recording while the screen is locked, the machine sleeps or the user
+ * is away, and pick it back up when they return.
+ */
+function startPowerMonitoring() {
+  if (idleMonitorInterval) return;
+
+  powerMonitor.on('lock-screen', () => autoPauseRecording('screen_locked'));
+  powerMonitor.on('unlock-screen', () => autoResumeRecording('screen_locked'));
+  powerMonitor.on('suspend', () => autoPauseRecording('system_suspended'));
+  powerMonitor.on('resume', () => autoResumeRecording('system_suspended'));
+
+  idleMonitorInterval = setInterval(() => {
+    if (!isRecording) return;
+
+    const idleSeconds = powerMonitor.getSystemIdleTime();
+    const idle = isIdle(autoPauseSettings.get(), idleSeconds);
+    if (idle && !isPaused) {
+      autoPauseRecording('idle');
+    } else if (!idle) {
+      autoResumeRecording('idle');
+    }
+    checkSessionSplit(idleSeconds);
+  }, IDLE_MONITOR_INTERVAL_MS);
 }
 
-async function getSessionRecordingsWithImages(sessionId: number) {
-  const recordings = await dbHelpers.getSessionRecordings(sessionId);
+function stopPowerMonitoring() {
+  if (!idleMonitorInterval) return;
+  clearInterval(idleMonitorInterval);
+  idleMonitorInterval = null;
+}
 
-  return recordings.map((recording) => {
-    const screenshotFromFile = recording.screenshot_path
-      ? fileStorage.readScreenshot(recording.screenshot_path)
-      : null;
+// Where the Editor should land when opened from a search result: a specific
+// frame, or the first frame at a comment's start time.
+type EditorFocus = { recordingId?: number; time?: number };
 
-    const thumbnailFromFile = recording.screenshot_path
-      ? fileStorage.readThumbnail(recording.screenshot_path, 300)
-      : null;
+// Caps a single page so one request can't pull a whole multi-hour session.
+const MAX_RECORDINGS_PAGE_SIZE = 1000;
 
-    const screenshot = screenshotFromFile || recording.screenshot;
-    const thumbnail =
-      thumbnailFromFile ||
-      (recording.thumbnail && recording.thumbnail.length > 0
-        ? recording.thumbnail
-        : screenshot || recording.thumbnail);
+// Images are loaded lazily by the renderer through the relic:// protocol,
+// so only their URLs travel over IPC.
+async function getSessionRecordingsWithImageUrls(
+  sessionId: number,
+  page?: { offset: number; limit: number },
+) {
+  const recordings = await dbHelpers.getSessionRecordingSummaries(
+    sessionId,
+    page,
+  );
+  const groupFrames = await dbHelpers.getCaptureGroupFrames(
+    recordings.map((recording) => recording.id),
+  );
+  const framesByGroup = new Map<number, RecordingSummary[]>();
+  groupFrames.forEach((frame) => {
+    if (frame.capture_group == null) return;
+    const frames = framesByGroup.get(frame.capture_group);
+    if (frames) frames.push(frame);
+    else framesByGroup.set(frame.capture_group, [frame]);
+  });
+
+  const toDisplayFrame = (recording: RecordingSummary) => ({
+    id: recording.id,
+    display_id: recording.display_id ?? null,
+    screenshot: getScreenshotUrl(recording.id),
+    thumbnail: getThumbnailUrl(recording.id),
+    ...readFrameCursor(recording),
+  });
 
+  return recordings.map((recording) => {
+    const others = framesByGroup.get(recording.id) ?? [];
     return {
       ...recording,
-      screenshot,
-      thumbnail,
+      screenshot: getScreenshotUrl(recording.id),
+      thumbnail: getThumbnailUrl(recording.id),
+      ...readFrameCursor(recording),
+      // Every display's frame from a multi-display tick, left to right.
+      displays:
+        others.length > 0
+          ? [recording, ...others].map(toDisplayFrame)
+          : undefined,
     };
   });
 }
@@ -418,18 +808,6 @@ async function syncSessionsIfNeeded(userId: string) {
   })();
 }
 
-// Add this function to check for sensitive content
-function isSensitiveWindow(windowInfo: any) {
-  if (!windowInfo || !windowInfo.title) return false;
-
-  const titleLower = windowInfo.title.toLowerCase();
-  const processLower = (windowInfo.processName || '').toLowerCase();
-
-  return SENSITIVE_KEYWORDS.some(
-    (keyword) => titleLower.includes(keyword) || processLower.includes(keyword),
-  );
-}
-
 process.on('uncaughtException', (error) => {
   console.error('Uncaught exception in main process:', error);
 });
@@ -625,6 +1003,124 @@ const createDashboardWindow = () => {
 };
 
 // All IPC handler registrations are in registerIpcHandlers()
+/**
+ * Start capturing into `sessionId`. A recovered session passes the seconds it
+ * had already recorded so its clock carries on from there. Returns false if
+ * sensitive content blocked the start.
+ */
+async function startRecording(
+  sessionId: number,
+  source: CaptureSource,
+  resumeFrom?: { durationSeconds: number; interruptedAt: number },
+): Promise<boolean> {
+  const windowInfo = await getCurrentWindow();
+  if (getSensitiveAction(windowInfo) === 'pause') {
+    new Notification({
+      title: 'Sensitive Content Detected',
+      body: 'Cannot start recording due to sensitive content!',
+    }).show();
+    return false;
+  }
+  await warnIfWindowDetectionUnavailable();
+
+  if (resumeFrom === undefined) {
+    stateManager.setActiveSession(sessionId, source);
+  } else {
+    stateManager.restoreActiveSession(
+      sessionId,
+      resumeFrom.durationSeconds,
+      source,
+      resumeFrom.interruptedAt,
+    );
+  }
+  await stateManager.initializeFromDb(dbHelpers);
+  isRecording = true;
+  isPaused = false;
+  autoPausedFor = null;
+  activeSessionStartedAt = Date.now();
+  lastSystemIdleSeconds = 0;
+  lastActivitySignature = null;
+  captureService.start(sessionId, source, await getCaptureMode(sessionId));
+
+  if (mainWindow?.isVisible() && !mainWindow.isMinimized()) {
+    mainWindow.minimize();
+  }
+  if (trayWindow?.isVisible() && !trayWindow.isMinimized()) {
+    trayWindow.hide();
+  }
+
+  sendToRecordingWindows('start-recording', sessionId);
+  return true;
+}
+
+/**
+ * A checkpoint left over from the last run means the app quit mid-recording
+ * without stopping: a crash, force quit or power loss. Save the duration
+ * rebuilt from the checkpoint and the session's frames, then let the user
+ * resume recording into the session or finalize it as it is.
+ */
+async function recoverInterruptedRecording() {
+  const checkpoint = await dbHelpers.getRecordingCheckpoint();
+  if (!checkpoint) return;
+
+  const { sessionId } = checkpoint;
+  const session = await dbHelpers.getSession(sessionId);
+  if (!session) {
+    await dbHelpers.clearRecordingCheckpoint();
+    return;
+  }
+
+  const lastRecordingAt = parseComparableTimestamp(
+    await dbHelpers.getLatestRecordingTimestamp(sessionId),
+  );
+  const duration = reconstructRecordingDuration(checkpoint, lastRecordingAt);
+  const interruptedAt = getCheckpointLastSeenAt(checkpoint, lastRecordingAt);
+  await dbHelpers.updateDuration(sessionId, duration);
+
+  const canResume = checkpoint.source !== null;
+  const { response } = await dialog.showMessageBox({
+    type: 'question',
+    buttons: canResume
+      ? ['Finalize Session', 'Resume Recording']
+      : ['Finalize Session'],
+    defaultId: canResume ? 1 : 0,
+    cancelId: 0,
+    title: 'Recording Interrupted',
+    message: 'Your last recording did not stop cleanly.',
+    detail: `Session ${sessionId} recorded ${formatDurationHms(duration)} before Relic closed. Resume recording into it, or finalize it as it is.`,
+  });
+
+  // The prompt doesn't block the app, so a new recording may have started
+  // while it was open. That session owns the checkpoint now; resuming would
+  // replace it, so the interrupted session is finalized instead.
+  const recordingStarted = stateManager.getActiveSessionId() !== null;
+  if (response === 1 && checkpoint.source) {
+    if (recordingStarted) {
+      new Notification({
+        title: 'Session Finalized',
+        body: `Session ${sessionId} was finalized because another recording is already running.`,
+      }).show();
+    } else {
+      const resumed = await startRecording(sessionId, checkpoint.source, {
+        durationSeconds: duration,
+        interruptedAt,
+      });
+      if (resumed) return;
+    }
+  }
+
+  await dbHelpers.addSessionEvent(
+    sessionId,
+    'stop',
+    'interrupted',
+    new Date(interruptedAt).toISOString(),
+  );
+  if (!recordingStarted) {
+    await dbHelpers.clearRecordingCheckpoint();
+  }
+  await flushSessionMetadataUpdate(sessionId);
+}
+
 function registerIpcHandlers() {
   if (ipcHandlersRegistered) return;
   ipcHandlersRegistered = true;
@@ -679,7 +1175,7 @@ function registerIpcHandlers() {
   ipcMain.handle('show-delete-confirmation', async (event, options) => {
     const result = await dialog.showMessageBox({
       type: 'warning',
-      buttons: ['Cancel', 'Delete'],
+      buttons: ['Cancel', options.confirmLabel || 'Delete'],
       defaultId: 0,
       title: options.title || 'Confirm Delete',
       message: options.message || 'Are you sure you want to delete this item?',
@@ -809,12 +1305,9 @@ function registerIpcHandlers() {
   });
 
   ipcMain.handle('take-screenshot', async () => {
-    const primaryDisplay = screen.getPrimaryDisplay();
-    const { width, height } = primaryDisplay.size;
-
     const sources = await desktopCapturer.getSources({
       types: ['screen'],
-      thumbnailSize: { width, height },
+      thumbnailSize: getNativeDisplaySize(screen.getPrimaryDisplay()),
     });
 
     return sources[0]?.thumbnail.toDataURL() || null;
@@ -834,39 +1327,137 @@ function registerIpcHandlers() {
       thumbnailSize: { width: 100, height: 100 },
     });
 
-    return windows.some((window) =>
-      isSensitiveWindow({ title: window.name }),
+    return windows.some(
+      (window) => getSensitiveAction({ title: window.name }) !== null,
     );
   });
 
-  ipcMain.on('start-recording', async (event, sessionId) => {
-    const windowInfo = await getCurrentWindow();
-    if (isSensitiveWindow(windowInfo)) {
-      new Notification({
-        title: 'Sensitive Content Detected',
-        body: 'Cannot start recording due to sensitive content!',
-      }).show();
-      return;
-    }
+  ipcMain.handle('get-sensitive-rules', () => {
+    return sensitiveRuleSettings.get();
+  });
 
-    stateManager.setActiveSession(sessionId);
-    await stateManager.initializeFromDb(dbHelpers);
-    isRecording = true;
-    isPaused = false;
+  ipcMain.handle('save-sensitive-rules', (event, rules: unknown) => {
+    normalizeSensitiveRules(rules).forEach((rule) => {
+      const problem = validateSensitiveRule(rule);
+      if (problem) throw new Error(problem);
+    });
+    return sensitiveRuleSettings.save(rules);
+  });
 
-    if (mainWindow?.isVisible() && !mainWindow.isMinimized()) {
-      mainWindow.minimize();
-    }
-    if (trayWindow?.isVisible() && !trayWindow.isMinimized()) {
-      trayWindow.hide();
-    }
+  ipcMain.handle('reset-sensitive-rules', () => {
+    return sensitiveRuleSettings.save(DEFAULT_SENSITIVE_RULES);
+  });
 
-    sendToRecordingWindows('start-recording', sessionId);
+  ipcMain.handle('get-window-detection-status', () => {
+    return getWindowDetectionStatus();
+  });
+
+  ipcMain.handle('get-redaction-settings', () => {
+    return redactionSettings.get();
+  });
+
+  ipcMain.handle('get-ocr-status', async () => {
+    return { available: await isOcrAvailable() };
+  });
+
+  ipcMain.handle('save-redaction-settings', (event, settings: unknown) => {
+    return redactionSettings.save(settings);
+  });
+
+  ipcMain.handle('get-image-encoding-settings', () => {
+    return imageEncodingSettings.get();
+  });
+
+  ipcMain.handle('get-image-encoder-status', async () => {
+    return { webp: await isWebpAvailable() };
   });
 
+  ipcMain.handle(
+    'save-image-encoding-settings',
+    async (event, settings: unknown) => {
+      const { format } = normalizeImageEncodingSettings(settings);
+      if (format === 'webp' && !(await isWebpAvailable())) {
+        throw new Error(
+          'WebP needs cwebp installed. Choose PNG or JPEG instead.',
+        );
+      }
+      return imageEncodingSettings.save(settings);
+    },
+  );
+
+  ipcMain.handle('get-upload-settings', () => {
+    return uploadSettings.get();
+  });
+
+  ipcMain.handle('save-upload-settings', (event, settings: unknown) => {
+    return uploadSettings.save(settings);
+  });
+
+  ipcMain.handle('get-capture-rate-settings', () => {
+    return captureRateSettings.get();
+  });
+
+  ipcMain.handle('save-capture-rate-settings', (event, settings: unknown) => {
+    const saved = captureRateSettings.save(settings);
+    captureService.applyCaptureRate();
+    return saved;
+  });
+
+  ipcMain.handle('get-auto-pause-settings', () => {
+    return autoPauseSettings.get();
+  });
+
+  ipcMain.handle('save-auto-pause-settings', (event, settings: unknown) => {
+    return autoPauseSettings.save(settings);
+  });
+
+  ipcMain.handle('get-input-recording-settings', () => {
+    return inputRecordingSettings.get();
+  });
+
+  ipcMain.handle(
+    'save-input-recording-settings',
+    (event, settings: unknown) => {
+      const saved = inputRecordingSettings.save(settings);
+      inputEventRecorder.applySettings();
+      captureService.applyClickSetting();
+      return saved;
+    },
+  );
+
+  ipcMain.handle('get-session-split-settings', () => {
+    return sessionSplitSettings.get();
+  });
+
+  ipcMain.handle('save-session-split-settings', (event, settings: unknown) => {
+    return sessionSplitSettings.save(settings);
+  });
+
+  ipcMain.handle(
+    'start-recording',
+    async (event, sessionId: number, source: CaptureSource) => {
+      const started = await startRecording(sessionId, source);
+      if (!started) {
+        // The session was created for this start; don't leave it behind empty.
+        try {
+          if ((await dbHelpers.countSessionRecordings(sessionId)) === 0) {
+            await dbHelpers.deleteSession(sessionId);
+            fileStorage.deleteSessionFolder(sessionId);
+          }
+        } catch (error) {
+          console.error('Failed to remove unstarted session:', error);
+        }
+      }
+      return started;
+    },
+  );
+
   ipcMain.on('stop-recording', async () => {
     isRecording = false;
     isPaused = false;
+    autoPausedFor = null;
+    activeSessionStartedAt = null;
+    captureService.stop();
     const { sessionId, finalDuration } = stateManager.stopActiveSession();
 
     if (sessionId && finalDuration !== null) {
@@ -881,17 +1472,11 @@ function registerIpcHandlers() {
   });
 
   ipcMain.on('pause-recording', () => {
-    if (!isRecording || isPaused) return;
-    isPaused = true;
-    stateManager.pauseActiveSession();
-    sendToRecordingWindows('recording-paused');
+    pauseRecording('manual');
   });
 
   ipcMain.on('resume-recording', () => {
-    if (!isRecording || !isPaused) return;
-    isPaused = false;
-    stateManager.resumeActiveSession();
-    sendToRecordingWindows('recording-resumed');
+    resumeRecording();
   });
 
   ipcMain.handle('get-active-session', () => {
@@ -901,12 +1486,48 @@ function registerIpcHandlers() {
     };
   });
 
+  ipcMain.handle('get-session-pauses', async (event, sessionId: number) => {
+    try {
+      return buildPauseSegments(await dbHelpers.getSessionEvents(sessionId));
+    } catch (error) {
+      console.error('Failed to get session pauses:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle(
+    'get-session-input-events',
+    async (event, sessionId: number) => {
+      try {
+        return await dbHelpers.getSessionInputEvents(sessionId);
+      } catch (error) {
+        console.error('Failed to get session input events:', error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle('get-capture-status', () => {
+    return captureService.getStatus();
+  });
+
   ipcMain.handle('get-current-duration', () => {
     return stateManager.getCurrentDuration();
   });
 
   ipcMain.handle('delete-session', async (event, sessionId: number) => {
     try {
+      // Deleting under a running upload would leave it writing rows for a
+      // session that no longer exists.
+      if (!(await withdrawSubmission(sessionId))) {
+        throw new Error("This session is being uploaded and can't be deleted");
+      }
+      // Clean up anything an interrupted submission left on the server
+      try {
+        await abortSubmission(sessionId);
+      } catch (error) {
+        console.error('Failed to abort pending submission:', error);
+      }
       // Delete from database
       await dbHelpers.deleteSession(sessionId);
       // Delete session folder and files
@@ -931,6 +1552,15 @@ function registerIpcHandlers() {
     }
   });
 
+  ipcMain.handle('search-sessions', async (event, query: string) => {
+    try {
+      return await dbHelpers.searchSessions(query);
+    } catch (error) {
+      console.error('Failed to search sessions:', error);
+      throw error;
+    }
+  });
+
   ipcMain.handle(
     'create-session',
     async (event, sessionType: 'passive' | 'tasked', taskId?: number) => {
@@ -985,17 +1615,14 @@ function registerIpcHandlers() {
 
       const progressCallback = createProgressCallback(event.sender);
 
-      const result = await submitSessionToSupabase(
+      // Marks the session submitted locally once the upload completes, or
+      // leaves it queued for the background worker if the upload fails.
+      return await submitOrEnqueue(
         userResult.user.id,
         sessionId,
         progressCallback,
+        getSubmissionOptions(),
       );
-
-      if (result.success) {
-        await dbHelpers.submitForApproval(sessionId);
-      }
-
-      return result;
     } catch (error: any) {
       console.error('Submit session error:', error);
       return {
@@ -1005,6 +1632,15 @@ function registerIpcHandlers() {
     }
   });
 
+  ipcMain.handle('get-submission-queue', async () => {
+    try {
+      return await getSubmissionQueueState();
+    } catch (error) {
+      console.error('Failed to get submission queue:', error);
+      return [];
+    }
+  });
+
   ipcMain.handle('migrate-recordings', async () => {
     try {
       const result = await migration.migrateRecordingsToFiles();
@@ -1213,155 +1849,98 @@ function registerIpcHandlers() {
     }
   });
 
-  ipcMain.handle(
-    'capture-window',
-    async (event, sourceId: string, sourceType: 'window' | 'screen') => {
-      try {
-        const sources = await desktopCapturer.getSources({
-          types: ['window', 'screen'],
-          thumbnailSize: { width: 1920, height: 1080 },
-        });
-
-        let source = sources.find((s) => s.id === sourceId);
+  ipcMain.handle('get-session-recordings', async (event, sessionId: number) => {
+    return getSessionRecordingsWithImageUrls(sessionId);
+  });
 
-        if (!source && sourceType === 'screen') {
-          source = sources.find(
-            (s) =>
-              s.id.startsWith('screen:') &&
-              (s.display_id?.toString() === sourceId ||
-                s.display_id?.toString() ===
-                  sourceId.replace('screen:', '').split(':')[0]),
-          );
+  ipcMain.handle(
+    'get-session-recordings-page',
+    async (
+      event,
+      sessionId: number,
+      page: { offset: number; limit: number },
+    ) => {
+      const limit = Math.min(
+        MAX_RECORDINGS_PAGE_SIZE,
+        Math.max(1, Math.floor(page?.limit ?? MAX_RECORDINGS_PAGE_SIZE)),
+      );
+      const offset = Math.max(0, Math.floor(page?.offset ?? 0));
+      const [recordings, total] = await Promise.all([
+        getSessionRecordingsWithImageUrls(sessionId, { offset, limit }),
+        dbHelpers.countSessionRecordings(sessionId),
+      ]);
+      return { recordings, total, offset };
+    },
+  );
 
-          if (!source) {
-            source = sources.find((s) => s.id.startsWith('screen:'));
+  ipcMain.handle(
+    'show-editor',
+    async (event, sessionId: number, focus?: EditorFocus) => {
+      try {
+        if (isWindowAlive(trayWindow)) {
+          try {
+            trayWindow.hide();
+          } catch (error) {
+            // Ignore teardown races.
           }
         }
 
-        if (!source) return null;
-
-        const size = source.thumbnail.getSize();
-        if (!size || size.width === 0 || size.height === 0) {
-          return null;
-        }
-
-        const thumbnailWidth = 300;
-        const thumbnailHeight = Math.max(
-          1,
-          Math.round((size.height / size.width) * thumbnailWidth),
+        const existingEditorWindow = BrowserWindow.getAllWindows().find(
+          (win) => {
+            const webContents = getSafeWebContents(win);
+            if (!webContents) return false;
+            const url = webContents.getURL();
+            return (
+              url.includes('index.html') &&
+              !url.includes('tray=true') &&
+              isWindowAlive(win) &&
+              win !== trayWindow
+            );
+          },
         );
-        const thumbnail = source.thumbnail.resize({
-          width: thumbnailWidth,
-          height: thumbnailHeight,
-        });
-
-        return {
-          windowId: source.id,
-          windowName: source.name,
-          timestamp: new Date().toISOString(),
-          thumbnail: thumbnail.toDataURL(),
-          screenshot: source.thumbnail.toDataURL(),
-        };
-      } catch (error) {
-        console.error('[CAPTURE] Error:', error);
-        return null;
-      }
-    },
-  );
-
-  ipcMain.handle('save-recording', async (event, recording) => {
-    try {
-      // Insert DB row first to get a stable recording ID, then write the screenshot to disk.
-      const recordingId = await dbHelpers.createRecording({
-        ...recording,
-        screenshot: '',
-        screenshot_path: null,
-      });
-
-      const screenshotPath = fileStorage.saveScreenshot(
-        recording.session_id,
-        recordingId,
-        recording.screenshot,
-      );
-      await dbHelpers.updateRecordingScreenshotPath(recordingId, screenshotPath);
-
-      scheduleSessionMetadataUpdate(recording.session_id);
-
-      sendToAllWindows('new-recording', {
-        sessionId: recording.session_id,
-        recordingId,
-      });
-
-      return recordingId;
-    } catch (error) {
-      console.error('Failed to save recording:', error);
-      throw error;
-    }
-  });
 
-  ipcMain.handle('get-session-recordings', async (event, sessionId: number) => {
-    return getSessionRecordingsWithImages(sessionId);
-  });
-
-  ipcMain.handle('show-editor', async (event, sessionId: number) => {
-    try {
-      const recordings = await getSessionRecordingsWithImages(sessionId);
-
-      if (isWindowAlive(trayWindow)) {
-        try {
-          trayWindow.hide();
-        } catch (error) {
-          // Ignore teardown races.
+        if (existingEditorWindow) {
+          focusWindow(existingEditorWindow);
+          setTimeout(() => {
+            if (!isWindowAlive(existingEditorWindow)) return;
+            sendToWindow(existingEditorWindow, 'load-editor', {
+              sessionId,
+              focus,
+            });
+          }, 150);
+          return;
         }
-      }
 
-      const existingEditorWindow = BrowserWindow.getAllWindows().find((win) => {
-        const webContents = getSafeWebContents(win);
-        if (!webContents) return false;
-        const url = webContents.getURL();
-        return (
-          url.includes('index.html') &&
-          !url.includes('tray=true') &&
-          isWindowAlive(win) &&
-          win !== trayWindow
-        );
-      });
+        const win = await ensureMainWindow();
+        if (!isWindowAlive(win)) return;
 
-      if (existingEditorWindow) {
-        focusWindow(existingEditorWindow);
+        focusWindow(win);
         setTimeout(() => {
-          if (!isWindowAlive(existingEditorWindow)) return;
-          sendToWindow(existingEditorWindow, 'load-editor', {
-            sessionId,
-            recordings,
-          });
+          if (!isWindowAlive(win)) return;
+          sendToWindow(win, 'load-editor', { sessionId, focus });
         }, 150);
-        return;
+      } catch (error) {
+        console.error('Failed to show editor:', error);
+        throw error;
       }
-
-      const win = await ensureMainWindow();
-      if (!isWindowAlive(win)) return;
-
-      focusWindow(win);
-      setTimeout(() => {
-        if (!isWindowAlive(win)) return;
-        sendToWindow(win, 'load-editor', { sessionId, recordings });
-      }, 150);
-    } catch (error) {
-      console.error('Failed to show editor:', error);
-      throw error;
-    }
-  });
+    },
+  );
 
   ipcMain.handle(
     'delete-recording',
     async (event, { sessionId, recordingId }) => {
+      await prepareRangeEdit(sessionId, 'deleting frames from');
       try {
         const recording = await dbHelpers.getRecordingById(recordingId);
+        const groupFrames = await dbHelpers.getCaptureGroupFrames([
+          recordingId,
+        ]);
         await dbHelpers.deleteRecording(sessionId, recordingId);
-        if (recording?.screenshot_path) {
-          fileStorage.deleteScreenshotFile(recording.screenshot_path);
-        }
+        [recording, ...groupFrames].forEach((frame) => {
+          if (frame?.screenshot_path) {
+            fileStorage.deleteScreenshotFile(frame.screenshot_path);
+          }
+        });
         scheduleSessionMetadataUpdate(sessionId);
         return true;
       } catch (error) {
@@ -1371,6 +1950,80 @@ function registerIpcHandlers() {
     },
   );
 
+  ipcMain.handle(
+    'delete-recording-range',
+    async (
+      event,
+      {
+        sessionId,
+        fromRecordingId,
+        toRecordingId,
+      }: {
+        sessionId: number;
+        fromRecordingId: number | null;
+        toRecordingId: number | null;
+      },
+    ) => {
+      await prepareRangeEdit(sessionId, 'trimming');
+      try {
+        const screenshotPaths = await dbHelpers.deleteRecordingRange(
+          sessionId,
+          fromRecordingId,
+          toRecordingId,
+        );
+        screenshotPaths.forEach((screenshotPath) =>
+          fileStorage.deleteScreenshotFile(screenshotPath),
+        );
+        await flushSessionMetadataUpdate(sessionId);
+        return true;
+      } catch (error) {
+        console.error('Failed to delete recording range:', error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    'split-session',
+    async (
+      event,
+      { sessionId, recordingId }: { sessionId: number; recordingId: number },
+    ) => {
+      await prepareRangeEdit(sessionId, 'splitting');
+      try {
+        const split = await dbHelpers.splitSession(sessionId, recordingId);
+        // The frames' files follow them, so deleting either session only
+        // removes its own screenshots.
+        await Promise.all(
+          split.movedRecordings.map(async (recording) => {
+            if (!recording.screenshot_path) return;
+            try {
+              const movedPath = fileStorage.moveScreenshotFile(
+                recording.screenshot_path,
+                split.sessionId,
+              );
+              await dbHelpers.updateRecordingScreenshotPath(
+                recording.id,
+                movedPath,
+              );
+            } catch (error) {
+              console.error(
+                `Failed to move screenshot for recording ${recording.id}:`,
+                error,
+              );
+            }
+          }),
+        );
+        await flushSessionMetadataUpdate(sessionId);
+        await flushSessionMetadataUpdate(split.sessionId);
+        return split.sessionId;
+      } catch (error) {
+        console.error('Failed to split session:', error);
+        throw error;
+      }
+    },
+  );
+
   ipcMain.handle(
     'update-recording-label',
     async (event, { recordingId, label }) => {
@@ -1486,6 +2139,7 @@ function registerIpcHandlers() {
         } catch (syncError) {
           console.error('Failed to sync sessions after login:', syncError);
         }
+        drainSubmissionQueue();
       }
 
       return result;
@@ -1800,11 +2454,33 @@ app.on('window-all-closed', () => {
   }
 });
 
+registerScreenshotScheme();
+
 app
   .whenReady()
   .then(async () => {
+    try {
+      initializeDatabase();
+    } catch (error) {
+      console.error('Failed to open local database:', error);
+      dialog.showErrorBox(
+        'Unable to open recordings database',
+        error instanceof DatabaseTooNewError
+          ? 'Your local recordings were saved by a newer version of Relic. Please update the app to continue.'
+          : `Relic could not open its local database: ${(error as Error)?.message || 'Unknown error'}`,
+      );
+      app.quit();
+      return;
+    }
+
+    registerScreenshotProtocol();
     registerIpcHandlers();
     await createWindow();
+    startPowerMonitoring();
+    backfillThumbnails();
+    recoverInterruptedRecording().catch((error) => {
+      console.error('Failed to recover interrupted recording:', error);
+    });
 
     const userResult = await getCurrentUser();
     if (userResult.success && userResult.user) {
@@ -1816,6 +2492,18 @@ app
       currentUserId = null;
     }
 
+    startSubmissionQueue({
+      getCurrentUserId: () => currentUserId,
+      getProgressCallback: () => {
+        const webContents = getSafeWebContents(mainWindow);
+        return webContents ? createProgressCallback(webContents) : undefined;
+      },
+      getSubmissionOptions,
+      onQueueChanged: (queue) => {
+        sendToAllWindows('submission-queue-updated', queue);
+      },
+    });
+
     app.on('activate', () => {
       if (!isWindowAlive(mainWindow)) {
         createWindow().catch((error) => {
@@ -1831,6 +2519,16 @@ app
 
 app.on('before-quit', () => {
   stopCursorMonitor();
+  stopPowerMonitoring();
+  captureService.stop();
+  // Quitting normally stops the recording, so it isn't offered for recovery.
+  const { sessionId, finalDuration } = stateManager.stopActiveSession();
+  if (sessionId !== null) {
+    dbHelpers.updateDuration(sessionId, finalDuration).catch((error) => {
+      console.error('Failed to save duration on quit:', error);
+    });
+  }
+  stopSubmissionQueue();
   metadataUpdateTimers.forEach((timer) => clearTimeout(timer));
   metadataUpdateTimers.clear();
   if (tray) {
@@ -72,6 +72,7 @@ export async function migrateRecordingsToFiles(): Promise<{
           recording.id,
           recording.screenshot,
         );
+        fileStorage.ensureThumbnail(screenshotPath, recording.thumbnail);
 
         // Update database with file path
         const updateStmt = db.prepare(
@@ -107,6 +108,7 @@ export async function migrateRecordingsToFiles(): Promise<{
           dbHelpers.getSession,
           dbHelpers.getSessionRecordings,
           dbHelpers.getSessionComments,
+          dbHelpers.getSessionEvents,
         );
 
         console.log(`Updated metadata for session ${sessionId}`);
@@ -0,0 +1,32 @@
+import LocalCli from './localCli';
+import { OcrWord, parseTesseractTsv } from './redaction';
+
+const tesseract = new LocalCli({
+  command: 'tesseract',
+  versionArgs: ['--version'],
+  timeoutMs: 15000,
+  maxOutputBytes: 16 * 1024 * 1024,
+  tempDirPrefix: 'relic-ocr-',
+  missingMessage:
+    'tesseract not found on PATH; text redaction is disabled until restart',
+  failureMessage: 'OCR failed:',
+});
+
+/** Whether the `tesseract` CLI can be run. Checked once per launch. */
+export async function isOcrAvailable(): Promise<boolean> {
+  return tesseract.isAvailable();
+}
+
+/**
+ * Read the words in a PNG with the locally installed `tesseract` CLI.
+ * Resolves to null when OCR isn't available or fails; callers that rely on
+ * it must not save the frame as if it had been checked.
+ */
+export async function recognizeText(png: Buffer): Promise<OcrWord[] | null> {
+  const result = await tesseract.run(png, { input: 'png' }, (imagePath) => [
+    imagePath,
+    'stdout',
+    'tsv',
+  ]);
+  return result ? parseTesseractTsv(result.stdout) : null;
+}
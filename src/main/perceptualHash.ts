@@ -0,0 +1,111 @@
+// Difference hash (dHash): shrink to 9x8 grayscale and record whether each
+// pixel is brighter than its right-hand neighbour, giving a 64-bit fingerprint
+// that survives re-encoding, small cursor moves and blinking carets.
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * Frames whose hashes differ in at most this many bits are treated as the same
+ * screen. Tuned so a blinking caret or clock tick still counts as a duplicate.
+ */
+export const DEFAULT_DUPLICATE_THRESHOLD = 4;
+
+function averageLuminance(
+  bitmap: ArrayLike<number>,
+  width: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+): number {
+  let total = 0;
+  let count = 0;
+  for (let y = y0; y < y1; y += 1) {
+    for (let x = x0; x < x1; x += 1) {
+      const offset = (y * width + x) * 4;
+      // Equal channel weights so RGBA and BGRA bitmaps hash the same way.
+      total += bitmap[offset] + bitmap[offset + 1] + bitmap[offset + 2];
+      count += 3;
+    }
+  }
+  return count > 0 ? total / count : 0;
+}
+
+/**
+ * Compute a 64-bit difference hash as a 16-character hex string.
+ * `bitmap` holds 4 bytes per pixel (RGBA or BGRA), row-major.
+ */
+export function computeDifferenceHash(
+  bitmap: ArrayLike<number>,
+  width: number,
+  height: number,
+): string {
+  if (width <= 0 || height <= 0 || bitmap.length < width * height * 4) {
+    throw new Error(`Bitmap does not match its ${width}x${height} size`);
+  }
+
+  const cells: number[] = [];
+  for (let row = 0; row < HASH_HEIGHT; row += 1) {
+    const y0 = Math.floor((row * height) / HASH_HEIGHT);
+    const y1 = Math.max(y0 + 1, Math.floor(((row + 1) * height) / HASH_HEIGHT));
+    for (let col = 0; col < HASH_WIDTH; col += 1) {
+      const x0 = Math.floor((col * width) / HASH_WIDTH);
+      const x1 = Math.max(x0 + 1, Math.floor(((col + 1) * width) / HASH_WIDTH));
+      cells.push(
+        averageLuminance(
+          bitmap,
+          width,
+          x0,
+          y0,
+          Math.min(x1, width),
+          Math.min(y1, height),
+        ),
+      );
+    }
+  }
+
+  let hash = '';
+  for (let row = 0; row < HASH_HEIGHT; row += 1) {
+    let byte = 0;
+    for (let col = 0; col < HASH_WIDTH - 1; col += 1) {
+      const left = cells[row * HASH_WIDTH + col];
+      const right = cells[row * HASH_WIDTH + col + 1];
+      byte = byte * 2 + (left > right ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+  return hash;
+}
+
+// Spell out a hex hash as a string of '0'/'1' characters, 4 per digit.
+function toBits(hash: string): string {
+  return Array.from(hash, (digit) =>
+    parseInt(digit, 16).toString(2).padStart(4, '0'),
+  ).join('');
+}
+
+/**
+ * Number of differing bits between two hashes of equal length.
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    throw new Error('Cannot compare perceptual hashes of different lengths');
+  }
+
+  const bitsA = toBits(a);
+  const bitsB = toBits(b);
+  let distance = 0;
+  for (let i = 0; i < bitsA.length; i += 1) {
+    if (bitsA[i] !== bitsB[i]) distance += 1;
+  }
+  return distance;
+}
+
+export function isNearDuplicate(
+  a: string | null | undefined,
+  b: string | null | undefined,
+  threshold = DEFAULT_DUPLICATE_THRESHOLD,
+): boolean {
+  if (!a || !b || a.length !== b.length) return false;
+  return hammingDistance(a, b) <= threshold;
+}
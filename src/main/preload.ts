@@ -12,6 +12,26 @@ const VALID_CHANNELS = [
   'get-active-window',
   'get-current-window-info',
   'check-sensitive-content',
+  'get-sensitive-rules',
+  'save-sensitive-rules',
+  'reset-sensitive-rules',
+  'get-window-detection-status',
+  'get-redaction-settings',
+  'save-redaction-settings',
+  'get-ocr-status',
+  'get-image-encoding-settings',
+  'get-image-encoder-status',
+  'save-image-encoding-settings',
+  'get-upload-settings',
+  'save-upload-settings',
+  'get-capture-rate-settings',
+  'save-capture-rate-settings',
+  'get-auto-pause-settings',
+  'save-auto-pause-settings',
+  'get-session-split-settings',
+  'save-session-split-settings',
+  'get-input-recording-settings',
+  'save-input-recording-settings',
   'get-displays',
   'show-dashboard',
   'get-active-windows',
@@ -25,7 +45,10 @@ const VALID_CHANNELS = [
   'update-session-duration',
   'submit-session',
   'submission-progress',
+  'get-submission-queue',
+  'submission-queue-updated',
   'get-sessions',
+  'search-sessions',
   'get-active-session',
   'get-current-duration',
   'get-tasks',
@@ -36,9 +59,12 @@ const VALID_CHANNELS = [
   'start-passive-mode',
   'open-task',
   'set-mode',
-  'capture-window',
-  'save-recording',
+  'get-capture-status',
+  'get-session-pauses',
+  'get-session-input-events',
+  'capture-status',
   'get-session-recordings',
+  'get-session-recordings-page',
   'new-recording',
   'show-delete-confirmation',
   'delete-session',
@@ -46,6 +72,8 @@ const VALID_CHANNELS = [
   'show-editor',
   'load-editor',
   'delete-recording',
+  'delete-recording-range',
+  'split-session',
   'show-success-notification',
   'show-error-notification',
   'update-recording-label',
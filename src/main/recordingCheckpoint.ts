@@ -0,0 +1,58 @@
+/** Recording state written to SQLite while a session records, so a crash can be recovered. */
+export interface RecordingCheckpoint {
+  sessionId: number;
+  /** The capture source, so a recovered session can resume where it left off. */
+  source: {
+    id: string;
+    type: 'window' | 'screen';
+    displayIds?: string[];
+  } | null;
+  /**
+   * When the recording started. Pauses are not folded in here; they are in
+   * `totalPausedMs`. After a crash recovery this is backdated by the duration
+   * recorded so far, so pauses from before the crash count in neither.
+   */
+  startedAt: number;
+  pausedAt: number | null;
+  totalPausedMs: number;
+  /** Last heartbeat; the app was still recording at this point. */
+  updatedAt: number;
+}
+
+/** Recorded seconds as of `now`, not counting time spent paused. */
+export function getCheckpointDurationSeconds(
+  checkpoint: Pick<
+    RecordingCheckpoint,
+    'startedAt' | 'pausedAt' | 'totalPausedMs'
+  >,
+  now: number,
+): number {
+  const end = checkpoint.pausedAt ?? now;
+  return Math.max(
+    0,
+    Math.floor((end - checkpoint.startedAt - checkpoint.totalPausedMs) / 1000),
+  );
+}
+
+/** The last sign of life from a recording: its latest heartbeat or saved frame. */
+export function getCheckpointLastSeenAt(
+  checkpoint: RecordingCheckpoint,
+  lastRecordingAt: number | null,
+): number {
+  return Math.max(checkpoint.updatedAt, lastRecordingAt ?? 0);
+}
+
+/**
+ * Duration of a recording that never stopped cleanly. It ended at the last
+ * sign of life, or when it was paused. Time after that (a crash, or the
+ * machine sleeping) isn't counted.
+ */
+export function reconstructRecordingDuration(
+  checkpoint: RecordingCheckpoint,
+  lastRecordingAt: number | null,
+): number {
+  return getCheckpointDurationSeconds(
+    checkpoint,
+    getCheckpointLastSeenAt(checkpoint, lastRecordingAt),
+  );
+}
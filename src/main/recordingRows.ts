@@ -0,0 +1,55 @@
+/** The parts of a local recording that are copied to its remote row. */
+export interface LocalRecordingFields {
+  timestamp: string;
+  window_name: string;
+  window_id: string;
+  type: 'passive' | 'tasked';
+  label?: string;
+  redactions?: string | null;
+}
+
+export interface RemoteRecordingRow {
+  user_id: string;
+  session_id: number;
+  timestamp: string;
+  window_name: string;
+  window_id: string;
+  thumbnail_url: string;
+  screenshot_url: string;
+  type: 'passive' | 'tasked';
+  label: string | null;
+  redactions?: string[];
+}
+
+/**
+ * The `recordings` row inserted for a submitted frame. `redactions` is only
+ * set on frames that were redacted: the column is added by the optional
+ * supabase-migration-redactions.sql, and PostgREST rejects an insert that
+ * names a column the project doesn't have.
+ */
+export function buildRemoteRecordingRow(
+  recording: LocalRecordingFields,
+  userId: string,
+  remoteSessionId: number,
+  screenshotUrl: string,
+): RemoteRecordingRow {
+  const row: RemoteRecordingRow = {
+    user_id: userId,
+    session_id: remoteSessionId,
+    timestamp: recording.timestamp,
+    window_name: recording.window_name,
+    window_id: recording.window_id,
+    thumbnail_url: screenshotUrl, // Use same URL as screenshot
+    screenshot_url: screenshotUrl,
+    type: recording.type,
+    label: recording.label || null,
+  };
+
+  const redactions: unknown = recording.redactions
+    ? JSON.parse(recording.redactions)
+    : null;
+  if (Array.isArray(redactions) && redactions.length > 0) {
+    row.redactions = redactions.map(String);
+  }
+  return row;
+}
@@ -0,0 +1,276 @@
+export type RedactionStyle = 'blur' | 'black';
+export type RedactionKind =
+  | 'region'
+  | 'email'
+  | 'card_number'
+  | 'sensitive_window';
+
+/** A fixed area of the frame, in fractions of its width and height. */
+export interface RedactionRegion {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RedactionSettings {
+  enabled: boolean;
+  style: RedactionStyle;
+  regions: RedactionRegion[];
+  detectEmails: boolean;
+  detectCardNumbers: boolean;
+}
+
+export interface RedactionBox {
+  kind: RedactionKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OcrWord {
+  text: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  /** Words sharing a line key were read as one line of text. */
+  line: string;
+}
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: false,
+  style: 'blur',
+  regions: [],
+  detectEmails: true,
+  detectCardNumbers: true,
+};
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+// 13-19 digits, optionally grouped with spaces or dashes.
+const CARD_NUMBER_PATTERN = /\d(?:[ -]?\d){12,18}/g;
+
+// Text boxes are grown slightly so glyph edges don't survive redaction.
+const TEXT_PADDING_PX = 4;
+const PIXELATE_BLOCK_PX = 16;
+
+function clampFraction(value: unknown, fallback: number): number {
+  const number = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(number)) return fallback;
+  return Math.min(1, Math.max(0, number));
+}
+
+/**
+ * Coerce settings read from disk or sent from the renderer, filling in
+ * defaults for anything missing or malformed.
+ */
+export function normalizeRedactionSettings(raw: unknown): RedactionSettings {
+  if (!raw || typeof raw !== 'object') return { ...DEFAULT_REDACTION_SETTINGS };
+  const value = raw as Record<string, unknown>;
+
+  const regions = Array.isArray(value.regions)
+    ? value.regions.flatMap((entry, index): RedactionRegion[] => {
+        if (!entry || typeof entry !== 'object') return [];
+        const region = entry as Record<string, unknown>;
+        const x = clampFraction(region.x, 0);
+        const y = clampFraction(region.y, 0);
+        const width = Math.min(clampFraction(region.width, 0), 1 - x);
+        const height = Math.min(clampFraction(region.height, 0), 1 - y);
+        if (width <= 0 || height <= 0) return [];
+        return [
+          {
+            id:
+              typeof region.id === 'string' && region.id
+                ? region.id
+                : `region-${index + 1}`,
+            name: typeof region.name === 'string' ? region.name : '',
+            x,
+            y,
+            width,
+            height,
+          },
+        ];
+      })
+    : [];
+
+  return {
+    enabled: value.enabled === true,
+    style: value.style === 'black' ? 'black' : 'blur',
+    regions,
+    detectEmails: value.detectEmails !== false,
+    detectCardNumbers: value.detectCardNumbers !== false,
+  };
+}
+
+export function wantsTextDetection(settings: RedactionSettings): boolean {
+  return (
+    settings.enabled && (settings.detectEmails || settings.detectCardNumbers)
+  );
+}
+
+export function regionsToBoxes(
+  regions: RedactionRegion[],
+  frameWidth: number,
+  frameHeight: number,
+): RedactionBox[] {
+  return regions.map((region) => ({
+    kind: 'region',
+    x: Math.floor(region.x * frameWidth),
+    y: Math.floor(region.y * frameHeight),
+    width: Math.ceil(region.width * frameWidth),
+    height: Math.ceil(region.height * frameHeight),
+  }));
+}
+
+/** Luhn checksum, so order numbers and timestamps aren't taken for cards. */
+export function isLikelyCardNumber(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i += 1) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/** Parse `tesseract ... tsv` output into word boxes. */
+export function parseTesseractTsv(tsv: string): OcrWord[] {
+  return tsv
+    .split('\n')
+    .slice(1)
+    .flatMap((row): OcrWord[] => {
+      const columns = row.split('\t');
+      if (columns.length < 12 || columns[0] !== '5') return [];
+      const text = columns.slice(11).join('\t').trim();
+      if (!text) return [];
+      const [left, top, width, height] = columns.slice(6, 10).map(Number);
+      return [
+        {
+          text,
+          left,
+          top,
+          width,
+          height,
+          line: columns.slice(1, 5).join(':'),
+        },
+      ];
+    });
+}
+
+function boundingBox(kind: RedactionKind, words: OcrWord[]): RedactionBox {
+  const left = Math.min(...words.map((word) => word.left));
+  const top = Math.min(...words.map((word) => word.top));
+  const right = Math.max(...words.map((word) => word.left + word.width));
+  const bottom = Math.max(...words.map((word) => word.top + word.height));
+  return {
+    kind,
+    x: left - TEXT_PADDING_PX,
+    y: top - TEXT_PADDING_PX,
+    width: right - left + TEXT_PADDING_PX * 2,
+    height: bottom - top + TEXT_PADDING_PX * 2,
+  };
+}
+
+/**
+ * Boxes around emails and card numbers in OCR output. Each line is matched as
+ * a whole so values split across words, like "4111 1111 1111 1111", are found.
+ */
+export function findSensitiveText(
+  words: OcrWord[],
+  settings: Pick<RedactionSettings, 'detectEmails' | 'detectCardNumbers'>,
+): RedactionBox[] {
+  const lines = new Map<string, OcrWord[]>();
+  words.forEach((word) => {
+    const line = lines.get(word.line) ?? [];
+    line.push(word);
+    lines.set(word.line, line);
+  });
+
+  const boxes: RedactionBox[] = [];
+  lines.forEach((lineWords) => {
+    let text = '';
+    const spans = lineWords.map((word) => {
+      if (text) text += ' ';
+      const start = text.length;
+      text += word.text;
+      return { word, start, end: text.length };
+    });
+
+    const collect = (kind: RedactionKind, pattern: RegExp) => {
+      Array.from(text.matchAll(pattern)).forEach((match) => {
+        if (kind === 'card_number' && !isLikelyCardNumber(match[0])) return;
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        const matched = spans
+          .filter((span) => span.start < end && span.end > start)
+          .map((span) => span.word);
+        if (matched.length > 0) boxes.push(boundingBox(kind, matched));
+      });
+    };
+
+    if (settings.detectEmails) collect('email', EMAIL_PATTERN);
+    if (settings.detectCardNumbers) collect('card_number', CARD_NUMBER_PATTERN);
+  });
+
+  return boxes;
+}
+
+/**
+ * Black out or pixelate boxes in a 4-bytes-per-pixel bitmap, in place.
+ * Channel order doesn't matter, so this works on BGRA and RGBA alike.
+ */
+export function applyRedactions(
+  bitmap: { [index: number]: number },
+  frameWidth: number,
+  frameHeight: number,
+  boxes: RedactionBox[],
+  style: RedactionStyle,
+): void {
+  boxes.forEach((box) => {
+    const x0 = Math.max(0, Math.floor(box.x));
+    const y0 = Math.max(0, Math.floor(box.y));
+    const x1 = Math.min(frameWidth, Math.ceil(box.x + box.width));
+    const y1 = Math.min(frameHeight, Math.ceil(box.y + box.height));
+    if (x1 <= x0 || y1 <= y0) return;
+
+    const block =
+      style === 'black' ? Math.max(x1 - x0, y1 - y0) : PIXELATE_BLOCK_PX;
+
+    for (let by = y0; by < y1; by += block) {
+      for (let bx = x0; bx < x1; bx += block) {
+        const bx1 = Math.min(bx + block, x1);
+        const by1 = Math.min(by + block, y1);
+        const fill = [0, 0, 0, 255];
+
+        if (style === 'blur') {
+          const totals = [0, 0, 0, 0];
+          for (let y = by; y < by1; y += 1) {
+            for (let x = bx; x < bx1; x += 1) {
+              const offset = (y * frameWidth + x) * 4;
+              for (let c = 0; c < 4; c += 1) totals[c] += bitmap[offset + c];
+            }
+          }
+          const count = (bx1 - bx) * (by1 - by);
+          for (let c = 0; c < 4; c += 1)
+            fill[c] = Math.round(totals[c] / count);
+        }
+
+        for (let y = by; y < by1; y += 1) {
+          for (let x = bx; x < bx1; x += 1) {
+            const offset = (y * frameWidth + x) * 4;
+            for (let c = 0; c < 4; c += 1) bitmap[offset + c] = fill[c];
+          }
+        }
+      }
+    }
+  });
+}
@@ -0,0 +1,482 @@
+// The subset of better-sqlite3's Database used by the migration runner.
+interface MigrationDatabase {
+  exec: (sql: string) => unknown;
+  prepare: (sql: string) => {
+    run: (...params: unknown[]) => unknown;
+    get: (...params: unknown[]) => unknown;
+    all: (...params: unknown[]) => unknown[];
+  };
+  transaction: (fn: () => void) => () => void;
+}
+
+export interface SchemaMigration {
+  version: number;
+  name: string;
+  up: (db: MigrationDatabase) => void;
+}
+
+/**
+ * Thrown when the on-disk database was written by a newer build of the app.
+ * Opening it would risk silently dropping data the newer schema relies on.
+ */
+export class DatabaseTooNewError extends Error {
+  readonly databaseVersion: number;
+
+  readonly supportedVersion: number;
+
+  constructor(databaseVersion: number, supportedVersion: number) {
+    super(
+      `Database schema version ${databaseVersion} is newer than the latest version supported by this app (${supportedVersion})`,
+    );
+    this.name = 'DatabaseTooNewError';
+    this.databaseVersion = databaseVersion;
+    this.supportedVersion = supportedVersion;
+  }
+}
+
+function hasColumn(
+  db: MigrationDatabase,
+  table: string,
+  column: string,
+): boolean {
+  const rows = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{
+    name: string;
+  }>;
+  return rows.some((row) => row.name === column);
+}
+
+/**
+ * Add a column unless an earlier ad-hoc migration already created it.
+ * Databases from before the schema_version table may already have some columns.
+ */
+export function addColumnIfMissing(
+  db: MigrationDatabase,
+  table: string,
+  column: string,
+  definition: string,
+): void {
+  if (!hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// Append new migrations to the end of this list. Never edit or reorder a
+// migration that has shipped; add a new one instead.
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    name: 'create_core_tables',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          created_at TEXT NOT NULL,
+          duration INTEGER NOT NULL DEFAULT 0,
+          approval_state TEXT NOT NULL DEFAULT 'draft',
+          session_status TEXT NOT NULL,
+          task_id INTEGER,
+          reward_id INTEGER,
+          CONSTRAINT valid_approval_state CHECK (approval_state IN ('draft', 'submitted', 'approved', 'rejected')),
+          CONSTRAINT valid_session_status CHECK (session_status IN ('passive', 'tasked'))
+        );
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS recordings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id INTEGER NOT NULL,
+          timestamp TEXT NOT NULL,
+          window_name TEXT NOT NULL,
+          window_id TEXT NOT NULL,
+          thumbnail TEXT NOT NULL,
+          screenshot TEXT NOT NULL,
+          type TEXT NOT NULL,
+          label TEXT,
+          FOREIGN KEY (session_id) REFERENCES sessions(id),
+          CONSTRAINT valid_type CHECK (type IN ('passive', 'tasked'))
+        );
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS comments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id INTEGER NOT NULL,
+          start_time INTEGER NOT NULL,
+          end_time INTEGER NOT NULL,
+          comment TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (session_id) REFERENCES sessions(id)
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'add_recordings_screenshot_path',
+    up: (db) => {
+      addColumnIfMissing(db, 'recordings', 'screenshot_path', 'TEXT');
+    },
+  },
+  {
+    version: 3,
+    name: 'create_submission_journal',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS submission_journal (
+          session_id INTEGER PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          remote_session_id INTEGER,
+          stage TEXT NOT NULL DEFAULT 'uploading',
+          started_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (session_id) REFERENCES sessions(id),
+          CONSTRAINT valid_stage CHECK (stage IN ('uploading', 'finalizing', 'points_awarded'))
+        );
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS submission_uploads (
+          session_id INTEGER NOT NULL,
+          recording_id INTEGER NOT NULL,
+          storage_path TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          url TEXT,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (session_id, recording_id),
+          FOREIGN KEY (session_id) REFERENCES submission_journal(session_id),
+          CONSTRAINT valid_status CHECK (status IN ('pending', 'uploaded'))
+        );
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'create_submission_queue',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS submission_queue (
+          session_id INTEGER PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at TEXT NOT NULL,
+          last_error TEXT,
+          enqueued_at TEXT NOT NULL,
+          FOREIGN KEY (session_id) REFERENCES sessions(id)
+        );
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'add_recordings_perceptual_hash',
+    up: (db) => {
+      addColumnIfMissing(db, 'recordings', 'perceptual_hash', 'TEXT');
+      // Points at the first frame of a run of near-identical captures.
+      addColumnIfMissing(db, 'recordings', 'duplicate_of', 'INTEGER');
+    },
+  },
+  {
+    version: 6,
+    name: 'add_recordings_redactions',
+    up: (db) => {
+      // JSON array of what was redacted in the frame; NULL when unaltered.
+      addColumnIfMissing(db, 'recordings', 'redactions', 'TEXT');
+    },
+  },
+  {
+    version: 7,
+    name: 'create_search_index',
+    up: (db) => {
+      // External-content FTS5 tables: the text lives in recordings/comments and
+      // triggers keep the index in step with every insert, update and delete.
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS recordings_fts USING fts5(
+          window_name,
+          label,
+          content='recordings',
+          content_rowid='id',
+          tokenize='unicode61 remove_diacritics 2'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS recordings_fts_insert AFTER INSERT ON recordings BEGIN
+          INSERT INTO recordings_fts (rowid, window_name, label)
+          VALUES (new.id, new.window_name, new.label);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS recordings_fts_delete AFTER DELETE ON recordings BEGIN
+          INSERT INTO recordings_fts (recordings_fts, rowid, window_name, label)
+          VALUES ('delete', old.id, old.window_name, old.label);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS recordings_fts_update AFTER UPDATE OF window_name, label ON recordings BEGIN
+          INSERT INTO recordings_fts (recordings_fts, rowid, window_name, label)
+          VALUES ('delete', old.id, old.window_name, old.label);
+          INSERT INTO recordings_fts (rowid, window_name, label)
+          VALUES (new.id, new.window_name, new.label);
+        END;
+
+        CREATE VIRTUAL TABLE IF NOT EXISTS comments_fts USING fts5(
+          comment,
+          content='comments',
+          content_rowid='id',
+          tokenize='unicode61 remove_diacritics 2'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS comments_fts_insert AFTER INSERT ON comments BEGIN
+          INSERT INTO comments_fts (rowid, comment) VALUES (new.id, new.comment);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS comments_fts_delete AFTER DELETE ON comments BEGIN
+          INSERT INTO comments_fts (comments_fts, rowid, comment)
+          VALUES ('delete', old.id, old.comment);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS comments_fts_update AFTER UPDATE OF comment ON comments BEGIN
+          INSERT INTO comments_fts (comments_fts, rowid, comment)
+          VALUES ('delete', old.id, old.comment);
+          INSERT INTO comments_fts (rowid, comment) VALUES (new.id, new.comment);
+        END;
+
+        INSERT INTO recordings_fts (recordings_fts) VALUES ('rebuild');
+        INSERT INTO comments_fts (comments_fts) VALUES ('rebuild');
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'add_recordings_image_format',
+    up: (db) => {
+      // 'png', 'webp' or 'jpeg'; NULL on rows saved before formats were configurable (PNG).
+      addColumnIfMissing(db, 'recordings', 'image_format', 'TEXT');
+    },
+  },
+  {
+    version: 9,
+    name: 'create_recording_checkpoint',
+    up: (db) => {
+      // Single row describing the recording in progress. It outlives a crash,
+      // so the next launch can tell a session never stopped cleanly.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS recording_checkpoint (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          session_id INTEGER NOT NULL,
+          source TEXT,
+          started_at TEXT NOT NULL,
+          paused_at TEXT,
+          total_paused_ms INTEGER NOT NULL DEFAULT 0,
+          updated_at TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'create_session_events',
+    up: (db) => {
+      // start/pause/resume/stop history, so pauses show up as gaps with a reason.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS session_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id INTEGER NOT NULL,
+          type TEXT NOT NULL,
+          reason TEXT,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (session_id) REFERENCES sessions(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_session_events_session
+          ON session_events (session_id, created_at);
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'add_recordings_display_group',
+    up: (db) => {
+      // Multi-display capture saves one frame per display each tick; frames
+      // after the first point at it so the Editor can show them together.
+      addColumnIfMissing(db, 'recordings', 'display_id', 'TEXT');
+      addColumnIfMissing(db, 'recordings', 'capture_group', 'INTEGER');
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_recordings_capture_group
+          ON recordings (capture_group);
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'add_recordings_cursor',
+    up: (db) => {
+      // Pointer position when the frame was grabbed, as fractions of the
+      // frame, plus a JSON list of the clicks since the previous frame.
+      addColumnIfMissing(db, 'recordings', 'cursor_x', 'REAL');
+      addColumnIfMissing(db, 'recordings', 'cursor_y', 'REAL');
+      addColumnIfMissing(db, 'recordings', 'cursor_clicks', 'TEXT');
+    },
+  },
+  {
+    version: 13,
+    name: 'create_input_events',
+    up: (db) => {
+      // Opt-in log of the clicks, scrolls and key presses between frames.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS input_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id INTEGER NOT NULL,
+          type TEXT NOT NULL,
+          timestamp TEXT NOT NULL,
+          x REAL,
+          y REAL,
+          button TEXT,
+          scroll_dx INTEGER,
+          scroll_dy INTEGER,
+          key_category TEXT,
+          key_name TEXT,
+          modifiers TEXT,
+          FOREIGN KEY (session_id) REFERENCES sessions(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_input_events_session
+          ON input_events (session_id, timestamp);
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: 'add_recordings_window_metadata',
+    up: (db) => {
+      // Which app and page the frame shows. window_bounds is JSON.
+      addColumnIfMissing(db, 'recordings', 'process_name', 'TEXT');
+      addColumnIfMissing(db, 'recordings', 'window_bounds', 'TEXT');
+      addColumnIfMissing(db, 'recordings', 'executable_path', 'TEXT');
+      addColumnIfMissing(db, 'recordings', 'app_id', 'TEXT');
+      addColumnIfMissing(db, 'recordings', 'url', 'TEXT');
+    },
+  },
+  {
+    version: 15,
+    name: 'add_recordings_thumbnail_failed',
+    up: (db) => {
+      // Set by the thumbnail backfill for frames with no image it could
+      // decode, so nothing tries to make their thumbnail again.
+      addColumnIfMissing(
+        db,
+        'recordings',
+        'thumbnail_failed',
+        'INTEGER NOT NULL DEFAULT 0',
+      );
+    },
+  },
+  {
+    version: 16,
+    name: 'create_background_tasks',
+    up: (db) => {
+      // Progress of one-time passes over existing data, kept with the data so
+      // a reset or restored database runs them again. before_id is where a
+      // pass working down from the newest recording stopped; NULL if it
+      // hasn't started.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS background_tasks (
+          name TEXT PRIMARY KEY,
+          completed INTEGER NOT NULL DEFAULT 0,
+          before_id INTEGER
+        );
+
+        INSERT OR IGNORE INTO background_tasks (name)
+          VALUES ('thumbnail_backfill');
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION =
+  SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1]?.version ?? 0;
+
+/**
+ * Work out which migrations still need to run for a database at `currentVersion`.
+ * Throws if the migration list is malformed or the database is newer than the app.
+ */
+export function getPendingMigrations(
+  migrations: SchemaMigration[],
+  currentVersion: number,
+): SchemaMigration[] {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(
+        `Schema migration "${migration.name}" has version ${migration.version}, expected ${index + 1}`,
+      );
+    }
+  });
+
+  const latestVersion = migrations.length;
+  if (currentVersion > latestVersion) {
+    throw new DatabaseTooNewError(currentVersion, latestVersion);
+  }
+
+  return migrations.filter((migration) => migration.version > currentVersion);
+}
+
+function ensureSchemaVersionTable(db: MigrationDatabase): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+}
+
+export function getSchemaVersion(db: MigrationDatabase): number {
+  ensureSchemaVersionTable(db);
+  const row = db
+    .prepare('SELECT MAX(version) AS version FROM schema_version')
+    .get() as { version: number | null } | undefined;
+  return row?.version ?? 0;
+}
+
+/**
+ * Bring the database up to LATEST_SCHEMA_VERSION.
+ * Each migration runs in its own transaction together with its schema_version row,
+ * so a failure leaves the database at the last fully applied version.
+ */
+export function runSchemaMigrations(
+  db: MigrationDatabase,
+  migrations: SchemaMigration[] = SCHEMA_MIGRATIONS,
+): { from: number; to: number } {
+  const from = getSchemaVersion(db);
+  const pending = getPendingMigrations(migrations, from);
+
+  const recordVersion = db.prepare(`
+    INSERT INTO schema_version (version, name, applied_at)
+    VALUES (?, ?, ?)
+  `);
+
+  pending.forEach((migration) => {
+    const apply = db.transaction(() => {
+      migration.up(db);
+      recordVersion.run(
+        migration.version,
+        migration.name,
+        new Date().toISOString(),
+      );
+    });
+
+    try {
+      apply();
+      console.log(
+        `Applied schema migration ${migration.version} (${migration.name})`,
+      );
+    } catch (err) {
+      console.error(
+        `Schema migration ${migration.version} (${migration.name}) failed:`,
+        err,
+      );
+      throw err;
+    }
+  });
+
+  return {
+    from,
+    to: pending.length > 0 ? pending[pending.length - 1].version : from,
+  };
+}
@@ -0,0 +1,78 @@
+import { net, protocol } from 'electron';
+import * as fs from 'fs';
+import { pathToFileURL } from 'url';
+import { dbHelpers } from './db';
+import * as fileStorage from './fileStorage';
+import {
+  decodeDataUrl,
+  parseScreenshotUrl,
+  SCREENSHOT_PROTOCOL,
+} from './screenshotUrl';
+
+/**
+ * Must run before the app is ready. Registering the scheme as standard and
+ * secure lets <img> and fetch load it like any other image URL.
+ */
+export function registerScreenshotScheme(): void {
+  protocol.registerSchemesAsPrivileged([
+    {
+      scheme: SCREENSHOT_PROTOCOL,
+      privileges: {
+        standard: true,
+        secure: true,
+        supportFetchAPI: true,
+        stream: true,
+      },
+    },
+  ]);
+}
+
+function notFound(): Response {
+  return new Response(null, { status: 404 });
+}
+
+function imageResponse(dataUrl: string | null | undefined): Response {
+  const decoded = decodeDataUrl(dataUrl);
+  if (!decoded) return notFound();
+  return new Response(new Uint8Array(decoded.data), {
+    headers: { 'Content-Type': decoded.mimeType },
+  });
+}
+
+async function handleScreenshotRequest(request: Request): Promise<Response> {
+  const target = parseScreenshotUrl(request.url);
+  if (!target) return notFound();
+
+  const recording = await dbHelpers.getRecordingById(target.recordingId);
+  if (!recording) return notFound();
+
+  const filePath = recording.screenshot_path;
+  const hasFile = !!filePath && fs.existsSync(filePath);
+
+  if (target.kind === 'screenshot') {
+    // Stream straight from disk so full-size frames never pass through IPC.
+    if (hasFile) return net.fetch(pathToFileURL(filePath).toString());
+    // Frames from before screenshots were written to disk keep the image inline.
+    return imageResponse(recording.screenshot);
+  }
+
+  // Frames the backfill couldn't decode would fail again on every request.
+  const thumbnailPath =
+    hasFile &&
+    !recording.thumbnail_failed &&
+    fileStorage.ensureThumbnail(filePath, recording.thumbnail);
+  if (thumbnailPath) return net.fetch(pathToFileURL(thumbnailPath).toString());
+  return imageResponse(recording.thumbnail || recording.screenshot);
+}
+
+/** Serve screenshots and thumbnails by recording id. Call once the app is ready. */
+export function registerScreenshotProtocol(): void {
+  protocol.handle(SCREENSHOT_PROTOCOL, async (request) => {
+    try {
+      return await handleScreenshotRequest(request);
+    } catch (error) {
+      console.error('Failed to serve screenshot:', error);
+      return new Response(null, { status: 500 });
+    }
+  });
+}
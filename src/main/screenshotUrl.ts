@@ -0,0 +1,48 @@
+export const SCREENSHOT_PROTOCOL = 'relic';
+
+export type ScreenshotImageKind = 'screenshot' | 'thumbnail';
+
+export interface ScreenshotImageRequest {
+  kind: ScreenshotImageKind;
+  recordingId: number;
+}
+
+export function getScreenshotUrl(recordingId: number): string {
+  return `${SCREENSHOT_PROTOCOL}://screenshot/${recordingId}`;
+}
+
+export function getThumbnailUrl(recordingId: number): string {
+  return `${SCREENSHOT_PROTOCOL}://thumbnail/${recordingId}`;
+}
+
+/** Parse a `relic://screenshot/<id>` or `relic://thumbnail/<id>` URL. */
+export function parseScreenshotUrl(url: string): ScreenshotImageRequest | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    return null;
+  }
+
+  if (parsed.protocol !== `${SCREENSHOT_PROTOCOL}:`) return null;
+  if (parsed.hostname !== 'screenshot' && parsed.hostname !== 'thumbnail') {
+    return null;
+  }
+
+  const match = /^\/(\d+)\/?$/.exec(parsed.pathname);
+  if (!match) return null;
+
+  const recordingId = Number(match[1]);
+  if (!Number.isSafeInteger(recordingId) || recordingId <= 0) return null;
+
+  return { kind: parsed.hostname, recordingId };
+}
+
+/** Split a base64 `data:` URL into its MIME type and bytes. */
+export function decodeDataUrl(
+  dataUrl: string | null | undefined,
+): { mimeType: string; data: Buffer } | null {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(dataUrl ?? '');
+  if (!match || !match[2]) return null;
+  return { mimeType: match[1], data: Buffer.from(match[2], 'base64') };
+}
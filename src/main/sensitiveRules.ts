@@ -0,0 +1,194 @@
+export type SensitiveRuleList = 'deny' | 'allow';
+export type SensitiveRuleField = 'title' | 'process' | 'any';
+export type SensitiveRuleMatch = 'contains' | 'exact' | 'regex';
+export type SensitiveAction = 'pause' | 'skip' | 'blur';
+
+export interface SensitiveRule {
+  id: string;
+  enabled: boolean;
+  /** Allow rules override deny rules, e.g. to exempt an internal tool. */
+  list: SensitiveRuleList;
+  field: SensitiveRuleField;
+  match: SensitiveRuleMatch;
+  pattern: string;
+  /** What to do while a deny rule matches. Ignored for allow rules. */
+  action: SensitiveAction;
+}
+
+export interface SensitiveWindow {
+  title?: string | null;
+  processName?: string | null;
+  /** Browser tab URL, matched by `any` rules alongside title and process. */
+  url?: string | null;
+}
+
+export interface SensitiveMatch {
+  rule: SensitiveRule;
+  action: SensitiveAction;
+}
+
+// The keyword list that used to be hard-coded in main.ts, as the starting rule set.
+const DEFAULT_DENY_KEYWORDS = [
+  'hsbc',
+  'bank',
+  'banking',
+  'chase',
+  'wellsfargo',
+  'barclays',
+  'santander',
+  'lloyds',
+  'halifax',
+  'natwest',
+  'citibank',
+  'creditcard',
+  // 'account' removed - too common (e.g., "Google Account", "GitHub - Account Settings")
+  'payment',
+  'transfer',
+  'xvideos',
+  'pornhub',
+  'xhamster',
+  'porn',
+  'sex',
+  'spankbang',
+];
+
+export const DEFAULT_SENSITIVE_RULES: SensitiveRule[] =
+  DEFAULT_DENY_KEYWORDS.map(
+    (keyword): SensitiveRule => ({
+      id: `default-${keyword}`,
+      enabled: true,
+      list: 'deny',
+      field: 'any',
+      match: 'contains',
+      pattern: keyword,
+      action: 'pause',
+    }),
+  );
+
+// Stronger actions win when several deny rules match the same window.
+const ACTION_SEVERITY: Record<SensitiveAction, number> = {
+  skip: 1,
+  blur: 2,
+  pause: 3,
+};
+
+const LISTS: SensitiveRuleList[] = ['deny', 'allow'];
+const FIELDS: SensitiveRuleField[] = ['title', 'process', 'any'];
+const MATCHES: SensitiveRuleMatch[] = ['contains', 'exact', 'regex'];
+const ACTIONS: SensitiveAction[] = ['pause', 'skip', 'blur'];
+
+const regexCache = new Map<string, RegExp | null>();
+
+function compilePattern(pattern: string): RegExp | null {
+  if (regexCache.has(pattern)) {
+    return regexCache.get(pattern) ?? null;
+  }
+  let compiled: RegExp | null;
+  try {
+    compiled = new RegExp(pattern, 'i');
+  } catch (error) {
+    compiled = null;
+  }
+  regexCache.set(pattern, compiled);
+  return compiled;
+}
+
+function matchesValue(rule: SensitiveRule, value: string): boolean {
+  if (!value) return false;
+  switch (rule.match) {
+    case 'exact':
+      return value.toLowerCase() === rule.pattern.toLowerCase();
+    case 'regex':
+      return compilePattern(rule.pattern)?.test(value) ?? false;
+    case 'contains':
+    default:
+      return value.toLowerCase().includes(rule.pattern.toLowerCase());
+  }
+}
+
+export function ruleMatchesWindow(
+  rule: SensitiveRule,
+  windowInfo: SensitiveWindow,
+): boolean {
+  if (!rule.enabled || !rule.pattern) return false;
+
+  const title = windowInfo.title ?? '';
+  const processName = windowInfo.processName ?? '';
+
+  if (rule.field === 'title') return matchesValue(rule, title);
+  if (rule.field === 'process') return matchesValue(rule, processName);
+  return (
+    matchesValue(rule, title) ||
+    matchesValue(rule, processName) ||
+    matchesValue(rule, windowInfo.url ?? '')
+  );
+}
+
+/**
+ * The action to take for a window, or null if it can be recorded as-is.
+ * Any matching allow rule exempts the window; otherwise the most severe
+ * matching deny rule decides.
+ */
+export function evaluateSensitiveRules(
+  rules: SensitiveRule[],
+  windowInfo: SensitiveWindow | null | undefined,
+): SensitiveMatch | null {
+  if (!windowInfo || (!windowInfo.title && !windowInfo.processName)) {
+    return null;
+  }
+
+  const matching = rules.filter((rule) => ruleMatchesWindow(rule, windowInfo));
+  if (matching.some((rule) => rule.list === 'allow')) return null;
+
+  const denied = matching.filter((rule) => rule.list === 'deny');
+  if (denied.length === 0) return null;
+
+  const strongest = denied.reduce((current, rule) =>
+    ACTION_SEVERITY[rule.action] > ACTION_SEVERITY[current.action]
+      ? rule
+      : current,
+  );
+  return { rule: strongest, action: strongest.action };
+}
+
+/** Describe what's wrong with a rule, or null if it's valid. */
+export function validateSensitiveRule(rule: SensitiveRule): string | null {
+  if (!rule.pattern.trim()) return 'Pattern cannot be empty';
+  if (rule.match === 'regex' && !compilePattern(rule.pattern)) {
+    return `Invalid regular expression: ${rule.pattern}`;
+  }
+  return null;
+}
+
+function pick<T extends string>(value: unknown, allowed: T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+/**
+ * Coerce rules read from disk or sent from the renderer into well-formed
+ * rules, dropping entries that can't be repaired.
+ */
+export function normalizeSensitiveRules(raw: unknown): SensitiveRule[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((entry, index) => {
+    if (!entry || typeof entry !== 'object') return [];
+    const value = entry as Record<string, unknown>;
+    if (typeof value.pattern !== 'string') return [];
+
+    return [
+      {
+        id:
+          typeof value.id === 'string' && value.id
+            ? value.id
+            : `rule-${index + 1}`,
+        enabled: value.enabled !== false,
+        list: pick(value.list, LISTS, 'deny'),
+        field: pick(value.field, FIELDS, 'any'),
+        match: pick(value.match, MATCHES, 'contains'),
+        pattern: value.pattern,
+        action: pick(value.action, ACTIONS, 'pause'),
+      },
+    ];
+  });
+}
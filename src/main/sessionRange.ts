@@ -0,0 +1,87 @@
+import type { PauseSegment } from '../shared/sessionEvents';
+import { parseComparableTimestamp } from '../shared/sessionTimeline';
+
+/** A comment's span, in seconds from the session's first frame. */
+export interface CommentSpan {
+  start_time: number;
+  end_time: number;
+}
+
+/** Seconds from the first frame, measured the way the Editor timeline does. */
+export function toTimelineSeconds(
+  timestamp: string,
+  firstTimestamp: string,
+): number {
+  const time = parseComparableTimestamp(timestamp);
+  const first = parseComparableTimestamp(firstTimestamp);
+  if (time === null || first === null) return 0;
+  return Math.max(0, Math.floor((time - first) / 1000));
+}
+
+/**
+ * Keep the part of a comment that falls in `[from, to)`, re-measured from
+ * `from`. Null if nothing is left, including comments that only touch `from`
+ * because they end where the kept stretch starts.
+ */
+export function clipComment<T extends CommentSpan>(
+  comment: T,
+  from: number,
+  to: number,
+): T | null {
+  if (comment.start_time >= to) return null;
+  if (comment.end_time <= from && comment.start_time < from) return null;
+
+  return {
+    ...comment,
+    start_time: Math.max(comment.start_time, from) - from,
+    end_time: Math.min(comment.end_time, to) - from,
+  };
+}
+
+/** Whether a comment only covers frames in `[from, to)`. */
+export function isCommentWithin(
+  comment: CommentSpan,
+  from: number,
+  to: number,
+): boolean {
+  return comment.start_time >= from && comment.end_time <= to;
+}
+
+/**
+ * The stretch of time deleting `first` through `last` takes off the session.
+ * A gap between frames goes with the deleted side, so a head or middle range
+ * runs up to the next kept frame and a tail range back to the last kept one.
+ */
+export function getRemovedStretch(
+  previous: { timestamp: string } | null,
+  first: { timestamp: string },
+  last: { timestamp: string },
+  next: { timestamp: string } | null,
+): { from: string; to: string } {
+  if (next) return { from: first.timestamp, to: next.timestamp };
+  return { from: (previous ?? first).timestamp, to: last.timestamp };
+}
+
+/**
+ * Seconds spent recording between two instants, i.e. the wall-clock time
+ * less any pauses. A pause that never ended runs to `to`.
+ */
+export function getRecordedSeconds(
+  from: string,
+  to: string,
+  pauses: PauseSegment[],
+): number {
+  const start = parseComparableTimestamp(from);
+  const end = parseComparableTimestamp(to);
+  if (start === null || end === null || end <= start) return 0;
+
+  const pausedMs = pauses.reduce((total, pause) => {
+    const pauseStart = parseComparableTimestamp(pause.startedAt);
+    if (pauseStart === null) return total;
+    const pauseEnd = parseComparableTimestamp(pause.endedAt) ?? end;
+    const overlap = Math.min(pauseEnd, end) - Math.max(pauseStart, start);
+    return overlap > 0 ? total + overlap : total;
+  }, 0);
+
+  return Math.round((end - start - pausedMs) / 1000);
+}
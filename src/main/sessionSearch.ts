@@ -0,0 +1,101 @@
+/** A row from the combined recordings/comments full-text query. */
+export interface SearchMatchRow {
+  kind: 'recording' | 'comment';
+  session_id: number;
+  session_created_at: string;
+  approval_state: string;
+  recording_id: number | null;
+  comment_id: number | null;
+  timestamp: string | null;
+  start_time: number | null;
+  window_name: string | null;
+  label: string | null;
+  comment: string | null;
+}
+
+export interface SessionSearchMatch {
+  kind: 'recording' | 'comment';
+  recordingId: number | null;
+  commentId: number | null;
+  timestamp: string | null;
+  startTime: number | null;
+  windowName: string | null;
+  label: string | null;
+  comment: string | null;
+}
+
+export interface SessionSearchResult {
+  sessionId: number;
+  createdAt: string;
+  approvalState: string;
+  matches: SessionSearchMatch[];
+}
+
+export const MAX_SEARCH_SESSIONS = 20;
+export const MAX_MATCHES_PER_SESSION = 5;
+
+/**
+ * Turn free text into an FTS5 query: every word must appear, and the last
+ * characters typed can be the start of a longer word ("fig" finds "Figma").
+ * Returns null when there is nothing to search for.
+ */
+export function buildFtsQuery(input: string): string | null {
+  const terms = input
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, '').trim())
+    .filter((term) => term.length > 0);
+  if (terms.length === 0) return null;
+
+  // Quoting keeps FTS5 operators and punctuation in the input from being parsed.
+  return terms.map((term) => `"${term}"*`).join(' ');
+}
+
+/**
+ * Group ranked rows by session, keeping the best-ranked session first.
+ * A window stays open across many frames, so only its first frame per
+ * session is kept.
+ */
+export function groupSearchMatches(
+  rows: SearchMatchRow[],
+  maxSessions = MAX_SEARCH_SESSIONS,
+  maxMatchesPerSession = MAX_MATCHES_PER_SESSION,
+): SessionSearchResult[] {
+  const results = new Map<number, SessionSearchResult>();
+  const seen = new Set<string>();
+
+  rows.forEach((row) => {
+    let result = results.get(row.session_id);
+    if (!result) {
+      if (results.size >= maxSessions) return;
+      result = {
+        sessionId: row.session_id,
+        createdAt: row.session_created_at,
+        approvalState: row.approval_state,
+        matches: [],
+      };
+      results.set(row.session_id, result);
+    }
+
+    const key =
+      row.kind === 'comment'
+        ? `${row.session_id}:comment:${row.comment_id}`
+        : `${row.session_id}:recording:${row.window_name ?? ''}\u0000${row.label ?? ''}`;
+    if (seen.has(key) || result.matches.length >= maxMatchesPerSession) {
+      return;
+    }
+    seen.add(key);
+
+    result.matches.push({
+      kind: row.kind,
+      recordingId: row.recording_id,
+      commentId: row.comment_id,
+      timestamp: row.timestamp,
+      startTime: row.start_time,
+      windowName: row.window_name,
+      label: row.label,
+      comment: row.comment,
+    });
+  });
+
+  return Array.from(results.values());
+}
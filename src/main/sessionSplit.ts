@@ -0,0 +1,113 @@
+/** Why a running recording was closed and continued in a new session. */
+export type SessionSplitReason = 'inactivity' | 'day_boundary' | 'max_duration';
+
+export interface SessionSplitSettings {
+  splitOnInactivity: boolean;
+  /** Minutes without input after which the next input starts a new session. */
+  inactivityMinutes: number;
+  splitAtMidnight: boolean;
+  splitOnMaxDuration: boolean;
+  /** Recorded minutes, not counting pauses, before a new session starts. */
+  maxDurationMinutes: number;
+}
+
+export const MIN_SPLIT_MINUTES = 5;
+export const MAX_SPLIT_MINUTES = 24 * 60;
+
+export const DEFAULT_SESSION_SPLIT_SETTINGS: SessionSplitSettings = {
+  splitOnInactivity: true,
+  inactivityMinutes: 30,
+  splitAtMidnight: true,
+  splitOnMaxDuration: false,
+  maxDurationMinutes: 4 * 60,
+};
+
+const readBoolean = (value: unknown, fallback: boolean): boolean =>
+  typeof value === 'boolean' ? value : fallback;
+
+const readMinutes = (value: unknown, fallback: number): number => {
+  const minutes = Number(value);
+  return Number.isFinite(minutes)
+    ? Math.min(
+        MAX_SPLIT_MINUTES,
+        Math.max(MIN_SPLIT_MINUTES, Math.round(minutes)),
+      )
+    : fallback;
+};
+
+/**
+ * Coerce settings read from disk or sent from the renderer, filling in
+ * defaults for anything missing or malformed.
+ */
+export function normalizeSessionSplitSettings(
+  raw: unknown,
+): SessionSplitSettings {
+  if (!raw || typeof raw !== 'object') {
+    return { ...DEFAULT_SESSION_SPLIT_SETTINGS };
+  }
+  const value = raw as Record<string, unknown>;
+  const defaults = DEFAULT_SESSION_SPLIT_SETTINGS;
+
+  return {
+    splitOnInactivity: readBoolean(
+      value.splitOnInactivity,
+      defaults.splitOnInactivity,
+    ),
+    inactivityMinutes: readMinutes(
+      value.inactivityMinutes,
+      defaults.inactivityMinutes,
+    ),
+    splitAtMidnight: readBoolean(
+      value.splitAtMidnight,
+      defaults.splitAtMidnight,
+    ),
+    splitOnMaxDuration: readBoolean(
+      value.splitOnMaxDuration,
+      defaults.splitOnMaxDuration,
+    ),
+    maxDurationMinutes: readMinutes(
+      value.maxDurationMinutes,
+      defaults.maxDurationMinutes,
+    ),
+  };
+}
+
+export interface SessionSplitState {
+  /** When recording into the current session began. */
+  sessionStartedAt: number;
+  /** Recorded seconds in the current session, not counting pauses. */
+  recordedSeconds: number;
+  /** Length of the stretch without input that just ended, in seconds. */
+  endedIdleSeconds: number;
+  now: number;
+}
+
+function isSameLocalDay(left: number, right: number): boolean {
+  return new Date(left).toDateString() === new Date(right).toDateString();
+}
+
+/** Why the current session should end and a new one start, if it should. */
+export function getSessionSplitReason(
+  settings: SessionSplitSettings,
+  state: SessionSplitState,
+): SessionSplitReason | null {
+  if (
+    settings.splitOnInactivity &&
+    state.endedIdleSeconds >= settings.inactivityMinutes * 60
+  ) {
+    return 'inactivity';
+  }
+  if (
+    settings.splitAtMidnight &&
+    !isSameLocalDay(state.sessionStartedAt, state.now)
+  ) {
+    return 'day_boundary';
+  }
+  if (
+    settings.splitOnMaxDuration &&
+    state.recordedSeconds >= settings.maxDurationMinutes * 60
+  ) {
+    return 'max_duration';
+  }
+  return null;
+}
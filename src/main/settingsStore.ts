@@ -0,0 +1,59 @@
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeJsonFileAtomic } from './fileStorage';
+
+const SETTINGS_FILE_VERSION = 1;
+
+interface SettingsStore<T> {
+  /** The saved settings, or the defaults if none were saved or they can't be read. */
+  get: () => T;
+  /** Normalize and persist a full settings object, returning what was saved. */
+  save: (rawSettings: unknown) => T;
+}
+
+/**
+ * Settings kept as `{ version, settings }` JSON in userData. Both loaded and
+ * saved values go through `normalize`, so a hand-edited file can't hand out
+ * anything the rest of the app doesn't expect.
+ */
+export default function createSettingsStore<T extends object>(
+  fileName: string,
+  defaults: T,
+  normalize: (raw: unknown) => T,
+): SettingsStore<T> {
+  let cachedSettings: T | null = null;
+
+  const getFilePath = () => path.join(app.getPath('userData'), fileName);
+
+  const get = (): T => {
+    if (cachedSettings) return cachedSettings;
+
+    const filePath = getFilePath();
+    try {
+      if (fs.existsSync(filePath)) {
+        const content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        cachedSettings = normalize(content?.settings);
+        return cachedSettings;
+      }
+    } catch (error) {
+      console.error(`Failed to load ${fileName}:`, error);
+    }
+
+    // Normalized so callers get their own copy, not the shared defaults.
+    cachedSettings = normalize(defaults);
+    return cachedSettings;
+  };
+
+  const save = (rawSettings: unknown): T => {
+    const settings = normalize(rawSettings);
+    writeJsonFileAtomic(getFilePath(), {
+      version: SETTINGS_FILE_VERSION,
+      settings,
+    });
+    cachedSettings = settings;
+    return settings;
+  };
+
+  return { get, save };
+}
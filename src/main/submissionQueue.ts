@@ -0,0 +1,264 @@
+import { dbHelpers } from './db';
+import {
+  submitSessionToSupabase,
+  validateSessionForSubmission,
+  SubmissionOptions,
+  SubmissionResult,
+  UploadProgress,
+} from './submissionService';
+import {
+  getNextDrainDelayMs,
+  getSubmissionRetryDelayMs,
+  getWaitingAttemptTimes,
+} from './submissionRetry';
+
+export interface QueuedSubmission {
+  sessionId: number;
+  status: 'queued' | 'uploading';
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+}
+
+export interface QueuedSubmissionResult extends SubmissionResult {
+  queued?: boolean;
+}
+
+interface SubmissionQueueOptions {
+  getCurrentUserId: () => string | null;
+  getProgressCallback: () => ((progress: UploadProgress) => void) | undefined;
+  getSubmissionOptions: () => SubmissionOptions;
+  onQueueChanged: (queue: QueuedSubmission[]) => void;
+}
+
+let queueOptions: SubmissionQueueOptions | null = null;
+let drainTimer: ReturnType<typeof setTimeout> | null = null;
+let drainInFlight: Promise<void> | null = null;
+const uploadingSessionIds = new Set<number>();
+
+/**
+ * Current queue state for the renderer, including which session is uploading.
+ */
+export async function getSubmissionQueueState(): Promise<QueuedSubmission[]> {
+  const entries = await dbHelpers.getSubmissionQueue();
+  return entries.map((entry) => ({
+    sessionId: entry.session_id,
+    status: uploadingSessionIds.has(entry.session_id) ? 'uploading' : 'queued',
+    attempts: entry.attempts,
+    nextAttemptAt: entry.next_attempt_at,
+    lastError: entry.last_error,
+  }));
+}
+
+async function notifyQueueChanged(): Promise<void> {
+  if (!queueOptions) return;
+  try {
+    queueOptions.onQueueChanged(await getSubmissionQueueState());
+  } catch (error) {
+    console.error('Failed to broadcast submission queue:', error);
+  }
+}
+
+const ALREADY_UPLOADING: QueuedSubmissionResult = {
+  success: false,
+  queued: true,
+  error: 'This session is already being uploaded',
+};
+
+/**
+ * Upload one queued session and record the outcome on its queue row. Returns
+ * null without trying if the session is already uploading, is no longer
+ * queued, or has been rescheduled past `dueBy`.
+ */
+async function attemptSubmission(
+  userId: string,
+  sessionId: number,
+  onProgress: ((progress: UploadProgress) => void) | undefined,
+  options: SubmissionOptions,
+  dueBy?: number,
+): Promise<QueuedSubmissionResult | null> {
+  // Claim the session before the first await so a concurrent drain or manual
+  // submit can't start it too.
+  if (uploadingSessionIds.has(sessionId)) return null;
+  uploadingSessionIds.add(sessionId);
+
+  try {
+    // Re-read the row: it may have been removed, retried or rescheduled since
+    // the caller looked at the queue.
+    const entry = (await dbHelpers.getSubmissionQueue()).find(
+      (queued) => queued.session_id === sessionId,
+    );
+    if (
+      !entry ||
+      entry.user_id !== userId ||
+      (dueBy !== undefined && Date.parse(entry.next_attempt_at) > dueBy)
+    ) {
+      return null;
+    }
+    await notifyQueueChanged();
+
+    // Sessions that can never be submitted (already submitted, emptied out)
+    // would otherwise retry forever.
+    const validation = await validateSessionForSubmission(sessionId);
+    if (!validation.valid) {
+      await dbHelpers.dequeueSubmission(sessionId);
+      return { success: false, error: validation.error };
+    }
+
+    const result = await submitSessionToSupabase(
+      userId,
+      sessionId,
+      onProgress,
+      options,
+    );
+    if (result.success) {
+      await dbHelpers.dequeueSubmission(sessionId);
+      return result;
+    }
+
+    const attempts = entry.attempts + 1;
+    const retryAt = new Date(
+      Date.now() + getSubmissionRetryDelayMs(attempts),
+    ).toISOString();
+    await dbHelpers.recordSubmissionFailure(
+      sessionId,
+      attempts,
+      retryAt,
+      result.error || null,
+    );
+    console.warn(
+      `Submission of session ${sessionId} failed (attempt ${attempts}), retrying at ${retryAt}: ${result.error}`,
+    );
+    return { ...result, queued: true };
+  } finally {
+    uploadingSessionIds.delete(sessionId);
+    await notifyQueueChanged();
+  }
+}
+
+async function drainDueSubmissions(): Promise<void> {
+  const userId = queueOptions?.getCurrentUserId();
+  if (!userId) return;
+
+  const now = Date.now();
+  const due = (await dbHelpers.getSubmissionQueue()).filter(
+    (entry) =>
+      entry.user_id === userId &&
+      !uploadingSessionIds.has(entry.session_id) &&
+      Date.parse(entry.next_attempt_at) <= now,
+  );
+
+  // One at a time, in queue order.
+  await due.reduce(async (previous, entry) => {
+    await previous;
+    // Stop early if the queue was shut down or the user signed out.
+    if (!queueOptions || queueOptions.getCurrentUserId() !== userId) return;
+    // Sessions started elsewhere since the queue was read are skipped here.
+    await attemptSubmission(
+      userId,
+      entry.session_id,
+      queueOptions.getProgressCallback(),
+      queueOptions.getSubmissionOptions(),
+      now,
+    );
+  }, Promise.resolve());
+}
+
+/**
+ * How long until the current user's next queued submission is due, or null if
+ * nothing is waiting for them. Uploads in progress reschedule when they end.
+ */
+async function getNextDrainDelay(): Promise<number | null> {
+  const userId = queueOptions?.getCurrentUserId();
+  if (!userId) return null;
+
+  const entries = await dbHelpers.getSubmissionQueue();
+  return getNextDrainDelayMs(
+    getWaitingAttemptTimes(entries, userId, uploadingSessionIds),
+    Date.now(),
+  );
+}
+
+function clearDrainTimer(): void {
+  if (drainTimer) {
+    clearTimeout(drainTimer);
+    drainTimer = null;
+  }
+}
+
+/**
+ * Run any submissions that are due now, then sleep until the next one is.
+ * Safe to call repeatedly; only one drain runs at a time.
+ */
+export function drainSubmissionQueue(): void {
+  if (!queueOptions || drainInFlight) return;
+  clearDrainTimer();
+
+  drainInFlight = (async () => {
+    try {
+      await drainDueSubmissions();
+    } catch (error) {
+      console.error('Failed to drain submission queue:', error);
+    } finally {
+      drainInFlight = null;
+      try {
+        const delay = await getNextDrainDelay();
+        clearDrainTimer();
+        if (delay !== null) {
+          drainTimer = setTimeout(() => {
+            drainTimer = null;
+            drainSubmissionQueue();
+          }, delay);
+        }
+      } catch (error) {
+        console.error('Failed to schedule submission queue:', error);
+      }
+    }
+  })();
+}
+
+export function startSubmissionQueue(options: SubmissionQueueOptions): void {
+  queueOptions = options;
+  drainSubmissionQueue();
+}
+
+export function stopSubmissionQueue(): void {
+  queueOptions = null;
+  clearDrainTimer();
+}
+
+/**
+ * Persist the submission before trying it, so a failure or crash leaves it
+ * queued for the background worker instead of silently dropping it.
+ */
+export async function submitOrEnqueue(
+  userId: string,
+  sessionId: number,
+  onProgress?: (progress: UploadProgress) => void,
+  options: SubmissionOptions = {},
+): Promise<QueuedSubmissionResult> {
+  if (uploadingSessionIds.has(sessionId)) return ALREADY_UPLOADING;
+
+  await dbHelpers.enqueueSubmission(sessionId, userId);
+  const result = await attemptSubmission(
+    userId,
+    sessionId,
+    onProgress,
+    options,
+  );
+  // Picks up the retry time a failure just set, along with anything else due.
+  drainSubmissionQueue();
+  return result ?? ALREADY_UPLOADING;
+}
+
+/**
+ * Take a session out of the queue unless it is uploading right now, in which
+ * case nothing changes and false is returned.
+ */
+export async function withdrawSubmission(sessionId: number): Promise<boolean> {
+  // Checked and dequeued in the same tick, so a drain can't start it between.
+  if (uploadingSessionIds.has(sessionId)) return false;
+  await dbHelpers.dequeueSubmission(sessionId);
+  await notifyQueueChanged();
+  return true;
+}
@@ -0,0 +1,47 @@
+export const SUBMISSION_RETRY_BASE_DELAY_MS = 10 * 1000;
+export const SUBMISSION_RETRY_MAX_DELAY_MS = 15 * 60 * 1000;
+
+/**
+ * Delay before the next attempt after `attempts` consecutive failures:
+ * 10s, 20s, 40s, ... capped at 15 minutes.
+ */
+export function getSubmissionRetryDelayMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(
+    SUBMISSION_RETRY_BASE_DELAY_MS * 2 ** exponent,
+    SUBMISSION_RETRY_MAX_DELAY_MS,
+  );
+}
+
+/**
+ * How long the worker should sleep before the earliest queued attempt is due.
+ * Returns null when nothing is queued.
+ */
+export function getNextDrainDelayMs(
+  nextAttemptTimes: string[],
+  now: number,
+): number | null {
+  const due = nextAttemptTimes
+    .map((time) => Date.parse(time))
+    .filter((time) => Number.isFinite(time));
+  if (due.length === 0) return null;
+  return Math.max(0, Math.min(...due) - now);
+}
+
+/**
+ * Next-attempt times of `userId`'s queued sessions that a drain could start.
+ * Sessions uploading right now stay queued until they finish, so counting
+ * them would make the worker wake immediately, over and over.
+ */
+export function getWaitingAttemptTimes(
+  entries: { user_id: string; session_id: number; next_attempt_at: string }[],
+  userId: string,
+  uploadingSessionIds: ReadonlySet<number>,
+): string[] {
+  return entries
+    .filter(
+      (entry) =>
+        entry.user_id === userId && !uploadingSessionIds.has(entry.session_id),
+    )
+    .map((entry) => entry.next_attempt_at);
+}
@@ -1,10 +1,27 @@
 import { supabase } from './supabase';
-import { dbHelpers } from './db';
+import { dbHelpers, Session, SubmissionStage } from './db';
 import { getCurrentUser } from './auth';
 import * as fileStorage from './fileStorage';
 import { getLatestTimelineTimeSeconds } from '../shared/sessionTimeline';
-
-interface SubmissionResult {
+import { buildPauseSegments } from '../shared/sessionEvents';
+import { readFrameCursor } from './cursorPosition';
+import { readFrameWindow } from './windowMetadata';
+import {
+  buildScreenshotStoragePath,
+  isStorageConflictError,
+  planJournalUploads,
+} from './uploadJournal';
+import runWithConcurrency from './concurrency';
+import { buildRemoteRecordingRow } from './recordingRows';
+import { DEFAULT_UPLOAD_SETTINGS } from './uploadSettings';
+import {
+  getImageExtension,
+  getImageFormat,
+  getImageMimeType,
+  ImageFormat,
+} from './imageEncoding';
+
+export interface SubmissionResult {
   success: boolean;
   error?: string;
   sessionId?: string;
@@ -16,12 +33,17 @@ interface ValidationResult {
   error?: string;
 }
 
-interface UploadProgress {
+export interface UploadProgress {
   current: number;
   total: number;
   status: string;
 }
 
+export interface SubmissionOptions {
+  /** Maximum screenshots uploaded at once. */
+  uploadConcurrency?: number;
+}
+
 function deriveDurationSeconds(
   recordedDuration: number | null | undefined,
   recordings: Array<{ timestamp?: string | null }>,
@@ -33,16 +55,47 @@ function deriveDurationSeconds(
 }
 
 /**
- * Convert a PNG payload to a Blob for upload.
+ * Load a recording's screenshot for upload.
+ * Prefer reading from disk (file-based storage), fall back to legacy Base64 if needed.
+ */
+function readScreenshotForUpload(recording: {
+  screenshot: string;
+  screenshot_path?: string;
+}): string | Buffer {
+  if (!recording.screenshot_path) {
+    return recording.screenshot;
+  }
+
+  const fileBuffer = fileStorage.readScreenshotBuffer(
+    recording.screenshot_path,
+  );
+  if (fileBuffer) {
+    return fileBuffer;
+  }
+
+  const fileDataUrl = fileStorage.readScreenshot(recording.screenshot_path);
+  return fileDataUrl || recording.screenshot;
+}
+
+// Format the screenshot was saved in, which decides its upload path and content type.
+function getUploadFormat(recording: {
+  image_format?: string | null;
+  screenshot_path?: string;
+}): ImageFormat {
+  return getImageFormat(recording.image_format, recording.screenshot_path);
+}
+
+/**
+ * Convert an image payload to a Blob for upload.
  * Accepts either a data URL (`data:image/...;base64,`) or a raw Buffer.
  */
-function pngToBlob(png: string | Buffer): Blob {
+function imageToBlob(image: string | Buffer, contentType: string): Blob {
   const buffer =
-    typeof png === 'string'
-      ? Buffer.from(png.replace(/^data:image\/\w+;base64,/, ''), 'base64')
-      : png;
+    typeof image === 'string'
+      ? Buffer.from(image.replace(/^data:image\/\w+;base64,/, ''), 'base64')
+      : image;
 
-  return new Blob([buffer], { type: 'image/png' });
+  return new Blob([buffer], { type: contentType });
 }
 
 /**
@@ -53,29 +106,30 @@ function pngToBlob(png: string | Buffer): Blob {
  * @returns Public URL of uploaded image or null on failure
  */
 async function uploadImageToStorage(
-  png: string | Buffer,
+  image: string | Buffer,
   bucket: string,
-  path: string
+  path: string,
+  contentType: string,
 ): Promise<string | null> {
   try {
-    const blob = pngToBlob(png);
+    const blob = imageToBlob(image, contentType);
 
     const { data, error } = await supabase.storage
       .from(bucket)
       .upload(path, blob, {
-        contentType: 'image/png',
+        contentType,
         upsert: false,
       });
 
-    if (error) {
+    if (error && !isStorageConflictError(error)) {
       console.error(`Storage upload error for ${path}:`, error);
       return null;
     }
 
-    // Get public URL
+    // Get public URL (a conflict means an earlier attempt already uploaded it)
     const {
       data: { publicUrl },
-    } = supabase.storage.from(bucket).getPublicUrl(data.path);
+    } = supabase.storage.from(bucket).getPublicUrl(data?.path ?? path);
 
     return publicUrl;
   } catch (error) {
@@ -88,13 +142,14 @@ async function uploadImageToStorage(
  * Upload image with retry logic
  */
 async function uploadImageWithRetry(
-  png: string | Buffer,
+  image: string | Buffer,
   bucket: string,
   path: string,
+  contentType: string,
   maxRetries: number = 3
 ): Promise<string | null> {
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    const url = await uploadImageToStorage(png, bucket, path);
+    const url = await uploadImageToStorage(image, bucket, path, contentType);
     if (url) return url;
 
     if (attempt < maxRetries) {
@@ -129,15 +184,15 @@ async function uploadJsonToStorage(
         upsert: false,
       });
 
-    if (error) {
+    if (error && !isStorageConflictError(error)) {
       console.error(`JSON upload error for ${path}:`, error);
       return null;
     }
 
-    // Get public URL
+    // Get public URL (a conflict means an earlier attempt already uploaded it)
     const {
       data: { publicUrl },
-    } = supabase.storage.from(bucket).getPublicUrl(data.path);
+    } = supabase.storage.from(bucket).getPublicUrl(data?.path ?? path);
 
     return publicUrl;
   } catch (error) {
@@ -207,21 +262,118 @@ export async function validateSessionForSubmission(
     }
 
     return { valid: true };
-  } catch (error: any) {
+  } catch (error: unknown) {
     return {
       valid: false,
-      error: error.message || 'Validation failed',
+      error: (error instanceof Error && error.message) || 'Validation failed',
     };
   }
 }
 
 /**
- * Main submission function - uploads session, recordings, and comments to Supabase
+ * Remove objects from the recordings bucket. Failures are only logged so that
+ * cleanup never blocks a submission or a local delete.
+ */
+async function removeStorageObjects(paths: string[]): Promise<void> {
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from('recordings').remove(paths);
+  if (error) {
+    console.warn(`Failed to remove ${paths.length} storage objects:`, error);
+  }
+}
+
+/**
+ * Reuse the remote session from an interrupted submission if it still exists,
+ * otherwise create a new one and journal it before anything is uploaded.
+ */
+async function resolveRemoteSession(
+  userId: string,
+  sessionId: number,
+  session: Session,
+  effectiveDuration: number,
+): Promise<{ remoteSessionId: number; stage: SubmissionStage }> {
+  const journal = await dbHelpers.getSubmissionJournal(sessionId);
+
+  if (
+    journal &&
+    journal.user_id === userId &&
+    journal.remote_session_id !== null
+  ) {
+    const { data: existing, error } = await supabase
+      .from('sessions')
+      .select('id')
+      .eq('id', journal.remote_session_id)
+      .maybeSingle();
+
+    // Without an answer we can't tell whether the row exists, and creating a
+    // new one could duplicate the session.
+    if (error) {
+      console.error('Failed to look up previous submission:', error);
+      throw new Error('Unable to resume the previous submission');
+    }
+
+    if (existing) {
+      // Recordings may have been deleted locally since the last attempt.
+      const { error: durationError } = await supabase
+        .from('sessions')
+        .update({ duration: effectiveDuration })
+        .eq('id', journal.remote_session_id);
+
+      if (durationError) {
+        console.error('Failed to update session duration:', durationError);
+        throw new Error('Unable to resume the previous submission');
+      }
+
+      return {
+        remoteSessionId: journal.remote_session_id,
+        stage: journal.stage,
+      };
+    }
+  }
+
+  if (journal) {
+    // The remote row is gone (or belongs to another account), so anything
+    // uploaded under it is orphaned.
+    const uploads = await dbHelpers.getSubmissionUploads(sessionId);
+    await removeStorageObjects(uploads.map((upload) => upload.storage_path));
+    await dbHelpers.clearSubmissionJournal(sessionId);
+  }
+
+  const { data: supabaseSession, error: sessionError } = await supabase
+    .from('sessions')
+    .insert({
+      user_id: userId,
+      duration: effectiveDuration,
+      created_at: session.created_at,
+      // Stays a draft until every screenshot and row is in, so reviewers and
+      // sync never see a half-uploaded session.
+      approval_state: 'draft',
+      session_status: session.session_status || 'passive',
+    })
+    .select()
+    .single();
+
+  if (sessionError || !supabaseSession) {
+    console.error('Session creation error:', sessionError);
+    throw new Error('Failed to create session in database');
+  }
+
+  await dbHelpers.startSubmissionJournal(sessionId, userId, supabaseSession.id);
+
+  return { remoteSessionId: supabaseSession.id, stage: 'uploading' };
+}
+
+/**
+ * Main submission function - uploads session, recordings, and comments to Supabase.
+ * Progress is journaled locally, so calling this again after a crash or network
+ * failure resumes the same remote session instead of starting over.
  */
 export async function submitSessionToSupabase(
   userId: string,
   sessionId: number,
-  onProgress?: (progress: UploadProgress) => void
+  onProgress?: (progress: UploadProgress) => void,
+  options: SubmissionOptions = {},
 ): Promise<SubmissionResult> {
   try {
     // 1. Validate session
@@ -270,110 +422,168 @@ export async function submitSessionToSupabase(
       status: 'Preparing upload...',
     });
 
-    // 5. Create session in Supabase
-    const { data: supabaseSession, error: sessionError } = await supabase
-      .from('sessions')
-      .insert({
-        user_id: userId,
-        duration: effectiveDuration,
-        created_at: session.created_at,
-        approval_state: 'submitted',
-        session_status: session.session_status || 'passive',
-      })
-      .select()
-      .single();
-
-    if (sessionError || !supabaseSession) {
-      console.error('Session creation error:', sessionError);
-      return {
-        success: false,
-        error: 'Failed to create session in database',
-      };
+    // 5. Create the remote session, or pick up the one from an interrupted attempt
+    const { remoteSessionId: supabaseSessionId, stage } =
+      await resolveRemoteSession(userId, sessionId, session, effectiveDuration);
+
+    // 6. Work out which screenshots a previous attempt already uploaded
+    // Rows read back from the database always have an id.
+    const uploadFormats = new Map(
+      recordings.map((recording) => [
+        recording.id as number,
+        getUploadFormat(recording),
+      ]),
+    );
+    const plan = planJournalUploads(
+      recordings.map((recording) => recording.id as number),
+      await dbHelpers.getSubmissionUploads(sessionId),
+    );
+
+    if (plan.orphaned.length > 0) {
+      await removeStorageObjects(
+        plan.orphaned.map((entry) => entry.storage_path),
+      );
+      await dbHelpers.removeSubmissionUploads(
+        sessionId,
+        plan.orphaned.map((entry) => entry.recording_id),
+      );
     }
 
-    const supabaseSessionId = supabaseSession.id;
-
-    // 6. Upload recordings with images
-    const recordingsToInsert = [];
-    let uploadedCount = 0;
-
-    for (const recording of recordings) {
-      // Prefer reading from disk (file-based storage), fall back to legacy Base64 if needed.
-      let screenshotData: string | Buffer;
-      if (recording.screenshot_path) {
-        const fileBuffer = fileStorage.readScreenshotBuffer(recording.screenshot_path);
-        if (fileBuffer) {
-          screenshotData = fileBuffer;
-        } else {
-          const fileDataUrl = fileStorage.readScreenshot(recording.screenshot_path);
-          screenshotData = fileDataUrl || recording.screenshot;
-        }
-      } else {
-        screenshotData = recording.screenshot;
-      }
+    await dbHelpers.addPendingUploads(
+      sessionId,
+      plan.toUpload.map((recordingId) => ({
+        recording_id: recordingId,
+        storage_path: buildScreenshotStoragePath(
+          userId,
+          supabaseSessionId,
+          recordingId,
+          uploadFormats.get(recordingId),
+        ),
+      })),
+    );
+
+    // 7. Upload remaining screenshots through a bounded pool
+    let uploadedCount = plan.alreadyUploaded.size;
+
+    if (uploadedCount > 0) {
+      console.log(
+        `Resuming submission of session ${sessionId}: ${uploadedCount} of ${recordings.length} screenshots already uploaded`,
+      );
+    }
 
-      // Upload screenshot
+    const reportUploadProgress = () => {
       onProgress?.({
         current: uploadedCount,
         total: recordings.length,
-        status: `Uploading screenshot ${uploadedCount + 1} of ${recordings.length}...`,
+        status: `Uploading screenshots (${uploadedCount} of ${recordings.length})...`,
       });
-
-      const screenshotPath = `${userId}/${supabaseSessionId}/screenshot_${recording.id}.png`;
-      const screenshotUrl = await uploadImageWithRetry(
-        screenshotData,
-        'recordings',
-        screenshotPath
+    };
+    reportUploadProgress();
+
+    let screenshotUrls: string[];
+    try {
+      screenshotUrls = await runWithConcurrency(
+        recordings,
+        options.uploadConcurrency ?? DEFAULT_UPLOAD_SETTINGS.uploadConcurrency,
+        async (recording) => {
+          const recordingId = recording.id as number;
+          const existingUrl = plan.alreadyUploaded.get(recordingId);
+          if (existingUrl) return existingUrl;
+
+          // Read inside the worker so only in-flight screenshots are held in memory.
+          const format = getUploadFormat(recording);
+          const screenshotUrl = await uploadImageWithRetry(
+            readScreenshotForUpload(recording),
+            'recordings',
+            buildScreenshotStoragePath(
+              userId,
+              supabaseSessionId,
+              recordingId,
+              format,
+            ),
+            getImageMimeType(format),
+          );
+          if (!screenshotUrl) {
+            throw new Error(
+              `Failed to upload screenshot for recording ${recordingId}. Submit again to resume.`,
+            );
+          }
+
+          await dbHelpers.markUploadComplete(
+            sessionId,
+            recordingId,
+            screenshotUrl,
+          );
+          uploadedCount++;
+          reportUploadProgress();
+          return screenshotUrl;
+        },
       );
+    } catch (error: unknown) {
+      // Keep the journal and remote session so the next attempt resumes here.
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : 'Screenshot upload failed',
+      };
+    }
 
-      if (!screenshotUrl) {
-        // Rollback: delete session and uploaded images
-        await supabase.from('sessions').delete().eq('id', supabaseSessionId);
-        // Note: Storage cleanup would need to be done manually or via Supabase function
-        return {
-          success: false,
-          error: `Failed to upload screenshot for recording ${recording.id}`,
-        };
-      }
-
-      uploadedCount++;
+    const recordingsToInsert = recordings.map((recording, index) =>
+      buildRemoteRecordingRow(
+        recording,
+        userId,
+        supabaseSessionId,
+        screenshotUrls[index],
+      ),
+    );
 
-      // Prepare recording data for insertion
-      recordingsToInsert.push({
-        user_id: userId,
-        session_id: supabaseSessionId,
-        timestamp: recording.timestamp,
-        window_name: recording.window_name,
-        window_id: recording.window_id,
-        thumbnail_url: screenshotUrl, // Use same URL as screenshot
-        screenshot_url: screenshotUrl,
-        type: recording.type,
-        label: recording.label || null,
-      });
-    }
+    await dbHelpers.updateSubmissionStage(
+      sessionId,
+      stage === 'points_awarded' ? 'points_awarded' : 'finalizing',
+    );
 
-    // 7. Bulk insert recordings
+    // 8. Replace recordings and comments. An interrupted attempt may already have
+    // inserted some, so clear them first to keep the rows idempotent.
     onProgress?.({
       current: uploadedCount,
       total: recordings.length,
       status: 'Saving recordings to database...',
     });
 
+    const { error: clearCommentsError } = await supabase
+      .from('comments')
+      .delete()
+      .eq('session_id', supabaseSessionId);
+    const { error: clearRecordingsError } = await supabase
+      .from('recordings')
+      .delete()
+      .eq('session_id', supabaseSessionId);
+
+    // Inserting on top of rows that weren't cleared would duplicate them.
+    if (clearCommentsError || clearRecordingsError) {
+      console.error(
+        'Failed to clear previous recordings:',
+        clearCommentsError ?? clearRecordingsError,
+      );
+      return {
+        success: false,
+        error: 'Failed to save recordings to database. Submit again to resume.',
+      };
+    }
+
     const { error: recordingsError } = await supabase
       .from('recordings')
       .insert(recordingsToInsert);
 
     if (recordingsError) {
       console.error('Recordings insert error:', recordingsError);
-      // Rollback
-      await supabase.from('sessions').delete().eq('id', supabaseSessionId);
       return {
         success: false,
-        error: 'Failed to save recordings to database',
+        error: 'Failed to save recordings to database. Submit again to resume.',
       };
     }
 
-    // 8. Insert comments if any
+    // 9. Insert comments if any
     if (comments && comments.length > 0) {
       onProgress?.({
         current: uploadedCount,
@@ -401,22 +611,40 @@ export async function submitSessionToSupabase(
       }
     }
 
-    // 9. Calculate points (example: 5 points per minute)
+    // 10. Everything is uploaded, so hand the session over for review
+    const { error: submitError } = await supabase
+      .from('sessions')
+      .update({ approval_state: 'submitted' })
+      .eq('id', supabaseSessionId);
+
+    if (submitError) {
+      console.error('Failed to mark session as submitted:', submitError);
+      return {
+        success: false,
+        error: 'Failed to finalize submission. Submit again to resume.',
+      };
+    }
+
+    // 11. Calculate points (example: 5 points per minute)
     const pointsEarned = Math.floor(effectiveDuration / 60) * 5;
 
-    // 10. Update user points
-    if (pointsEarned > 0) {
+    // 12. Update user points, once per submission even across resumed attempts.
+    // The stage is saved first so a crash mid-award can't pay out twice.
+    await dbHelpers.updateSubmissionStage(sessionId, 'points_awarded');
+    if (pointsEarned > 0 && stage !== 'points_awarded') {
       const { updateUserPoints } = await import('./auth');
       await updateUserPoints(userId, pointsEarned);
     }
 
-    // 11. Upload session metadata JSON
+    // 13. Upload session metadata JSON
     onProgress?.({
       current: recordings.length,
       total: recordings.length,
       status: 'Uploading metadata...',
     });
 
+    const sessionEvents = await dbHelpers.getSessionEvents(sessionId);
+    const inputEvents = await dbHelpers.getSessionInputEvents(sessionId);
     const sessionMetadata = {
       local_session_id: sessionId,
       supabase_session_id: supabaseSessionId,
@@ -434,9 +662,15 @@ export async function submitSessionToSupabase(
         window_name: rec.window_name,
         window_id: rec.window_id,
         screenshot_url: rec.screenshot_url,
-        screenshot_file: `screenshot_${recordings[index]?.id}.png`,
+        screenshot_file: `screenshot_${recordings[index]?.id}.${getImageExtension(
+          getUploadFormat(recordings[index]),
+        )}`,
         type: rec.type,
         label: rec.label,
+        display_id: recordings[index]?.display_id ?? null,
+        capture_group: recordings[index]?.capture_group ?? null,
+        ...readFrameCursor(recordings[index] ?? {}),
+        ...readFrameWindow(recordings[index] ?? {}),
       })),
       comments: comments?.map((comment) => ({
         start_time: comment.start_time,
@@ -444,6 +678,20 @@ export async function submitSessionToSupabase(
         comment: comment.comment,
         created_at: comment.created_at,
       })) || [],
+      pauses: buildPauseSegments(sessionEvents),
+      // Empty unless the user opted in to input recording.
+      input_events: inputEvents.map((inputEvent) => ({
+        type: inputEvent.type,
+        timestamp: inputEvent.timestamp,
+        x: inputEvent.x,
+        y: inputEvent.y,
+        button: inputEvent.button,
+        scroll_dx: inputEvent.scroll_dx,
+        scroll_dy: inputEvent.scroll_dy,
+        key_category: inputEvent.key_category,
+        key_name: inputEvent.key_name,
+        modifiers: inputEvent.modifiers,
+      })),
     };
 
     const metadataPath = `${userId}/${supabaseSessionId}/session_info.json`;
@@ -460,6 +708,9 @@ export async function submitSessionToSupabase(
       console.log('Session metadata uploaded successfully:', metadataUrl);
     }
 
+    // 14. Mark submitted locally and drop the journal
+    await dbHelpers.completeSubmission(sessionId);
+
     onProgress?.({
       current: recordings.length,
       total: recordings.length,
@@ -468,18 +719,49 @@ export async function submitSessionToSupabase(
 
     return {
       success: true,
-      sessionId: supabaseSessionId,
+      sessionId: String(supabaseSessionId),
       pointsEarned,
     };
-  } catch (error: any) {
+  } catch (error: unknown) {
     console.error('Submission error:', error);
     return {
       success: false,
-      error: error.message || 'Submission failed',
+      error: (error instanceof Error && error.message) || 'Submission failed',
     };
   }
 }
 
+/**
+ * Abandon an interrupted submission: delete everything uploaded so far, the
+ * remote session row, and the local journal.
+ */
+export async function abortSubmission(sessionId: number): Promise<void> {
+  const journal = await dbHelpers.getSubmissionJournal(sessionId);
+  if (!journal) return;
+
+  // Pending entries are included because a crash can land between an upload
+  // finishing and the journal recording it.
+  const uploads = await dbHelpers.getSubmissionUploads(sessionId);
+  const paths = uploads.map((upload) => upload.storage_path);
+
+  if (journal.remote_session_id !== null) {
+    paths.push(
+      `${journal.user_id}/${journal.remote_session_id}/session_info.json`,
+    );
+    // Remote recordings and comments cascade with the session row.
+    const { error } = await supabase
+      .from('sessions')
+      .delete()
+      .eq('id', journal.remote_session_id);
+    if (error) {
+      console.error('Failed to delete remote session during abort:', error);
+    }
+  }
+
+  await removeStorageObjects(paths);
+  await dbHelpers.clearSubmissionJournal(sessionId);
+}
+
 /**
  * Get submission progress callback for IPC communication
  */
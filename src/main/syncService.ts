@@ -1,6 +1,12 @@
 import { supabase } from './supabase';
 import { dbHelpers, Session, TimeRangeComment } from './db';
 import * as fileStorage from './fileStorage';
+import {
+  getImageFormat,
+  getImageFormatFromDataUrl,
+  getImageFormatFromMimeType,
+  getImageMimeType,
+} from './imageEncoding';
 
 interface SupabaseSession {
   id: number;
@@ -45,6 +51,8 @@ export async function fetchUserSessions(userId: string): Promise<SupabaseSession
       .from('sessions')
       .select('*')
       .eq('user_id', userId)
+      // Remote drafts are submissions still uploading from this device.
+      .neq('approval_state', 'draft')
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -137,11 +145,13 @@ export async function downloadScreenshot(url: string): Promise<string | null> {
       return null;
     }
 
-    // Convert blob to base64
+    // Convert blob to base64, keeping the format it was uploaded in
     const arrayBuffer = await data.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
     const base64 = buffer.toString('base64');
-    return `data:image/png;base64,${base64}`;
+    const format =
+      getImageFormatFromMimeType(data.type) ?? getImageFormat(null, path);
+    return `data:${getImageMimeType(format)};base64,${base64}`;
   } catch (error) {
     console.error('Failed to download screenshot:', error);
     return null;
@@ -194,11 +204,14 @@ export async function syncSessionToLocal(
       const thumbnailBase64 = await downloadScreenshot(recording.thumbnail_url);
 
       // Save screenshot to local file
+      const imageFormat = getImageFormatFromDataUrl(screenshotBase64) ?? 'png';
       const screenshotPath = fileStorage.saveScreenshot(
         session.id,
         recording.id,
         screenshotBase64,
+        imageFormat,
       );
+      fileStorage.ensureThumbnail(screenshotPath, thumbnailBase64);
 
       // Create recording in local DB
       await dbHelpers.createRecording({
@@ -211,6 +224,7 @@ export async function syncSessionToLocal(
         screenshot_path: screenshotPath,
         type: recording.type,
         label: recording.label || undefined,
+        image_format: imageFormat,
       });
     }
 
@@ -234,6 +248,7 @@ export async function syncSessionToLocal(
       dbHelpers.getSession,
       dbHelpers.getSessionRecordings,
       dbHelpers.getSessionComments,
+      dbHelpers.getSessionEvents,
     );
 
     console.log(`Successfully synced session ${session.id}`);
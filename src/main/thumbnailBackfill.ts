@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import { dbHelpers } from './db';
+import * as fileStorage from './fileStorage';
+import runWithConcurrency from './concurrency';
+
+const BACKFILL_BATCH_SIZE = 50;
+// Its row in background_tasks, added by the schema migration.
+const BACKFILL_TASK = 'thumbnail_backfill';
+
+type BackfillRow = Awaited<
+  ReturnType<typeof dbHelpers.getThumbnailBackfillPage>
+>[number];
+
+let backfillInFlight: Promise<void> | null = null;
+
+// Writes the row's thumbnail if it's missing. Returns whether one was written.
+async function backfillRecording(row: BackfillRow): Promise<boolean | null> {
+  const thumbnailPath = fileStorage.getThumbnailPath(row.screenshot_path);
+  const hasThumbnail = await fs.promises.access(thumbnailPath).then(
+    () => true,
+    () => false,
+  );
+  if (hasThumbnail) return null;
+
+  if (fileStorage.ensureThumbnail(row.screenshot_path)) return true;
+  if (!row.has_inline_thumbnail) return false;
+
+  // Only frames the screenshot can't be decoded from need the stored thumbnail.
+  const recording = await dbHelpers.getRecordingById(row.id);
+  return !!fileStorage.ensureThumbnail(
+    row.screenshot_path,
+    recording?.thumbnail,
+  );
+}
+
+interface BackfillTotals {
+  created: number;
+  failed: number;
+}
+
+// Backfills the page of recordings older than `beforeId`, then the next one.
+async function backfillPagesBefore(
+  beforeId: number,
+  totals: BackfillTotals,
+): Promise<BackfillTotals> {
+  if (beforeId <= 0) return totals;
+
+  const rows = await dbHelpers.getThumbnailBackfillPage(
+    beforeId,
+    BACKFILL_BATCH_SIZE,
+  );
+  if (rows.length === 0) return totals;
+
+  const results = await runWithConcurrency(rows, 1, backfillRecording);
+  const failedIds = rows
+    .filter((_, index) => results[index] === false)
+    .map((row) => row.id);
+  await dbHelpers.markThumbnailsFailed(failedIds);
+
+  const nextBeforeId = rows[rows.length - 1].id;
+  await dbHelpers.saveBackgroundTask(BACKFILL_TASK, false, nextBeforeId);
+  // Let IPC and capture work run between batches.
+  await new Promise((resolve) => {
+    setImmediate(resolve);
+  });
+
+  return backfillPagesBefore(nextBeforeId, {
+    created:
+      totals.created + results.filter((result) => result === true).length,
+    failed: totals.failed + failedIds.length,
+  });
+}
+
+async function runBackfill(): Promise<void> {
+  const task = await dbHelpers.getBackgroundTask(BACKFILL_TASK);
+  if (task?.completed) return;
+
+  const { created, failed } = await backfillPagesBefore(
+    task?.beforeId ?? Number.MAX_SAFE_INTEGER,
+    { created: 0, failed: 0 },
+  );
+
+  await dbHelpers.saveBackgroundTask(BACKFILL_TASK, true, 0);
+  if (created > 0 || failed > 0) {
+    console.log(
+      `Thumbnail backfill complete: ${created} created, ${failed} without a readable image`,
+    );
+  }
+}
+
+/**
+ * Write thumbnails next to screenshots saved before thumbnails were persisted.
+ * Runs once, in the background after startup, newest recordings first so
+ * recent session cards are covered soonest. Progress is saved per batch so an
+ * interrupted pass picks up where it stopped, and frames with no decodable
+ * image are marked so they aren't tried again.
+ */
+export default function backfillThumbnails(): Promise<void> {
+  if (!backfillInFlight) {
+    backfillInFlight = runBackfill()
+      .catch((error) => {
+        console.error('Thumbnail backfill failed:', error);
+      })
+      .finally(() => {
+        backfillInFlight = null;
+      });
+  }
+  return backfillInFlight;
+}
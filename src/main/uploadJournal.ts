@@ -0,0 +1,70 @@
+import { getImageExtension, ImageFormat } from './imageEncoding';
+
+export interface JournalUploadEntry {
+  recording_id: number;
+  storage_path: string;
+  status: 'pending' | 'uploaded';
+  url: string | null;
+}
+
+export interface UploadPlan {
+  /** Recordings that still need their screenshot uploaded, in input order. */
+  toUpload: number[];
+  /** Public URLs of screenshots a previous attempt already uploaded. */
+  alreadyUploaded: Map<number, string>;
+  /** Journal entries for recordings deleted locally since the last attempt. */
+  orphaned: JournalUploadEntry[];
+}
+
+export function buildScreenshotStoragePath(
+  userId: string,
+  remoteSessionId: number,
+  recordingId: number,
+  format: ImageFormat = 'png',
+): string {
+  return `${userId}/${remoteSessionId}/screenshot_${recordingId}.${getImageExtension(format)}`;
+}
+
+/**
+ * Compare the session's current recordings against the journal from a previous
+ * submission attempt and decide what is left to upload or clean up.
+ */
+export function planJournalUploads(
+  recordingIds: number[],
+  entries: JournalUploadEntry[],
+): UploadPlan {
+  const current = new Set(recordingIds);
+  const alreadyUploaded = new Map<number, string>();
+
+  entries.forEach((entry) => {
+    if (
+      entry.status === 'uploaded' &&
+      entry.url &&
+      current.has(entry.recording_id)
+    ) {
+      alreadyUploaded.set(entry.recording_id, entry.url);
+    }
+  });
+
+  return {
+    toUpload: recordingIds.filter((id) => !alreadyUploaded.has(id)),
+    alreadyUploaded,
+    orphaned: entries.filter((entry) => !current.has(entry.recording_id)),
+  };
+}
+
+/**
+ * Storage rejects uploads to an existing path when upsert is off. On a resumed
+ * submission that means an earlier attempt finished the upload before the
+ * journal was updated, so the object is already in place.
+ */
+export function isStorageConflictError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const { statusCode, status, message } = error as {
+    statusCode?: string | number;
+    status?: string | number;
+    message?: string;
+  };
+  if (String(statusCode ?? status) === '409') return true;
+  return typeof message === 'string' && /already exists/i.test(message);
+}
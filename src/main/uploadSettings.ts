@@ -0,0 +1,32 @@
+export interface UploadSettings {
+  /** Maximum screenshots uploaded at once. */
+  uploadConcurrency: number;
+}
+
+export const MIN_UPLOAD_CONCURRENCY = 1;
+export const MAX_UPLOAD_CONCURRENCY = 16;
+
+export const DEFAULT_UPLOAD_SETTINGS: UploadSettings = {
+  uploadConcurrency: 4,
+};
+
+/**
+ * Coerce settings read from disk or sent from the renderer, filling in
+ * defaults for anything missing or malformed.
+ */
+export function normalizeUploadSettings(raw: unknown): UploadSettings {
+  if (!raw || typeof raw !== 'object') {
+    return { ...DEFAULT_UPLOAD_SETTINGS };
+  }
+  const value = raw as Record<string, unknown>;
+  const concurrency = Number(value.uploadConcurrency);
+
+  return {
+    uploadConcurrency: Number.isFinite(concurrency)
+      ? Math.min(
+          MAX_UPLOAD_CONCURRENCY,
+          Math.max(MIN_UPLOAD_CONCURRENCY, Math.round(concurrency)),
+        )
+      : DEFAULT_UPLOAD_SETTINGS.uploadConcurrency,
+  };
+}
@@ -0,0 +1,154 @@
+export interface WindowBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Chromium browsers share Chrome's AppleScript dictionary.
+const CHROMIUM_BUNDLE_IDS = new Set([
+  'com.google.Chrome',
+  'com.google.Chrome.beta',
+  'com.brave.Browser',
+  'com.microsoft.edgemac',
+  'com.vivaldi.Vivaldi',
+  'company.thebrowser.Browser',
+]);
+
+const SAFARI_BUNDLE_IDS = new Set([
+  'com.apple.Safari',
+  'com.apple.SafariTechnologyPreview',
+]);
+
+/**
+ * AppleScript that reads the active tab's URL from a macOS browser, or null
+ * if the app isn't a browser we know how to ask.
+ */
+export function getBrowserUrlScript(
+  bundleId: string | undefined,
+): string | null {
+  if (!bundleId) return null;
+  if (SAFARI_BUNDLE_IDS.has(bundleId)) {
+    return `tell application id "${bundleId}" to get URL of front document`;
+  }
+  if (CHROMIUM_BUNDLE_IDS.has(bundleId)) {
+    return `tell application id "${bundleId}" to get URL of active tab of front window`;
+  }
+  return null;
+}
+
+/**
+ * Keep a URL's page but drop its query string and fragment, which often
+ * carry search terms, session tokens or email addresses.
+ */
+export function sanitizeUrl(raw: string | null | undefined): string | null {
+  const trimmed = raw?.trim();
+  if (!trimmed || trimmed === 'missing value') return null;
+  try {
+    const url = new URL(trimmed);
+    url.search = '';
+    url.hash = '';
+    url.username = '';
+    url.password = '';
+    return url.toString();
+  } catch (error) {
+    return null;
+  }
+}
+
+export function parseBounds(
+  values: Array<number | string | undefined>,
+): WindowBounds | undefined {
+  const [x, y, width, height] = values.map(Number);
+  if (![x, y, width, height].every(Number.isFinite)) return undefined;
+  if (width <= 0 || height <= 0) return undefined;
+  return { x, y, width, height };
+}
+
+/** Read `xdotool getwindowgeometry --shell` output. */
+export function parseXdotoolGeometry(stdout: string): WindowBounds | undefined {
+  const values = new Map(
+    stdout
+      .split('\n')
+      .map((line) => line.trim().split('='))
+      .filter((parts) => parts.length === 2)
+      .map(([key, value]) => [key, value]),
+  );
+  return parseBounds([
+    values.get('X'),
+    values.get('Y'),
+    values.get('WIDTH'),
+    values.get('HEIGHT'),
+  ]);
+}
+
+/**
+ * Read the class name from `xprop WM_CLASS` output, e.g.
+ * `WM_CLASS(STRING) = "Navigator", "firefox"` gives `firefox`.
+ */
+export function parseWmClass(stdout: string): string | undefined {
+  const names = Array.from(stdout.matchAll(/"([^"]*)"/g), (match) => match[1]);
+  return names[names.length - 1] || undefined;
+}
+
+/**
+ * Whether the focused window is what a frame shows: the captured window
+ * itself, or a window centred on the captured display.
+ */
+export function isWindowInFrame(
+  window: { title: string; bounds?: WindowBounds },
+  frame: {
+    type: 'window' | 'screen';
+    name: string;
+    bounds: WindowBounds | null;
+  },
+): boolean {
+  if (frame.type === 'window') return window.title === frame.name;
+  if (!window.bounds || !frame.bounds) return true;
+
+  const centerX = window.bounds.x + window.bounds.width / 2;
+  const centerY = window.bounds.y + window.bounds.height / 2;
+  return (
+    centerX >= frame.bounds.x &&
+    centerX < frame.bounds.x + frame.bounds.width &&
+    centerY >= frame.bounds.y &&
+    centerY < frame.bounds.y + frame.bounds.height
+  );
+}
+
+export interface FrameWindow {
+  process_name: string | null;
+  window_bounds: WindowBounds | null;
+  executable_path: string | null;
+  app_id: string | null;
+  url: string | null;
+}
+
+/** Read the window columns stored on a recording row, for export. */
+export function readFrameWindow(row: {
+  process_name?: string | null;
+  window_bounds?: string | null;
+  executable_path?: string | null;
+  app_id?: string | null;
+  url?: string | null;
+}): FrameWindow {
+  let windowBounds: WindowBounds | null = null;
+  if (row.window_bounds) {
+    try {
+      const parsed = JSON.parse(row.window_bounds);
+      windowBounds =
+        parseBounds([parsed?.x, parsed?.y, parsed?.width, parsed?.height]) ??
+        null;
+    } catch (error) {
+      // Malformed bounds are left out rather than failing the export.
+    }
+  }
+
+  return {
+    process_name: row.process_name ?? null,
+    window_bounds: windowBounds,
+    executable_path: row.executable_path ?? null,
+    app_id: row.app_id ?? null,
+    url: row.url ?? null,
+  };
+}
@@ -1,13 +1,34 @@
 import { exec, execFile } from 'child_process';
+import * as path from 'path';
 import { promisify } from 'util';
+import { screen } from 'electron';
+import {
+  getBrowserUrlScript,
+  parseBounds,
+  sanitizeUrl,
+  WindowBounds,
+} from './windowMetadata';
+import {
+  getLinuxActiveWindow,
+  getLinuxDetectionStatus,
+} from './linuxActiveWindow';
+import type { WindowDetectionStatus } from './linuxWindowDetection';
 
 const execAsync = promisify(exec);
 const execFileAsync = promisify(execFile);
 
-interface WindowInfo {
+export interface WindowInfo {
   title: string;
   processName: string;
   pid?: number;
+  /** Screen position and size of the window, in DIP like Electron's `screen`. */
+  bounds?: WindowBounds;
+  /** The process executable; the .app bundle on macOS. */
+  executablePath?: string;
+  /** Bundle id on macOS, WM_CLASS on Linux, executable name on Windows. */
+  appId?: string;
+  /** Active tab of a supported macOS browser, without query or fragment. */
+  url?: string;
 }
 
 // Window info caching to reduce system calls
@@ -27,6 +48,9 @@ public static class Win32 {
   [DllImport("user32.dll", SetLastError=true, CharSet=CharSet.Auto)]
   public static extern int GetWindowText(IntPtr hWnd, StringBuilder text, int count);
   [DllImport("user32.dll")] public static extern uint GetWindowThreadProcessId(IntPtr hWnd, out uint lpdwProcessId);
+  [StructLayout(LayoutKind.Sequential)]
+  public struct RECT { public int Left; public int Top; public int Right; public int Bottom; }
+  [DllImport("user32.dll")] public static extern bool GetWindowRect(IntPtr hWnd, out RECT rect);
 }
 "@;
       $hwnd = [Win32]::GetForegroundWindow();
@@ -35,10 +59,14 @@ public static class Win32 {
       $pid = 0;
       [Win32]::GetWindowThreadProcessId($hwnd, [ref]$pid) | Out-Null;
       $proc = Get-Process -Id $pid -ErrorAction SilentlyContinue;
+      $rect = New-Object Win32+RECT;
+      [Win32]::GetWindowRect($hwnd, [ref]$rect) | Out-Null;
       $info = [PSCustomObject]@{
         processName = if ($proc) { $proc.ProcessName } else { "" };
         title = $sb.ToString();
-        pid = [int]$pid
+        pid = [int]$pid;
+        path = if ($proc) { $proc.Path } else { "" };
+        bounds = @($rect.Left, $rect.Top, ($rect.Right - $rect.Left), ($rect.Bottom - $rect.Top))
       };
       $info | ConvertTo-Json -Compress
     `;
@@ -50,10 +78,17 @@ public static class Win32 {
     ]);
 
     const parsed = JSON.parse(stdout.trim());
+    // GetWindowRect reports physical pixels.
+    const physicalBounds = parseBounds(parsed.bounds ?? []);
     return {
       title: parsed.title || 'No Window Title',
       processName: parsed.processName || 'Unknown',
       pid: parsed.pid,
+      bounds: physicalBounds
+        ? screen.screenToDipRect(null, physicalBounds)
+        : undefined,
+      executablePath: parsed.path || undefined,
+      appId: parsed.path ? path.win32.basename(parsed.path) : undefined,
     };
   } catch (error) {
     console.error('Error getting Windows active window:', error);
@@ -61,29 +96,80 @@ public static class Win32 {
   }
 }
 
+// Looking up the URL spawns osascript, so it's only repeated once the window
+// changes, not on every poll. A tab switch changes the window title.
+let lastBrowserUrl: { key: string; url: string | undefined } | null = null;
+
+async function getMacBrowserUrl(
+  bundleId: string | undefined,
+  pid: number | undefined,
+  title: string,
+): Promise<string | undefined> {
+  const script = getBrowserUrlScript(bundleId);
+  if (!script) return undefined;
+
+  const key = `${bundleId}\u0000${pid}\u0000${title}`;
+  if (lastBrowserUrl?.key === key) return lastBrowserUrl.url;
+
+  let url: string | undefined;
+  try {
+    // The first call asks the user to let us control the browser.
+    const { stdout } = await execFileAsync('osascript', ['-e', script]);
+    url = sanitizeUrl(stdout) ?? undefined;
+  } catch (error) {
+    // No window open, or automation permission denied.
+    url = undefined;
+  }
+  lastBrowserUrl = { key, url };
+  return url;
+}
+
 async function getMacActiveWindow(): Promise<WindowInfo> {
   try {
+    // One field per line, with the title last since it's the only one that
+    // can contain anything.
     const script = `
       tell application "System Events"
         set frontApp to first application process whose frontmost is true
         set appName to name of frontApp
+        set bundleId to ""
+        try
+          set bundleId to bundle identifier of frontApp
+        end try
+        set appPath to ""
+        try
+          set appPath to POSIX path of (application file of frontApp as alias)
+        end try
+        set appPid to unix id of frontApp
         set windowTitle to ""
+        set windowBounds to ""
         try
-          set windowTitle to name of first window of frontApp
+          set frontWindow to first window of frontApp
+          set windowTitle to name of frontWindow
+          set {x, y} to position of frontWindow
+          set {w, h} to size of frontWindow
+          set windowBounds to (x as text) & " " & (y as text) & " " & (w as text) & " " & (h as text)
         end try
-        return {appName, windowTitle}
+        return appName & linefeed & bundleId & linefeed & appPath & linefeed & (appPid as text) & linefeed & windowBounds & linefeed & windowTitle
       end tell
     `;
 
     const { stdout } = await execAsync(`osascript -e '${script}'`);
-    const [processName, title] = stdout
-      .trim()
-      .split(',')
-      .map((s) => s.trim());
+    const [processName, bundleId, appPath, pid, bounds, ...titleLines] = stdout
+      .replace(/\n$/, '')
+      .split('\n');
+    const title = titleLines.join('\n').trim();
+    const appId = bundleId?.trim() || undefined;
+    const appPid = parseInt(pid, 10) || undefined;
 
     return {
       title: title || 'No Window Title',
-      processName: processName,
+      processName: processName?.trim() || 'Unknown',
+      pid: appPid,
+      bounds: parseBounds(bounds?.trim().split(/\s+/) ?? []),
+      executablePath: appPath?.trim().replace(/\/$/, '') || undefined,
+      appId,
+      url: await getMacBrowserUrl(appId, appPid, title),
     };
   } catch (error) {
     console.error('Error getting macOS active window:', error);
@@ -91,48 +177,6 @@ async function getMacActiveWindow(): Promise<WindowInfo> {
   }
 }
 
-async function getLinuxActiveWindow(): Promise<WindowInfo> {
-  try {
-    // First try xdotool
-    const { stdout: windowId } = await execAsync('xdotool getactivewindow');
-    const { stdout: windowInfo } = await execAsync(
-      `xdotool getwindowname ${windowId}`,
-    );
-    const { stdout: pid } = await execAsync(`xdotool getwindowpid ${windowId}`);
-    const { stdout: processName } = await execAsync(`ps -p ${pid} -o comm=`);
-
-    return {
-      title: windowInfo.trim(),
-      processName: processName.trim(),
-      pid: parseInt(pid.trim(), 10),
-    };
-  } catch (error) {
-    try {
-      // Fallback to wmctrl
-      const { stdout } = await execAsync('wmctrl -l -p');
-      const activeWindow = stdout
-        .split('\n')
-        .find((line) => line.includes('* '));
-
-      if (activeWindow) {
-        const [_, pid, machine, title] = activeWindow.split(/\s+/, 4);
-        const { stdout: processName } = await execAsync(
-          `ps -p ${pid} -o comm=`,
-        );
-
-        return {
-          title: title.trim(),
-          processName: processName.trim(),
-          pid: parseInt(pid, 10),
-        };
-      }
-    } catch (fallbackError) {
-      console.error('Error getting Linux active window:', fallbackError);
-    }
-    return { title: 'Unknown', processName: 'Unknown' };
-  }
-}
-
 export async function getCurrentWindow(): Promise<WindowInfo> {
   const now = Date.now();
 
@@ -173,3 +217,19 @@ export async function getCurrentWindow(): Promise<WindowInfo> {
     inFlightRequest = null;
   }
 }
+
+/**
+ * Whether the active window can be detected on this machine. Only Linux can
+ * lack the tools for it; there the answer comes from the latest lookup.
+ */
+export async function getWindowDetectionStatus(): Promise<WindowDetectionStatus> {
+  if (process.platform !== 'linux') {
+    return { available: true, backend: null, hint: null };
+  }
+  const status = getLinuxDetectionStatus();
+  if (status) return status;
+  await getCurrentWindow();
+  return (
+    getLinuxDetectionStatus() ?? { available: false, backend: null, hint: null }
+  );
+}
@@ -13,6 +13,7 @@ import Analytics from './components/Analytics/Analytics';
 import Tasklist from './components/Tasklist/Tasklist';
 import Editor from './components/Editor/Editor';
 import Notifications from './components/Notifications/Notifications';
+import Settings from './components/Settings/Settings';
 import SignIn from './components/Auth/SignIn';
 import SignUp from './components/Auth/SignUp';
 import ProtectedRoute from './components/Auth/ProtectedRoute';
@@ -108,7 +109,7 @@ export default function App() {
                         <Route path="/editor" element={<Editor />} />
                         <Route path="/notifications" element={<Notifications />} />
                         {/* <Route path="/tutorials" element={<div>Tutorials</div>} /> */}
-                        <Route path="/settings" element={<div>Settings</div>} />
+                        <Route path="/settings" element={<Settings />} />
                       </Routes>
                     </Layout>
                   </ProtectedRoute>
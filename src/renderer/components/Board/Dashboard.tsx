@@ -1,8 +1,10 @@
 import { useEffect, useState, useMemo, useCallback, useRef } from 'react';
 import BoardHeader from './BoardHeader';
 import StatusColumn from './StatusColumn';
+import SessionSearch from './SessionSearch';
 import { useTheme } from '../../contexts/ThemeContext';
 import type { BoardViewMode } from './BoardHeader';
+import type { QueuedSubmission } from './QueuedSubmissionBadge';
 
 interface Session {
   id: number;
@@ -29,6 +31,9 @@ function Dashboard() {
   );
   const [submissionProgress, setSubmissionProgress] =
     useState<SubmissionProgress | null>(null);
+  const [queuedSubmissions, setQueuedSubmissions] = useState<
+    QueuedSubmission[]
+  >([]);
   const [notification, setNotification] = useState<{
     type: 'success' | 'error';
     message: string;
@@ -36,6 +41,17 @@ function Dashboard() {
   const { isDark } = useTheme();
   const notificationTimeoutRef = useRef<number | null>(null);
 
+  const queuedSubmissionsBySession = useMemo(
+    () =>
+      new Map(
+        queuedSubmissions.map((submission) => [
+          submission.sessionId,
+          submission,
+        ]),
+      ),
+    [queuedSubmissions],
+  );
+
   // Group sessions in one pass to avoid repeated filtering per render.
   const groupedSessions = useMemo(() => {
     const grouped = {
@@ -46,11 +62,19 @@ function Dashboard() {
     };
 
     sessions.forEach((currentSession) => {
+      // Queued drafts show as submitted; the background worker finishes the upload.
+      if (
+        currentSession.approval_state === 'draft' &&
+        queuedSubmissionsBySession.has(currentSession.id)
+      ) {
+        grouped.submitted.push(currentSession);
+        return;
+      }
       grouped[currentSession.approval_state].push(currentSession);
     });
 
     return grouped;
-  }, [sessions]);
+  }, [sessions, queuedSubmissionsBySession]);
 
   const fetchSessions = useCallback(async () => {
     try {
@@ -62,6 +86,17 @@ function Dashboard() {
     }
   }, []);
 
+  const fetchSubmissionQueue = useCallback(async () => {
+    try {
+      const queue = await window.electron.ipcRenderer.invoke(
+        'get-submission-queue',
+      );
+      setQueuedSubmissions(queue);
+    } catch (error) {
+      console.error('Failed to fetch submission queue:', error);
+    }
+  }, []);
+
   const showTimedNotification = useCallback(
     (type: 'success' | 'error', message: string) => {
       if (notificationTimeoutRef.current !== null) {
@@ -78,6 +113,7 @@ function Dashboard() {
 
   useEffect(() => {
     fetchSessions();
+    fetchSubmissionQueue();
 
     // Listen for recording status changes
     const startListener = window.electron.ipcRenderer.on(
@@ -113,6 +149,15 @@ function Dashboard() {
       },
     );
 
+    // Background retries finish submissions and move sessions between columns
+    const submissionQueueListener = window.electron.ipcRenderer.on(
+      'submission-queue-updated',
+      (queue: QueuedSubmission[]) => {
+        setQueuedSubmissions(queue);
+        fetchSessions();
+      },
+    );
+
     // Refresh when window gains focus
     const handleFocus = () => {
       fetchSessions();
@@ -132,10 +177,11 @@ function Dashboard() {
       stopListener?.();
       recordingListener?.();
       submissionProgressListener?.();
+      submissionQueueListener?.();
       window.removeEventListener('focus', handleFocus);
       document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, [fetchSessions]);
+  }, [fetchSessions, fetchSubmissionQueue]);
 
   useEffect(() => {
     return () => {
@@ -167,6 +213,11 @@ function Dashboard() {
               'success',
               `Session submitted successfully! +${result.pointsEarned || 0} points earned`,
             );
+          } else if (result.queued) {
+            showTimedNotification(
+              'error',
+              'Upload failed. The session is queued and will retry automatically.',
+            );
           } else {
             showTimedNotification(
               'error',
@@ -183,10 +234,11 @@ function Dashboard() {
           setSubmittingSessionId(null);
           setSubmissionProgress(null);
           fetchSessions();
+          fetchSubmissionQueue();
         }
       };
     },
-    [fetchSessions, showTimedNotification],
+    [fetchSessions, fetchSubmissionQueue, showTimedNotification],
   );
 
   const handleSessionClick = useCallback(async (sessionId: number) => {
@@ -203,6 +255,7 @@ function Dashboard() {
     >
       <div className="py-6">
         <BoardHeader viewMode={viewMode} onViewModeChange={setViewMode} />
+        <SessionSearch />
         {/* Progress Overlay */}
         {submittingSessionId && submissionProgress && (
           <div className="fixed top-20 right-6 z-50">
@@ -274,6 +327,7 @@ function Dashboard() {
             title="Submitted"
             sessions={groupedSessions.submitted}
             viewMode={viewMode}
+            queuedSubmissions={queuedSubmissionsBySession}
             onSessionClick={handleSessionClick}
             onSessionDeleted={fetchSessions}
             activeSessionId={activeSessionId}
@@ -0,0 +1,50 @@
+import { useTheme } from '../../contexts/ThemeContext';
+
+export interface QueuedSubmission {
+  sessionId: number;
+  status: 'queued' | 'uploading';
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+}
+
+interface QueuedSubmissionBadgeProps {
+  submission: QueuedSubmission;
+  size?: 'sm' | 'xs';
+}
+
+function QueuedSubmissionBadge({
+  submission,
+  size,
+}: QueuedSubmissionBadgeProps) {
+  const { isDark } = useTheme();
+  const isUploading = submission.status === 'uploading';
+
+  const title = isUploading
+    ? 'Uploading in the background'
+    : [
+        `Will retry at ${new Date(submission.nextAttemptAt).toLocaleTimeString()}`,
+        submission.lastError ? `Last error: ${submission.lastError}` : null,
+      ]
+        .filter(Boolean)
+        .join('\n');
+
+  return (
+    <span
+      title={title}
+      className={`${size === 'sm' ? 'px-2 py-1 text-[9px]' : 'px-1.5 py-0.5 text-[8px]'} rounded-md uppercase tracking-industrial-wide font-mono font-bold border ${
+        isDark
+          ? 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400'
+          : 'bg-yellow-50 border-yellow-200 text-yellow-700'
+      }`}
+    >
+      {isUploading ? 'Uploading...' : 'Queued'}
+    </span>
+  );
+}
+
+QueuedSubmissionBadge.defaultProps = {
+  size: 'sm',
+};
+
+export default QueuedSubmissionBadge;
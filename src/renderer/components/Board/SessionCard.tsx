@@ -1,5 +1,7 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import RecordingCard from './RecordingCard';
+import QueuedSubmissionBadge from './QueuedSubmissionBadge';
+import type { QueuedSubmission } from './QueuedSubmissionBadge';
 import { useTheme } from '../../contexts/ThemeContext';
 import { getLatestTimelineTimeSeconds } from '../../../shared/sessionTimeline';
 import { formatDurationHms } from '../../../shared/timeFormatting';
@@ -29,6 +31,7 @@ interface SessionCardProps {
   session: Session;
   activeSessionId: number | null;
   submittingSessionId?: number | null;
+  queuedSubmission?: QueuedSubmission;
   onSubmit?: () => void;
   onSessionDeleted?: () => void;
 }
@@ -37,6 +40,7 @@ function SessionCard({
   session,
   activeSessionId,
   submittingSessionId,
+  queuedSubmission,
   onSubmit,
   onSessionDeleted,
 }: SessionCardProps) {
@@ -194,6 +198,22 @@ function SessionCard({
     }
   };
 
+  const submitAction =
+    canSubmit && onSubmit ? (
+      <button
+        type="button"
+        disabled={isSubmitting}
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={(e) => {
+          e.stopPropagation();
+          setShowConfirmDialog(true);
+        }}
+        className={`px-2 py-1 rounded-md text-[9px] uppercase tracking-industrial-wide font-mono font-bold transition-all border disabled:opacity-50 disabled:cursor-not-allowed hover-lift ${isDark ? 'bg-industrial-orange text-black border-industrial-orange/20 shadow-industrial hover:shadow-industrial-lg' : 'bg-blue-500 text-white border-blue-600 hover:bg-blue-600'}`}
+      >
+        {isSubmitting ? 'Uploading...' : 'Submit'}
+      </button>
+    ) : null;
+
   return (
     <div className="h-fit">
       {recordings.length > 0 && (
@@ -214,22 +234,16 @@ function SessionCard({
             thumbnail={recordings[recordings.length - 1].thumbnail}
             sessionId={session.id}
             onDelete={handleRequestDeleteRecording}
-            approvalState={session.approval_state}
+            // Queued sessions are locked for editing just like submitted ones.
+            approvalState={
+              queuedSubmission ? 'submitted' : session.approval_state
+            }
             footerAction={
-              canSubmit && onSubmit ? (
-                <button
-                  type="button"
-                  disabled={isSubmitting}
-                  onMouseDown={(e) => e.stopPropagation()}
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    setShowConfirmDialog(true);
-                  }}
-                  className={`px-2 py-1 rounded-md text-[9px] uppercase tracking-industrial-wide font-mono font-bold transition-all border disabled:opacity-50 disabled:cursor-not-allowed hover-lift ${isDark ? 'bg-industrial-orange text-black border-industrial-orange/20 shadow-industrial hover:shadow-industrial-lg' : 'bg-blue-500 text-white border-blue-600 hover:bg-blue-600'}`}
-                >
-                  {isSubmitting ? 'Uploading...' : 'Submit'}
-                </button>
-              ) : null
+              queuedSubmission ? (
+                <QueuedSubmissionBadge submission={queuedSubmission} />
+              ) : (
+                submitAction
+              )
             }
           />
           {/* Confirmation Dialog */}
@@ -404,6 +418,10 @@ function SessionCard({
   );
 }
 
+SessionCard.defaultProps = {
+  queuedSubmission: undefined,
+};
+
 export default SessionCard;
 
 if (process.env.NODE_ENV === 'development' && (module as any).hot) {
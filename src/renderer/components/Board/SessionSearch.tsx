@@ -0,0 +1,242 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { MessageSquare, Monitor, Search, X } from 'lucide-react';
+import { useTheme } from '../../contexts/ThemeContext';
+import { formatBoardTimestamp } from '../../../shared/timeFormatting';
+
+interface SessionSearchMatch {
+  kind: 'recording' | 'comment';
+  recordingId: number | null;
+  commentId: number | null;
+  timestamp: string | null;
+  startTime: number | null;
+  windowName: string | null;
+  label: string | null;
+  comment: string | null;
+}
+
+interface SessionSearchResult {
+  sessionId: number;
+  createdAt: string;
+  approvalState: 'draft' | 'submitted' | 'approved' | 'rejected';
+  matches: SessionSearchMatch[];
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+function SessionSearch() {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SessionSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
+  const { isDark } = useTheme();
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setIsSearching(false);
+      return undefined;
+    }
+
+    // Ignore responses for queries the user has already typed past.
+    let isStale = false;
+    setIsSearching(true);
+    const timeout = window.setTimeout(async () => {
+      try {
+        const found = (await window.electron.ipcRenderer.invoke(
+          'search-sessions',
+          trimmed,
+        )) as SessionSearchResult[];
+        if (!isStale) setResults(found || []);
+      } catch (error) {
+        console.error('Failed to search sessions:', error);
+        if (!isStale) setResults([]);
+      } finally {
+        if (!isStale) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isStale = true;
+      window.clearTimeout(timeout);
+    };
+  }, [query]);
+
+  useEffect(() => {
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    return () => document.removeEventListener('mousedown', handlePointerDown);
+  }, []);
+
+  const openMatch = async (
+    result: SessionSearchResult,
+    match: SessionSearchMatch,
+  ) => {
+    // Submitted sessions can't be edited, same as their cards on the board.
+    if (result.approvalState !== 'draft') return;
+
+    const focus =
+      match.kind === 'recording'
+        ? { recordingId: match.recordingId ?? undefined }
+        : { time: match.startTime ?? undefined };
+    try {
+      await window.electron.ipcRenderer.invoke(
+        'show-editor',
+        result.sessionId,
+        focus,
+      );
+      setIsOpen(false);
+      navigate('/editor');
+    } catch (error) {
+      console.error('Failed to open search result:', error);
+    }
+  };
+
+  const trimmedQuery = query.trim();
+  const showDropdown = isOpen && trimmedQuery.length > 0;
+
+  return (
+    <div ref={containerRef} className="relative mb-6 max-w-xl">
+      <div
+        className={`flex items-center gap-2 rounded-lg border px-3 py-2 ${
+          isDark
+            ? 'bg-industrial-black-secondary border-industrial-border'
+            : 'bg-white border-gray-300'
+        }`}
+      >
+        <Search
+          className={`w-4 h-4 flex-shrink-0 ${isDark ? 'text-industrial-white-tertiary' : 'text-gray-400'}`}
+          strokeWidth={1.5}
+        />
+        <input
+          type="search"
+          aria-label="Search sessions"
+          placeholder="Search window names, labels and comments"
+          value={query}
+          onChange={(event) => {
+            setQuery(event.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={(event) => {
+            if (event.key === 'Escape') setIsOpen(false);
+          }}
+          className={`flex-1 bg-transparent text-xs font-mono focus:outline-none ${
+            isDark
+              ? 'text-white placeholder:text-industrial-white-tertiary'
+              : 'text-gray-900 placeholder:text-gray-400'
+          }`}
+        />
+        {query ? (
+          <button
+            type="button"
+            aria-label="Clear search"
+            onClick={() => setQuery('')}
+            className={`p-0.5 rounded ${isDark ? 'text-industrial-white-tertiary hover:text-white' : 'text-gray-400 hover:text-gray-700'}`}
+          >
+            <X className="w-3.5 h-3.5" strokeWidth={1.5} />
+          </button>
+        ) : null}
+      </div>
+
+      {showDropdown ? (
+        <div
+          className={`absolute z-40 mt-2 w-full max-h-96 overflow-y-auto rounded-lg border shadow-lg ${
+            isDark
+              ? 'bg-industrial-black-secondary border-industrial-border'
+              : 'bg-white border-gray-200'
+          }`}
+        >
+          {!isSearching && results.length === 0 ? (
+            <p
+              className={`px-4 py-3 text-xs font-mono ${isDark ? 'text-industrial-white-tertiary' : 'text-gray-500'}`}
+            >
+              No matching sessions.
+            </p>
+          ) : null}
+
+          {results.map((result) => {
+            const isEditable = result.approvalState === 'draft';
+            return (
+              <div
+                key={result.sessionId}
+                className={`border-b last:border-b-0 ${isDark ? 'border-industrial-border-subtle' : 'border-gray-100'}`}
+              >
+                <div
+                  className={`flex items-center justify-between px-4 pt-3 pb-1 text-[10px] uppercase tracking-industrial-wide font-mono font-bold ${
+                    isDark ? 'text-industrial-white-secondary' : 'text-gray-600'
+                  }`}
+                >
+                  <span>{formatBoardTimestamp(result.createdAt)}</span>
+                  {!isEditable ? <span>{result.approvalState}</span> : null}
+                </div>
+                {result.matches.map((match) => (
+                  <button
+                    key={
+                      match.kind === 'comment'
+                        ? `comment-${match.commentId}`
+                        : `recording-${match.recordingId}`
+                    }
+                    type="button"
+                    disabled={!isEditable}
+                    onClick={() => openMatch(result, match)}
+                    className={`w-full flex items-start gap-2 px-4 py-2 text-left text-xs font-mono transition-colors disabled:cursor-default disabled:opacity-60 ${
+                      isDark
+                        ? 'text-white enabled:hover:bg-industrial-black-tertiary'
+                        : 'text-gray-900 enabled:hover:bg-gray-50'
+                    }`}
+                  >
+                    {match.kind === 'comment' ? (
+                      <MessageSquare
+                        className="w-3.5 h-3.5 mt-0.5 flex-shrink-0"
+                        strokeWidth={1.5}
+                      />
+                    ) : (
+                      <Monitor
+                        className="w-3.5 h-3.5 mt-0.5 flex-shrink-0"
+                        strokeWidth={1.5}
+                      />
+                    )}
+                    <span className="min-w-0 flex-1">
+                      <span className="block truncate">
+                        {match.kind === 'comment'
+                          ? match.comment
+                          : match.windowName}
+                      </span>
+                      {match.kind === 'recording' && match.label ? (
+                        <span
+                          className={`block truncate ${isDark ? 'text-industrial-white-tertiary' : 'text-gray-500'}`}
+                        >
+                          {match.label}
+                        </span>
+                      ) : null}
+                    </span>
+                    {match.timestamp ? (
+                      <span
+                        className={`flex-shrink-0 ${isDark ? 'text-industrial-white-tertiary' : 'text-gray-500'}`}
+                      >
+                        {new Date(match.timestamp).toLocaleTimeString([], {
+                          hour: 'numeric',
+                          minute: '2-digit',
+                        })}
+                      </span>
+                    ) : null}
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default SessionSearch;
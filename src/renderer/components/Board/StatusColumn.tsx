@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import SessionCard from './SessionCard';
+import QueuedSubmissionBadge from './QueuedSubmissionBadge';
+import type { QueuedSubmission } from './QueuedSubmissionBadge';
 import { useTheme } from '../../contexts/ThemeContext';
 import {
   formatBoardTimestamp,
@@ -24,6 +26,7 @@ interface StatusColumnProps {
   viewMode: BoardViewMode;
   activeSessionId: number | null;
   submittingSessionId?: number | null;
+  queuedSubmissions?: Map<number, QueuedSubmission>;
   onSessionClick: (sessionId: number) => void;
   onSessionSubmit?: (sessionId: number) => () => Promise<void>;
   onSessionDeleted?: () => void;
@@ -35,6 +38,7 @@ function StatusColumn({
   viewMode,
   activeSessionId,
   submittingSessionId,
+  queuedSubmissions,
   onSessionClick,
   onSessionSubmit,
   onSessionDeleted,
@@ -139,6 +143,7 @@ function StatusColumn({
                   session={session}
                   activeSessionId={activeSessionId}
                   submittingSessionId={submittingSessionId}
+                  queuedSubmission={queuedSubmissions?.get(session.id)}
                   onSubmit={onSessionSubmit?.(session.id)}
                   onSessionDeleted={onSessionDeleted}
                 />
@@ -160,6 +165,7 @@ function StatusColumn({
               const isActive = activeSessionId === session.id;
               const isSubmitting = submittingSessionId === session.id;
               const isPassive = session.session_status === 'passive';
+              const queuedSubmission = queuedSubmissions?.get(session.id);
               const canSubmit =
                 title === 'Draft' &&
                 session.approval_state === 'draft' &&
@@ -222,6 +228,12 @@ function StatusColumn({
                     >
                       {formatDurationHms(session.duration)}
                     </span>
+                    {queuedSubmission ? (
+                      <QueuedSubmissionBadge
+                        submission={queuedSubmission}
+                        size="xs"
+                      />
+                    ) : null}
                     {canSubmit ? (
                       <button
                         type="button"
@@ -362,4 +374,8 @@ function StatusColumn({
   );
 }
 
+StatusColumn.defaultProps = {
+  queuedSubmissions: undefined,
+};
+
 export default StatusColumn;
@@ -1,5 +1,12 @@
 /* @refresh reset */
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, {
+  useState,
+  useRef,
+  useEffect,
+  useCallback,
+  useLayoutEffect,
+  useMemo,
+} from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTheme } from '../../contexts/ThemeContext';
 import {
@@ -21,18 +28,74 @@ import {
   Edit2,
   Send,
   Undo2,
+  Layers,
+  ArrowLeftToLine,
+  ArrowRightToLine,
+  Eraser,
+  Scissors,
 } from 'lucide-react';
 import myBoard from '../../../../assets/icons/myBoard.svg';
 import EditorSubmitToast, { EditorSubmitToastHandle } from './EditorSubmitToast';
 import TimelineScrollbar from './TimelineScrollbar';
-import { buildTimestampTimeline } from '../../../shared/sessionTimeline';
+import {
+  buildTimestampTimeline,
+  parseComparableTimestamp,
+  TimelineOrigin,
+} from '../../../shared/sessionTimeline';
+import {
+  getPauseReasonLabel,
+  PauseSegment,
+  TimelinePause,
+  toTimelinePauses,
+} from '../../../shared/sessionEvents';
+import {
+  describeInputEventCounts,
+  InputEvent,
+  InputEventCounts,
+  TimelineInputEvent,
+  toTimelineInputEvents,
+} from '../../../shared/inputEvents';
+import { formatDurationHms } from '../../../shared/timeFormatting';
+import {
+  findFirstIndexAtOrAfter,
+  findLastIndexAtOrBefore,
+  getAnchoredScrollLeft,
+  getVisibleTimelineRange,
+  TimelineRange,
+} from './timelineWindow';
+
+// Fractions of the frame's width and height.
+interface CursorPoint {
+  x: number;
+  y: number;
+}
+
+interface CursorClick extends CursorPoint {
+  button: 'left' | 'right' | 'middle' | 'other';
+  timestamp: string;
+}
+
+interface DisplayFrame {
+  id: string;
+  displayId: string | null;
+  imageUrl: string;
+  thumbnailUrl?: string;
+  cursor?: CursorPoint | null; // Pointer position when the frame was grabbed
+  clicks?: CursorClick[]; // Clicks on this frame since the previous one
+}
 
 interface Screenshot {
   id: string;
   timestamp: string;
   imageUrl: string;
+  thumbnailUrl?: string;
   label?: string;
   time?: number; // Time in seconds from the start
+  isDuplicate?: boolean; // Looks the same as the frame that started its run
+  redactions?: string[]; // What was covered up before the frame was saved
+  displays?: DisplayFrame[]; // Every display's frame, when several were recorded together
+  cursor?: CursorPoint | null;
+  clicks?: CursorClick[];
 }
 
 interface TimeRangeComment {
@@ -51,6 +114,7 @@ type UndoAction =
       pendingDeletions: number[];
       selectedIndices: number[];
       currentIndex: number;
+      loadedCount: number; // Frames loaded when the snapshot was taken
     }
   | {
       type: 'commentDeletion';
@@ -68,8 +132,47 @@ interface Recording {
   screenshot: string;
   type: 'passive' | 'tasked';
   label?: string;
+  duplicate_of?: number | null;
+  redactions?: string | null;
+  cursor?: CursorPoint | null;
+  clicks?: CursorClick[];
+  displays?: {
+    id: number;
+    display_id: string | null;
+    screenshot: string;
+    thumbnail: string;
+    cursor?: CursorPoint | null;
+    clicks?: CursorClick[];
+  }[];
 }
 
+// Set when the Editor is opened from a search result.
+interface EditorFocus {
+  recordingId?: number;
+  time?: number;
+}
+
+interface RecordingsPage {
+  recordings: Recording[];
+  total: number;
+  offset: number;
+}
+
+// Recordings are fetched in pages so the first frames of a long session show
+// while the rest load.
+const RECORDINGS_PAGE_SIZE = 500;
+
+const fetchRecordingsPage = async (
+  sessionId: number,
+  offset: number,
+): Promise<RecordingsPage> => {
+  return (await window.electron.ipcRenderer.invoke(
+    'get-session-recordings-page',
+    sessionId,
+    { offset, limit: RECORDINGS_PAGE_SIZE },
+  )) as RecordingsPage;
+};
+
 interface EditorSessionSummary {
   id: number;
   created_at: string;
@@ -100,17 +203,246 @@ export const getLatestRecordingIndex = (recordings: Recording[]): number => {
   return recordings.length > 0 ? recordings.length - 1 : 0;
 };
 
-const toScreenshotTimelineItems = (recordings: Recording[]): Screenshot[] => {
-  return buildTimestampTimeline(recordings).map(({ item: recording, time }, index) => ({
-    id:
-      recording.id !== undefined && recording.id !== null
-        ? String(recording.id)
-        : `recording-${index}`,
-    timestamp: recording.timestamp,
-    imageUrl: recording.screenshot,
-    label: recording.label,
-    time,
-  }));
+// The frame to open on: the focused recording, else the first frame at or after
+// the focused time, else the latest frame. Null until enough of the session has
+// loaded to tell.
+export const getInitialScreenshotIndex = (
+  screenshots: Pick<Screenshot, 'id' | 'time'>[],
+  focus: EditorFocus | undefined,
+  isComplete: boolean,
+): number | null => {
+  if (focus?.recordingId !== undefined) {
+    const index = screenshots.findIndex(
+      (screenshot) => screenshot.id === String(focus.recordingId),
+    );
+    if (index !== -1) return index;
+  } else if (focus?.time !== undefined) {
+    const focusTime = focus.time;
+    const index = screenshots.findIndex(
+      (screenshot, i) => (screenshot.time ?? i) >= focusTime,
+    );
+    if (index !== -1) return index;
+  }
+
+  return isComplete ? Math.max(0, screenshots.length - 1) : null;
+};
+
+export type RangeEdit = 'trimBefore' | 'trimAfter' | 'deleteRange' | 'split';
+
+interface FrameRange {
+  start: number;
+  end: number;
+}
+
+// The frames the range actions work on: the selected span, else the current frame.
+export const getEditRange = (
+  selectedIndices: number[],
+  currentIndex: number,
+): FrameRange =>
+  selectedIndices.length > 0
+    ? { start: Math.min(...selectedIndices), end: Math.max(...selectedIndices) }
+    : { start: currentIndex, end: currentIndex };
+
+// What a range edit asks the main process to do, in recording ids (null runs to
+// that end of the session), or null if it would change nothing or leave no frames.
+export const getRangeEditBounds = (
+  edit: RangeEdit,
+  screenshots: Pick<Screenshot, 'id'>[],
+  range: FrameRange,
+): {
+  fromRecordingId: number | null;
+  toRecordingId: number | null;
+  frameCount: number;
+} | null => {
+  const idAt = (index: number) => Number(screenshots[index].id);
+  const lastIndex = screenshots.length - 1;
+  if (range.start < 0 || range.end > lastIndex || range.start > range.end)
+    return null;
+
+  switch (edit) {
+    case 'trimBefore':
+      if (range.start === 0) return null;
+      return {
+        fromRecordingId: null,
+        toRecordingId: idAt(range.start - 1),
+        frameCount: range.start,
+      };
+    case 'trimAfter':
+      if (range.end === lastIndex) return null;
+      return {
+        fromRecordingId: idAt(range.end + 1),
+        toRecordingId: null,
+        frameCount: lastIndex - range.end,
+      };
+    case 'deleteRange':
+      if (range.start === 0 && range.end === lastIndex) return null;
+      return {
+        fromRecordingId: idAt(range.start),
+        toRecordingId: idAt(range.end),
+        frameCount: range.end - range.start + 1,
+      };
+    default:
+      if (range.start === 0) return null;
+      return {
+        fromRecordingId: idAt(range.start),
+        toRecordingId: null,
+        frameCount: screenshots.length - range.start,
+      };
+  }
+};
+
+const formatFrameCount = (count: number) =>
+  `${count} frame${count === 1 ? '' : 's'}`;
+
+// Range edits change the session on disk straight away, so each asks first.
+const RANGE_EDITS: Record<
+  RangeEdit,
+  {
+    label: string;
+    hint: string;
+    icon: typeof Trash2;
+    confirmLabel: string;
+    getMessage: (frameCount: number) => string;
+    failure: string;
+  }
+> = {
+  trimBefore: {
+    label: 'Trim Before',
+    hint: 'Delete every frame before the selection',
+    icon: ArrowLeftToLine,
+    confirmLabel: 'Trim',
+    getMessage: (count) =>
+      `Delete the ${formatFrameCount(count)} before the selection, with their comments and input?`,
+    failure: 'Failed to trim session',
+  },
+  trimAfter: {
+    label: 'Trim After',
+    hint: 'Delete every frame after the selection',
+    icon: ArrowRightToLine,
+    confirmLabel: 'Trim',
+    getMessage: (count) =>
+      `Delete the ${formatFrameCount(count)} after the selection, with their comments and input?`,
+    failure: 'Failed to trim session',
+  },
+  deleteRange: {
+    label: 'Delete Range',
+    hint: 'Delete every frame from the start to the end of the selection',
+    icon: Eraser,
+    confirmLabel: 'Delete',
+    getMessage: (count) =>
+      `Delete the ${formatFrameCount(count)} in the selection, with their comments and input?`,
+    failure: 'Failed to delete range',
+  },
+  split: {
+    label: 'Split Here',
+    hint: 'Move the frames from the start of the selection on into a new session',
+    icon: Scissors,
+    confirmLabel: 'Split',
+    getMessage: (count) =>
+      `Move the last ${formatFrameCount(count)} into a new session? Comments and input go with them.`,
+    failure: 'Failed to split session',
+  },
+};
+
+const REDACTION_LABELS: Record<string, string> = {
+  region: 'screen region',
+  email: 'email address',
+  card_number: 'card number',
+  sensitive_window: 'sensitive window',
+};
+
+const parseRedactions = (redactions?: string | null): string[] | undefined => {
+  if (!redactions) return undefined;
+  try {
+    const parsed = JSON.parse(redactions);
+    return Array.isArray(parsed) && parsed.length > 0 ? parsed : undefined;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+const toScreenshotTimelineItems = (
+  recordings: Recording[],
+  origin?: TimelineOrigin,
+): Screenshot[] => {
+  return buildTimestampTimeline(recordings, origin).map(
+    ({ item: recording, time }, index) => ({
+      id:
+        recording.id !== undefined && recording.id !== null
+          ? String(recording.id)
+          : `recording-${(origin?.startIndex ?? 0) + index}`,
+      timestamp: recording.timestamp,
+      imageUrl: recording.screenshot,
+      thumbnailUrl: recording.thumbnail,
+      label: recording.label,
+      time,
+      isDuplicate:
+        recording.duplicate_of !== undefined && recording.duplicate_of !== null,
+      redactions: parseRedactions(recording.redactions),
+      cursor: recording.cursor,
+      clicks: recording.clicks,
+      displays: recording.displays?.map((frame) => ({
+        id: String(frame.id),
+        displayId: frame.display_id,
+        imageUrl: frame.screenshot,
+        thumbnailUrl: frame.thumbnail,
+        cursor: frame.cursor,
+        clicks: frame.clicks,
+      })),
+    }),
+  );
+};
+
+const CLICK_COLORS: Record<CursorClick['button'], string> = {
+  left: '#facc15',
+  right: '#38bdf8',
+  middle: '#a78bfa',
+  other: '#a78bfa',
+};
+
+/**
+ * Pointer position and clicks drawn over a frame. The SVG shares the image's
+ * aspect ratio and fit, so fractions of the frame land on the right pixels.
+ */
+const CursorOverlay: React.FC<{
+  cursor: CursorPoint | null;
+  clicks: CursorClick[];
+  size: { width: number; height: number };
+}> = function CursorOverlay({ cursor, clicks, size }) {
+  const radius = Math.max(size.width, size.height) / 120;
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${size.width} ${size.height}`}
+      preserveAspectRatio="xMidYMid meet"
+      aria-hidden="true"
+    >
+      {clicks.map((click) => (
+        <circle
+          key={`${click.timestamp}-${click.x}-${click.y}`}
+          cx={click.x * size.width}
+          cy={click.y * size.height}
+          r={radius * 1.6}
+          fill="none"
+          stroke={CLICK_COLORS[click.button]}
+          strokeWidth={radius / 3}
+          opacity={0.9}
+        />
+      ))}
+      {cursor ? (
+        <circle
+          cx={cursor.x * size.width}
+          cy={cursor.y * size.height}
+          r={radius}
+          fill="#ef4444"
+          fillOpacity={0.6}
+          stroke="#ffffff"
+          strokeWidth={radius / 4}
+        />
+      ) : null}
+    </svg>
+  );
 };
 
 interface ScreenshotEditorProps {
@@ -121,6 +453,42 @@ interface ScreenshotEditorProps {
   onCurrentIndexChange: (index: number) => void;
 }
 
+// Below these per-frame widths the timeline drops thumbnails, then time labels,
+// so zooming out over an hour-long session stays cheap to render.
+const MIN_THUMBNAIL_ITEM_WIDTH = 12;
+const MIN_TIME_LABEL_ITEM_WIDTH = 36;
+// Per-click zoom factor for the timeline's zoom buttons.
+const TIMELINE_ZOOM_STEP = 1.25;
+
+const INPUT_MARKER_COLORS: Record<keyof InputEventCounts, string> = {
+  click: 'bg-yellow-400',
+  scroll: 'bg-sky-400',
+  key: 'bg-violet-400',
+};
+
+// Dots along the top of a timeline frame for the input that led to it.
+const InputMarker: React.FC<{ counts: InputEventCounts }> =
+  function InputMarker({ counts }) {
+    const description = describeInputEventCounts(counts);
+    return (
+      <div
+        role="img"
+        aria-label={description}
+        title={description}
+        className="absolute top-0.5 left-0.5 z-10 flex gap-0.5"
+      >
+        {(Object.keys(INPUT_MARKER_COLORS) as (keyof InputEventCounts)[])
+          .filter((type) => counts[type] > 0)
+          .map((type) => (
+            <span
+              key={type}
+              className={`w-1.5 h-1.5 rounded-full ${INPUT_MARKER_COLORS[type]}`}
+            />
+          ))}
+      </div>
+    );
+  };
+
 const ScreenshotTimeline: React.FC<{
   screenshots: Screenshot[];
   selectedIndices: number[];
@@ -128,6 +496,10 @@ const ScreenshotTimeline: React.FC<{
   onSelect: (index: number) => void;
   onSelectionChange: (indices: number[]) => void;
   isDark: boolean;
+  itemWidth: number;
+  visibleRange: TimelineRange;
+  pauses: TimelinePause[];
+  inputEvents: TimelineInputEvent[];
 }> = function ScreenshotTimeline({
   screenshots,
   selectedIndices,
@@ -135,12 +507,17 @@ const ScreenshotTimeline: React.FC<{
   onSelect,
   onSelectionChange,
   isDark,
+  itemWidth,
+  visibleRange,
+  pauses,
+  inputEvents,
 }) {
   const timelineRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState<number | null>(null);
   const [hasMoved, setHasMoved] = useState(false);
   const [lastClickedIndex, setLastClickedIndex] = useState<number | null>(null);
+  const selectedIndexSet = new Set(selectedIndices);
 
   const formatTimeForTimeline = (screenshot: Screenshot, index: number) => {
     // Use the time property if available, otherwise calculate based on index
@@ -150,6 +527,31 @@ const ScreenshotTimeline: React.FC<{
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
+  const getScreenshotTime = (index: number) => screenshots[index].time ?? index;
+
+  // Input is shown on the first frame captured after it, i.e. the frame it led to.
+  const inputCountsByIndex = useMemo(() => {
+    const getTime = (index: number) => screenshots[index].time ?? index;
+    const counts = new Map<number, InputEventCounts>();
+    inputEvents.forEach((inputEvent) => {
+      const index = findFirstIndexAtOrAfter(
+        screenshots.length,
+        getTime,
+        inputEvent.time,
+      );
+      if (index >= screenshots.length) return;
+      const frameCounts = counts.get(index) ?? { click: 0, scroll: 0, key: 0 };
+      frameCounts[inputEvent.type] += 1;
+      counts.set(index, frameCounts);
+    });
+    return counts;
+  }, [inputEvents, screenshots]);
+
+  const getPauseDescription = (pause: TimelinePause) =>
+    pause.durationSeconds === null
+      ? `${getPauseReasonLabel(pause.reason)}, never resumed`
+      : `${getPauseReasonLabel(pause.reason)} for ${formatDurationHms(pause.durationSeconds)}`;
+
   const handleMouseDown = (e: React.MouseEvent, index: number) => {
     e.preventDefault();
 
@@ -227,56 +629,103 @@ const ScreenshotTimeline: React.FC<{
       role="grid"
       aria-label="Screenshot timeline"
     >
-      <div className="absolute inset-0 flex">
-        {screenshots.map((screenshot, index) => (
-          <div
-            key={screenshot.id}
-            role="gridcell"
-            tabIndex={0}
-            aria-selected={selectedIndices.includes(index)}
-            aria-label={`Screenshot ${index + 1} taken at ${screenshot.timestamp}`}
-            className={`h-full flex-1 border-2 transition-all relative ${
-              selectedIndices.includes(index)
-                ? isDark
-                  ? 'border-industrial-orange opacity-100'
-                  : 'border-blue-500 opacity-100'
-                : 'border-transparent opacity-50'
-            } ${currentIndex === index ? isDark ? 'ring-2 ring-industrial-orange' : 'ring-2 ring-blue-500' : ''}`}
-            style={{
-              backgroundImage: `url(${screenshot.imageUrl})`,
-              backgroundSize: 'contain',
-              backgroundPosition: 'center',
-              backgroundRepeat: 'no-repeat',
-            }}
-            onMouseDown={(e) => handleMouseDown(e, index)}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter' || e.key === ' ') {
-                e.preventDefault();
-
-                // Handle shift+Enter/Space for range selection
-                if (e.shiftKey && lastClickedIndex !== null) {
-                  const start = Math.min(lastClickedIndex, index);
-                  const end = Math.max(lastClickedIndex, index);
-                  const rangeSelection = Array.from(
-                    { length: end - start + 1 },
-                    (_, i) => start + i,
-                  );
-                  onSelectionChange(rangeSelection);
-                } else {
-                  onSelectionChange([index]);
-                  setLastClickedIndex(index);
-                }
-                onSelect(index);
-              }
-            }}
-          >
-            <div className="absolute bottom-0 left-0 right-0 bg-black/70 backdrop-blur-sm px-1 py-0.5">
-              <span className="text-[9px] font-mono font-bold text-white tracking-tight">
-                {formatTimeForTimeline(screenshot, index)}
-              </span>
-            </div>
-          </div>
-        ))}
+      <div className="absolute inset-0">
+        {screenshots
+          .slice(visibleRange.start, visibleRange.end)
+          .map((screenshot, offset) => {
+            const index = visibleRange.start + offset;
+            const isSelected = selectedIndexSet.has(index);
+            return (
+              <div
+                key={screenshot.id}
+                role="gridcell"
+                tabIndex={0}
+                aria-selected={isSelected}
+                aria-label={`Screenshot ${index + 1} taken at ${screenshot.timestamp}`}
+                className={`absolute top-0 h-full border-2 transition-colors ${
+                  isSelected
+                    ? isDark
+                      ? 'border-industrial-orange opacity-100'
+                      : 'border-blue-500 opacity-100'
+                    : 'border-transparent opacity-50'
+                } ${currentIndex === index ? (isDark ? 'ring-2 ring-industrial-orange' : 'ring-2 ring-blue-500') : ''}`}
+                style={{ left: index * itemWidth, width: itemWidth }}
+                onMouseDown={(e) => handleMouseDown(e, index)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+
+                    // Handle shift+Enter/Space for range selection
+                    if (e.shiftKey && lastClickedIndex !== null) {
+                      const start = Math.min(lastClickedIndex, index);
+                      const end = Math.max(lastClickedIndex, index);
+                      const rangeSelection = Array.from(
+                        { length: end - start + 1 },
+                        (_, i) => start + i,
+                      );
+                      onSelectionChange(rangeSelection);
+                    } else {
+                      onSelectionChange([index]);
+                      setLastClickedIndex(index);
+                    }
+                    onSelect(index);
+                  }
+                }}
+              >
+                {itemWidth >= MIN_THUMBNAIL_ITEM_WIDTH ? (
+                  <img
+                    src={screenshot.thumbnailUrl || screenshot.imageUrl}
+                    alt=""
+                    decoding="async"
+                    draggable={false}
+                    className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+                  />
+                ) : (
+                  <div
+                    className={`absolute inset-0 ${isDark ? 'bg-industrial-white-tertiary/30' : 'bg-gray-400/40'}`}
+                  />
+                )}
+                {inputCountsByIndex.has(index) ? (
+                  <InputMarker counts={inputCountsByIndex.get(index)!} />
+                ) : null}
+                {itemWidth >= MIN_TIME_LABEL_ITEM_WIDTH ? (
+                  <div className="absolute bottom-0 left-0 right-0 bg-black/70 backdrop-blur-sm px-1 py-0.5">
+                    <span className="text-[9px] font-mono font-bold text-white tracking-tight">
+                      {formatTimeForTimeline(screenshot, index)}
+                    </span>
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+        {pauses.map((pause) => {
+          // The gap sits just before the first frame captured after the pause.
+          const index = findFirstIndexAtOrAfter(
+            screenshots.length,
+            getScreenshotTime,
+            pause.end ?? Number.POSITIVE_INFINITY,
+          );
+          if (index < visibleRange.start || index > visibleRange.end) {
+            return null;
+          }
+
+          const description = getPauseDescription(pause);
+          const manualPauseColor = isDark
+            ? 'bg-industrial-white-tertiary'
+            : 'bg-gray-500';
+          return (
+            <div
+              key={`pause-${pause.start}`}
+              role="img"
+              aria-label={description}
+              title={description}
+              className={`absolute top-0 z-10 h-full w-1 -translate-x-1/2 ${
+                pause.reason === 'manual' ? manualPauseColor : 'bg-red-500'
+              }`}
+              style={{ left: index * itemWidth }}
+            />
+          );
+        })}
       </div>
     </div>
   );
@@ -286,8 +735,15 @@ const CommentIndicatorTimeline: React.FC<{
   comments: TimeRangeComment[];
   screenshots: Screenshot[];
   isDark: boolean;
+  visibleRange: TimelineRange;
   onCommentClick?: (comment: TimeRangeComment) => void;
-}> = function CommentIndicatorTimeline({ comments, screenshots, isDark, onCommentClick }) {
+}> = function CommentIndicatorTimeline({
+  comments,
+  screenshots,
+  isDark,
+  visibleRange,
+  onCommentClick,
+}) {
   const [hoveredComment, setHoveredComment] = useState<TimeRangeComment | null>(null);
   const [tooltipPosition, setTooltipPosition] = useState<{ x: number; y: number } | null>(null);
 
@@ -316,30 +772,27 @@ const CommentIndicatorTimeline: React.FC<{
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const getScreenshotTime = (index: number) => screenshots[index].time ?? index;
+
   // Find screenshot indices that fall within the comment time range
   const getScreenshotIndices = (startTime: number, endTime: number) => {
-    let startIndex = 0;
-    let endIndex = screenshots.length - 1;
-
-    // Find the first screenshot that starts at or after startTime
-    for (let i = 0; i < screenshots.length; i++) {
-      const screenshotTime = screenshots[i].time ?? i;
-      if (screenshotTime >= startTime) {
-        startIndex = i;
-        break;
-      }
-    }
-
-    // Find the last screenshot that starts at or before endTime
-    for (let i = screenshots.length - 1; i >= 0; i--) {
-      const screenshotTime = screenshots[i].time ?? i;
-      if (screenshotTime <= endTime) {
-        endIndex = i;
-        break;
-      }
-    }
+    // The first screenshot that starts at or after startTime
+    const firstIndex = findFirstIndexAtOrAfter(
+      screenshots.length,
+      getScreenshotTime,
+      startTime,
+    );
+    // The last screenshot that starts at or before endTime
+    const lastIndex = findLastIndexAtOrBefore(
+      screenshots.length,
+      getScreenshotTime,
+      endTime,
+    );
 
-    return { startIndex, endIndex };
+    return {
+      startIndex: firstIndex < screenshots.length ? firstIndex : 0,
+      endIndex: lastIndex >= 0 ? lastIndex : screenshots.length - 1,
+    };
   };
 
   return (
@@ -347,6 +800,10 @@ const CommentIndicatorTimeline: React.FC<{
       <div className={`relative h-6 border-t ${isDark ? 'bg-industrial-black-secondary border-industrial-border-subtle' : 'bg-gray-50 border-gray-200'}`}>
         {comments.map((comment) => {
           const { startIndex, endIndex } = getScreenshotIndices(comment.start_time, comment.end_time);
+          // Only comments overlapping the rendered slice of the timeline need a node.
+          if (endIndex < visibleRange.start || startIndex >= visibleRange.end) {
+            return null;
+          }
 
           // Calculate position based on screenshot indices
           const totalScreenshots = screenshots.length;
@@ -670,104 +1127,226 @@ const CommentSidebar: React.FC<{
   );
 };
 
-export const ScreenshotEditor: React.FC<ScreenshotEditorProps & { isDark: boolean }> =
-  function ScreenshotEditor({
-    screenshots,
-    onDeleteScreenshots,
-    onUpdateLabel,
-    currentIndex,
-    onCurrentIndexChange,
-    isDark,
-  }) {
-    const [zoomLevel, setZoomLevel] = useState(50);
-    const [editingLabel, setEditingLabel] = useState(false);
-    const [currentLabel, setCurrentLabel] = useState('');
-    const labelInputRef = useRef<HTMLInputElement>(null);
-
-    useEffect(() => {
-      if (screenshots.length > 0 && screenshots[currentIndex]?.label !== undefined) {
-        setCurrentLabel(screenshots[currentIndex].label || '');
-      }
-    }, [currentIndex, screenshots]);
+export const ScreenshotEditor: React.FC<
+  ScreenshotEditorProps & { isDark: boolean }
+> = function ScreenshotEditor({
+  screenshots,
+  onDeleteScreenshots,
+  onUpdateLabel,
+  currentIndex,
+  onCurrentIndexChange,
+  isDark,
+}) {
+  const [zoomLevel, setZoomLevel] = useState(50);
+  // Which display of a multi-display frame to show, or all side by side.
+  const [displayView, setDisplayView] = useState<number | 'all'>('all');
+  const [showCursor, setShowCursor] = useState(true);
+  // Natural image sizes, so the cursor overlay lines up with object-contain.
+  const [imageSizes, setImageSizes] = useState<
+    Record<string, { width: number; height: number }>
+  >({});
+  const [editingLabel, setEditingLabel] = useState(false);
+  const [currentLabel, setCurrentLabel] = useState('');
+  const labelInputRef = useRef<HTMLInputElement>(null);
 
-    const handleSelect = (index: number) => {
-      onCurrentIndexChange(index);
-      setEditingLabel(false);
-    };
+  useEffect(() => {
+    if (screenshots.length > 0 && screenshots[currentIndex]?.label !== undefined) {
+      setCurrentLabel(screenshots[currentIndex].label || '');
+    }
+  }, [currentIndex, screenshots]);
 
-    const handleLabelClick = () => {
-      setEditingLabel(true);
-      setTimeout(() => {
-        labelInputRef.current?.focus();
-      }, 0);
-    };
+  const handleSelect = (index: number) => {
+    onCurrentIndexChange(index);
+    setEditingLabel(false);
+  };
 
-    const handleLabelSubmit = () => {
-      setEditingLabel(false);
-      onUpdateLabel(currentIndex, currentLabel);
-    };
+  const handleLabelClick = () => {
+    setEditingLabel(true);
+    setTimeout(() => {
+      labelInputRef.current?.focus();
+    }, 0);
+  };
 
-    const handleLabelKeyDown = (e: React.KeyboardEvent) => {
-      if (e.key === 'Enter') {
-        handleLabelSubmit();
-      } else if (e.key === 'Escape') {
-        setEditingLabel(false);
-        setCurrentLabel(screenshots[currentIndex]?.label || '');
-      }
-    };
+  const handleLabelSubmit = () => {
+    setEditingLabel(false);
+    onUpdateLabel(currentIndex, currentLabel);
+  };
 
-    const handlePrevious = () => {
-      onCurrentIndexChange(Math.max(0, currentIndex - 1));
-    };
+  const handleLabelKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleLabelSubmit();
+    } else if (e.key === 'Escape') {
+      setEditingLabel(false);
+      setCurrentLabel(screenshots[currentIndex]?.label || '');
+    }
+  };
 
-    const handleNext = () => {
-      onCurrentIndexChange(Math.min(screenshots.length - 1, currentIndex + 1));
-    };
+  const current = screenshots[currentIndex];
+  const displayFrames: DisplayFrame[] = current
+    ? (current.displays ?? [
+        {
+          id: current.id,
+          displayId: null,
+          imageUrl: current.imageUrl,
+          thumbnailUrl: current.thumbnailUrl,
+          cursor: current.cursor,
+          clicks: current.clicks,
+        },
+      ])
+    : [];
+  const hasCursorData = displayFrames.some(
+    (frame) => frame.cursor || (frame.clicks && frame.clicks.length > 0),
+  );
+  // Frames recorded with fewer displays than the chosen one fall back to all of them.
+  const activeDisplayView =
+    displayView !== 'all' && displayView < displayFrames.length
+      ? displayView
+      : 'all';
+  const visibleDisplays =
+    activeDisplayView === 'all'
+      ? displayFrames
+      : [displayFrames[activeDisplayView]];
+  const activeDisplayButtonClass = isDark
+    ? 'bg-industrial-orange text-black'
+    : 'bg-blue-500 text-white';
+
+  const handlePrevious = () => {
+    onCurrentIndexChange(Math.max(0, currentIndex - 1));
+  };
 
-    return (
-      <div className={`relative w-full h-[570px] bg-black rounded-lg overflow-hidden border shadow-industrial ${isDark ? 'border-industrial-border' : 'border-gray-300'}`}>
-        {screenshots.length > 0 && screenshots[currentIndex] && (
-          <>
-            <img
-              src={screenshots[currentIndex].imageUrl}
-              alt={`Screenshot ${currentIndex + 1}`}
-              className="w-full h-full object-contain"
-              style={{
-                transform: `scale(${zoomLevel / 50})`,
-                transformOrigin: 'center',
-                transition: 'transform 0.2s ease-out',
-              }}
-            />
+  const handleNext = () => {
+    onCurrentIndexChange(Math.min(screenshots.length - 1, currentIndex + 1));
+  };
 
+  return (
+    <div className={`relative w-full h-[570px] bg-black rounded-lg overflow-hidden border shadow-industrial ${isDark ? 'border-industrial-border' : 'border-gray-300'}`}>
+      {screenshots.length > 0 && screenshots[currentIndex] && (
+        <>
+          <div
+            className="flex w-full h-full"
+            style={{
+              transform: `scale(${zoomLevel / 50})`,
+              transformOrigin: 'center',
+              transition: 'transform 0.2s ease-out',
+            }}
+          >
+            {visibleDisplays.map((frame, index) => (
+              <div key={frame.id} className="relative flex-1 min-w-0 h-full">
+                <img
+                  src={frame.imageUrl}
+                  alt={
+                    visibleDisplays.length > 1
+                      ? `Screenshot ${currentIndex + 1}, display ${index + 1}`
+                      : `Screenshot ${currentIndex + 1}`
+                  }
+                  onLoad={(event) => {
+                    const { naturalWidth, naturalHeight } = event.currentTarget;
+                    setImageSizes((prev) =>
+                      prev[frame.id]
+                        ? prev
+                        : {
+                            ...prev,
+                            [frame.id]: {
+                              width: naturalWidth,
+                              height: naturalHeight,
+                            },
+                          },
+                    );
+                  }}
+                  className="w-full h-full object-contain"
+                />
+                {showCursor && imageSizes[frame.id] ? (
+                  <CursorOverlay
+                    cursor={frame.cursor ?? null}
+                    clicks={frame.clicks ?? []}
+                    size={imageSizes[frame.id]}
+                  />
+                ) : null}
+              </div>
+            ))}
+          </div>
 
-          </>
-        )}
+          {displayFrames.length > 1 ? (
+            <div
+              role="group"
+              aria-label="Displays"
+              className={`absolute top-4 right-4 flex gap-1 p-1 rounded-lg border ${isDark ? 'bg-industrial-black-secondary border-industrial-border' : 'bg-gray-800 border-gray-700'}`}
+            >
+              {(
+                ['all', ...displayFrames.map((_, index) => index)] as const
+              ).map((view) => (
+                <button
+                  key={view}
+                  type="button"
+                  onClick={() => setDisplayView(view)}
+                  aria-pressed={activeDisplayView === view}
+                  className={`px-2 py-1 rounded-md text-[9px] uppercase tracking-industrial-wide font-mono font-bold transition-colors ${
+                    activeDisplayView === view
+                      ? activeDisplayButtonClass
+                      : 'text-white/70 hover:text-white'
+                  }`}
+                >
+                  {view === 'all' ? 'All' : `Display ${view + 1}`}
+                </button>
+              ))}
+            </div>
+          ) : null}
+
+          {screenshots[currentIndex].redactions ? (
+            <span
+              title={`Redacted: ${screenshots[currentIndex]
+                .redactions!.map((kind) => REDACTION_LABELS[kind] ?? kind)
+                .join(', ')}`}
+              className={`absolute top-4 left-4 px-2 py-1 rounded-md text-[9px] uppercase tracking-industrial-wide font-mono font-bold border ${isDark ? 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400' : 'bg-yellow-50 border-yellow-200 text-yellow-700'}`}
+            >
+              Redacted
+            </span>
+          ) : null}
+        </>
+      )}
 
-        {/* Navigation Overlay */}
-        <div className="absolute inset-x-0 bottom-0 flex justify-between items-center p-4 bg-gradient-to-t from-black via-black/80 to-transparent">
-          <button
-            type="button"
-            onClick={handlePrevious}
-            disabled={currentIndex === 0}
-            className={`p-2 border rounded-lg transition-all disabled:opacity-30 disabled:cursor-not-allowed hover-lift ${isDark ? 'bg-industrial-black-secondary hover:bg-industrial-black-tertiary border-industrial-border' : 'bg-gray-100 hover:bg-gray-200 border-gray-300'}`}
-          >
-            <ArrowLeft className={`w-5 h-5 ${isDark ? 'text-white' : 'text-black'}`} strokeWidth={1.5} />
-          </button>
+      {/* Navigation Overlay */}
+      <div className="absolute inset-x-0 bottom-0 flex justify-between items-center p-4 bg-gradient-to-t from-black via-black/80 to-transparent">
+        <button
+          type="button"
+          onClick={handlePrevious}
+          disabled={currentIndex === 0}
+          className={`p-2 border rounded-lg transition-all disabled:opacity-30 disabled:cursor-not-allowed hover-lift ${isDark ? 'bg-industrial-black-secondary hover:bg-industrial-black-tertiary border-industrial-border' : 'bg-gray-100 hover:bg-gray-200 border-gray-300'}`}
+        >
+          <ArrowLeft className={`w-5 h-5 ${isDark ? 'text-white' : 'text-black'}`} strokeWidth={1.5} />
+        </button>
+        <div className="flex items-center gap-2">
           <span className={`text-[10px] uppercase tracking-industrial-wide font-mono font-bold text-white px-4 py-2 rounded-lg border ${isDark ? 'bg-industrial-black-secondary border-industrial-border' : 'bg-gray-800 border-gray-700'}`}>
             {currentIndex + 1} / {screenshots.length}
           </span>
-          <button
-            type="button"
-            onClick={handleNext}
-            disabled={currentIndex === screenshots.length - 1}
-            className={`p-2 border rounded-lg transition-all disabled:opacity-30 disabled:cursor-not-allowed hover-lift ${isDark ? 'bg-industrial-black-secondary hover:bg-industrial-black-tertiary border-industrial-border' : 'bg-gray-100 hover:bg-gray-200 border-gray-300'}`}
-          >
-            <ArrowRight className={`w-5 h-5 ${isDark ? 'text-white' : 'text-black'}`} strokeWidth={1.5} />
-          </button>
+          {hasCursorData ? (
+            <button
+              type="button"
+              onClick={() => setShowCursor((prev) => !prev)}
+              aria-pressed={showCursor}
+              title="Show where the pointer was and what was clicked"
+              className={`text-[10px] uppercase tracking-industrial-wide font-mono font-bold px-3 py-2 rounded-lg border transition-colors ${
+                showCursor
+                  ? activeDisplayButtonClass
+                  : 'text-white/70 hover:text-white'
+              } ${isDark ? 'border-industrial-border' : 'border-gray-700'}`}
+            >
+              Cursor
+            </button>
+          ) : null}
         </div>
+        <button
+          type="button"
+          onClick={handleNext}
+          disabled={currentIndex === screenshots.length - 1}
+          className={`p-2 border rounded-lg transition-all disabled:opacity-30 disabled:cursor-not-allowed hover-lift ${isDark ? 'bg-industrial-black-secondary hover:bg-industrial-black-tertiary border-industrial-border' : 'bg-gray-100 hover:bg-gray-200 border-gray-300'}`}
+        >
+          <ArrowRight className={`w-5 h-5 ${isDark ? 'text-white' : 'text-black'}`} strokeWidth={1.5} />
+        </button>
       </div>
-    );
-  };
+    </div>
+  );
+};
 
 function Editor() {
   const [currentSessionId, setCurrentSessionId] = useState<number | null>(null);
@@ -776,6 +1355,10 @@ function Editor() {
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [pendingDeletions, setPendingDeletions] = useState<number[]>([]);
   const [comments, setComments] = useState<TimeRangeComment[]>([]);
+  // Stretches where recording was paused, shown as gaps on the timeline.
+  const [pauses, setPauses] = useState<TimelinePause[]>([]);
+  // Clicks, scrolls and key presses, when the session was recorded with input logging.
+  const [inputEvents, setInputEvents] = useState<TimelineInputEvent[]>([]);
   const [selectedIndices, setSelectedIndices] = useState<number[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const timelineScrollRef = useRef<HTMLDivElement>(null);
@@ -786,9 +1369,25 @@ function Editor() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDeletingClip, setIsDeletingClip] = useState(false);
   const [showDeleteClipConfirm, setShowDeleteClipConfirm] = useState(false);
+  const [isEditingRange, setIsEditingRange] = useState(false);
   const [undoStack, setUndoStack] = useState<UndoAction[]>([]);
   const [isInitialLoadComplete, setIsInitialLoadComplete] = useState(false);
   const hasExternalSessionLoadRef = useRef(false);
+  // Bumped on every session load so pages of a superseded load are dropped.
+  const loadGenerationRef = useRef(0);
+  // Every frame fetched for the current session, in order, before any edits.
+  const loadedScreenshotsRef = useRef<Screenshot[]>([]);
+  const [isLoadingMoreRecordings, setIsLoadingMoreRecordings] = useState(false);
+  // A page failed to load, so the timeline stays partial until a retry.
+  const [recordingsPageFailed, setRecordingsPageFailed] = useState(false);
+  const resumeRecordingsPagingRef = useRef<(() => Promise<void>) | null>(null);
+  const [timelineScrollLeft, setTimelineScrollLeft] = useState(0);
+  // Viewport x to hold in place across the next zoom change.
+  const zoomAnchorRef = useRef<{ x: number; previousZoom: number } | null>(
+    null,
+  );
+  // Frame to scroll into view once a session's opening frame has rendered.
+  const pendingFocusIndexRef = useRef<number | null>(null);
   const submitToastRef = useRef<EditorSubmitToastHandle>(null);
   const navigate = useNavigate();
   const { isDark } = useTheme();
@@ -800,36 +1399,60 @@ function Editor() {
     setPendingDeletions([]);
     setHasUnsavedChanges(false);
     setComments([]);
+    setPauses([]);
+    setInputEvents([]);
     setSelectedIndices([]);
     setCurrentIndex(0);
     setUndoStack([]);
+    setIsLoadingMoreRecordings(false);
+    setRecordingsPageFailed(false);
+    resumeRecordingsPagingRef.current = null;
+    loadedScreenshotsRef.current = [];
   }, []);
 
   const loadSessionIntoEditor = useCallback(
-    async (sessionId: number, recordings: Recording[]) => {
-      if (!recordings || recordings.length === 0) {
+    async (sessionId: number, focus?: EditorFocus) => {
+      loadGenerationRef.current += 1;
+      const generation = loadGenerationRef.current;
+      const isCurrentLoad = () => loadGenerationRef.current === generation;
+
+      const firstPage = await fetchRecordingsPage(sessionId, 0);
+      if (!isCurrentLoad()) return false;
+      if (!firstPage?.recordings || firstPage.recordings.length === 0) {
         resetEditorToEmptyState();
         return false;
       }
 
-      const convertedScreenshots = toScreenshotTimelineItems(recordings);
-      const latestRecordingIndex = getLatestRecordingIndex(recordings);
+      const origin: TimelineOrigin = {
+        firstTimestamp:
+          firstPage.recordings
+            .map((recording) => parseComparableTimestamp(recording.timestamp))
+            .find((timestamp) => timestamp !== null) ?? null,
+        startIndex: 0,
+      };
+      let loaded = toScreenshotTimelineItems(firstPage.recordings, origin);
+      let hasMore = loaded.length < firstPage.total;
+      let initialIndex = getInitialScreenshotIndex(loaded, focus, !hasMore);
+      loadedScreenshotsRef.current = loaded;
 
       setCurrentSessionId(sessionId);
-      setScreenshots(convertedScreenshots);
-      setOriginalScreenshots(convertedScreenshots);
+      setScreenshots(loaded);
+      setOriginalScreenshots(loaded);
       setPendingDeletions([]);
       setHasUnsavedChanges(false);
       setSelectedIndices([]);
-      setCurrentIndex(latestRecordingIndex);
+      setCurrentIndex(initialIndex ?? 0);
       setUndoStack([]);
+      setIsLoadingMoreRecordings(hasMore);
+      setRecordingsPageFailed(false);
+      pendingFocusIndexRef.current = initialIndex;
 
       try {
         const sessionComments = await window.electron?.ipcRenderer?.invoke?.(
           'get-session-comments',
           sessionId,
         ) as TimeRangeComment[];
-        setComments(sessionComments || []);
+        if (isCurrentLoad()) setComments(sessionComments || []);
       } catch (error) {
         console.error('Failed to load comments:', error);
         setComments([]);
@@ -839,19 +1462,120 @@ function Editor() {
         });
       }
 
+      try {
+        const pauseSegments = (await window.electron?.ipcRenderer?.invoke?.(
+          'get-session-pauses',
+          sessionId,
+        )) as PauseSegment[];
+        if (isCurrentLoad()) {
+          setPauses(
+            toTimelinePauses(pauseSegments || [], origin.firstTimestamp),
+          );
+        }
+      } catch (error) {
+        // Pauses only annotate the timeline; the session is usable without them.
+        console.error('Failed to load session pauses:', error);
+        setPauses([]);
+      }
+
+      try {
+        const sessionInputEvents =
+          (await window.electron?.ipcRenderer?.invoke?.(
+            'get-session-input-events',
+            sessionId,
+          )) as InputEvent[];
+        if (isCurrentLoad()) {
+          setInputEvents(
+            toTimelineInputEvents(
+              sessionInputEvents || [],
+              origin.firstTimestamp,
+            ),
+          );
+        }
+      } catch (error) {
+        // Like pauses, input markers are only annotations.
+        console.error('Failed to load session input events:', error);
+        setInputEvents([]);
+      }
+
+      // Pages must arrive in order, so each is fetched after the last.
+      const loadRemainingPages = async (): Promise<void> => {
+        if (!hasMore || !isCurrentLoad()) return;
+        const offset = loaded.length;
+        const page = await fetchRecordingsPage(sessionId, offset);
+        if (!isCurrentLoad()) return;
+
+        const pageItems = toScreenshotTimelineItems(page.recordings || [], {
+          ...origin,
+          startIndex: offset,
+        });
+        loaded = [...loaded, ...pageItems];
+        loadedScreenshotsRef.current = loaded;
+        hasMore = pageItems.length > 0 && loaded.length < page.total;
+
+        setScreenshots((prev) => [...prev, ...pageItems]);
+        setOriginalScreenshots((prev) => [...prev, ...pageItems]);
+
+        if (initialIndex === null) {
+          initialIndex = getInitialScreenshotIndex(loaded, focus, !hasMore);
+          if (initialIndex !== null) {
+            setCurrentIndex(initialIndex);
+            pendingFocusIndexRef.current = initialIndex;
+          }
+        }
+
+        await loadRemainingPages();
+      };
+
+      // On failure the session stays marked as loading, which keeps range edits
+      // off until a retry has paged in every frame.
+      const resumePaging = async () => {
+        setRecordingsPageFailed(false);
+        try {
+          await loadRemainingPages();
+          if (isCurrentLoad()) setIsLoadingMoreRecordings(false);
+        } catch (error) {
+          console.error('Failed to load recordings page:', error);
+          if (!isCurrentLoad()) return;
+          setRecordingsPageFailed(true);
+          window.electron?.ipcRenderer?.sendMessage?.(
+            'show-error-notification',
+            {
+              title: 'Error',
+              message: 'Failed to load the rest of this session',
+            },
+          );
+        }
+      };
+      resumeRecordingsPagingRef.current = resumePaging;
+      await resumePaging();
+
       return true;
     },
     [resetEditorToEmptyState],
   );
 
+  useEffect(() => {
+    return () => {
+      // Stop paging in a session once the Editor is gone.
+      loadGenerationRef.current += 1;
+    };
+  }, []);
+
   const baseMinTimelineZoom = 25;
-  const computedMinTimelineZoom =
+  // Zooming all the way out fits the whole session in the viewport, however long it is.
+  // Zooming out any further would leave the timeline narrower than the viewport (a right-side gutter).
+  const minTimelineZoom =
     screenshots.length > 0 && timelineViewportWidth > 0
-      ? Math.ceil(timelineViewportWidth / screenshots.length)
+      ? timelineViewportWidth / screenshots.length
       : baseMinTimelineZoom;
-  // Prevent zooming out so far that the timeline becomes narrower than the viewport (which creates a right-side gutter).
-  const minTimelineZoom = Math.max(baseMinTimelineZoom, computedMinTimelineZoom);
   const maxTimelineZoom = Math.max(200, minTimelineZoom + 200);
+  const visibleTimelineRange = getVisibleTimelineRange(
+    timelineScrollLeft,
+    timelineViewportWidth,
+    timelineZoom,
+    screenshots.length,
+  );
   const timelineContentWidth =
     screenshots.length > 0 ? screenshots.length * timelineZoom : timelineViewportWidth;
   const timelineOverflow =
@@ -883,18 +1607,108 @@ function Editor() {
     setTimelineZoom((z) => (z < minTimelineZoom ? minTimelineZoom : z));
   }, [minTimelineZoom]);
 
+  useEffect(() => {
+    // Only the frames in view are rendered, so track where the timeline is scrolled to.
+    const el = timelineScrollRef.current;
+    if (!el) return undefined;
+
+    let frameId: number | null = null;
+    const handleScroll = () => {
+      if (frameId !== null) return;
+      frameId = window.requestAnimationFrame(() => {
+        frameId = null;
+        setTimelineScrollLeft(el.scrollLeft);
+      });
+    };
+    el.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      el.removeEventListener('scroll', handleScroll);
+      if (frameId !== null) window.cancelAnimationFrame(frameId);
+    };
+  }, []);
+
+  const zoomTimeline = useCallback(
+    (nextZoom: number, anchorX?: number) => {
+      const el = timelineScrollRef.current;
+      const clamped = Math.min(
+        maxTimelineZoom,
+        Math.max(minTimelineZoom, nextZoom),
+      );
+      if (el) {
+        zoomAnchorRef.current = {
+          x: anchorX ?? el.clientWidth / 2,
+          previousZoom: timelineZoom,
+        };
+      }
+      setTimelineZoom(clamped);
+    },
+    [maxTimelineZoom, minTimelineZoom, timelineZoom],
+  );
+
+  useLayoutEffect(() => {
+    // Keep the frame under the zoom anchor where it was, rather than drifting towards the start.
+    const el = timelineScrollRef.current;
+    const anchor = zoomAnchorRef.current;
+    if (!el || !anchor) return;
+
+    zoomAnchorRef.current = null;
+    el.scrollLeft = getAnchoredScrollLeft(
+      el.scrollLeft,
+      anchor.x,
+      anchor.previousZoom,
+      timelineZoom,
+    );
+    setTimelineScrollLeft(el.scrollLeft);
+  }, [timelineZoom]);
+
+  useEffect(() => {
+    // Pinch (or ctrl/cmd + wheel) over the timeline zooms around the pointer.
+    const el = timelineScrollRef.current;
+    if (!el) return undefined;
+
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+      event.preventDefault();
+      const rect = el.getBoundingClientRect();
+      zoomTimeline(
+        timelineZoom * Math.exp(-event.deltaY * 0.01),
+        event.clientX - rect.left,
+      );
+    };
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  }, [timelineZoom, zoomTimeline]);
+
+  useEffect(() => {
+    const el = timelineScrollRef.current;
+    const focusIndex = pendingFocusIndexRef.current;
+    if (!el || focusIndex === null || screenshots.length <= focusIndex) return;
+
+    pendingFocusIndexRef.current = null;
+    el.scrollLeft = Math.max(
+      0,
+      focusIndex * timelineZoom - (el.clientWidth - timelineZoom) / 2,
+    );
+    setTimelineScrollLeft(el.scrollLeft);
+  }, [screenshots, timelineZoom]);
+
   useEffect(() => {
     // Listen for load-editor events from the main process.
     const loadEditorListener = window.electron?.ipcRenderer?.on?.(
       'load-editor',
       async (data: unknown) => {
         hasExternalSessionLoadRef.current = true;
-        const { sessionId, recordings } = data as {
+        const { sessionId, focus } = data as {
           sessionId: number;
-          recordings: Recording[];
+          focus?: EditorFocus;
         };
 
-        await loadSessionIntoEditor(sessionId, recordings || []);
+        try {
+          await loadSessionIntoEditor(sessionId, focus);
+        } catch (error) {
+          console.error('Failed to load session into editor:', error);
+          resetEditorToEmptyState();
+        }
         setIsInitialLoadComplete(true);
       },
     );
@@ -902,7 +1716,7 @@ function Editor() {
     return () => {
       loadEditorListener?.();
     };
-  }, [loadSessionIntoEditor]);
+  }, [loadSessionIntoEditor, resetEditorToEmptyState]);
 
   useEffect(() => {
     let isDisposed = false;
@@ -926,14 +1740,7 @@ function Editor() {
           return;
         }
 
-        const recordings = await window.electron.ipcRenderer.invoke(
-          'get-session-recordings',
-          latestSessionId,
-        ) as Recording[];
-
-        if (isDisposed || hasExternalSessionLoadRef.current) return;
-
-        await loadSessionIntoEditor(latestSessionId, recordings || []);
+        await loadSessionIntoEditor(latestSessionId);
       } catch (error) {
         console.error('Failed to load latest recordings:', error);
         if (!isDisposed && !hasExternalSessionLoadRef.current) {
@@ -970,6 +1777,7 @@ function Editor() {
         pendingDeletions: [...pendingDeletions],
         selectedIndices: [...selectedIndices],
         currentIndex,
+        loadedCount: loadedScreenshotsRef.current.length,
       },
     ]);
     setPendingDeletions((prev) => [...prev, ...newPendingDeletions]);
@@ -988,6 +1796,20 @@ function Editor() {
     setHasUnsavedChanges(true);
   };
 
+  const duplicateIndices = screenshots.reduce<number[]>(
+    (indices, screenshot, index) =>
+      screenshot.isDuplicate ? [...indices, index] : indices,
+    [],
+  );
+
+  // Queue near-identical frames for deletion; like any other delete this is
+  // undoable and only persisted on save.
+  const handleCollapseDuplicates = () => {
+    if (duplicateIndices.length === 0 || isLoadingMoreRecordings) return;
+    setSelectedIndices([]);
+    handleDeleteScreenshots(duplicateIndices);
+  };
+
   const handleUpdateLabel = async (index: number, label: string) => {
     if (index < 0 || index >= screenshots.length) return;
 
@@ -1043,20 +1865,24 @@ function Editor() {
     setSelectedIndices(indices);
   };
 
+  const handleRetryRecordingsPage = () => {
+    resumeRecordingsPagingRef.current?.();
+  };
+
   const handleSave = async (): Promise<boolean> => {
     if (!currentSessionId) return false;
 
     try {
-      // Delete all recordings in parallel using Promise.all
+      // One at a time: deleting a frame can promote its duplicates, and
+      // concurrent deletes would race on the same capture group.
       if (window.electron?.ipcRenderer?.invoke) {
-        const deletePromises = pendingDeletions.map((recordingId) =>
-          window.electron.ipcRenderer.invoke('delete-recording', {
+        await pendingDeletions.reduce(async (previous, recordingId) => {
+          await previous;
+          await window.electron.ipcRenderer.invoke('delete-recording', {
             sessionId: currentSessionId,
             recordingId,
-          }),
-        );
-
-        await Promise.all(deletePromises);
+          });
+        }, Promise.resolve());
       }
 
       // Clear pending changes
@@ -1075,15 +1901,89 @@ function Editor() {
       return true;
     } catch (error) {
       console.error('Failed to save changes:', error);
-      // Show error message
+      // Show error message, e.g. why the main process refused a deletion
       window.electron?.ipcRenderer?.sendMessage?.('show-error-notification', {
         title: 'Error',
-        message: 'Failed to save changes',
+        message:
+          error instanceof Error ? error.message : 'Failed to save changes',
       });
       return false;
     }
   };
 
+  const editRange = getEditRange(selectedIndices, currentIndex);
+
+  const handleRangeEdit = async (edit: RangeEdit) => {
+    if (
+      !currentSessionId ||
+      isEditingRange ||
+      !window.electron?.ipcRenderer?.invoke
+    )
+      return;
+    const bounds = getRangeEditBounds(edit, screenshots, editRange);
+    if (!bounds) return;
+
+    const rangeEdit = RANGE_EDITS[edit];
+    const confirmed = Boolean(
+      await window.electron.ipcRenderer.invoke('show-delete-confirmation', {
+        title: rangeEdit.label,
+        message: rangeEdit.getMessage(bounds.frameCount),
+        confirmLabel: rangeEdit.confirmLabel,
+      }),
+    );
+    if (!confirmed) return;
+
+    const sessionId = currentSessionId;
+    const focusRecordingId = Number(screenshots[currentIndex]?.id);
+    setIsEditingRange(true);
+    try {
+      // Queued deletions are saved first, so the edit applies to what's on screen.
+      if (pendingDeletions.length > 0) {
+        const saved = await handleSave();
+        if (!saved) return;
+      }
+
+      let message: string;
+      if (edit === 'split') {
+        const newSessionId = (await window.electron.ipcRenderer.invoke(
+          'split-session',
+          {
+            sessionId,
+            recordingId: bounds.fromRecordingId,
+          },
+        )) as number;
+        message = `Moved ${formatFrameCount(bounds.frameCount)} into session ${newSessionId}`;
+      } else {
+        await window.electron.ipcRenderer.invoke('delete-recording-range', {
+          sessionId,
+          fromRecordingId: bounds.fromRecordingId,
+          toRecordingId: bounds.toRecordingId,
+        });
+        message = `Deleted ${formatFrameCount(bounds.frameCount)}`;
+      }
+
+      await loadSessionIntoEditor(
+        sessionId,
+        Number.isFinite(focusRecordingId)
+          ? { recordingId: focusRecordingId }
+          : undefined,
+      );
+      window.electron.ipcRenderer.sendMessage('show-success-notification', {
+        title: 'Saved',
+        message,
+      });
+    } catch (error) {
+      console.error(`${rangeEdit.failure}:`, error);
+      // The main process explains refusals, e.g. a session that's uploading.
+      window.electron.ipcRenderer.sendMessage('show-error-notification', {
+        title: rangeEdit.failure,
+        message: error instanceof Error ? error.message : rangeEdit.failure,
+      });
+    } finally {
+      setIsEditingRange(false);
+    }
+  };
+
   const handleUndo = async () => {
     if (undoStack.length === 0) return;
 
@@ -1091,7 +1991,11 @@ function Editor() {
     setUndoStack((prev) => prev.slice(0, -1));
 
     if (action.type === 'recordingDeletion') {
-      setScreenshots(action.screenshots);
+      // Keep any pages that finished loading after the deletion.
+      setScreenshots([
+        ...action.screenshots,
+        ...loadedScreenshotsRef.current.slice(action.loadedCount),
+      ]);
       setPendingDeletions(action.pendingDeletions);
       setSelectedIndices(action.selectedIndices);
       setCurrentIndex(action.currentIndex);
@@ -1172,7 +2076,8 @@ function Editor() {
       console.error('Failed to delete clip:', error);
       window.electron?.ipcRenderer?.sendMessage?.('show-error-notification', {
         title: 'Error',
-        message: 'Failed to delete clip',
+        message:
+          error instanceof Error ? error.message : 'Failed to delete clip',
       });
     } finally {
       setIsDeletingClip(false);
@@ -1444,6 +2349,26 @@ function Editor() {
               <Trash2 className="w-3.5 h-3.5 inline mr-1.5" strokeWidth={1.5} />
               Delete
             </button>
+            {duplicateIndices.length > 0 ? (
+              <button
+                type="button"
+                onClick={handleCollapseDuplicates}
+                disabled={isLoadingMoreRecordings}
+                title="Remove frames that look the same as the one before them"
+                className={`px-4 py-2 rounded-lg text-[10px] uppercase tracking-industrial-wide font-mono font-bold transition-all hover-lift disabled:opacity-50 disabled:cursor-not-allowed ${
+                  isDark
+                    ? 'bg-industrial-black-secondary border border-industrial-border text-industrial-white-secondary hover:text-white'
+                    : 'bg-white border border-gray-300 text-gray-700 hover:text-gray-900'
+                }`}
+              >
+                <Layers
+                  className="w-3.5 h-3.5 inline mr-1.5"
+                  strokeWidth={1.5}
+                />
+                Collapse {duplicateIndices.length} duplicate
+                {duplicateIndices.length === 1 ? '' : 's'}
+              </button>
+            ) : null}
             <button
               type="button"
               onClick={handleSubmit}
@@ -1607,7 +2532,7 @@ function Editor() {
         {/* Timeline Controls */}
         <div className={`border rounded-lg ${isDark ? 'border-industrial-border bg-industrial-black-secondary' : 'border-gray-200 bg-white'}`}>
           <div className={`flex items-center justify-between p-3 border-b ${isDark ? 'border-industrial-border-subtle' : 'border-gray-200'}`}>
-            <div className="flex items-center gap-2">
+            <div className="flex flex-wrap items-center gap-2">
               <button
                 type="button"
                 className={`px-3 py-2 text-[10px] uppercase tracking-industrial-wide font-mono font-bold border rounded-lg transition-all hover-lift disabled:opacity-30 disabled:cursor-not-allowed ${isDark ? 'text-industrial-white-secondary hover:text-white hover:bg-industrial-black-tertiary border-industrial-border-subtle' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100 border-gray-300'}`}
@@ -1635,34 +2560,84 @@ function Editor() {
               >
                 Clear
               </button>
+
+              {(Object.keys(RANGE_EDITS) as RangeEdit[]).map((edit) => {
+                const { label, hint, icon: Icon } = RANGE_EDITS[edit];
+                return (
+                  <button
+                    key={edit}
+                    type="button"
+                    className={`px-3 py-2 text-[10px] uppercase tracking-industrial-wide font-mono font-bold border rounded-lg transition-all hover-lift disabled:opacity-30 disabled:cursor-not-allowed ${isDark ? 'text-industrial-white-secondary hover:text-white hover:bg-industrial-black-tertiary border-industrial-border-subtle' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100 border-gray-300'}`}
+                    onClick={() => handleRangeEdit(edit)}
+                    disabled={
+                      !currentSessionId ||
+                      isEditingRange ||
+                      isLoadingMoreRecordings ||
+                      getRangeEditBounds(edit, screenshots, editRange) === null
+                    }
+                    title={hint}
+                  >
+                    <Icon
+                      className="w-3.5 h-3.5 inline mr-1.5"
+                      strokeWidth={1.5}
+                    />
+                    {label}
+                  </button>
+                );
+              })}
             </div>
 
             <div className="flex items-center gap-4">
+              {isLoadingMoreRecordings && !recordingsPageFailed && (
+                <span
+                  className={`text-[10px] uppercase tracking-industrial-wide font-mono ${isDark ? 'text-industrial-white-tertiary' : 'text-gray-500'}`}
+                >
+                  Loading frames… {screenshots.length}
+                </span>
+              )}
+              {recordingsPageFailed && (
+                <button
+                  type="button"
+                  onClick={handleRetryRecordingsPage}
+                  title="Editing is off until every frame has loaded"
+                  className={`text-[10px] uppercase tracking-industrial-wide font-mono font-bold hover:underline ${isDark ? 'text-industrial-red' : 'text-red-600'}`}
+                >
+                  Frames missing · Retry
+                </button>
+              )}
               <span className={`text-[10px] uppercase tracking-industrial-wide font-mono font-bold ${isDark ? 'text-industrial-white-tertiary' : 'text-gray-500'}`}>
                 Zoom
               </span>
               <div className="flex items-center gap-3">
                 <button
                   type="button"
-                  onClick={() => setTimelineZoom((v) => Math.max(minTimelineZoom, v - 10))}
+                  onClick={() =>
+                    zoomTimeline(timelineZoom / TIMELINE_ZOOM_STEP)
+                  }
                   className={`p-1.5 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${isDark ? 'hover:bg-industrial-black-tertiary' : 'hover:bg-gray-100'}`}
                   aria-label="Zoom out timeline"
                   disabled={timelineZoom <= minTimelineZoom}
                 >
                   <ZoomOut className={`w-4 h-4 ${isDark ? 'text-industrial-white-tertiary' : 'text-gray-500'}`} strokeWidth={1.5} />
                 </button>
+                {/* Logarithmic, so every step zooms by the same factor across the whole range. */}
                 <input
                   type="range"
-                  min={minTimelineZoom}
-                  max={maxTimelineZoom}
-                  value={timelineZoom}
-                  onChange={(e) => setTimelineZoom(Number(e.target.value))}
+                  min={Math.log(minTimelineZoom)}
+                  max={Math.log(maxTimelineZoom)}
+                  step={0.01}
+                  value={Math.log(timelineZoom)}
+                  onChange={(e) =>
+                    zoomTimeline(Math.exp(Number(e.target.value)))
+                  }
                   className={`w-32 h-1 rounded-full appearance-none border [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:cursor-pointer [&::-webkit-slider-thumb]:border ${isDark ? 'bg-industrial-black-tertiary border-industrial-border-subtle [&::-webkit-slider-thumb]:bg-industrial-orange [&::-webkit-slider-thumb]:border-industrial-orange/20' : 'bg-gray-200 border-gray-300 [&::-webkit-slider-thumb]:bg-blue-500 [&::-webkit-slider-thumb]:border-blue-600'}`}
                   aria-label="Zoom level"
                 />
                 <button
                   type="button"
-                  onClick={() => setTimelineZoom((v) => Math.min(maxTimelineZoom, v + 10))}
+                  onClick={() =>
+                    zoomTimeline(timelineZoom * TIMELINE_ZOOM_STEP)
+                  }
                   className={`p-1.5 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${isDark ? 'hover:bg-industrial-black-tertiary' : 'hover:bg-gray-100'}`}
                   aria-label="Zoom in timeline"
                   disabled={timelineZoom >= maxTimelineZoom}
@@ -1695,11 +2670,16 @@ function Editor() {
                   onSelect={handleSelect}
                   onSelectionChange={handleSelectionChange}
                   isDark={isDark}
+                  itemWidth={timelineZoom}
+                  visibleRange={visibleTimelineRange}
+                  pauses={pauses}
+                  inputEvents={inputEvents}
                 />
                 <CommentIndicatorTimeline
                   comments={comments}
                   screenshots={screenshots}
                   isDark={isDark}
+                  visibleRange={visibleTimelineRange}
                   onCommentClick={handleCommentTimelineClick}
                 />
               </div>
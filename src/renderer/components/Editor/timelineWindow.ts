@@ -0,0 +1,78 @@
+export interface TimelineRange {
+  start: number; // First index to render
+  end: number; // One past the last index to render
+}
+
+// Frames rendered beyond each edge of the viewport, so fast scrolls don't show gaps.
+export const TIMELINE_OVERSCAN_ITEMS = 10;
+
+/** The slice of frames that overlaps the visible part of the timeline. */
+export const getVisibleTimelineRange = (
+  scrollLeft: number,
+  viewportWidth: number,
+  itemWidth: number,
+  itemCount: number,
+  overscan = TIMELINE_OVERSCAN_ITEMS,
+): TimelineRange => {
+  if (itemCount <= 0 || itemWidth <= 0) return { start: 0, end: 0 };
+
+  const first = Math.floor(Math.max(0, scrollLeft) / itemWidth);
+  const last = Math.ceil((Math.max(0, scrollLeft) + viewportWidth) / itemWidth);
+  return {
+    start: Math.min(itemCount, Math.max(0, first - overscan)),
+    end: Math.min(itemCount, Math.max(0, last + overscan)),
+  };
+};
+
+/** Binary search over ascending times; returns `count` when none match. */
+export const findFirstIndexAtOrAfter = (
+  count: number,
+  getTime: (index: number) => number,
+  time: number,
+): number => {
+  let low = 0;
+  let high = count;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (getTime(mid) >= time) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+};
+
+/** Binary search over ascending times; returns -1 when none match. */
+export const findLastIndexAtOrBefore = (
+  count: number,
+  getTime: (index: number) => number,
+  time: number,
+): number => {
+  let low = 0;
+  let high = count;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (getTime(mid) > time) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low - 1;
+};
+
+/**
+ * Scroll offset that keeps the frame under `anchorX` (px from the viewport's
+ * left edge) in place when the per-frame width changes.
+ */
+export const getAnchoredScrollLeft = (
+  scrollLeft: number,
+  anchorX: number,
+  previousItemWidth: number,
+  nextItemWidth: number,
+): number => {
+  if (previousItemWidth <= 0) return scrollLeft;
+  const anchorPosition = (scrollLeft + anchorX) / previousItemWidth;
+  return Math.max(0, anchorPosition * nextItemWidth - anchorX);
+};
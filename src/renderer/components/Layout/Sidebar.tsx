@@ -13,6 +13,7 @@ import {
   Sun,
   LogOut,
   Award,
+  Settings,
 } from 'lucide-react';
 import passiveModeIcon from '../../../../assets/icons/passive_mode.svg';
 import logo from '../../../../assets/images/logo.png';
@@ -33,6 +34,7 @@ const NAV_ITEMS: NavItem[] = [
   { icon: LayoutDashboard, label: 'My Board', path: '/' },
   { icon: Edit3, label: 'Editor', path: '/editor' },
   { icon: Bell, label: 'Notifications', path: '/notifications' },
+  { icon: Settings, label: 'Settings', path: '/settings' },
 ];
 
 const getActiveTabLabel = (pathname: string): string => {
@@ -0,0 +1,127 @@
+import { useTheme } from '../../contexts/ThemeContext';
+import useSettingsSection from './useSettingsSection';
+
+interface AutoPauseSettings {
+  pauseOnLock: boolean;
+  pauseOnSuspend: boolean;
+  pauseWhenIdle: boolean;
+  idleThresholdMinutes: number;
+}
+
+function AutoPauseSettingsSection() {
+  const { isDark } = useTheme();
+  const { settings, isDirty, isSaving, saveError, update, handleSave } =
+    useSettingsSection<AutoPauseSettings>(
+      'get-auto-pause-settings',
+      'save-auto-pause-settings',
+      'auto-pause settings',
+    );
+
+  const inputClass = `w-16 rounded-md border px-2 py-1.5 text-[11px] font-mono focus:outline-none disabled:opacity-40 ${
+    isDark
+      ? 'bg-industrial-black-primary border-industrial-border text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
+  const labelClass = `flex items-center gap-2 text-xs font-mono ${
+    isDark ? 'text-industrial-white-secondary' : 'text-gray-700'
+  }`;
+
+  return (
+    <section
+      className={`mt-6 rounded-lg border p-5 ${isDark ? 'bg-industrial-black-secondary border-industrial-border' : 'bg-gray-50 border-gray-200'}`}
+    >
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 mb-5">
+        <div>
+          <h2
+            className={`text-[11px] uppercase tracking-industrial-wide font-mono font-bold mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`}
+          >
+            Auto-Pause
+          </h2>
+          <p
+            className={`text-xs font-mono max-w-xl ${isDark ? 'text-industrial-white-tertiary' : 'text-gray-500'}`}
+          >
+            Pause recording while you&apos;re away and resume it when you come
+            back. Pauses show up as gaps on the Editor timeline.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!settings || !isDirty || isSaving}
+          className={`px-4 py-2 rounded-lg text-[10px] uppercase tracking-industrial-wide font-mono font-bold transition-all border flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed ${
+            isDark
+              ? 'bg-industrial-orange text-black border-industrial-orange/20 shadow-industrial'
+              : 'bg-blue-500 text-white border-blue-600 hover:bg-blue-600'
+          }`}
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+
+      {saveError ? (
+        <p
+          className={`mb-4 text-xs font-mono ${isDark ? 'text-red-400' : 'text-red-600'}`}
+        >
+          {saveError}
+        </p>
+      ) : null}
+
+      {settings ? (
+        <div className="flex flex-wrap items-center gap-5">
+          <label className={labelClass} htmlFor="auto-pause-lock">
+            <input
+              id="auto-pause-lock"
+              type="checkbox"
+              checked={settings.pauseOnLock}
+              onChange={(event) =>
+                update({ pauseOnLock: event.target.checked })
+              }
+            />
+            When the screen locks
+          </label>
+          <label className={labelClass} htmlFor="auto-pause-suspend">
+            <input
+              id="auto-pause-suspend"
+              type="checkbox"
+              checked={settings.pauseOnSuspend}
+              onChange={(event) =>
+                update({ pauseOnSuspend: event.target.checked })
+              }
+            />
+            When the computer sleeps
+          </label>
+          <label className={labelClass} htmlFor="auto-pause-idle">
+            <input
+              id="auto-pause-idle"
+              type="checkbox"
+              checked={settings.pauseWhenIdle}
+              onChange={(event) =>
+                update({ pauseWhenIdle: event.target.checked })
+              }
+            />
+            After
+          </label>
+          <label className={labelClass} htmlFor="auto-pause-idle-minutes">
+            <input
+              id="auto-pause-idle-minutes"
+              type="number"
+              min={1}
+              max={120}
+              step={1}
+              value={settings.idleThresholdMinutes}
+              disabled={!settings.pauseWhenIdle}
+              onChange={(event) =>
+                update({ idleThresholdMinutes: Number(event.target.value) })
+              }
+              className={inputClass}
+            />
+            minutes without input
+          </label>
+        </div>
+      ) : null}
+    </section>
+  );
+}
+
+export default AutoPauseSettingsSection;
@@ -0,0 +1,144 @@
+import { useTheme } from '../../contexts/ThemeContext';
+import useSettingsSection from './useSettingsSection';
+
+type CaptureMode = 'passive' | 'tasked';
+
+interface CaptureRateLimits {
+  minIntervalSeconds: number;
+  maxIntervalSeconds: number;
+}
+
+type CaptureRateSettings = Record<CaptureMode, CaptureRateLimits>;
+
+const MODES: { mode: CaptureMode; label: string }[] = [
+  { mode: 'passive', label: 'Passive' },
+  { mode: 'tasked', label: 'Tasked' },
+];
+
+function CaptureRateSettingsSection() {
+  const { isDark } = useTheme();
+  const { settings, isDirty, isSaving, saveError, update, handleSave } =
+    useSettingsSection<CaptureRateSettings>(
+      'get-capture-rate-settings',
+      'save-capture-rate-settings',
+      'capture rate settings',
+    );
+
+  const updateMode = (
+    mode: CaptureMode,
+    changes: Partial<CaptureRateLimits>,
+  ) => {
+    update((prev) => ({ [mode]: { ...prev[mode], ...changes } }));
+  };
+
+  const inputClass = `w-16 rounded-md border px-2 py-1.5 text-[11px] font-mono focus:outline-none disabled:opacity-40 ${
+    isDark
+      ? 'bg-industrial-black-primary border-industrial-border text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
+  const labelClass = `flex items-center gap-2 text-xs font-mono ${
+    isDark ? 'text-industrial-white-secondary' : 'text-gray-700'
+  }`;
+
+  return (
+    <section
+      className={`mt-6 rounded-lg border p-5 ${isDark ? 'bg-industrial-black-secondary border-industrial-border' : 'bg-gray-50 border-gray-200'}`}
+    >
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 mb-5">
+        <div>
+          <h2
+            className={`text-[11px] uppercase tracking-industrial-wide font-mono font-bold mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`}
+          >
+            Capture Rate
+          </h2>
+          <p
+            className={`text-xs font-mono max-w-xl ${isDark ? 'text-industrial-white-tertiary' : 'text-gray-500'}`}
+          >
+            Seconds between frames while you&apos;re active, and the longest gap
+            recording backs off to while you&apos;re idle. Shorter gaps capture
+            more detail but use more disk space and upload time.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!settings || !isDirty || isSaving}
+          className={`px-4 py-2 rounded-lg text-[10px] uppercase tracking-industrial-wide font-mono font-bold transition-all border flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed ${
+            isDark
+              ? 'bg-industrial-orange text-black border-industrial-orange/20 shadow-industrial'
+              : 'bg-blue-500 text-white border-blue-600 hover:bg-blue-600'
+          }`}
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+
+      {saveError ? (
+        <p
+          className={`mb-4 text-xs font-mono ${isDark ? 'text-red-400' : 'text-red-600'}`}
+        >
+          {saveError}
+        </p>
+      ) : null}
+
+      {settings ? (
+        <div className="space-y-3">
+          {MODES.map(({ mode, label }) => (
+            <div key={mode} className="flex flex-wrap items-center gap-5">
+              <span
+                className={`w-16 text-[10px] uppercase tracking-industrial-wide font-mono font-bold ${isDark ? 'text-industrial-white-secondary' : 'text-gray-700'}`}
+              >
+                {label}
+              </span>
+              <label
+                className={labelClass}
+                htmlFor={`capture-rate-${mode}-min`}
+              >
+                Every
+                <input
+                  id={`capture-rate-${mode}-min`}
+                  type="number"
+                  min={0.25}
+                  max={300}
+                  step={0.25}
+                  value={settings[mode].minIntervalSeconds}
+                  onChange={(event) =>
+                    updateMode(mode, {
+                      minIntervalSeconds: Number(event.target.value),
+                    })
+                  }
+                  className={inputClass}
+                />
+                s when active
+              </label>
+              <label
+                className={labelClass}
+                htmlFor={`capture-rate-${mode}-max`}
+              >
+                up to
+                <input
+                  id={`capture-rate-${mode}-max`}
+                  type="number"
+                  min={0.25}
+                  max={300}
+                  step={0.25}
+                  value={settings[mode].maxIntervalSeconds}
+                  onChange={(event) =>
+                    updateMode(mode, {
+                      maxIntervalSeconds: Number(event.target.value),
+                    })
+                  }
+                  className={inputClass}
+                />
+                s when idle
+              </label>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </section>
+  );
+}
+
+export default CaptureRateSettingsSection;
@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import { useTheme } from '../../contexts/ThemeContext';
+import useSettingsSection from './useSettingsSection';
+
+interface ImageEncodingSettings {
+  format: 'png' | 'webp' | 'jpeg';
+  lossless: boolean;
+  quality: number;
+}
+
+type EncodingChoice = 'png' | 'webp-lossless' | 'webp' | 'jpeg';
+
+const ENCODING_CHOICES: {
+  value: EncodingChoice;
+  label: string;
+  settings: Pick<ImageEncodingSettings, 'format' | 'lossless'>;
+}[] = [
+  {
+    value: 'png',
+    label: 'PNG (lossless)',
+    settings: { format: 'png', lossless: true },
+  },
+  {
+    value: 'webp-lossless',
+    label: 'WebP (lossless)',
+    settings: { format: 'webp', lossless: true },
+  },
+  {
+    value: 'webp',
+    label: 'WebP',
+    settings: { format: 'webp', lossless: false },
+  },
+  {
+    value: 'jpeg',
+    label: 'JPEG',
+    settings: { format: 'jpeg', lossless: false },
+  },
+];
+
+const QUALITY_PRESETS = [
+  { label: 'High', quality: 90 },
+  { label: 'Balanced', quality: 75 },
+  { label: 'Small', quality: 55 },
+];
+
+const getEncodingChoice = (settings: ImageEncodingSettings): EncodingChoice => {
+  if (settings.format === 'webp') {
+    return settings.lossless ? 'webp-lossless' : 'webp';
+  }
+  return settings.format;
+};
+
+function ImageEncodingSettingsSection() {
+  const { isDark } = useTheme();
+  const { settings, isDirty, isSaving, saveError, update, handleSave } =
+    useSettingsSection<ImageEncodingSettings>(
+      'get-image-encoding-settings',
+      'save-image-encoding-settings',
+      'image encoding settings',
+    );
+  const [webpAvailable, setWebpAvailable] = useState(true);
+
+  useEffect(() => {
+    const loadEncoderStatus = async () => {
+      try {
+        const status = (await window.electron.ipcRenderer.invoke(
+          'get-image-encoder-status',
+        )) as { webp: boolean };
+        setWebpAvailable(status.webp);
+      } catch (error) {
+        console.error('Failed to check image encoders:', error);
+      }
+    };
+
+    loadEncoderStatus();
+  }, []);
+
+  const inputClass = `rounded-md border px-2 py-1.5 text-[11px] font-mono focus:outline-none disabled:opacity-40 ${
+    isDark
+      ? 'bg-industrial-black-primary border-industrial-border text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
+  const labelClass = `flex items-center gap-2 text-xs font-mono ${
+    isDark ? 'text-industrial-white-secondary' : 'text-gray-700'
+  }`;
+
+  const isLossy = settings ? !settings.lossless : false;
+  const matchingPreset = QUALITY_PRESETS.find(
+    (preset) => preset.quality === settings?.quality,
+  );
+
+  return (
+    <section
+      className={`mt-6 rounded-lg border p-5 ${isDark ? 'bg-industrial-black-secondary border-industrial-border' : 'bg-gray-50 border-gray-200'}`}
+    >
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 mb-5">
+        <div>
+          <h2
+            className={`text-[11px] uppercase tracking-industrial-wide font-mono font-bold mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`}
+          >
+            Image Format
+          </h2>
+          <p
+            className={`text-xs font-mono max-w-xl ${isDark ? 'text-industrial-white-tertiary' : 'text-gray-500'}`}
+          >
+            How new frames are saved and uploaded. WebP and JPEG take a fraction
+            of the space of PNG on mostly static screens. WebP needs cwebp
+            installed. Existing frames keep their format.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!settings || !isDirty || isSaving}
+          className={`px-4 py-2 rounded-lg text-[10px] uppercase tracking-industrial-wide font-mono font-bold transition-all border flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed ${
+            isDark
+              ? 'bg-industrial-orange text-black border-industrial-orange/20 shadow-industrial'
+              : 'bg-blue-500 text-white border-blue-600 hover:bg-blue-600'
+          }`}
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+
+      {saveError ? (
+        <p
+          className={`mb-4 text-xs font-mono ${isDark ? 'text-red-400' : 'text-red-600'}`}
+        >
+          {saveError}
+        </p>
+      ) : null}
+
+      {settings && !webpAvailable ? (
+        <p
+          className={`mb-4 text-xs font-mono ${isDark ? 'text-yellow-400' : 'text-yellow-700'}`}
+        >
+          {settings.format === 'webp'
+            ? "cwebp isn't installed, so frames are being saved as PNG or JPEG instead of WebP."
+            : "WebP is unavailable because cwebp isn't installed."}
+        </p>
+      ) : null}
+
+      {settings ? (
+        <div className="flex flex-wrap items-center gap-5">
+          <label className={labelClass} htmlFor="image-encoding-format">
+            Format
+            <select
+              id="image-encoding-format"
+              value={getEncodingChoice(settings)}
+              onChange={(event) => {
+                const choice = ENCODING_CHOICES.find(
+                  (option) => option.value === event.target.value,
+                );
+                if (choice) update(choice.settings);
+              }}
+              className={inputClass}
+            >
+              {ENCODING_CHOICES.map((choice) => (
+                <option
+                  key={choice.value}
+                  value={choice.value}
+                  disabled={choice.settings.format === 'webp' && !webpAvailable}
+                >
+                  {choice.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={labelClass} htmlFor="image-encoding-quality">
+            Quality
+            <select
+              id="image-encoding-quality"
+              value={settings.quality}
+              disabled={!isLossy}
+              onChange={(event) =>
+                update({ quality: Number(event.target.value) })
+              }
+              className={inputClass}
+            >
+              {QUALITY_PRESETS.map((preset) => (
+                <option key={preset.quality} value={preset.quality}>
+                  {preset.label} ({preset.quality})
+                </option>
+              ))}
+              {matchingPreset ? null : (
+                <option value={settings.quality}>
+                  Custom ({settings.quality})
+                </option>
+              )}
+            </select>
+          </label>
+        </div>
+      ) : null}
+    </section>
+  );
+}
+
+export default ImageEncodingSettingsSection;
@@ -0,0 +1,143 @@
+import { useTheme } from '../../contexts/ThemeContext';
+import useSettingsSection from './useSettingsSection';
+
+interface InputRecordingSettings {
+  enabled: boolean;
+  recordClicks: boolean;
+  recordScrolls: boolean;
+  recordKeys: boolean;
+  maskTextInput: boolean;
+  captureFrameClicks: boolean;
+}
+
+function InputRecordingSettingsSection() {
+  const { isDark } = useTheme();
+  const { settings, isDirty, isSaving, saveError, update, handleSave } =
+    useSettingsSection<InputRecordingSettings>(
+      'get-input-recording-settings',
+      'save-input-recording-settings',
+      'input recording settings',
+    );
+
+  const labelClass = `flex items-center gap-2 text-xs font-mono ${
+    isDark ? 'text-industrial-white-secondary' : 'text-gray-700'
+  }`;
+
+  return (
+    <section
+      className={`mt-6 rounded-lg border p-5 ${isDark ? 'bg-industrial-black-secondary border-industrial-border' : 'bg-gray-50 border-gray-200'}`}
+    >
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 mb-5">
+        <div>
+          <h2
+            className={`text-[11px] uppercase tracking-industrial-wide font-mono font-bold mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`}
+          >
+            Input Recording
+          </h2>
+          <p
+            className={`text-xs font-mono max-w-xl ${isDark ? 'text-industrial-white-tertiary' : 'text-gray-500'}`}
+          >
+            Log the clicks, scrolls and key presses between frames so reviewers
+            can see what moved the screen. Nothing is logged in sensitive
+            windows or while paused, and typed text is only recorded as
+            &quot;text&quot; unless you turn masking off. Showing clicks on
+            frames is a separate option and also starts off.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!settings || !isDirty || isSaving}
+          className={`px-4 py-2 rounded-lg text-[10px] uppercase tracking-industrial-wide font-mono font-bold transition-all border flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed ${
+            isDark
+              ? 'bg-industrial-orange text-black border-industrial-orange/20 shadow-industrial'
+              : 'bg-blue-500 text-white border-blue-600 hover:bg-blue-600'
+          }`}
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+
+      {saveError ? (
+        <p
+          className={`mb-4 text-xs font-mono ${isDark ? 'text-red-400' : 'text-red-600'}`}
+        >
+          {saveError}
+        </p>
+      ) : null}
+
+      {settings ? (
+        <div className="flex flex-wrap items-center gap-5">
+          <label className={labelClass} htmlFor="input-recording-enabled">
+            <input
+              id="input-recording-enabled"
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(event) => update({ enabled: event.target.checked })}
+            />
+            Record input
+          </label>
+          <label className={labelClass} htmlFor="input-recording-clicks">
+            <input
+              id="input-recording-clicks"
+              type="checkbox"
+              checked={settings.recordClicks}
+              disabled={!settings.enabled}
+              onChange={(event) =>
+                update({ recordClicks: event.target.checked })
+              }
+            />
+            Clicks
+          </label>
+          <label className={labelClass} htmlFor="input-recording-scrolls">
+            <input
+              id="input-recording-scrolls"
+              type="checkbox"
+              checked={settings.recordScrolls}
+              disabled={!settings.enabled}
+              onChange={(event) =>
+                update({ recordScrolls: event.target.checked })
+              }
+            />
+            Scrolls
+          </label>
+          <label className={labelClass} htmlFor="input-recording-keys">
+            <input
+              id="input-recording-keys"
+              type="checkbox"
+              checked={settings.recordKeys}
+              disabled={!settings.enabled}
+              onChange={(event) => update({ recordKeys: event.target.checked })}
+            />
+            Key presses
+          </label>
+          <label className={labelClass} htmlFor="input-recording-mask">
+            <input
+              id="input-recording-mask"
+              type="checkbox"
+              checked={settings.maskTextInput}
+              disabled={!settings.enabled || !settings.recordKeys}
+              onChange={(event) =>
+                update({ maskTextInput: event.target.checked })
+              }
+            />
+            Mask typed text
+          </label>
+          <label className={labelClass} htmlFor="input-recording-frame-clicks">
+            <input
+              id="input-recording-frame-clicks"
+              type="checkbox"
+              checked={settings.captureFrameClicks}
+              onChange={(event) =>
+                update({ captureFrameClicks: event.target.checked })
+              }
+            />
+            Show clicks on frames
+          </label>
+        </div>
+      ) : null}
+    </section>
+  );
+}
+
+export default InputRecordingSettingsSection;
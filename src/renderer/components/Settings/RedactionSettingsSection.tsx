@@ -0,0 +1,307 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useTheme } from '../../contexts/ThemeContext';
+import useSettingsSection from './useSettingsSection';
+
+interface RedactionRegion {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface RedactionSettings {
+  enabled: boolean;
+  style: 'blur' | 'black';
+  regions: RedactionRegion[];
+  detectEmails: boolean;
+  detectCardNumbers: boolean;
+}
+
+type RegionEdge = 'x' | 'y' | 'width' | 'height';
+
+const REGION_FIELDS: { key: RegionEdge; label: string }[] = [
+  { key: 'x', label: 'Left %' },
+  { key: 'y', label: 'Top %' },
+  { key: 'width', label: 'Width %' },
+  { key: 'height', label: 'Height %' },
+];
+
+const toPercent = (fraction: number) => Math.round(fraction * 1000) / 10;
+
+function RedactionSettingsSection() {
+  const { isDark } = useTheme();
+  const { settings, isDirty, isSaving, saveError, update, handleSave } =
+    useSettingsSection<RedactionSettings>(
+      'get-redaction-settings',
+      'save-redaction-settings',
+      'redaction settings',
+    );
+  const [ocrAvailable, setOcrAvailable] = useState(true);
+
+  useEffect(() => {
+    const loadOcrStatus = async () => {
+      try {
+        const status = (await window.electron.ipcRenderer.invoke(
+          'get-ocr-status',
+        )) as { available: boolean };
+        setOcrAvailable(status.available);
+      } catch (error) {
+        console.error('Failed to check OCR status:', error);
+      }
+    };
+
+    loadOcrStatus();
+  }, []);
+
+  const updateRegion = (id: string, changes: Partial<RedactionRegion>) => {
+    if (!settings) return;
+    update({
+      regions: settings.regions.map((region) =>
+        region.id === id ? { ...region, ...changes } : region,
+      ),
+    });
+  };
+
+  const handleAddRegion = () => {
+    if (!settings) return;
+    // Start with the top-right corner, where most notification banners appear.
+    update({
+      regions: [
+        ...settings.regions,
+        {
+          id: `region-${Date.now()}`,
+          name: 'Notifications',
+          x: 0.75,
+          y: 0,
+          width: 0.25,
+          height: 0.2,
+        },
+      ],
+    });
+  };
+
+  const handleRemoveRegion = (id: string) => {
+    if (!settings) return;
+    update({
+      regions: settings.regions.filter((region) => region.id !== id),
+    });
+  };
+
+  const inputClass = `rounded-md border px-2 py-1.5 text-[11px] font-mono focus:outline-none disabled:opacity-40 ${
+    isDark
+      ? 'bg-industrial-black-primary border-industrial-border text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
+  const labelClass = `flex items-center gap-2 text-xs font-mono ${
+    isDark ? 'text-industrial-white-secondary' : 'text-gray-700'
+  }`;
+
+  return (
+    <section
+      className={`mt-6 rounded-lg border p-5 ${isDark ? 'bg-industrial-black-secondary border-industrial-border' : 'bg-gray-50 border-gray-200'}`}
+    >
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 mb-5">
+        <div>
+          <h2
+            className={`text-[11px] uppercase tracking-industrial-wide font-mono font-bold mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`}
+          >
+            Redaction
+          </h2>
+          <p
+            className={`text-xs font-mono max-w-xl ${isDark ? 'text-industrial-white-tertiary' : 'text-gray-500'}`}
+          >
+            Cover screen regions, email addresses and card numbers before a
+            frame is saved. Text detection needs tesseract installed. Redacted
+            frames are marked so reviewers know they were altered.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!settings || !isDirty || isSaving}
+          className={`px-4 py-2 rounded-lg text-[10px] uppercase tracking-industrial-wide font-mono font-bold transition-all border flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed ${
+            isDark
+              ? 'bg-industrial-orange text-black border-industrial-orange/20 shadow-industrial'
+              : 'bg-blue-500 text-white border-blue-600 hover:bg-blue-600'
+          }`}
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+
+      {saveError ? (
+        <p
+          className={`mb-4 text-xs font-mono ${isDark ? 'text-red-400' : 'text-red-600'}`}
+        >
+          {saveError}
+        </p>
+      ) : null}
+
+      {settings &&
+      settings.enabled &&
+      (settings.detectEmails || settings.detectCardNumbers) &&
+      !ocrAvailable ? (
+        <div
+          role="alert"
+          className={`mb-4 p-3 rounded border font-mono text-xs space-y-1 ${
+            isDark
+              ? 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400'
+              : 'bg-yellow-50 border-yellow-200 text-yellow-700'
+          }`}
+        >
+          <p className="font-bold">OCR is unavailable.</p>
+          <p>
+            tesseract couldn&apos;t be found, so frames can&apos;t be checked
+            for email addresses or card numbers and won&apos;t be saved while
+            these are on.
+          </p>
+        </div>
+      ) : null}
+
+      {settings ? (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-5">
+            <label className={labelClass} htmlFor="redaction-enabled">
+              <input
+                id="redaction-enabled"
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(event) => update({ enabled: event.target.checked })}
+              />
+              Redact frames before saving
+            </label>
+            <label className={labelClass} htmlFor="redaction-style">
+              Style
+              <select
+                id="redaction-style"
+                value={settings.style}
+                disabled={!settings.enabled}
+                onChange={(event) =>
+                  update({
+                    style: event.target.value as RedactionSettings['style'],
+                  })
+                }
+                className={inputClass}
+              >
+                <option value="blur">Blur</option>
+                <option value="black">Black out</option>
+              </select>
+            </label>
+            <label className={labelClass} htmlFor="redaction-emails">
+              <input
+                id="redaction-emails"
+                type="checkbox"
+                checked={settings.detectEmails}
+                disabled={!settings.enabled}
+                onChange={(event) =>
+                  update({ detectEmails: event.target.checked })
+                }
+              />
+              Email addresses
+            </label>
+            <label className={labelClass} htmlFor="redaction-cards">
+              <input
+                id="redaction-cards"
+                type="checkbox"
+                checked={settings.detectCardNumbers}
+                disabled={!settings.enabled}
+                onChange={(event) =>
+                  update({ detectCardNumbers: event.target.checked })
+                }
+              />
+              Card numbers
+            </label>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3
+                className={`text-[10px] uppercase tracking-industrial-wide font-mono font-bold ${isDark ? 'text-industrial-white-secondary' : 'text-gray-700'}`}
+              >
+                Regions
+              </h3>
+              <button
+                type="button"
+                onClick={handleAddRegion}
+                disabled={!settings.enabled}
+                className={`px-3 py-1.5 rounded-lg text-[10px] uppercase tracking-industrial-wide font-mono font-bold transition-all flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  isDark
+                    ? 'bg-industrial-black-tertiary border border-industrial-border text-industrial-white-secondary hover:text-white'
+                    : 'bg-white border border-gray-300 text-gray-700 hover:text-gray-900'
+                }`}
+              >
+                <Plus className="w-3 h-3" strokeWidth={2} />
+                Add Region
+              </button>
+            </div>
+
+            {settings.regions.length === 0 ? (
+              <p
+                className={`text-xs font-mono ${isDark ? 'text-industrial-white-tertiary' : 'text-gray-500'}`}
+              >
+                No regions.
+              </p>
+            ) : null}
+
+            <div className="space-y-2">
+              {settings.regions.map((region) => (
+                <div
+                  key={region.id}
+                  className={`flex flex-wrap items-center gap-2 rounded-lg border p-2 ${
+                    isDark
+                      ? 'bg-industrial-black-tertiary border-industrial-border-subtle'
+                      : 'bg-white border-gray-200'
+                  }`}
+                >
+                  <input
+                    type="text"
+                    aria-label="Region name"
+                    value={region.name}
+                    disabled={!settings.enabled}
+                    onChange={(event) =>
+                      updateRegion(region.id, { name: event.target.value })
+                    }
+                    className={`${inputClass} flex-1 min-w-[120px]`}
+                  />
+                  {REGION_FIELDS.map((field) => (
+                    <input
+                      key={field.key}
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={1}
+                      aria-label={field.label}
+                      title={field.label}
+                      value={toPercent(region[field.key])}
+                      disabled={!settings.enabled}
+                      onChange={(event) =>
+                        updateRegion(region.id, {
+                          [field.key]: Number(event.target.value) / 100,
+                        })
+                      }
+                      className={`${inputClass} w-20`}
+                    />
+                  ))}
+                  <button
+                    type="button"
+                    aria-label="Remove region"
+                    onClick={() => handleRemoveRegion(region.id)}
+                    className={`p-1.5 rounded-md transition-colors ${isDark ? 'text-industrial-white-tertiary hover:text-industrial-red' : 'text-gray-500 hover:text-red-600'}`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" strokeWidth={1.5} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
+
+export default RedactionSettingsSection;
@@ -0,0 +1,155 @@
+import { useTheme } from '../../contexts/ThemeContext';
+import useSettingsSection from './useSettingsSection';
+
+interface SessionSplitSettings {
+  splitOnInactivity: boolean;
+  inactivityMinutes: number;
+  splitAtMidnight: boolean;
+  splitOnMaxDuration: boolean;
+  maxDurationMinutes: number;
+}
+
+function SessionSplitSettingsSection() {
+  const { isDark } = useTheme();
+  const { settings, isDirty, isSaving, saveError, update, handleSave } =
+    useSettingsSection<SessionSplitSettings>(
+      'get-session-split-settings',
+      'save-session-split-settings',
+      'session split settings',
+    );
+
+  const inputClass = `w-16 rounded-md border px-2 py-1.5 text-[11px] font-mono focus:outline-none disabled:opacity-40 ${
+    isDark
+      ? 'bg-industrial-black-primary border-industrial-border text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
+  const labelClass = `flex items-center gap-2 text-xs font-mono ${
+    isDark ? 'text-industrial-white-secondary' : 'text-gray-700'
+  }`;
+
+  return (
+    <section
+      className={`mt-6 rounded-lg border p-5 ${isDark ? 'bg-industrial-black-secondary border-industrial-border' : 'bg-gray-50 border-gray-200'}`}
+    >
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 mb-5">
+        <div>
+          <h2
+            className={`text-[11px] uppercase tracking-industrial-wide font-mono font-bold mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`}
+          >
+            Session Splitting
+          </h2>
+          <p
+            className={`text-xs font-mono max-w-xl ${isDark ? 'text-industrial-white-tertiary' : 'text-gray-500'}`}
+          >
+            Start a new session without stopping the recording, so a recording
+            left running all day ends up as smaller sessions that are quicker to
+            review and upload.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!settings || !isDirty || isSaving}
+          className={`px-4 py-2 rounded-lg text-[10px] uppercase tracking-industrial-wide font-mono font-bold transition-all border flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed ${
+            isDark
+              ? 'bg-industrial-orange text-black border-industrial-orange/20 shadow-industrial'
+              : 'bg-blue-500 text-white border-blue-600 hover:bg-blue-600'
+          }`}
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+
+      {saveError ? (
+        <p
+          className={`mb-4 text-xs font-mono ${isDark ? 'text-red-400' : 'text-red-600'}`}
+        >
+          {saveError}
+        </p>
+      ) : null}
+
+      {settings ? (
+        <div className="flex flex-col gap-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <label className={labelClass} htmlFor="session-split-inactivity">
+              <input
+                id="session-split-inactivity"
+                type="checkbox"
+                checked={settings.splitOnInactivity}
+                onChange={(event) =>
+                  update({ splitOnInactivity: event.target.checked })
+                }
+              />
+              After
+            </label>
+            <label
+              className={labelClass}
+              htmlFor="session-split-inactivity-minutes"
+            >
+              <input
+                id="session-split-inactivity-minutes"
+                type="number"
+                min={5}
+                max={1440}
+                step={5}
+                value={settings.inactivityMinutes}
+                disabled={!settings.splitOnInactivity}
+                onChange={(event) =>
+                  update({ inactivityMinutes: Number(event.target.value) })
+                }
+                className={inputClass}
+              />
+              minutes away
+            </label>
+          </div>
+          <label className={labelClass} htmlFor="session-split-midnight">
+            <input
+              id="session-split-midnight"
+              type="checkbox"
+              checked={settings.splitAtMidnight}
+              onChange={(event) =>
+                update({ splitAtMidnight: event.target.checked })
+              }
+            />
+            At midnight
+          </label>
+          <div className="flex flex-wrap items-center gap-2">
+            <label className={labelClass} htmlFor="session-split-max-duration">
+              <input
+                id="session-split-max-duration"
+                type="checkbox"
+                checked={settings.splitOnMaxDuration}
+                onChange={(event) =>
+                  update({ splitOnMaxDuration: event.target.checked })
+                }
+              />
+              After
+            </label>
+            <label
+              className={labelClass}
+              htmlFor="session-split-max-duration-minutes"
+            >
+              <input
+                id="session-split-max-duration-minutes"
+                type="number"
+                min={5}
+                max={1440}
+                step={5}
+                value={settings.maxDurationMinutes}
+                disabled={!settings.splitOnMaxDuration}
+                onChange={(event) =>
+                  update({ maxDurationMinutes: Number(event.target.value) })
+                }
+                className={inputClass}
+              />
+              minutes recorded
+            </label>
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
+
+export default SessionSplitSettingsSection;
@@ -0,0 +1,385 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useTheme } from '../../contexts/ThemeContext';
+import ImageEncodingSettingsSection from './ImageEncodingSettingsSection';
+import CaptureRateSettingsSection from './CaptureRateSettingsSection';
+import AutoPauseSettingsSection from './AutoPauseSettingsSection';
+import SessionSplitSettingsSection from './SessionSplitSettingsSection';
+import InputRecordingSettingsSection from './InputRecordingSettingsSection';
+import UploadSettingsSection from './UploadSettingsSection';
+import RedactionSettingsSection from './RedactionSettingsSection';
+import WindowDetectionNotice from './WindowDetectionNotice';
+
+type SensitiveRuleList = 'deny' | 'allow';
+type SensitiveRuleField = 'title' | 'process' | 'any';
+type SensitiveRuleMatch = 'contains' | 'exact' | 'regex';
+type SensitiveAction = 'pause' | 'skip' | 'blur';
+
+interface SensitiveRule {
+  id: string;
+  enabled: boolean;
+  list: SensitiveRuleList;
+  field: SensitiveRuleField;
+  match: SensitiveRuleMatch;
+  pattern: string;
+  action: SensitiveAction;
+}
+
+const LIST_OPTIONS: { value: SensitiveRuleList; label: string }[] = [
+  { value: 'deny', label: 'Deny' },
+  { value: 'allow', label: 'Allow' },
+];
+
+const FIELD_OPTIONS: { value: SensitiveRuleField; label: string }[] = [
+  { value: 'any', label: 'Title or process' },
+  { value: 'title', label: 'Window title' },
+  { value: 'process', label: 'Process name' },
+];
+
+const MATCH_OPTIONS: { value: SensitiveRuleMatch; label: string }[] = [
+  { value: 'contains', label: 'Contains' },
+  { value: 'exact', label: 'Is exactly' },
+  { value: 'regex', label: 'Regex' },
+];
+
+const ACTION_OPTIONS: { value: SensitiveAction; label: string }[] = [
+  { value: 'pause', label: 'Pause recording' },
+  { value: 'skip', label: 'Skip frame' },
+  { value: 'blur', label: 'Blur frame' },
+];
+
+const getRuleError = (rule: SensitiveRule): string | null => {
+  if (!rule.pattern.trim()) return 'Pattern cannot be empty';
+  if (rule.match === 'regex') {
+    try {
+      // Throws if the pattern doesn't compile.
+      new RegExp(rule.pattern, 'i').test('');
+    } catch (error) {
+      return 'Invalid regular expression';
+    }
+  }
+  return null;
+};
+
+function Settings() {
+  const { isDark } = useTheme();
+  const [rules, setRules] = useState<SensitiveRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const savedRules = (await window.electron.ipcRenderer.invoke(
+        'get-sensitive-rules',
+      )) as SensitiveRule[];
+      setRules(savedRules);
+      setIsDirty(false);
+    } catch (error) {
+      console.error('Failed to load sensitive-content rules:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const updateRule = (id: string, changes: Partial<SensitiveRule>) => {
+    setRules((prev) =>
+      prev.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)),
+    );
+    setIsDirty(true);
+    setSaveError(null);
+  };
+
+  const handleAddRule = () => {
+    setRules((prev) => [
+      {
+        id: `rule-${Date.now()}`,
+        enabled: true,
+        list: 'deny',
+        field: 'any',
+        match: 'contains',
+        pattern: '',
+        action: 'pause',
+      },
+      ...prev,
+    ]);
+    setIsDirty(true);
+  };
+
+  const handleRemoveRule = (id: string) => {
+    setRules((prev) => prev.filter((rule) => rule.id !== id));
+    setIsDirty(true);
+    setSaveError(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const savedRules = (await window.electron.ipcRenderer.invoke(
+        'save-sensitive-rules',
+        rules,
+      )) as SensitiveRule[];
+      setRules(savedRules);
+      setIsDirty(false);
+    } catch (error) {
+      console.error('Failed to save sensitive-content rules:', error);
+      setSaveError(
+        error instanceof Error ? error.message : 'Failed to save rules',
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      const defaultRules = (await window.electron.ipcRenderer.invoke(
+        'reset-sensitive-rules',
+      )) as SensitiveRule[];
+      setRules(defaultRules);
+      setIsDirty(false);
+      setSaveError(null);
+    } catch (error) {
+      console.error('Failed to reset sensitive-content rules:', error);
+    }
+  };
+
+  const hasInvalidRules = rules.some((rule) => getRuleError(rule) !== null);
+
+  const inputClass = `rounded-md border px-2 py-1.5 text-[11px] font-mono focus:outline-none disabled:opacity-40 ${
+    isDark
+      ? 'bg-industrial-black-primary border-industrial-border text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
+  const secondaryButtonClass = `px-4 py-2 rounded-lg text-[10px] uppercase tracking-industrial-wide font-mono font-bold transition-all hover-lift ${
+    isDark
+      ? 'bg-industrial-black-secondary border border-industrial-border text-industrial-white-secondary hover:text-white'
+      : 'bg-white border border-gray-300 text-gray-700 hover:text-gray-900 hover:border-gray-400'
+  }`;
+
+  return (
+    <main
+      className={`min-h-0 ${isDark ? 'bg-industrial-black-primary' : 'bg-white'}`}
+    >
+      <div className="py-6">
+        {/* Page Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+          <h1
+            className={`text-2xl font-mono font-light tracking-tight ${isDark ? 'text-white' : 'text-gray-900'}`}
+          >
+            SETTINGS
+          </h1>
+        </div>
+
+        {/* Sensitive content rules */}
+        <section
+          className={`rounded-lg border p-5 ${isDark ? 'bg-industrial-black-secondary border-industrial-border' : 'bg-gray-50 border-gray-200'}`}
+        >
+          <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 mb-5">
+            <div>
+              <h2
+                className={`text-[11px] uppercase tracking-industrial-wide font-mono font-bold mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`}
+              >
+                Sensitive Content
+              </h2>
+              <p
+                className={`text-xs font-mono max-w-xl ${isDark ? 'text-industrial-white-tertiary' : 'text-gray-500'}`}
+              >
+                Deny rules pause recording, skip or blur frames while a matching
+                window is active. Allow rules exempt matching windows from every
+                deny rule.
+              </p>
+            </div>
+            <div className="flex gap-2 flex-shrink-0">
+              <button
+                type="button"
+                onClick={handleReset}
+                className={secondaryButtonClass}
+              >
+                Reset Defaults
+              </button>
+              <button
+                type="button"
+                onClick={handleAddRule}
+                className={`${secondaryButtonClass} flex items-center gap-1.5`}
+              >
+                <Plus className="w-3 h-3" strokeWidth={2} />
+                Add Rule
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={!isDirty || isSaving || hasInvalidRules}
+                className={`px-4 py-2 rounded-lg text-[10px] uppercase tracking-industrial-wide font-mono font-bold transition-all border disabled:opacity-50 disabled:cursor-not-allowed ${
+                  isDark
+                    ? 'bg-industrial-orange text-black border-industrial-orange/20 shadow-industrial'
+                    : 'bg-blue-500 text-white border-blue-600 hover:bg-blue-600'
+                }`}
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+
+          <WindowDetectionNotice />
+
+          {saveError ? (
+            <p
+              className={`mb-4 text-xs font-mono ${isDark ? 'text-red-400' : 'text-red-600'}`}
+            >
+              {saveError}
+            </p>
+          ) : null}
+
+          {!isLoading && rules.length === 0 ? (
+            <p
+              className={`text-xs font-mono ${isDark ? 'text-industrial-white-tertiary' : 'text-gray-500'}`}
+            >
+              No rules. Nothing will be paused, skipped or blurred.
+            </p>
+          ) : null}
+
+          <div className="space-y-2">
+            {rules.map((rule) => {
+              const ruleError = getRuleError(rule);
+              return (
+                <div
+                  key={rule.id}
+                  className={`rounded-lg border p-2 ${
+                    isDark
+                      ? 'bg-industrial-black-tertiary border-industrial-border-subtle'
+                      : 'bg-white border-gray-200'
+                  } ${rule.enabled ? '' : 'opacity-60'}`}
+                >
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input
+                      type="checkbox"
+                      aria-label="Enabled"
+                      checked={rule.enabled}
+                      onChange={(event) =>
+                        updateRule(rule.id, { enabled: event.target.checked })
+                      }
+                    />
+                    <select
+                      aria-label="List"
+                      value={rule.list}
+                      onChange={(event) =>
+                        updateRule(rule.id, {
+                          list: event.target.value as SensitiveRuleList,
+                        })
+                      }
+                      className={inputClass}
+                    >
+                      {LIST_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      aria-label="Field"
+                      value={rule.field}
+                      onChange={(event) =>
+                        updateRule(rule.id, {
+                          field: event.target.value as SensitiveRuleField,
+                        })
+                      }
+                      className={inputClass}
+                    >
+                      {FIELD_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      aria-label="Match"
+                      value={rule.match}
+                      onChange={(event) =>
+                        updateRule(rule.id, {
+                          match: event.target.value as SensitiveRuleMatch,
+                        })
+                      }
+                      className={inputClass}
+                    >
+                      {MATCH_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      aria-label="Pattern"
+                      value={rule.pattern}
+                      placeholder="Pattern"
+                      onChange={(event) =>
+                        updateRule(rule.id, { pattern: event.target.value })
+                      }
+                      className={`${inputClass} flex-1 min-w-[160px]`}
+                    />
+                    <select
+                      aria-label="Action"
+                      value={rule.action}
+                      disabled={rule.list === 'allow'}
+                      onChange={(event) =>
+                        updateRule(rule.id, {
+                          action: event.target.value as SensitiveAction,
+                        })
+                      }
+                      className={inputClass}
+                    >
+                      {ACTION_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      aria-label="Remove rule"
+                      onClick={() => handleRemoveRule(rule.id)}
+                      className={`p-1.5 rounded-md transition-colors ${isDark ? 'text-industrial-white-tertiary hover:text-industrial-red' : 'text-gray-500 hover:text-red-600'}`}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" strokeWidth={1.5} />
+                    </button>
+                  </div>
+                  {ruleError ? (
+                    <p
+                      className={`mt-1 ml-6 text-[10px] font-mono ${isDark ? 'text-red-400' : 'text-red-600'}`}
+                    >
+                      {ruleError}
+                    </p>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        </section>
+
+        <RedactionSettingsSection />
+
+        <ImageEncodingSettingsSection />
+
+        <CaptureRateSettingsSection />
+
+        <AutoPauseSettingsSection />
+
+        <SessionSplitSettingsSection />
+
+        <InputRecordingSettingsSection />
+
+        <UploadSettingsSection />
+      </div>
+    </main>
+  );
+}
+
+export default Settings;
@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { useTheme } from '../../contexts/ThemeContext';
+
+interface WindowDetectionStatus {
+  available: boolean;
+  backend: string | null;
+  hint: string | null;
+}
+
+/**
+ * Warn that sensitive content rules have nothing to match against when the
+ * active window can't be detected, e.g. under Wayland without a supported
+ * compositor interface.
+ */
+function WindowDetectionNotice() {
+  const { isDark } = useTheme();
+  const [status, setStatus] = useState<WindowDetectionStatus | null>(null);
+
+  useEffect(() => {
+    const loadStatus = async () => {
+      try {
+        const current = (await window.electron.ipcRenderer.invoke(
+          'get-window-detection-status',
+        )) as WindowDetectionStatus;
+        setStatus(current);
+      } catch (error) {
+        console.error('Failed to load window detection status:', error);
+      }
+    };
+
+    loadStatus();
+  }, []);
+
+  if (!status || status.available) return null;
+
+  return (
+    <div
+      role="alert"
+      className={`mb-4 p-3 rounded border font-mono text-xs space-y-1 ${
+        isDark
+          ? 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400'
+          : 'bg-yellow-50 border-yellow-200 text-yellow-700'
+      }`}
+    >
+      <p className="font-bold">Active window detection is unavailable.</p>
+      <p>
+        These rules can&apos;t be applied, so sensitive windows will be recorded
+        like any other.
+      </p>
+      {status.hint ? <p>{status.hint}</p> : null}
+    </div>
+  );
+}
+
+export default WindowDetectionNotice;
@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+
+type Channel = Parameters<typeof window.electron.ipcRenderer.invoke>[0];
+
+/**
+ * Load one settings object from the main process and save edits back to it,
+ * the way every section on the Settings page does. `name` is only used in
+ * logged errors.
+ */
+export default function useSettingsSection<T extends object>(
+  getChannel: Channel,
+  saveChannel: Channel,
+  name: string,
+) {
+  const [settings, setSettings] = useState<T | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const saved = (await window.electron.ipcRenderer.invoke(
+          getChannel,
+        )) as T;
+        setSettings(saved);
+      } catch (error) {
+        console.error(`Failed to load ${name}:`, error);
+      }
+    };
+
+    loadSettings();
+  }, [getChannel, name]);
+
+  const update = (changes: Partial<T> | ((prev: T) => Partial<T>)) => {
+    setSettings((prev) => {
+      if (!prev) return prev;
+      const next = typeof changes === 'function' ? changes(prev) : changes;
+      return { ...prev, ...next };
+    });
+    setIsDirty(true);
+    setSaveError(null);
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const saved = (await window.electron.ipcRenderer.invoke(
+        saveChannel,
+        settings,
+      )) as T;
+      setSettings(saved);
+      setIsDirty(false);
+    } catch (error) {
+      console.error(`Failed to save ${name}:`, error);
+      setSaveError(
+        error instanceof Error ? error.message : 'Failed to save settings',
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return { settings, isDirty, isSaving, saveError, update, handleSave };
+}
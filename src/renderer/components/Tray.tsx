@@ -49,11 +49,49 @@ interface SessionSummary {
   duration: number;
 }
 
-interface CaptureResult {
-  windowName: string;
-  timestamp: string;
-  thumbnail: string;
-  screenshot: string;
+interface CaptureStatus {
+  state: 'idle' | 'recording' | 'paused';
+  sessionId: number | null;
+}
+
+interface RecordingSource {
+  id: string;
+  type: 'window' | 'screen';
+  displayIds?: string[]; // Several displays recorded together; empty means all
+}
+
+// Beyond this many displays only "All Displays" is offered, not every subset.
+const MAX_DISPLAYS_FOR_SUBSETS = 4;
+
+/**
+ * Multi-display choices for the Display dropdown: every combination of two or
+ * more displays, with the full set (recorded as "every display") last.
+ */
+function getDisplayGroups(
+  displays: Display[],
+): { name: string; displayIds: string[] }[] {
+  if (displays.length < 2) return [];
+
+  const groups: { name: string; displayIds: string[] }[] = [];
+  if (displays.length <= MAX_DISPLAYS_FOR_SUBSETS) {
+    // Every subset, ordered as if counting in binary with display 0 lowest.
+    const subsets = displays.reduce<Display[][]>(
+      (acc, display) => [...acc, ...acc.map((subset) => [...subset, display])],
+      [[]],
+    );
+    subsets
+      .filter(
+        (members) => members.length >= 2 && members.length < displays.length,
+      )
+      .forEach((members) => {
+        groups.push({
+          name: members.map((display) => display.name).join(' + '),
+          displayIds: members.map((display) => display.id),
+        });
+      });
+  }
+  groups.push({ name: 'All Displays', displayIds: [] });
+  return groups;
 }
 
 function Tray({ onStartEarning }: TrayProps): JSX.Element {
@@ -61,6 +99,10 @@ function Tray({ onStartEarning }: TrayProps): JSX.Element {
   const [activeTab, setActiveTab] = useState('passive');
   const [displays, setDisplays] = useState<Display[]>([]);
   const [selectedDisplay, setSelectedDisplay] = useState<string>('');
+  // Set when several displays are recorded together instead of one.
+  const [selectedDisplayIds, setSelectedDisplayIds] = useState<string[] | null>(
+    null,
+  );
   const [activeWindows, setActiveWindows] = useState<Window[]>([]);
   const [selectedWindow, setSelectedWindow] = useState<string | null>(null);
   const [useWindowRecording, setUseWindowRecording] = useState(false);
@@ -71,17 +113,9 @@ function Tray({ onStartEarning }: TrayProps): JSX.Element {
   const [currentSessionId, setCurrentSessionId] = useState<number | null>(null);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [selectedTaskId, setSelectedTaskId] = useState<number | null>(null);
-  const captureInterval = useRef<ReturnType<typeof setInterval> | null>(null);
   const lastCapturedWindowId = useRef<string | null>(null);
-  const [lastCapture, setLastCapture] = useState<{
-    windowName: string;
-    timestamp: string;
-    thumbnail: string;
-  } | null>(null);
-  const [recordingSource, setRecordingSource] = useState<{
-    id: string;
-    type: 'window' | 'screen';
-  } | null>(null);
+  const [recordingSource, setRecordingSource] =
+    useState<RecordingSource | null>(null);
   const hasTaskContext = selectedTaskId !== null;
 
   const clearTaskContext = useCallback(() => {
@@ -292,95 +326,53 @@ function Tray({ onStartEarning }: TrayProps): JSX.Element {
     };
   }, []);
 
-  const handlePauseRecording = () => {
-    if (captureInterval.current) {
-      clearInterval(captureInterval.current);
-      captureInterval.current = null;
-    }
-    window.electron.ipcRenderer.sendMessage('pause-recording');
-  };
-
-  const handleResumeRecording = () => {
-    window.electron.ipcRenderer.sendMessage('resume-recording');
-    // Restart capture interval
-    startCaptureInterval(currentSessionId ?? undefined);
-  };
-
-  const captureActiveWindow = useCallback(
-    async (sessionId: number, source?: { id: string; type: 'window' | 'screen' }) => {
-      const sourceToCapture = source || recordingSource;
-      if (!sourceToCapture) {
-        console.log('[TRAY] No source to capture');
+  useEffect(() => {
+    // Capture runs in the main process, so pick up a recording that was
+    // already in progress when this window (re)loaded.
+    const applyCaptureStatus = (status: CaptureStatus) => {
+      if (status.state === 'idle' || status.sessionId === null) {
+        setIsRecording(false);
+        setIsPaused(false);
+        setCurrentSessionId(null);
         return;
       }
+      setIsRecording(true);
+      setIsPaused(status.state === 'paused');
+      setCurrentSessionId(status.sessionId);
+    };
 
+    const restoreCaptureStatus = async () => {
       try {
-        const sourceId = sourceToCapture.id;
-        console.log(`[TRAY] Capturing session ${sessionId}, source: ${sourceId}`);
-
-        const capture = await window.electron.ipcRenderer.invoke(
-          'capture-window',
-          sourceId,
-          sourceToCapture.type,
-        ) as CaptureResult | null;
-
-        if (capture) {
-          console.log(`[TRAY] Capture success, saving...`);
-
-          setLastCapture({
-            windowName: capture.windowName,
-            timestamp: capture.timestamp,
-            thumbnail: capture.thumbnail,
-          });
-
-          const saveResult = await window.electron.ipcRenderer.invoke('save-recording', {
-            session_id: sessionId,
-            timestamp: capture.timestamp,
-            window_name: capture.windowName,
-            window_id: sourceId,
-            thumbnail: capture.thumbnail,
-            screenshot: capture.screenshot,
-            type: hasTaskContext ? 'tasked' : 'passive',
-          });
-          console.log(`[TRAY] Saved recording ID: ${saveResult}`);
-        } else {
-          console.log('[TRAY] Capture returned null');
-        }
+        const status = (await window.electron.ipcRenderer.invoke(
+          'get-capture-status',
+        )) as CaptureStatus | null;
+        if (status) applyCaptureStatus(status);
       } catch (error) {
-        console.error('[TRAY] Capture error:', error);
+        console.error('Failed to get capture status:', error);
       }
-    },
-    [recordingSource, hasTaskContext],
-  );
-
-  const startCaptureInterval = useCallback(
-    (sessionId?: number, source?: { id: string; type: 'window' | 'screen' }) => {
-      const activeSessionId = sessionId || currentSessionId;
-      const sourceToUse = source || recordingSource;
+    };
 
-      if (!activeSessionId || !sourceToUse) {
-        console.log('[TRAY] Cannot start capture - missing sessionId or source');
-        return;
-      }
+    restoreCaptureStatus();
 
-      // Clear any existing interval
-      if (captureInterval.current) {
-        clearInterval(captureInterval.current);
-        captureInterval.current = null;
-      }
+    const captureStatusListener = window.electron.ipcRenderer.on(
+      'capture-status',
+      (status) => {
+        applyCaptureStatus(status as CaptureStatus);
+      },
+    );
 
-      console.log(`[TRAY] Starting 1/second capture for session ${activeSessionId}`);
+    return () => {
+      captureStatusListener?.();
+    };
+  }, []);
 
-      // Capture immediately
-      captureActiveWindow(activeSessionId, sourceToUse);
+  const handlePauseRecording = () => {
+    window.electron.ipcRenderer.sendMessage('pause-recording');
+  };
 
-      // Then capture every 1 second
-      captureInterval.current = setInterval(() => {
-        captureActiveWindow(activeSessionId, sourceToUse);
-      }, 1000);
-    },
-    [currentSessionId, recordingSource, captureActiveWindow],
-  );
+  const handleResumeRecording = () => {
+    window.electron.ipcRenderer.sendMessage('resume-recording');
+  };
 
   const formatTime = (seconds: number): string => {
     const minutes = Math.floor(seconds / 60);
@@ -388,14 +380,30 @@ function Tray({ onStartEarning }: TrayProps): JSX.Element {
     return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
   };
 
-  const displayOptions = displays.map((display) => display.name);
+  const displayGroups = getDisplayGroups(displays);
+  const displayOptions = [
+    ...displays.map((display) => display.name),
+    ...displayGroups.map((group) => group.name),
+  ];
   const windowOptions = activeWindows.map((window) => window.name);
 
   const handleDisplayChange = async (displayName: string) => {
+    const group = displayGroups.find((g) => g.name === displayName);
+    if (group) {
+      setSelectedDisplayIds(group.displayIds);
+      setRecordingSource({
+        id: 'displays',
+        type: 'screen',
+        displayIds: group.displayIds,
+      });
+      return;
+    }
+
     const display = displays.find((d) => d.name === displayName);
 
     if (display && display.screenSourceId) {
       setSelectedDisplay(display.id);
+      setSelectedDisplayIds(null);
 
       // Use the screen source ID directly from the display
       setRecordingSource({
@@ -448,8 +456,15 @@ function Tray({ onStartEarning }: TrayProps): JSX.Element {
     }
   };
 
+  const selectedDisplayGroupName = selectedDisplayIds
+    ? displayGroups.find(
+        (group) => group.displayIds.join(',') === selectedDisplayIds.join(','),
+      )?.name
+    : undefined;
   const selectedDisplayName =
-    displays.find((d) => d.id === selectedDisplay)?.name || 'Main Display';
+    selectedDisplayGroupName ||
+    displays.find((d) => d.id === selectedDisplay)?.name ||
+    'Main Display';
   const selectedWindowName = useWindowRecording
     ? activeWindows.find((w) => w.id === selectedWindow)?.name || (activeWindows.length > 0 ? activeWindows[0].name : 'Select Window')
     : 'Entire screen';
@@ -459,6 +474,15 @@ function Tray({ onStartEarning }: TrayProps): JSX.Element {
       // Determine the source to use
       let sourceToUse = recordingSource;
 
+      if (!sourceToUse && selectedDisplayIds) {
+        sourceToUse = {
+          id: 'displays',
+          type: 'screen' as const,
+          displayIds: selectedDisplayIds,
+        };
+        setRecordingSource(sourceToUse);
+      }
+
       if (!sourceToUse) {
         // No window selected - use the selected display for screen recording
         const selectedDisplayObj = displays.find((d) => d.id === selectedDisplay);
@@ -494,18 +518,25 @@ function Tray({ onStartEarning }: TrayProps): JSX.Element {
 
       console.log('[TRAY] Session created:', sessionId);
 
+      // The main process captures, saves and paces frames from here on. It
+      // refuses to start over sensitive content and removes the session.
+      const started = (await window.electron.ipcRenderer.invoke(
+        'start-recording',
+        sessionId,
+        sourceToUse,
+      )) as boolean;
+
+      if (!started) {
+        console.log('[TRAY] Recording was not started');
+        return;
+      }
+
       // Set recording state
       setIsRecording(true);
       setIsPaused(false);
       setElapsedTime(0);
       setCurrentSessionId(sessionId);
 
-      // Notify main process
-      window.electron.ipcRenderer.sendMessage('start-recording', sessionId);
-
-      // Start 1/second capture interval
-      startCaptureInterval(sessionId, sourceToUse);
-
       console.log('[TRAY] Recording started');
     } catch (error) {
       console.error('[TRAY] Failed to start recording:', error);
@@ -517,11 +548,6 @@ function Tray({ onStartEarning }: TrayProps): JSX.Element {
 
   const handleStopRecording = async () => {
     try {
-      if (captureInterval.current) {
-        clearInterval(captureInterval.current);
-        captureInterval.current = null;
-      }
-
       const sessionIdToOpen = currentSessionId;
 
       if (currentSessionId) {
@@ -553,14 +579,6 @@ function Tray({ onStartEarning }: TrayProps): JSX.Element {
     }
   };
 
-  useEffect(() => {
-    return () => {
-      if (captureInterval.current) {
-        clearInterval(captureInterval.current);
-      }
-    };
-  }, []);
-
   return (
     <div className={`w-full max-w-[305px] p-5 min-h-screen ${isDark ? 'bg-industrial-black-primary' : 'bg-white'}`}>
       {/* Header */}
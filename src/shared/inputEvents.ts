@@ -0,0 +1,81 @@
+import { parseComparableTimestamp } from './sessionTimeline';
+
+export type InputEventType = 'click' | 'scroll' | 'key';
+
+/**
+ * What kind of key was pressed. Typed characters are all `text`, so the
+ * log shows that someone typed without saying what.
+ */
+export type KeyCategory =
+  | 'text'
+  | 'enter'
+  | 'tab'
+  | 'escape'
+  | 'editing'
+  | 'navigation'
+  | 'function'
+  | 'shortcut'
+  | 'other';
+
+export interface InputEvent {
+  id?: number;
+  session_id: number;
+  type: InputEventType;
+  timestamp: string;
+  /** Screen position of clicks and scrolls. */
+  x: number | null;
+  y: number | null;
+  button: string | null;
+  /** Wheel notches, positive scrolling down or right. */
+  scroll_dx: number | null;
+  scroll_dy: number | null;
+  key_category: KeyCategory | null;
+  /** Null for typed text unless the user turned masking off. */
+  key_name: string | null;
+  /** Held modifiers, e.g. `ctrl+shift`. */
+  modifiers: string | null;
+}
+
+/** An input event placed on the Editor timeline, in seconds from the first frame. */
+export interface TimelineInputEvent {
+  time: number;
+  type: InputEventType;
+}
+
+export interface InputEventCounts {
+  click: number;
+  scroll: number;
+  key: number;
+}
+
+/**
+ * Place input events on a timeline that measures seconds from the session's
+ * first frame, dropping any from before it.
+ */
+export function toTimelineInputEvents(
+  events: Pick<InputEvent, 'type' | 'timestamp'>[],
+  firstTimestamp: number | null,
+): TimelineInputEvent[] {
+  if (firstTimestamp === null) return [];
+
+  return events.flatMap((event): TimelineInputEvent[] => {
+    const time = parseComparableTimestamp(event.timestamp);
+    if (time === null || time < firstTimestamp) return [];
+    return [{ time: (time - firstTimestamp) / 1000, type: event.type }];
+  });
+}
+
+/** e.g. "2 clicks, 14 keys", for a timeline marker's tooltip. */
+export function describeInputEventCounts(counts: InputEventCounts): string {
+  const parts: string[] = [];
+  if (counts.click > 0) {
+    parts.push(`${counts.click} click${counts.click === 1 ? '' : 's'}`);
+  }
+  if (counts.scroll > 0) {
+    parts.push(`${counts.scroll} scroll${counts.scroll === 1 ? '' : 's'}`);
+  }
+  if (counts.key > 0) {
+    parts.push(`${counts.key} key${counts.key === 1 ? '' : 's'}`);
+  }
+  return parts.join(', ');
+}
@@ -0,0 +1,139 @@
+import { parseComparableTimestamp } from './sessionTimeline';
+
+export type SessionEventType = 'start' | 'pause' | 'resume' | 'stop';
+
+/**
+ * Why a session paused or stopped. `interrupted` marks the app dying
+ * mid-recording; `recovered` marks recording resumed after that. Locks,
+ * sleep and idle pauses resume with the same reason once they end.
+ * `session_split` stops a session that carried on in a new one.
+ */
+export type SessionEventReason =
+  | 'manual'
+  | 'sensitive_content'
+  | 'screen_locked'
+  | 'system_suspended'
+  | 'idle'
+  | 'interrupted'
+  | 'recovered'
+  | 'session_split';
+
+export interface SessionEvent {
+  id?: number;
+  session_id: number;
+  type: SessionEventType;
+  reason: SessionEventReason | null;
+  created_at: string;
+}
+
+/** A stretch of a session during which nothing was recorded. */
+export interface PauseSegment {
+  startedAt: string;
+  /** Null while the session is still paused. */
+  endedAt: string | null;
+  durationSeconds: number | null;
+  reason: SessionEventReason | null;
+}
+
+/** A pause placed on the Editor timeline, in seconds from the first frame. */
+export interface TimelinePause {
+  start: number;
+  end: number | null;
+  durationSeconds: number | null;
+  reason: SessionEventReason | null;
+}
+
+const PAUSE_REASON_LABELS: Record<SessionEventReason, string> = {
+  manual: 'Paused',
+  sensitive_content: 'Paused for sensitive content',
+  screen_locked: 'Screen locked',
+  system_suspended: 'Computer asleep',
+  idle: 'Idle',
+  interrupted: 'App closed unexpectedly',
+  recovered: 'Resumed after recovery',
+  session_split: 'Continued in a new session',
+};
+
+export function getPauseReasonLabel(reason: SessionEventReason | null): string {
+  return reason ? PAUSE_REASON_LABELS[reason] : 'Paused';
+}
+
+/**
+ * Pair pause events with whatever ended them: a resume, a stop, or a fresh
+ * start. Repeated pauses while already paused keep the first one's reason.
+ */
+export function buildPauseSegments(events: SessionEvent[]): PauseSegment[] {
+  const sorted = events
+    .map((event, index) => ({
+      event,
+      index,
+      time: parseComparableTimestamp(event.created_at),
+    }))
+    .filter(
+      (entry): entry is typeof entry & { time: number } => entry.time !== null,
+    )
+    .sort((left, right) => left.time - right.time || left.index - right.index);
+
+  const segments: PauseSegment[] = [];
+  let open: {
+    startedAt: string;
+    time: number;
+    reason: SessionEventReason | null;
+  } | null = null;
+
+  sorted.forEach(({ event, time }) => {
+    if (event.type === 'pause') {
+      if (!open) {
+        open = { startedAt: event.created_at, time, reason: event.reason };
+      }
+      return;
+    }
+
+    if (open) {
+      segments.push({
+        startedAt: open.startedAt,
+        endedAt: event.created_at,
+        durationSeconds: Math.max(0, Math.round((time - open.time) / 1000)),
+        reason: open.reason,
+      });
+      open = null;
+    }
+  });
+
+  if (open) {
+    const { startedAt, reason } = open;
+    segments.push({ startedAt, endedAt: null, durationSeconds: null, reason });
+  }
+
+  return segments;
+}
+
+/**
+ * Place pauses on a timeline that measures seconds from the session's first
+ * frame, dropping any that ended before it.
+ */
+export function toTimelinePauses(
+  segments: PauseSegment[],
+  firstTimestamp: number | null,
+): TimelinePause[] {
+  if (firstTimestamp === null) return [];
+
+  return segments.flatMap((segment): TimelinePause[] => {
+    const startedAt = parseComparableTimestamp(segment.startedAt);
+    const endedAt = parseComparableTimestamp(segment.endedAt);
+    if (startedAt === null) return [];
+    if (endedAt !== null && endedAt <= firstTimestamp) return [];
+
+    return [
+      {
+        start: Math.max(0, Math.floor((startedAt - firstTimestamp) / 1000)),
+        end:
+          endedAt === null
+            ? null
+            : Math.max(0, Math.floor((endedAt - firstTimestamp) / 1000)),
+        durationSeconds: segment.durationSeconds,
+        reason: segment.reason,
+      },
+    ];
+  });
+}
@@ -13,6 +13,13 @@ export interface TimelineItem<T extends TimestampedItem> {
   time: number;
 }
 
+// Where a page of items sits within the whole timeline, so later pages keep
+// measuring time from the session's first frame.
+export interface TimelineOrigin {
+  firstTimestamp: number | null;
+  startIndex: number;
+}
+
 export const parseComparableTimestamp = (
   timestamp: string | null | undefined,
 ): number | null => {
@@ -22,6 +29,7 @@ export const parseComparableTimestamp = (
 
 export function buildTimestampTimeline<T extends TimestampedItem>(
   items: T[],
+  origin?: TimelineOrigin,
 ): TimelineItem<T>[] {
   if (items.length === 0) return [];
 
@@ -41,8 +49,10 @@ export function buildTimestampTimeline<T extends TimestampedItem>(
     });
 
   const firstTimestamp =
+    origin?.firstTimestamp ??
     sortedItems.find((entry) => entry.parsedTimestamp !== null)?.parsedTimestamp ??
     null;
+  const startIndex = origin?.startIndex ?? 0;
 
   return sortedItems.map((entry, index) => ({
     item: entry.item,
@@ -52,7 +62,7 @@ export function buildTimestampTimeline<T extends TimestampedItem>(
             0,
             Math.floor((entry.parsedTimestamp - firstTimestamp) / 1000),
           )
-        : index,
+        : startIndex + index,
   }));
 }
 
@@ -0,0 +1,19 @@
+-- =====================================================
+-- RECORDING REDACTIONS MIGRATION
+-- Run this in your Supabase SQL Editor
+-- =====================================================
+
+-- Lists what the desktop app covered up in a frame before upload
+-- (e.g. {region,email,card_number,sensitive_window}). NULL means unaltered.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'recordings'
+    AND column_name = 'redactions'
+  ) THEN
+    ALTER TABLE public.recordings ADD COLUMN redactions TEXT[];
+    RAISE NOTICE 'Added redactions column';
+  END IF;
+END $$;
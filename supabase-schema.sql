@@ -94,7 +94,8 @@ CREATE TABLE IF NOT EXISTS public.recordings (
   thumbnail_url TEXT NOT NULL,
   screenshot_url TEXT NOT NULL,
   type TEXT NOT NULL CHECK (type IN ('passive', 'tasked')),
-  label TEXT
+  label TEXT,
+  redactions TEXT[]
 );
 
 -- Create indexes